@@ -1,8 +1,97 @@
-import { render, screen } from '@testing-library/react';
-import App from './App';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import App, { AppRoutes } from './App';
+import SessionProvider from './session/SessionProvider';
+import { clearSessionTokens, storeSessionTokens } from './session/tokens';
+import { authApi } from './api/auth';
+import { getDb, resetDb } from './mocks/db';
+import { enableMockApi } from './mocks/server';
 
-test('renders learn react link', () => {
+const renderAt = (path) =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <SessionProvider>
+        <AppRoutes />
+      </SessionProvider>
+    </MemoryRouter>
+  );
+
+beforeAll(() => {
+  enableMockApi({ delay: 0 });
+});
+
+beforeEach(() => {
+  resetDb();
+  clearSessionTokens();
+});
+
+test('redirects the root URL to the login screen', () => {
   render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+  expect(window.location.pathname).toBe('/login');
+  expect(screen.getByRole('button', { name: 'Sign In' })).toBeInTheDocument();
+});
+
+test('navigates from login to sign up and back', () => {
+  renderAt('/login');
+  fireEvent.click(screen.getByRole('button', { name: 'Sign Up' }));
+  expect(screen.getAllByText('Create an account').length).toBeGreaterThan(0);
+
+  fireEvent.click(screen.getByRole('button', { name: 'Sign In' }));
+  expect(screen.getByRole('button', { name: 'Sign In' })).toHaveAttribute('type', 'submit');
+});
+
+test('sends logged-out visitors of protected URLs to login', () => {
+  renderAt('/onboarding/team');
+  expect(screen.getByRole('button', { name: 'Sign In' })).toBeInTheDocument();
+  expect(screen.queryByRole('heading', { name: 'Add your Team' })).not.toBeInTheDocument();
+});
+
+test('sends unknown URLs back to login', () => {
+  renderAt('/nowhere');
+  expect(screen.getByRole('button', { name: 'Sign In' })).toBeInTheDocument();
+});
+
+test('restores a saved session on load instead of asking to log in again', async () => {
+  const { tokens } = await authApi.login({ email: 'alex@powernest.dev', password: 'Password1', rememberMe: true });
+  storeSessionTokens(tokens, true);
+
+  renderAt('/welcome-back');
+  expect(await screen.findByText(/Last login:/)).toBeInTheDocument();
+  expect(screen.queryByRole('button', { name: 'Sign In' })).not.toBeInTheDocument();
+});
+
+test('offers a new reset link when the one in the email has been used', async () => {
+  await authApi.requestPasswordReset('alex@powernest.dev');
+  const token = getDb().passwordResets[0].token;
+  await authApi.resetPassword({ token, password: 'NewPassword1' });
+
+  renderAt(`/reset-password/${token}`);
+  expect(await screen.findByText(/already been used/)).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole('button', { name: 'Request a new link' }));
+  expect(screen.getByRole('button', { name: 'Send Reset Link' })).toBeInTheDocument();
+});
+
+test('shows the check-your-inbox screen after sign-up and verifies from the link', async () => {
+  const { tokens } = await authApi.signUp({ email: 'new@founder.dev', password: 'Solar-Panel-42', agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+
+  renderAt('/verify-email');
+  expect(await screen.findByText('Check your inbox')).toBeInTheDocument();
+  expect(screen.getByRole('button', { name: /Resend email in \d+s/ })).toBeDisabled();
+
+  const token = getDb().emailVerifications[0].token;
+  renderAt(`/verify-email/${token}`);
+  expect(await screen.findByText('Email verified')).toBeInTheDocument();
+});
+
+test('shows why sign-up was turned down next to the field', async () => {
+  renderAt('/signup');
+  fireEvent.change(screen.getByLabelText('Email'), { target: { value: 'alex@powernest.dev' } });
+  fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'Solar-Panel-42' } });
+  fireEvent.click(screen.getByRole('checkbox'));
+  fireEvent.click(screen.getByRole('button', { name: 'Sign Up' }));
+
+  expect(await screen.findByText('An account with this email already exists')).toBeInTheDocument();
+  expect(screen.getByText('An account with this email already exists.')).toBeInTheDocument();
 });
@@ -1,259 +1,436 @@
-<<<<<<< HEAD
-// import React from 'react';
-// import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
-// import SignUp from'./components/SignUp';
-// import './App.css';
-// import './index.css';
-
-// function App() {
-//   return (
-//     <Router>
-//       <Routes>
-//         <Route path="/" element={<SignUp />} />
-//       </Routes>
-//     </Router>
-//   );
-// }
-
-// export default App;
-// Dashboard code
-// import React from 'react'
-// import Dashboard from './components/Dashboard'
-
-// function App() {
-//   return (
-//     <div>
-//       <Dashboard/>
-//     </div>
-//   )
-// }
-
-// export default App
-
-
 import { useState } from 'react';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation, useNavigate } from 'react-router-dom';
 import LoginForm from './components/LoginForm';
 import SignUpForm from './components/SignUpForm';
 import Dashboard from './components/Dashboard';
-=======
-import React from 'react';
-import { useState } from 'react';
-import LoginForm from './components/LoginForm';
-import SignUpForm from './components/SignUpForm';
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
 import ForgotPasswordForm from './components/ForgotPasswordForm';
+import ResetPasswordForm from './components/ResetPasswordForm';
+import CheckInbox from './components/CheckInbox';
+import VerifyEmail from './components/VerifyEmail';
 import RoleSelectionForm from './components/RoleSelectionForm';
 import WelcomeBackPage from './components/WelcomeBackPage';
 import BasicInfoForm from './components/BasicInfoForm';
 import StartupProfileForm from './components/StartupProfileForm';
 import DocumentUploadForm from './components/DocumentUploadForm';
 import AddTeamForm from './components/AddTeamForm';
+import OnboardingReview from './components/OnboardingReview';
+import FounderProfilePage from './components/FounderProfilePage';
+import InvestorDetailsForm from './components/InvestorOnboarding/InvestorDetailsForm';
+import InvestmentFocusForm from './components/InvestorOnboarding/InvestmentFocusForm';
+import PortfolioForm from './components/InvestorOnboarding/PortfolioForm';
+import AccreditationForm from './components/InvestorOnboarding/AccreditationForm';
 import AssessmentIntroduction from './components/AssessmentIntroduction';
 import PsychologicalAssessment from './components/PsychologicalAssessment';
 import CompletionPage from './components/CompletionPage';
+import IdleTimeoutWarning from './components/IdleTimeoutWarning';
+import OAuthCallback from './components/OAuthCallback';
+import LinkAccountForm from './components/LinkAccountForm';
+import TwoFactorForm from './components/TwoFactorForm';
+import Settings from './components/Settings/Settings';
+import TwoFactorSetup from './components/Settings/TwoFactorSetup';
+import Sections from './components/Sections/index';
+import DashboardSection from './components/Sections/DashboardSection';
+import MockIdentityProvider from './mocks/MockIdentityProvider';
+import { paths } from './routes/paths';
+import { onboardingApi } from './api/onboarding';
+import { documentsApi } from './api/documents';
+import { assessmentApi } from './api/assessment';
+import { getErrorMessage } from './api/client';
+import {
+  Accreditation,
+  AssessmentAnswers,
+  BasicInfo,
+  InvestmentFocus,
+  InvestorDetails,
+  OnboardingResponse,
+  PortfolioCompany,
+  StartupLogo,
+  StartupProfile,
+  TeamMember,
+  UserRole,
+} from './api/types';
+import { ProcessedLogo } from './images/logo';
+import { StartupProfileFormData, toStartupProfile } from './onboarding/schemas';
+import { discardDraft } from './onboarding/useOnboardingDraft';
+import { OnboardingStep, nextStepPath, onboardingFlows, onboardingSteps, previousStepPath } from './routes/onboarding';
+import { RequireAuth, RequireOnboarded, RequireOnboardingStep } from './routes/guards';
+import SessionProvider from './session/SessionProvider';
+import { useSession } from './session/useSession';
 
-<<<<<<< HEAD
-type AppState = 'login' | 'signup' | 'forgot-password' | 'role-selection' | 'welcome-back' | 'basic-info' | 'startup-profile' | 'document-upload' | 'add-team' | 'assessment-intro' | 'assessment' | 'complete'|'dashboard';
-=======
-type AppState = 'login' | 'signup' | 'forgot-password' | 'role-selection' | 'welcome-back' | 'basic-info' | 'startup-profile' | 'document-upload' | 'add-team' | 'assessment-intro' | 'assessment' | 'complete';
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
+// Each size goes up as a document of its own; the profile records which is which.
+const uploadLogo = async ({ renditions, ...logo }: ProcessedLogo): Promise<StartupLogo> => ({
+  ...logo,
+  renditions: await Promise.all(
+    renditions.map(async ({ file, width, height }) => ({
+      documentId: (await documentsApi.upload(file, 'logo')).id,
+      width,
+      height,
+      type: file.type,
+    }))
+  ),
+});
 
-function App() {
-  const [currentState, setCurrentState] = useState<AppState>('login');
-  const [userData, setUserData] = useState<any>(null);
+export function AppRoutes() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { user, status, updateUser } = useSession();
+  const onboarding = user?.onboarding;
+  const role = user?.role ?? null;
+  // Why the last save failed, for the step it belongs to.
+  const [stepError, setStepError] = useState<{ step: OnboardingStep; message: string } | null>(null);
+  const errorFor = (step: OnboardingStep) => (stepError?.step === step ? stepError.message : null);
+  // What a step last saved, sent along by the review's edit links.
+  const savedAnswers = <T,>() => (location.state as { saved?: T } | null)?.saved;
+
+  const handleLoginSuccess = () => {
+    navigate(paths.welcomeBack);
+  };
+
+  const handleTwoFactorRequired = (challengeToken: string, rememberMe: boolean) => {
+    navigate(paths.twoFactor, { state: { challengeToken, rememberMe } });
+  };
 
-  const handleLoginSuccess = (user: any) => {
-    setUserData(user);
-    setCurrentState('welcome-back');
+  // Records the progress the server sent back and moves on to the next step of
+  // the role's flow, or back to the review when the step was opened from there.
+  const advanceOnboarding = (step: OnboardingStep, { onboarding }: OnboardingResponse) => {
+    setStepError(null);
+    updateUser({ onboarding });
+    const returnTo = (location.state as { returnTo?: string } | null)?.returnTo;
+    navigate(returnTo ?? (role ? nextStepPath(role, step) : paths.roleSelection));
+  };
+
+  // Saves one onboarding step, drops its draft and moves on; on failure the user
+  // stays on the step, which shows why, to retry.
+  const saveOnboardingStep = async (step: OnboardingStep, save: () => Promise<OnboardingResponse>) => {
+    setStepError(null);
+    try {
+      const response = await save();
+      discardDraft(user?.id ?? 'anonymous', step);
+      advanceOnboarding(step, response);
+    } catch (error) {
+      console.error('Onboarding error:', error);
+      setStepError({ step, message: getErrorMessage(error, 'We could not save this step. Please try again.') });
+    }
   };
 
   const handleSignUp = () => {
-    setCurrentState('signup');
+    navigate(paths.signup);
   };
 
   const handleForgotPassword = () => {
-    setCurrentState('forgot-password');
+    navigate(paths.forgotPassword);
   };
 
   const handleBackToLogin = () => {
-    setCurrentState('login');
+    navigate(paths.login);
   };
 
   const handleSignUpSuccess = () => {
-    setCurrentState('role-selection');
+    navigate(paths.checkInbox);
   };
 
-  const handleRoleSelectionComplete = () => {
-    setCurrentState('basic-info');
+  const handleCheckInboxContinue = () => {
+    navigate(paths.roleSelection);
   };
 
-  const handleProceedToApp = () => {
-<<<<<<< HEAD
-    // setCurrentState('basic-info');
-     setCurrentState('dashboard');
-=======
-    setCurrentState('basic-info');
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
+  // Signed-in users carry on where they were; the guards send anyone still
+  // onboarding back to their current step.
+  const handleEmailVerifiedContinue = () => {
+    navigate(user ? paths.dashboard : paths.login);
   };
 
-  const handleBasicInfoNext = (data: any) => {
-    console.log('Basic info data:', data);
-    setCurrentState('startup-profile');
+  // Founders and investors onboard through different steps.
+  const handleRoleSelectionComplete = (selectedRole: UserRole) => {
+    navigate(onboardingSteps[onboardingFlows[selectedRole][0]].path);
   };
 
-  const handleBasicInfoBack = () => {
-    setCurrentState('role-selection');
+  // Back follows the flow too, so reordering steps needs no changes here.
+  const handleStepBack = (step: OnboardingStep) => () => {
+    setStepError(null);
+    navigate(role ? previousStepPath(role, step) : paths.roleSelection);
   };
 
-  const handleStartupProfileNext = (data: any) => {
-    console.log('Startup profile data:', data);
-    setCurrentState('document-upload');
+  const handleProceedToApp = () => {
+    navigate(paths.dashboard);
   };
 
-  const handleStartupProfileBack = () => {
-    setCurrentState('basic-info');
-  };
+  const handleBasicInfoNext = (data: BasicInfo) =>
+    saveOnboardingStep('basicInfo', () => onboardingApi.saveBasicInfo(data));
 
-  const handleDocumentUploadNext = (data: any) => {
-    console.log('Document upload data:', data);
-    setCurrentState('add-team');
-  };
+  const handleStartupProfileNext = (values: StartupProfileFormData) =>
+    saveOnboardingStep('startupProfile', async () => {
+      const logo = values.logo ? await uploadLogo(values.logo) : undefined;
+      return onboardingApi.saveStartupProfile({ ...toStartupProfile(values), logo });
+    });
 
-  const handleDocumentUploadBack = () => {
-    setCurrentState('startup-profile');
-  };
+  // The form uploads each file as it is dropped, so only the step is left to complete.
+  const handleDocumentUploadNext = () =>
+    saveOnboardingStep('documentUpload', () => onboardingApi.completeDocuments());
 
-  const handleAddTeamNext = (data: any) => {
-    console.log('Team data:', data);
-    setCurrentState('assessment-intro');
-  };
+  const handleAddTeamNext = (data: { teamMembers: TeamMember[] }) =>
+    saveOnboardingStep('addTeam', () => onboardingApi.saveTeam(data.teamMembers));
 
-  const handleAddTeamBack = () => {
-    setCurrentState('document-upload');
-  };
+  // The review submits itself so it can point at the steps that need work.
+  const handleReviewSubmitted = (response: OnboardingResponse) => advanceOnboarding('review', response);
+
+  const handleInvestorDetailsNext = (data: InvestorDetails) =>
+    saveOnboardingStep('investorDetails', () => onboardingApi.saveInvestorDetails(data));
+
+  const handleInvestmentFocusNext = (data: InvestmentFocus) =>
+    saveOnboardingStep('investmentFocus', () => onboardingApi.saveInvestmentFocus(data));
+
+  const handlePortfolioNext = (data: { companies: PortfolioCompany[] }) =>
+    saveOnboardingStep('portfolio', () => onboardingApi.savePortfolio(data.companies));
+
+  const handleAccreditationNext = (data: Accreditation) =>
+    saveOnboardingStep('accreditation', () => onboardingApi.saveAccreditation(data));
 
   const handleStartAssessment = () => {
-    setCurrentState('assessment');
+    navigate(paths.assessment);
   };
 
-  const handleSkipAssessment = () => {
-    setCurrentState('complete');
-  };
+  const handleSkipAssessment = () =>
+    saveOnboardingStep('assessment', () => assessmentApi.submit({ skipped: true }));
 
-  const handleAssessmentComplete = (answers: any) => {
-    console.log('Assessment answers:', answers);
-    setCurrentState('complete');
-  };
+  const handleAssessmentComplete = (answers: AssessmentAnswers) =>
+    saveOnboardingStep('assessment', () => assessmentApi.submit({ answers }));
 
   const handleGoToDashboard = () => {
-    console.log('Redirecting to dashboard...');
-<<<<<<< HEAD
-    setCurrentState('dashboard'); 
-=======
-    // In a real app, this would redirect to the main dashboard
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
+    navigate(paths.dashboard);
   };
-  const renderCurrentState = () => {
-    switch (currentState) {
-      case 'login':
-        return (
-          <LoginForm 
+
+  // Hold the routes back until a saved session has been restored, otherwise the
+  // guards would bounce a signed-in user to the login page on every reload.
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <Routes>
+      <Route path="/" element={<Navigate to={paths.login} replace />} />
+      <Route
+        path={paths.login}
+        element={
+          <LoginForm
             onForgotPassword={handleForgotPassword}
             onSignUp={handleSignUp}
             onLoginSuccess={handleLoginSuccess}
+            onTwoFactorRequired={handleTwoFactorRequired}
           />
-        );
-      case 'signup':
-        return (
-          <SignUpForm 
+        }
+      />
+      <Route
+        path={paths.twoFactor}
+        element={<TwoFactorForm onVerified={handleLoginSuccess} onBackToLogin={handleBackToLogin} />}
+      />
+      <Route
+        path={paths.signup}
+        element={
+          <SignUpForm
+            onSignIn={handleBackToLogin}
             onForgotPassword={handleForgotPassword}
             onSignUpSuccess={handleSignUpSuccess}
           />
-        );
-      case 'forgot-password':
-        return (
-          <ForgotPasswordForm 
+        }
+      />
+      <Route
+        path={paths.forgotPassword}
+        element={<ForgotPasswordForm onBackToLogin={handleBackToLogin} />}
+      />
+      <Route
+        path={paths.resetPassword}
+        element={
+          <ResetPasswordForm
+            onResetSuccess={handleLoginSuccess}
+            onTwoFactorRequired={handleTwoFactorRequired}
+            onRequestNewLink={handleForgotPassword}
             onBackToLogin={handleBackToLogin}
           />
-        );
-      case 'role-selection':
-        return (
-          <RoleSelectionForm 
-            onComplete={handleRoleSelectionComplete}
+        }
+      />
+      <Route path={paths.verifyEmail} element={<VerifyEmail onContinue={handleEmailVerifiedContinue} />} />
+      <Route path={paths.oauthCallback} element={<OAuthCallback />} />
+      <Route
+        path={paths.linkAccount}
+        element={
+          <LinkAccountForm
+            onLinked={handleLoginSuccess}
+            onTwoFactorRequired={handleTwoFactorRequired}
+            onCancel={handleBackToLogin}
           />
-        );
-      case 'welcome-back':
-        return (
-          <WelcomeBackPage 
-            userData={userData}
-            onProceedToApp={handleProceedToApp}
+        }
+      />
+      {process.env.REACT_APP_USE_MOCK_API === 'true' && (
+        <Route path={paths.mockIdentityProvider} element={<MockIdentityProvider />} />
+      )}
+      <Route element={<RequireAuth user={user} />}>
+        <Route
+          path={paths.welcomeBack}
+          element={<WelcomeBackPage userData={user!} onProceedToApp={handleProceedToApp} />}
+        />
+        <Route path={paths.checkInbox} element={<CheckInbox onContinue={handleCheckInboxContinue} />} />
+        <Route
+          path={paths.roleSelection}
+          element={<RoleSelectionForm onComplete={handleRoleSelectionComplete} />}
+        />
+        <Route element={<RequireOnboardingStep step="basicInfo" role={role} progress={onboarding} />}>
+          <Route
+            path={paths.basicInfo}
+            element={
+              <BasicInfoForm
+                onNext={handleBasicInfoNext}
+                onBack={handleStepBack('basicInfo')}
+                error={errorFor('basicInfo')}
+                saved={savedAnswers<BasicInfo>()}
+              />
+            }
           />
-        );
-      case 'basic-info':
-        return (
-          <BasicInfoForm 
-            onNext={handleBasicInfoNext}
-            onBack={handleBasicInfoBack}
+        </Route>
+        <Route element={<RequireOnboardingStep step="startupProfile" role={role} progress={onboarding} />}>
+          <Route
+            path={paths.startupProfile}
+            element={
+              <StartupProfileForm
+                onNext={handleStartupProfileNext}
+                onBack={handleStepBack('startupProfile')}
+                error={errorFor('startupProfile')}
+                saved={savedAnswers<StartupProfile>()}
+              />
+            }
           />
-        );
-      case 'startup-profile':
-        return (
-          <StartupProfileForm 
-            onNext={handleStartupProfileNext}
-            onBack={handleStartupProfileBack}
+        </Route>
+        <Route element={<RequireOnboardingStep step="documentUpload" role={role} progress={onboarding} />}>
+          <Route
+            path={paths.documentUpload}
+            element={
+              <DocumentUploadForm
+                onNext={handleDocumentUploadNext}
+                onBack={handleStepBack('documentUpload')}
+                error={errorFor('documentUpload')}
+              />
+            }
           />
-        );
-      case 'document-upload':
-        return (
-          <DocumentUploadForm 
-            onNext={handleDocumentUploadNext}
-            onBack={handleDocumentUploadBack}
+        </Route>
+        <Route element={<RequireOnboardingStep step="addTeam" role={role} progress={onboarding} />}>
+          <Route
+            path={paths.addTeam}
+            element={
+              <AddTeamForm
+                onNext={handleAddTeamNext}
+                onBack={handleStepBack('addTeam')}
+                error={errorFor('addTeam')}
+              />
+            }
           />
-        );
-      case 'add-team':
-        return (
-          <AddTeamForm 
-            onNext={handleAddTeamNext}
-            onBack={handleAddTeamBack}
+        </Route>
+        <Route element={<RequireOnboardingStep step="review" role={role} progress={onboarding} />}>
+          <Route
+            path={paths.review}
+            element={<OnboardingReview onSubmitted={handleReviewSubmitted} onBack={handleStepBack('review')} />}
           />
-        );
-      case 'assessment-intro':
-        return (
-          <AssessmentIntroduction 
-            onStartAssessment={handleStartAssessment}
-            onSkip={handleSkipAssessment}
+        </Route>
+        <Route element={<RequireOnboardingStep step="investorDetails" role={role} progress={onboarding} />}>
+          <Route
+            path={paths.investorDetails}
+            element={
+              <InvestorDetailsForm
+                onNext={handleInvestorDetailsNext}
+                onBack={handleStepBack('investorDetails')}
+                error={errorFor('investorDetails')}
+              />
+            }
           />
-        );
-      case 'assessment':
-        return (
-          <PsychologicalAssessment 
-            onComplete={handleAssessmentComplete}
-            onSkip={handleSkipAssessment}
+        </Route>
+        <Route element={<RequireOnboardingStep step="investmentFocus" role={role} progress={onboarding} />}>
+          <Route
+            path={paths.investmentFocus}
+            element={
+              <InvestmentFocusForm
+                onNext={handleInvestmentFocusNext}
+                onBack={handleStepBack('investmentFocus')}
+                error={errorFor('investmentFocus')}
+              />
+            }
           />
-        );
-      case 'complete':
-        return (
-          <CompletionPage 
-            onGoToDashboard={handleGoToDashboard}
+        </Route>
+        <Route element={<RequireOnboardingStep step="portfolio" role={role} progress={onboarding} />}>
+          <Route
+            path={paths.portfolio}
+            element={
+              <PortfolioForm
+                onNext={handlePortfolioNext}
+                onBack={handleStepBack('portfolio')}
+                error={errorFor('portfolio')}
+              />
+            }
           />
-        );
-<<<<<<< HEAD
-        case 'dashboard':
-      return <Dashboard userData={userData} />;
-=======
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
-      default:
-        return (
-          <LoginForm 
-            onForgotPassword={handleForgotPassword}
-            onSignUp={handleSignUp}
-            onLoginSuccess={handleLoginSuccess}
+        </Route>
+        <Route element={<RequireOnboardingStep step="accreditation" role={role} progress={onboarding} />}>
+          <Route
+            path={paths.accreditation}
+            element={
+              <AccreditationForm
+                onNext={handleAccreditationNext}
+                onBack={handleStepBack('accreditation')}
+                error={errorFor('accreditation')}
+              />
+            }
           />
-        );
-    }
-  };
+        </Route>
+        <Route element={<RequireOnboardingStep step="assessment" role={role} progress={onboarding} />}>
+          <Route
+            path={paths.assessmentIntro}
+            element={
+              <AssessmentIntroduction
+                onStartAssessment={handleStartAssessment}
+                onSkip={handleSkipAssessment}
+                error={errorFor('assessment')}
+              />
+            }
+          />
+          <Route
+            path={paths.assessment}
+            element={
+              <PsychologicalAssessment
+                onComplete={handleAssessmentComplete}
+                onSkip={handleSkipAssessment}
+                error={errorFor('assessment')}
+              />
+            }
+          />
+        </Route>
+        <Route path={paths.founderProfile} element={<FounderProfilePage />} />
+        <Route element={<RequireOnboarded role={role} progress={onboarding} />}>
+          <Route
+            path={paths.complete}
+            element={<CompletionPage onGoToDashboard={handleGoToDashboard} />}
+          />
+          <Route path={paths.dashboard} element={<Dashboard userData={user} />}>
+            <Route index element={<Sections />} />
+            <Route path="settings" element={<Settings />} />
+            <Route path="settings/two-factor" element={<TwoFactorSetup />} />
+            <Route path=":section" element={<DashboardSection />} />
+          </Route>
+        </Route>
+      </Route>
+      <Route path="*" element={<Navigate to={paths.login} replace />} />
+    </Routes>
+  );
+}
 
-  return renderCurrentState();
+function App() {
+  return (
+    <Router>
+      <SessionProvider>
+        <AppRoutes />
+        <IdleTimeoutWarning />
+      </SessionProvider>
+    </Router>
+  );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,7 @@
+import { api, RequestOptions } from './client';
+import { AssessmentSubmission, OnboardingResponse } from './types';
+
+export const assessmentApi = {
+  submit: (submission: AssessmentSubmission, options?: RequestOptions) =>
+    api.post<OnboardingResponse>('/assessment', submission, options),
+};
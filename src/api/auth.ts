@@ -0,0 +1,104 @@
+import { api, RequestOptions } from './client';
+import {
+  AuthSession,
+  AuthSessionResponse,
+  ConfirmOAuthLinkRequest,
+  LoginRequest,
+  OAuthExchangeRequest,
+  OAuthLinkRequiredResponse,
+  OAuthProvider,
+  OAuthSessionResponse,
+  PasswordResetToken,
+  ResetPasswordRequest,
+  SessionTokens,
+  SignUpRequest,
+  VerifiedEmail,
+  TwoFactorChallenge,
+  TwoFactorSessionResponse,
+  User,
+  UserResponse,
+  VerifyTwoFactorRequest,
+} from './types';
+
+export const parseUser = (user: UserResponse): User => ({
+  ...user,
+  lastLogin: new Date(user.lastLogin),
+});
+
+const parseSession = ({ user, tokens }: AuthSessionResponse): AuthSession => ({
+  user: parseUser(user),
+  tokens,
+});
+
+const parseOAuthSession = (response: OAuthSessionResponse) => ({
+  ...parseSession(response),
+  profile: response.profile,
+  isNewUser: response.isNewUser,
+});
+
+export const isTwoFactorChallenge = (response: object): response is TwoFactorChallenge =>
+  'twoFactorRequired' in response;
+
+export const authApi = {
+  login: async (credentials: LoginRequest, options?: RequestOptions) => {
+    const response = await api.post<AuthSessionResponse | TwoFactorChallenge>('/auth/login', credentials, options);
+    return isTwoFactorChallenge(response) ? response : parseSession(response);
+  },
+
+  // Second sign-in step for accounts with two-factor authentication.
+  verifyTwoFactor: async (request: VerifyTwoFactorRequest, options?: RequestOptions) => {
+    const response = await api.post<TwoFactorSessionResponse>('/auth/2fa/verify', request, options);
+    return { ...parseSession(response), trustedDeviceToken: response.trustedDeviceToken };
+  },
+
+  signUp: async (details: SignUpRequest, options?: RequestOptions) =>
+    parseSession(await api.post<AuthSessionResponse>('/auth/signup', details, options)),
+
+  // Trades the authorization code from the identity provider for a session, or
+  // for a link token when the email already has a password account.
+  // The backend checks the PKCE verifier against the challenge sent earlier.
+  exchangeOAuthCode: async (provider: OAuthProvider, request: OAuthExchangeRequest, options?: RequestOptions) => {
+    const response = await api.post<OAuthSessionResponse | OAuthLinkRequiredResponse | TwoFactorChallenge>(
+      `/auth/oauth/${provider}`,
+      request,
+      options
+    );
+    return 'linkRequired' in response || isTwoFactorChallenge(response) ? response : parseOAuthSession(response);
+  },
+
+  confirmOAuthLink: async (request: ConfirmOAuthLinkRequest, options?: RequestOptions) => {
+    const response = await api.post<OAuthSessionResponse | TwoFactorChallenge>('/auth/oauth/link', request, options);
+    return isTwoFactorChallenge(response) ? response : parseOAuthSession(response);
+  },
+
+  me: async (options?: RequestOptions) =>
+    parseUser(await api.get<UserResponse>('/auth/me', options)),
+
+  // Sent without an access token: it is the call that gets a new one.
+  refresh: (refreshToken: string, options?: RequestOptions) =>
+    api.post<SessionTokens>('/auth/refresh', { refreshToken }, { ...options, skipAuth: true }),
+
+  logout: (refreshToken: string | null, options?: RequestOptions) =>
+    api.post<void>('/auth/logout', { refreshToken }, options),
+
+  // Works without a session, since the link may be opened on another device.
+  verifyEmail: (token: string, options?: RequestOptions) =>
+    api.post<VerifiedEmail>('/auth/email/verify', { token }, options),
+
+  // Rate limited: fails with rate_limited and retryAfter when called too soon.
+  resendVerificationEmail: (options?: RequestOptions) =>
+    api.post<void>('/auth/email/resend', undefined, options),
+
+  requestPasswordReset: (email: string, options?: RequestOptions) =>
+    api.post<void>('/auth/password/forgot', { email }, options),
+
+  // Fails with reset_token_expired or reset_token_used when the link no longer works.
+  checkPasswordResetToken: (token: string, options?: RequestOptions) =>
+    api.get<PasswordResetToken>(`/auth/password/reset/${encodeURIComponent(token)}`, options),
+
+  // Sets the new password and signs in, which still asks for the second factor when it is on.
+  resetPassword: async (request: ResetPasswordRequest, options?: RequestOptions) => {
+    const response = await api.post<AuthSessionResponse | TwoFactorChallenge>('/auth/password/reset', request, options);
+    return isTwoFactorChallenge(response) ? response : parseSession(response);
+  },
+};
@@ -0,0 +1,52 @@
+import { AxiosAdapter, AxiosError, AxiosHeaders, InternalAxiosRequestConfig } from 'axios';
+import { api, apiClient, ApiError, isCancelledRequest, setAccessTokenProvider } from './client';
+
+const respondWith = (status: number, data: unknown): AxiosAdapter => async (config) => {
+  const response = { status, statusText: '', data, headers: {}, config };
+  if (status >= 400) {
+    throw new AxiosError('Request failed', undefined, config, undefined, response);
+  }
+  return response;
+};
+
+const originalAdapter = apiClient.defaults.adapter;
+
+afterEach(() => {
+  apiClient.defaults.adapter = originalAdapter;
+  setAccessTokenProvider(() => null);
+});
+
+test('sends the access token as a Bearer header', async () => {
+  let seen: InternalAxiosRequestConfig | undefined;
+  apiClient.defaults.adapter = async (config) => {
+    seen = config;
+    return respondWith(200, { ok: true })(config);
+  };
+  setAccessTokenProvider(() => 'token-123');
+
+  await expect(api.get('/ping')).resolves.toEqual({ ok: true });
+  expect(AxiosHeaders.from(seen!.headers).get('Authorization')).toBe('Bearer token-123');
+});
+
+test('turns the error envelope into an ApiError', async () => {
+  apiClient.defaults.adapter = respondWith(422, {
+    error: { code: 'validation_failed', message: 'Check the form', fields: { email: 'Already taken' } },
+  });
+
+  const error = await api.post('/auth/signup', {}).catch((e) => e);
+  expect(error).toBeInstanceOf(ApiError);
+  expect(error).toMatchObject({
+    status: 422,
+    code: 'validation_failed',
+    message: 'Check the form',
+    fields: { email: 'Already taken' },
+  });
+});
+
+test('passes cancellations through untouched', async () => {
+  const controller = new AbortController();
+  controller.abort();
+
+  const error = await api.get('/jobs/applicants', { signal: controller.signal }).catch((e) => e);
+  expect(isCancelledRequest(error)).toBe(true);
+});
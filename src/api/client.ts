@@ -0,0 +1,147 @@
+import axios, { AxiosError, AxiosRequestConfig } from 'axios';
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Leave out the Authorization header, e.g. for the token refresh call itself.
+    skipAuth?: boolean;
+  }
+}
+
+// The backend wraps every failure in the same envelope:
+// { "error": { "code": "invalid_credentials", "message": "...", "fields": { "email": "..." } } }
+interface ErrorEnvelope {
+  error?: {
+    code?: string;
+    message?: string;
+    fields?: Record<string, string>;
+    // Seconds until a rate-limited call may be retried.
+    retryAfter?: number;
+  };
+}
+
+/**
+ * Error thrown by every API call that reached the server (or failed to).
+ * `fields` carries per-field validation messages so forms can show them inline.
+ */
+export class ApiError extends Error {
+  status: number;
+  code: string;
+  fields: Record<string, string>;
+  retryAfter?: number;
+
+  constructor(
+    message: string,
+    status = 0,
+    code = 'unknown_error',
+    fields: Record<string, string> = {},
+    retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.fields = fields;
+    this.retryAfter = retryAfter;
+  }
+}
+
+// No default Content-Type: axios sends JSON for plain objects and leaves
+// FormData uploads alone so the browser can add the multipart boundary.
+export const apiClient = axios.create({
+  baseURL: process.env.REACT_APP_API_URL || '/api',
+});
+
+type AccessTokenProvider = () => string | null | Promise<string | null>;
+
+let accessTokenProvider: AccessTokenProvider = () => null;
+
+/**
+ * Registers where the client reads the current access token from. The token is
+ * sent as a Bearer header on every request while the provider returns one; an
+ * async provider may refresh the token first.
+ */
+export const setAccessTokenProvider = (provider: AccessTokenProvider) => {
+  accessTokenProvider = provider;
+};
+
+apiClient.interceptors.request.use(async (config) => {
+  const token = config.skipAuth ? null : await accessTokenProvider();
+  if (token) {
+    config.headers.set('Authorization', `Bearer ${token}`);
+  }
+  return config;
+});
+
+export const toApiError = (error: unknown): ApiError => {
+  if (error instanceof ApiError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error)) {
+    const axiosError = error as AxiosError<ErrorEnvelope>;
+    const status = axiosError.response?.status ?? 0;
+    const envelope = axiosError.response?.data?.error;
+
+    if (envelope) {
+      return new ApiError(
+        envelope.message || 'Something went wrong. Please try again.',
+        status,
+        envelope.code,
+        envelope.fields,
+        envelope.retryAfter
+      );
+    }
+
+    if (!axiosError.response) {
+      return new ApiError('Unable to reach the server. Check your connection and try again.', 0, 'network_error');
+    }
+
+    return new ApiError('Something went wrong. Please try again.', status);
+  }
+
+  return new ApiError(error instanceof Error ? error.message : 'Something went wrong. Please try again.');
+};
+
+apiClient.interceptors.response.use(
+  (response) => response,
+  (error) => {
+    // Cancelled requests are expected (e.g. a component unmounted), so callers
+    // get the original error and can ignore it with isCancelledRequest().
+    if (axios.isCancel(error)) {
+      return Promise.reject(error);
+    }
+    return Promise.reject(toApiError(error));
+  }
+);
+
+export const isCancelledRequest = (error: unknown) => axios.isCancel(error);
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  skipAuth?: boolean;
+}
+
+const request = async <T>(config: AxiosRequestConfig): Promise<T> => {
+  const response = await apiClient.request<T>(config);
+  return response.data;
+};
+
+export const api = {
+  get: <T>(url: string, options: RequestOptions & { params?: Record<string, unknown> } = {}) =>
+    request<T>({ method: 'GET', url, ...options }),
+  post: <T>(url: string, data?: unknown, options: RequestOptions = {}) =>
+    request<T>({ method: 'POST', url, data, ...options }),
+  put: <T>(url: string, data?: unknown, options: RequestOptions = {}) =>
+    request<T>({ method: 'PUT', url, data, ...options }),
+  patch: <T>(url: string, data?: unknown, options: RequestOptions = {}) =>
+    request<T>({ method: 'PATCH', url, data, ...options }),
+  delete: <T>(url: string, options: RequestOptions = {}) =>
+    request<T>({ method: 'DELETE', url, ...options }),
+};
+
+/**
+ * Picks the message to show for a failed call: the server's own message when it
+ * sent one, otherwise the caller's fallback.
+ */
+export const getErrorMessage = (error: unknown, fallback: string) =>
+  error instanceof ApiError && error.code !== 'unknown_error' ? error.message : fallback;
@@ -0,0 +1,17 @@
+import { api, RequestOptions } from './client';
+import { DocumentKind, UploadedDocument } from './types';
+
+export const documentsApi = {
+  list: (options?: RequestOptions) =>
+    api.get<UploadedDocument[]>('/documents', options),
+
+  upload: (file: File, kind: DocumentKind, options?: RequestOptions) => {
+    const body = new FormData();
+    body.append('file', file);
+    body.append('kind', kind);
+    return api.post<UploadedDocument>('/documents', body, options);
+  },
+
+  remove: (id: string, options?: RequestOptions) =>
+    api.delete<void>(`/documents/${id}`, options),
+};
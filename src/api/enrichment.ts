@@ -0,0 +1,8 @@
+import { api, RequestOptions } from './client';
+import { SiteMetadata } from './types';
+
+export const enrichmentApi = {
+  // Fetched by the backend, which the site's CORS rules would not stop.
+  lookupSite: (url: string, options?: RequestOptions) =>
+    api.get<SiteMetadata>('/enrichment/site', { ...options, params: { url } }),
+};
@@ -0,0 +1,7 @@
+import { api, RequestOptions } from './client';
+import { FounderProfile } from './types';
+
+export const foundersApi = {
+  getProfile: (id: string, options?: RequestOptions) =>
+    api.get<FounderProfile>(`/founders/${id}`, options),
+};
@@ -0,0 +1,15 @@
+import { api, RequestOptions } from './client';
+import { ConnectedAccounts, OAuthExchangeRequest, OAuthProvider } from './types';
+
+export const identitiesApi = {
+  list: (options?: RequestOptions) =>
+    api.get<ConnectedAccounts>('/auth/identities', options),
+
+  // Same code + verifier exchange as sign-in, but attaches the identity to the
+  // signed-in account instead of starting a session.
+  link: (provider: OAuthProvider, request: OAuthExchangeRequest, options?: RequestOptions) =>
+    api.post<ConnectedAccounts>(`/auth/identities/${provider}`, request, options),
+
+  unlink: (provider: OAuthProvider, options?: RequestOptions) =>
+    api.delete<ConnectedAccounts>(`/auth/identities/${provider}`, options),
+};
@@ -0,0 +1,7 @@
+import { api, RequestOptions } from './client';
+import { JobApplicant } from './types';
+
+export const jobsApi = {
+  listApplicants: (options?: RequestOptions) =>
+    api.get<JobApplicant[]>('/jobs/applicants', options),
+};
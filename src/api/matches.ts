@@ -0,0 +1,7 @@
+import { api, RequestOptions } from './client';
+import { Match } from './types';
+
+export const matchesApi = {
+  list: (options?: RequestOptions) =>
+    api.get<Match[]>('/matches', options),
+};
@@ -0,0 +1,66 @@
+import { OnboardingStep } from '../routes/onboarding';
+import { api, RequestOptions } from './client';
+import {
+  Accreditation,
+  BasicInfo,
+  FounderReview,
+  InvestmentFocus,
+  InvestorDetails,
+  OnboardingDraft,
+  OnboardingResponse,
+  PortfolioCompany,
+  RoleResponse,
+  StartupProfile,
+  TeamMember,
+  UserRole,
+} from './types';
+
+// Each call saves one onboarding step and returns the user's updated progress.
+export const onboardingApi = {
+  // Comes before the numbered steps, so it answers with the role rather than progress.
+  saveRole: (role: UserRole, options?: RequestOptions) =>
+    api.put<RoleResponse>('/onboarding/role', { role }, options),
+
+  saveBasicInfo: (basicInfo: BasicInfo, options?: RequestOptions) =>
+    api.put<OnboardingResponse>('/onboarding/basic-info', basicInfo, options),
+
+  saveStartupProfile: (profile: StartupProfile, options?: RequestOptions) =>
+    api.put<OnboardingResponse>('/onboarding/startup-profile', profile, options),
+
+  completeDocuments: (options?: RequestOptions) =>
+    api.put<OnboardingResponse>('/onboarding/documents', undefined, options),
+
+  saveTeam: (teamMembers: TeamMember[], options?: RequestOptions) =>
+    api.put<OnboardingResponse>('/onboarding/team', { teamMembers }, options),
+
+  getFounderReview: (options?: RequestOptions) =>
+    api.get<FounderReview>('/onboarding/review', options),
+
+  // Checks the founder steps together once more and completes the review; a
+  // 422 names the steps that still need work in its fields.
+  submitFounderReview: (options?: RequestOptions) =>
+    api.put<OnboardingResponse>('/onboarding/review', undefined, options),
+
+  saveInvestorDetails: (details: InvestorDetails, options?: RequestOptions) =>
+    api.put<OnboardingResponse>('/onboarding/investor/details', details, options),
+
+  saveInvestmentFocus: (focus: InvestmentFocus, options?: RequestOptions) =>
+    api.put<OnboardingResponse>('/onboarding/investor/focus', focus, options),
+
+  savePortfolio: (companies: PortfolioCompany[], options?: RequestOptions) =>
+    api.put<OnboardingResponse>('/onboarding/investor/portfolio', { companies }, options),
+
+  saveAccreditation: (accreditation: Accreditation, options?: RequestOptions) =>
+    api.put<OnboardingResponse>('/onboarding/investor/accreditation', accreditation, options),
+
+  // Drafts leave progress alone; null means nothing has been saved for the step yet.
+  getDraft: <T>(step: OnboardingStep, options?: RequestOptions) =>
+    api.get<OnboardingDraft<T> | null>(`/onboarding/drafts/${step}`, options),
+
+  saveDraft: <T>(step: OnboardingStep, data: T, options?: RequestOptions) =>
+    api.put<OnboardingDraft<T>>(`/onboarding/drafts/${step}`, { data }, options),
+
+  // Once the step itself is saved the draft has nothing left to restore.
+  deleteDraft: (step: OnboardingStep, options?: RequestOptions) =>
+    api.delete<void>(`/onboarding/drafts/${step}`, options),
+};
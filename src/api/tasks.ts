@@ -0,0 +1,7 @@
+import { api, RequestOptions } from './client';
+import { Task } from './types';
+
+export const tasksApi = {
+  list: (options?: RequestOptions) =>
+    api.get<Task[]>('/tasks', options),
+};
@@ -0,0 +1,20 @@
+import { api, RequestOptions } from './client';
+import { BackupCodes, TwoFactorSetup, TwoFactorStatus } from './types';
+
+export const twoFactorApi = {
+  status: (options?: RequestOptions) =>
+    api.get<TwoFactorStatus>('/auth/2fa', options),
+
+  // Starts enrollment with a fresh secret; nothing changes until enable() confirms a code.
+  setup: (options?: RequestOptions) =>
+    api.post<TwoFactorSetup>('/auth/2fa/setup', undefined, options),
+
+  enable: (code: string, options?: RequestOptions) =>
+    api.post<BackupCodes>('/auth/2fa/enable', { code }, options),
+
+  disable: (code: string, options?: RequestOptions) =>
+    api.post<TwoFactorStatus>('/auth/2fa/disable', { code }, options),
+
+  regenerateBackupCodes: (code: string, options?: RequestOptions) =>
+    api.post<BackupCodes>('/auth/2fa/backup-codes', { code }, options),
+};
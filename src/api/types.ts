@@ -0,0 +1,395 @@
+import { OnboardingProgress, OnboardingStep } from '../routes/onboarding';
+
+export interface Notification {
+  id: number;
+  type: 'message' | 'update' | 'achievement';
+  content: string;
+  time: string;
+}
+
+export interface QuickAction {
+  id: number;
+  title: string;
+  icon: string;
+  description: string;
+}
+
+export type UserRole = 'founder' | 'investor';
+
+// What others see of a user in one workspace. Someone who both founds and
+// invests keeps a separate profile for each role.
+export interface WorkspaceProfile {
+  displayName: string;
+  headline: string;
+}
+
+export interface User {
+  id: string;
+  name: string;
+  email: string;
+  // The active workspace: null until picked on the role selection screen,
+  // otherwise one of `roles`.
+  role: UserRole | null;
+  roles: UserRole[];
+  profiles: Partial<Record<UserRole, WorkspaceProfile>>;
+  lastLogin: Date;
+  // For the active workspace only.
+  notifications: Notification[];
+  quickActions: QuickAction[];
+  onboarding: OnboardingProgress;
+  avatarUrl?: string;
+  // False until the link in the verification email is followed.
+  emailVerified: boolean;
+}
+
+// Dates travel as ISO strings; the API modules turn them back into Date objects.
+export type UserResponse = Omit<User, 'lastLogin'> & { lastLogin: string };
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Lifetime of the access token, in seconds.
+  expiresIn: number;
+}
+
+export interface AuthSession {
+  user: User;
+  tokens: SessionTokens;
+}
+
+export type AuthSessionResponse = Omit<AuthSession, 'user'> & { user: UserResponse };
+
+// Answered instead of a session when the account has two-factor
+// authentication on and the device isn't trusted yet.
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export interface VerifyTwoFactorRequest {
+  challengeToken: string;
+  // A code from the authenticator app, or one of the backup codes.
+  code: string;
+  trustDevice: boolean;
+}
+
+export type TwoFactorSessionResponse = AuthSessionResponse & {
+  // Present when trustDevice was set; send it with later sign-ins to skip the
+  // second step on this device for 30 days.
+  trustedDeviceToken?: string;
+};
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  backupCodesRemaining: number;
+}
+
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface BackupCodes {
+  backupCodes: string[];
+}
+
+export type OAuthProvider = 'google' | 'linkedin';
+
+// Standard OpenID Connect claims, as both Google and LinkedIn return them.
+export interface OAuthProfile {
+  sub: string;
+  email: string;
+  email_verified?: boolean;
+  name?: string;
+  given_name?: string;
+  family_name?: string;
+  picture?: string;
+}
+
+export interface OAuthExchangeRequest {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+  trustedDeviceToken?: string;
+}
+
+export type OAuthSessionResponse = AuthSessionResponse & {
+  profile: OAuthProfile;
+  isNewUser: boolean;
+};
+
+// Answered instead of a session when the provider's email belongs to an
+// existing password account: the user must confirm with that password first.
+export interface OAuthLinkRequiredResponse {
+  linkRequired: true;
+  linkToken: string;
+  email: string;
+}
+
+export interface ConfirmOAuthLinkRequest {
+  linkToken: string;
+  password: string;
+  trustedDeviceToken?: string;
+  // From the challenge widget, once the backend has asked for one.
+  challengeToken?: string;
+}
+
+export interface ConnectedIdentity {
+  provider: OAuthProvider;
+  email: string;
+  connectedAt: string;
+}
+
+export interface ConnectedAccounts {
+  // Without a password, the last identity can't be unlinked.
+  hasPassword: boolean;
+  identities: ConnectedIdentity[];
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+  rememberMe: boolean;
+  trustedDeviceToken?: string;
+  // From the challenge widget, once the backend has asked for one.
+  challengeToken?: string;
+}
+
+export interface SignUpRequest {
+  email: string;
+  password: string;
+  agreeToTerms: boolean;
+}
+
+// Who a password reset link belongs to, so the page can say which account it is for.
+export interface PasswordResetToken {
+  email: string;
+}
+
+export interface VerifiedEmail {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  password: string;
+  trustedDeviceToken?: string;
+}
+
+export interface JobApplicant {
+  id: number;
+  name: string;
+  role: string;
+  date: string;
+  avatar: string;
+}
+
+export interface BasicInfo {
+  fullName: string;
+  startupName: string;
+  // E.164, e.g. "+919876543210".
+  phoneNumber: string;
+  // ISO 3166-1 alpha-2 codes: the country the phone number belongs to, and the founder's.
+  phoneCountry: string;
+  country: string;
+  website: string;
+  linkedin: string;
+}
+
+export type SocialNetwork = 'linkedin' | 'x' | 'facebook' | 'instagram' | 'github' | 'youtube';
+
+// What the enrichment proxy read from a website's home page.
+export interface SiteMetadata {
+  // The page's address after redirects.
+  url: string;
+  title: string;
+  description: string;
+  // og:site_name; empty when the page does not set one.
+  siteName: string;
+  keywords: string[];
+  // Images come inlined as data URLs, so the browser can crop them without a
+  // cross-origin fetch.
+  faviconUrl: string | null;
+  // og:image
+  imageUrl: string | null;
+  socialLinks: Partial<Record<SocialNetwork, string>>;
+}
+
+// How amounts are entered: a number of thousands, millions or billions.
+export type FundingUnit = 'thousand' | 'million' | 'billion';
+
+// An amount as a whole number of the currency's minor units (cents, paise, ...),
+// so it adds up without rounding errors. `currency` is an ISO 4217 code.
+export interface Money {
+  amountMinor: number;
+  currency: string;
+}
+
+export type FundingInstrument = 'safe' | 'equity' | 'convertible-note';
+
+// One round raised so far, each in the currency it was raised in.
+export interface FundingRound {
+  id: string;
+  // From the same stage list as the startup itself.
+  stage: string;
+  // The closing date, yyyy-mm-dd.
+  date: string;
+  amount: Money;
+  // Empty when nobody led the round.
+  leadInvestor: string;
+  instrument: FundingInstrument;
+}
+
+export type LogoAspect = 'square' | 'wide';
+
+// One size of the logo, uploaded as a document of its own.
+export interface LogoRendition {
+  documentId: string;
+  width: number;
+  height: number;
+  // image/webp, or image/png where the browser cannot encode WebP.
+  type: string;
+}
+
+export interface StartupLogo {
+  aspect: LogoAspect;
+  // Whether the logo's edges are see-through, so it can sit on any card colour.
+  transparentBackground: boolean;
+  // Largest first.
+  renditions: LogoRendition[];
+}
+
+// A logo as others see it: each size at an address an image can load from.
+export interface PublicLogo {
+  aspect: LogoAspect;
+  transparentBackground: boolean;
+  // Largest first.
+  renditions: { url: string; width: number; height: number }[];
+}
+
+export interface StartupProfile {
+  sector: string;
+  stage: string;
+  fundingRounds: FundingRound[];
+  currentFundingNeeds: Money;
+  legalEntityType: string;
+  // ISO date (yyyy-mm-dd); empty until the startup is incorporated.
+  incorporationDate: string;
+  logo?: StartupLogo;
+}
+
+export interface TeamMember {
+  id: string;
+  name: string;
+  role: string;
+  linkedin: string;
+}
+
+export type InvestorType = 'angel' | 'firm';
+
+export interface InvestorDetails {
+  investorType: InvestorType;
+  fullName: string;
+  // Empty for angels investing on their own account.
+  firmName: string;
+  title: string;
+  location: string;
+  website: string;
+  linkedin: string;
+}
+
+export interface InvestmentFocus {
+  thesis: string;
+  // Picked from the same lists founders describe their startup with.
+  sectors: string[];
+  stages: string[];
+  // The range of a typical first cheque, both in the same currency.
+  chequeSizeMin: Money;
+  chequeSizeMax: Money;
+}
+
+export interface PortfolioCompany {
+  id: string;
+  name: string;
+  website: string;
+  yearInvested: string;
+}
+
+export type AccreditationBasis = 'income' | 'net-worth' | 'professional' | 'institution';
+
+// The investor's own declaration; nothing is verified at this point.
+export interface Accreditation {
+  basis: AccreditationBasis;
+  declared: boolean;
+}
+
+export type DocumentKind = 'pitchDeck' | 'other' | 'logo';
+
+export interface UploadedDocument {
+  id: string;
+  kind: DocumentKind;
+  name: string;
+  size: number;
+  type: string;
+  uploadedAt: string;
+}
+
+export interface RoleResponse {
+  role: UserRole;
+  roles: UserRole[];
+}
+
+export interface OnboardingResponse {
+  onboarding: OnboardingProgress;
+}
+
+// Everything a founder entered during onboarding, for the review step.
+export interface FounderReview {
+  basicInfo: BasicInfo | null;
+  startupProfile: StartupProfile | null;
+  documents: UploadedDocument[];
+  teamMembers: TeamMember[];
+}
+
+// What any signed-in user, investors above all, can see of a founder's startup.
+export interface FounderProfile {
+  id: string;
+  name: string;
+  startupName: string;
+  sector: string;
+  stage: string;
+  // ISO 3166-1 alpha-2, or empty before basic info is saved.
+  country: string;
+  website: string;
+  fundingRounds: FundingRound[];
+  currentFundingNeeds: Money | null;
+  logo: PublicLogo | null;
+}
+
+// Whatever a user has entered on a step so far, saved before they press Next.
+export interface OnboardingDraft<T = unknown> {
+  step: OnboardingStep;
+  data: T;
+  savedAt: string;
+}
+
+// The option picked for each question, by question id.
+export type AssessmentAnswers = Record<number, number>;
+
+export interface AssessmentSubmission {
+  answers?: AssessmentAnswers;
+  skipped?: boolean;
+}
+
+export interface Task {
+  id: number;
+  date: string;
+  description: string;
+}
+
+export interface Match {
+  id: number;
+  name: string;
+  status: string;
+  matchPercent?: string;
+}
@@ -0,0 +1,15 @@
+import { api, RequestOptions } from './client';
+import { parseUser } from './auth';
+import { UserResponse, UserRole, WorkspaceProfile } from './types';
+
+// Both calls answer with the updated user, whose notifications already belong
+// to the active workspace.
+export const workspacesApi = {
+  // Creates the workspace for a role the user does not hold yet, or updates its profile.
+  saveProfile: async (role: UserRole, profile: WorkspaceProfile, options?: RequestOptions) =>
+    parseUser(await api.put<UserResponse>(`/workspaces/${role}`, profile, options)),
+
+  // Fails with workspace_not_held for a role the user has not added.
+  switchTo: async (role: UserRole, options?: RequestOptions) =>
+    parseUser(await api.post<UserResponse>('/workspaces/active', { role }, options)),
+};
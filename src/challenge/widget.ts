@@ -0,0 +1,21 @@
+import React from 'react';
+
+export interface ChallengeWidgetProps {
+  // Called with the token the backend verifies alongside the login attempt.
+  onSolved: (token: string) => void;
+}
+
+export type ChallengeWidget = React.ComponentType<ChallengeWidgetProps>;
+
+let challengeWidget: ChallengeWidget | null = null;
+
+/**
+ * Registers the human-verification widget (reCAPTCHA, Turnstile, hCaptcha, ...)
+ * that LoginForm shows after repeated failures. Any component that reports a
+ * token through `onSolved` will do; the mock backend registers a local stand-in.
+ */
+export const setChallengeWidget = (widget: ChallengeWidget | null) => {
+  challengeWidget = widget;
+};
+
+export const getChallengeWidget = () => challengeWidget;
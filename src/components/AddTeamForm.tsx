@@ -1,19 +1,17 @@
 import React, { useState } from 'react';
-import { User, Building, Upload, Plus, X, Edit2, Check } from 'lucide-react';
-
-interface TeamMember {
-  id: string;
-  name: string;
-  role: string;
-  linkedin: string;
-}
-
-interface AddTeamFormProps {
+import { User, Plus, X, Edit2 } from 'lucide-react';
+import { TeamMember } from '../api/types';
+import { useOnboardingDraft } from '../onboarding/useOnboardingDraft';
+import DraftSavedStatus from './DraftSavedStatus';
+import { StepError, StepErrorProps } from './OnboardingStepLayout';
+import OnboardingStepper from './OnboardingStepper';
+
+interface AddTeamFormProps extends StepErrorProps {
   onNext: (data: { teamMembers: TeamMember[] }) => void;
   onBack: () => void;
 }
 
-const AddTeamForm: React.FC<AddTeamFormProps> = ({ onNext, onBack }) => {
+const AddTeamForm: React.FC<AddTeamFormProps> = ({ onNext, onBack, error }) => {
   const [teamMembers, setTeamMembers] = useState<TeamMember[]>([]);
   const [currentMember, setCurrentMember] = useState({
     name: '',
@@ -21,6 +19,7 @@ const AddTeamForm: React.FC<AddTeamFormProps> = ({ onNext, onBack }) => {
     linkedin: '',
   });
   const [errors, setErrors] = useState<{ name?: string; role?: string; linkedin?: string }>({});
+  const { status: draftStatus } = useOnboardingDraft('addTeam', teamMembers, setTeamMembers);
 
   const generateId = () => Math.random().toString(36).substr(2, 9);
 
@@ -81,72 +80,18 @@ const AddTeamForm: React.FC<AddTeamFormProps> = ({ onNext, onBack }) => {
     onNext({ teamMembers });
   };
 
-  const sidebarSteps = [
-    { id: 1, title: 'Basic Info', icon: User, active: false, completed: true },
-    { id: 2, title: 'Startup Profile', icon: Building, active: false, completed: true },
-    { id: 3, title: 'Upload Documents', icon: Upload, active: false, completed: true },
-    { id: 4, title: 'Add your Team', icon: User, active: true, completed: false },
-    { id: 5, title: 'Psychological Assessment', icon: User, active: false, completed: false },
-  ];
-
   return (
     <div className="min-h-screen bg-black flex">
-      {/* Sidebar */}
-      <div className="w-[528px] h-screen bg-gray-800/5 rounded-xl p-5 m-10 mr-0">
-        <div className="flex items-center mb-12">
-          <img src="/image.png" alt="Power Nest Logo" className="w-10 h-10 mr-4" />
-          <h1 className="text-2xl font-bold text-white">Power Nest</h1>
-        </div>
-
-        <nav className="space-y-4">
-          {sidebarSteps.map((step) => {
-            const IconComponent = step.icon;
-            return (
-              <div
-                key={step.id}
-                className={`flex items-center p-4 rounded-lg transition-colors ${
-                  step.active
-                    ? 'bg-blue-600/20 border border-blue-500/30'
-                    : step.completed
-                    ? 'bg-green-600/20 border border-green-500/30'
-                    : 'text-gray-500'
-                }`}
-              >
-                <div className={`w-8 h-8 rounded-full flex items-center justify-center mr-4 ${
-                  step.active 
-                    ? 'bg-blue-600' 
-                    : step.completed 
-                    ? 'bg-green-600' 
-                    : 'bg-gray-700'
-                }`}>
-                  {step.completed ? (
-                    <Check className="w-4 h-4 text-white" />
-                  ) : (
-                    <IconComponent className={`w-4 h-4 ${
-                      step.active ? 'text-white' : 'text-gray-400'
-                    }`} />
-                  )}
-                </div>
-                <span className={`font-medium ${
-                  step.active 
-                    ? 'text-white' 
-                    : step.completed 
-                    ? 'text-green-400' 
-                    : 'text-gray-400'
-                }`}>
-                  {step.title}
-                </span>
-              </div>
-            );
-          })}
-        </nav>
-      </div>
+      <OnboardingStepper step="addTeam" />
 
       {/* Main Content */}
       <div className="flex-1 p-10 pl-8">
         <div className="max-w-[898px]">
           <div className="mb-12">
-            <h2 className="text-4xl font-bold text-white mb-2">Add your Team</h2>
+            <div className="flex items-center justify-between mb-2">
+              <h2 className="text-4xl font-bold text-white">Add your Team</h2>
+              <DraftSavedStatus status={draftStatus} />
+            </div>
             <p className="text-gray-400">
               Build your team by adding key members. Include their names, roles, and LinkedIn profiles to showcase your team's expertise.
             </p>
@@ -269,6 +214,8 @@ const AddTeamForm: React.FC<AddTeamFormProps> = ({ onNext, onBack }) => {
               </button>
             </div>
 
+            <StepError error={error} />
+
             {/* Navigation Buttons */}
             <div className="flex justify-between pt-8">
               <button
@@ -1,14 +1,16 @@
 import React from 'react';
 import { Clock, FileText, AlertCircle, Wifi, RefreshCw, Lock } from 'lucide-react';
+import { StepError, StepErrorProps } from './OnboardingStepLayout';
 
-interface AssessmentIntroductionProps {
+interface AssessmentIntroductionProps extends StepErrorProps {
   onStartAssessment: () => void;
   onSkip: () => void;
 }
 
 const AssessmentIntroduction: React.FC<AssessmentIntroductionProps> = ({ 
   onStartAssessment, 
-  onSkip 
+  onSkip,
+  error
 }) => {
   return (
     <div className="min-h-screen bg-black flex items-center justify-center px-8 py-12">
@@ -117,6 +119,11 @@ const AssessmentIntroduction: React.FC<AssessmentIntroductionProps> = ({
         </div>
 
         {/* Action Buttons */}
+        {error && (
+          <div className="mb-6 text-center">
+            <StepError error={error} />
+          </div>
+        )}
         <div className="flex justify-center gap-6">
           <button
             onClick={onSkip}
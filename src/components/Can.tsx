@@ -0,0 +1,21 @@
+import React from 'react';
+import { Permission } from '../session/permissions';
+import { usePermission } from '../session/usePermission';
+
+interface CanProps {
+  permission: Permission;
+  // Shown instead of the children when the permission is missing.
+  fallback?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders its children only for users holding `permission`, e.g.
+ * <Can permission="job:post"><PostJobButton /></Can>.
+ */
+const Can: React.FC<CanProps> = ({ permission, fallback = null, children }) => {
+  const allowed = usePermission(permission);
+  return <>{allowed ? children : fallback}</>;
+};
+
+export default Can;
@@ -0,0 +1,87 @@
+import React, { useEffect } from 'react';
+import { Mail, CheckCircle } from 'lucide-react';
+import { authApi } from '../api/auth';
+import { isCancelledRequest } from '../api/client';
+import { useSession } from '../session/useSession';
+import ResendVerificationButton from './ResendVerificationButton';
+
+interface CheckInboxProps {
+  onContinue: () => void;
+}
+
+/**
+ * Shown right after sign-up while the verification email is on its way.
+ * Verifying is not required to carry on with onboarding, only to share decks
+ * and message investors later.
+ */
+const CheckInbox: React.FC<CheckInboxProps> = ({ onContinue }) => {
+  const { user, updateUser } = useSession();
+  const isVerified = !!user?.emailVerified;
+
+  // The link usually opens in another tab; pick up the result when the user comes back.
+  useEffect(() => {
+    if (isVerified) {
+      return;
+    }
+    const controller = new AbortController();
+    const handleFocus = () => {
+      authApi
+        .me({ signal: controller.signal })
+        .then(({ emailVerified }) => {
+          if (emailVerified) updateUser({ emailVerified });
+        })
+        .catch((err) => {
+          if (!isCancelledRequest(err)) console.error('Error checking verification:', err);
+        });
+    };
+    window.addEventListener('focus', handleFocus);
+    return () => {
+      window.removeEventListener('focus', handleFocus);
+      controller.abort();
+    };
+  }, [isVerified, updateUser]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-8 py-12 bg-black">
+      <div className="w-full max-w-md text-center">
+        <div className="flex items-center justify-center mb-8">
+          <img src="/image.png" alt="Power Nest Logo" className="w-8 h-8 mr-3" />
+          <h1 className="text-xl font-bold text-white">Power Nest</h1>
+        </div>
+
+        {isVerified ? (
+          <div className="mb-8">
+            <div className="w-16 h-16 bg-green-600 rounded-full flex items-center justify-center mx-auto mb-6">
+              <CheckCircle className="w-8 h-8 text-white" />
+            </div>
+            <h2 className="text-3xl font-bold text-white mb-4">Email verified</h2>
+            <p className="text-gray-400">Thanks for confirming {user?.email}.</p>
+          </div>
+        ) : (
+          <div className="mb-8">
+            <div className="w-16 h-16 bg-blue-600 rounded-full flex items-center justify-center mx-auto mb-6">
+              <Mail className="w-8 h-8 text-white" />
+            </div>
+            <h2 className="text-3xl font-bold text-white mb-4">Check your inbox</h2>
+            <p className="text-gray-400 mb-2">We've sent a verification link to:</p>
+            <p className="text-blue-400 font-medium mb-6">{user?.email}</p>
+            <p className="text-gray-400 text-sm mb-2">
+              Didn't receive the email? Check your spam folder or send it again.
+            </p>
+            <ResendVerificationButton justSent className="text-sm" />
+          </div>
+        )}
+
+        <button
+          type="button"
+          onClick={onContinue}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-black"
+        >
+          {isVerified ? 'Continue' : 'Continue setting up your profile'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default CheckInbox;
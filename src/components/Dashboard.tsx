@@ -1,7 +1,8 @@
 import React from 'react';
+import { Outlet } from 'react-router-dom';
 import Navbar from './Navbar/Navbar';
 import Sidebar from './Sidebar/SidebarMenu';
-import Sections from './Sections/index';
+import EmailVerificationBanner from './EmailVerificationBanner';
 
 interface DashboardProps {
   userData: any; //  replace 'any' with the actual shape of your user data
@@ -15,13 +16,17 @@ const Dashboard: React.FC<DashboardProps> = ({ userData }) => {
         <Navbar/>
        
         <div className="grid grid-cols-1 lg:grid-cols-[16rem_2fr_1fr] pt-16 p-2 min-h-screen">
+  <EmailVerificationBanner />
   {/* Sidebar */}
   <aside className="hidden lg:block">
     <Sidebar />
   </aside>
 
-  {/* Profile Section */}
- <Sections/>
+  {/* Active section, picked by the nested dashboard route. Keyed by workspace
+      so switching remounts it and it loads that workspace's data. */}
+ <React.Fragment key={userData?.role ?? 'none'}>
+   <Outlet/>
+ </React.Fragment>
 </div>
     </div>
   )
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { CloudOff, Check, Loader2 } from 'lucide-react';
+import { describeSavedAt } from '../onboarding/drafts';
+import { DraftStatus } from '../onboarding/useOnboardingDraft';
+
+interface DraftSavedStatusProps {
+  status: DraftStatus;
+}
+
+// Often enough for "just now" to turn into "1 minute ago" on time.
+const REFRESH_MS = 30 * 1000;
+
+// "Saved just now" and friends, for the header of an onboarding step that autosaves.
+const DraftSavedStatus: React.FC<DraftSavedStatusProps> = ({ status }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (status.state !== 'saved') {
+      return;
+    }
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [status]);
+
+  if (status.state === 'idle') {
+    return null;
+  }
+
+  return (
+    <p className="flex items-center text-sm text-gray-400" role="status" aria-live="polite">
+      {status.state === 'saving' ? (
+        <>
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Saving...
+        </>
+      ) : status.deviceOnly ? (
+        <>
+          <CloudOff className="w-4 h-4 mr-2 text-yellow-400" />
+          Saved on this device {describeSavedAt(status.savedAt, now)}
+        </>
+      ) : (
+        <>
+          <Check className="w-4 h-4 mr-2 text-green-400" />
+          Saved {describeSavedAt(status.savedAt, now)}
+        </>
+      )}
+    </p>
+  );
+};
+
+export default DraftSavedStatus;
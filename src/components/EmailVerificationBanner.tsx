@@ -0,0 +1,29 @@
+import React from 'react';
+import { MailWarning } from 'lucide-react';
+import { useSession } from '../session/useSession';
+import ResendVerificationButton from './ResendVerificationButton';
+
+// Reminds an unverified user what they are missing. Renders nothing once the email is verified.
+const EmailVerificationBanner: React.FC = () => {
+  const { user } = useSession();
+
+  if (!user || user.emailVerified) {
+    return null;
+  }
+
+  return (
+    <div
+      role="status"
+      className="lg:col-span-3 m-2 p-3 flex flex-col sm:flex-row sm:items-center gap-2 bg-yellow-900/30 border border-yellow-600 rounded-lg text-sm text-yellow-100"
+    >
+      <MailWarning className="w-5 h-5 text-yellow-400 shrink-0" />
+      <p className="flex-grow">
+        Verify your email to share your deck and message investors. We sent a link to{' '}
+        <span className="font-semibold">{user.email}</span>.
+      </p>
+      <ResendVerificationButton />
+    </div>
+  );
+};
+
+export default EmailVerificationBanner;
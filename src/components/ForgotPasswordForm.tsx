@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { Mail, ArrowLeft, AlertCircle, CheckCircle } from 'lucide-react';
+import { authApi } from '../api/auth';
+import { getErrorMessage } from '../api/client';
 
 interface ForgotPasswordFormProps {
   onBackToLogin: () => void;
@@ -32,14 +34,11 @@ const ForgotPasswordForm: React.FC<ForgotPasswordFormProps> = ({ onBackToLogin }
     setError('');
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
+      await authApi.requestPasswordReset(email);
       setIsSuccess(true);
-      console.log('Password reset email sent to:', email);
     } catch (error) {
       console.error('Error sending reset email:', error);
-      setError('Failed to send reset email. Please try again.');
+      setError(getErrorMessage(error, 'Failed to send reset email. Please try again.'));
     } finally {
       setIsSubmitting(false);
     }
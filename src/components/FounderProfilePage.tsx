@@ -0,0 +1,128 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Globe, MapPin } from 'lucide-react';
+import { getErrorMessage, isCancelledRequest } from '../api/client';
+import { foundersApi } from '../api/founders';
+import { FounderProfile } from '../api/types';
+import { describeMoney, formatMoney } from '../money/money';
+import { describeRound, sortRounds, totalRaised } from '../onboarding/fundingRounds';
+import { countryFlag, findPhoneCountry } from '../validation/phone';
+
+/**
+ * A founder's public profile: the startup and its logo at a glance and its
+ * funding so far, as a timeline from the first round to the latest.
+ */
+const FounderProfilePage: React.FC = () => {
+  const { founderId = '' } = useParams();
+  const [founder, setFounder] = useState<FounderProfile | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setFounder(null);
+    setLoadError(null);
+    foundersApi
+      .getProfile(founderId, { signal: controller.signal })
+      .then(setFounder)
+      .catch((error) => {
+        if (isCancelledRequest(error)) return;
+        setLoadError(getErrorMessage(error, 'We could not load this profile. Please try again.'));
+      });
+    return () => controller.abort();
+  }, [founderId]);
+
+  if (loadError) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center px-8">
+        <p className="text-red-500" role="alert">{loadError}</p>
+      </div>
+    );
+  }
+
+  if (!founder) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const country = findPhoneCountry(founder.country);
+  const total = totalRaised(founder.fundingRounds);
+
+  return (
+    <div className="min-h-screen bg-black px-8 py-12">
+      <div className="max-w-3xl mx-auto space-y-8">
+        <header>
+          {founder.logo && (
+            <img
+              src={founder.logo.renditions[0].url}
+              srcSet={founder.logo.renditions.map(({ url, width }) => `${url} ${width}w`).join(', ')}
+              sizes={founder.logo.aspect === 'wide' ? '256px' : '64px'}
+              alt={`${founder.startupName} logo`}
+              className={`mb-4 object-contain rounded-lg ${founder.logo.aspect === 'wide' ? 'w-64 h-16' : 'w-16 h-16'} ${
+                founder.logo.transparentBackground ? '' : 'border border-gray-800'
+              }`}
+            />
+          )}
+          <h1 className="text-3xl font-bold text-white">{founder.startupName}</h1>
+          <p className="text-gray-400 mt-1">Founded by {founder.name}</p>
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mt-4 text-gray-300">
+            <span>{[founder.sector, founder.stage].filter(Boolean).join(' · ')}</span>
+            {country && (
+              <span className="flex items-center">
+                <MapPin className="w-4 h-4 mr-1 text-gray-500" />
+                {countryFlag(country.code)} {country.name}
+              </span>
+            )}
+            {founder.website && (
+              <a
+                href={founder.website}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center text-blue-400 hover:text-blue-300"
+              >
+                <Globe className="w-4 h-4 mr-1" />
+                {founder.website.replace(/^https?:\/\//, '')}
+              </a>
+            )}
+          </div>
+        </header>
+
+        <section className="bg-gray-900 rounded-xl p-6 border border-gray-800">
+          <h2 className="text-xl font-semibold text-white mb-4">Funding</h2>
+          <dl className="grid grid-cols-2 gap-4 mb-6">
+            <div>
+              <dt className="text-sm text-gray-400">Total raised</dt>
+              <dd className="text-2xl font-semibold text-white">
+                {founder.fundingRounds.length === 0 ? 'No rounds yet' : total ? formatMoney(total) : 'Not available'}
+              </dd>
+            </div>
+            {founder.currentFundingNeeds && (
+              <div>
+                <dt className="text-sm text-gray-400">Currently raising</dt>
+                <dd className="text-2xl font-semibold text-white">{describeMoney(founder.currentFundingNeeds)}</dd>
+              </div>
+            )}
+          </dl>
+
+          {founder.fundingRounds.length > 0 && (
+            <ol className="relative border-l border-gray-700 ml-2">
+              {sortRounds(founder.fundingRounds).map((round) => (
+                <li key={round.id} className="mb-6 ml-6 last:mb-0">
+                  <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-blue-600" />
+                  <h3 className="text-white font-medium">
+                    {round.stage} · {describeMoney(round.amount)}
+                  </h3>
+                  <p className="text-sm text-gray-400">{describeRound(round)}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default FounderProfilePage;
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef } from 'react';
+import { Plus, X } from 'lucide-react';
+import { FundingRound } from '../api/types';
+import { useSchemaForm } from '../forms/useSchemaForm';
+import { describeMoney, formatMoney } from '../money/money';
+import { describeRound, sortRounds, totalRaised } from '../onboarding/fundingRounds';
+import { fundingRoundSchema, initialFundingRound, toFundingRound } from '../onboarding/schemas';
+import SchemaFields from './SchemaFields';
+
+interface FundingRoundsEditorProps {
+  rounds: FundingRound[];
+  // What a new round's amount starts in.
+  defaultCurrency: string;
+  onChange: (rounds: FundingRound[]) => void;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * The rounds raised so far, oldest first, with a total in the reporting
+ * currency and fields to add another. Lives inside the startup profile form,
+ * so adding a round is a button rather than a submit.
+ */
+const FundingRoundsEditor: React.FC<FundingRoundsEditorProps> = ({ rounds, defaultCurrency, onChange }) => {
+  const roundForm = useSchemaForm(fundingRoundSchema, initialFundingRound(defaultCurrency));
+  const total = totalRaised(rounds);
+  const { setValues: setRoundValues } = roundForm;
+
+  // A round nothing has been entered for yet follows the profile's currency;
+  // one being filled in keeps the currency it has.
+  const followedCurrency = useRef(defaultCurrency);
+  useEffect(() => {
+    const untouched = JSON.stringify(initialFundingRound(followedCurrency.current));
+    followedCurrency.current = defaultCurrency;
+    setRoundValues(values => (JSON.stringify(values) === untouched ? initialFundingRound(defaultCurrency) : values));
+  }, [defaultCurrency, setRoundValues]);
+
+  const addRound = roundForm.handleSubmit(values => {
+    onChange(sortRounds([...rounds, toFundingRound(values, generateId())]));
+    roundForm.setValues(initialFundingRound(defaultCurrency));
+  });
+
+  // Enter in a round's field adds the round instead of submitting the whole profile.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && e.target instanceof HTMLInputElement) {
+      addRound(e);
+    }
+  };
+
+  return (
+    <fieldset className="form-group">
+      <legend className="block text-lg font-medium text-white mb-2">
+        Funding Rounds
+        <span className="ml-2 text-sm text-gray-400">(Optional)</span>
+      </legend>
+
+      {rounds.length > 0 && (
+        <>
+          <ul className="space-y-2 max-w-[600px] mb-3">
+            {rounds.map(round => (
+              <li key={round.id} className="flex items-center justify-between p-4 bg-gray-900 rounded-xl border border-gray-700">
+                <div>
+                  <p className="text-white font-medium">
+                    {round.stage} · {describeMoney(round.amount)}
+                  </p>
+                  <p className="text-sm text-gray-400">{describeRound(round)}</p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => onChange(rounds.filter(({ id }) => id !== round.id))}
+                  className="text-gray-400 hover:text-red-400 transition-colors"
+                  aria-label={`Remove the ${round.stage} round`}
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <p className="mb-6 text-gray-300">
+            {total
+              ? `Total raised: ${formatMoney(total)} across ${rounds.length} ${rounds.length === 1 ? 'round' : 'rounds'}`
+              : 'The total is not shown because a round is in a currency without an exchange rate.'}
+          </p>
+        </>
+      )}
+
+      <div className="space-y-6 p-6 bg-gray-900/40 rounded-xl border border-gray-800 max-w-[600px]" onKeyDown={handleKeyDown}>
+        <SchemaFields schema={fundingRoundSchema} form={roundForm} idPrefix="round-" />
+        <button
+          type="button"
+          onClick={addRound}
+          className="flex items-center px-5 py-3 border border-gray-600 text-white rounded-xl hover:border-gray-500 hover:bg-gray-900/50 transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Round
+        </button>
+      </div>
+    </fieldset>
+  );
+};
+
+export default FundingRoundsEditor;
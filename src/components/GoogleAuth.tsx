@@ -1,33 +1,34 @@
-type GoogleAuthProps ={
-  onSuccess?: (user: any) => void;// make optional
+import { useState } from 'react';
+import { beginOAuth, OAuthIntent } from '../oauth/flow';
+
+type GoogleAuthProps = {
+  intent: OAuthIntent;
+  rememberMe?: boolean;
+  onError?: (message: string) => void;
 };
 
-const GoogleAuth = ({ onSuccess }: GoogleAuthProps) => {
-  // redirect to backend when ready
-    // const apiUrl = process.env.REACT_APP_API_URL || '';
-  const handleLogin = () => {
-    
-      const dummyUser = {
-    name: 'Google User',
-      email: 'testuser@example.com',
-      role: 'Tester',
-      lastLogin: new Date(),
-       notifications: [],      
-  quickActions: [], 
-    };
-    if (typeof onSuccess === 'function') {
-    onSuccess(dummyUser);
-     } else {
-console.warn('onSuccess is not provided or not a function');
+const GoogleAuth = ({ intent, rememberMe, onError }: GoogleAuthProps) => {
+  const [isRedirecting, setIsRedirecting] = useState(false);
+
+  // Sends the browser to Google; it comes back on the OAuth callback route.
+  const handleLogin = async () => {
+    setIsRedirecting(true);
+    try {
+      window.location.assign(await beginOAuth('google', { intent, rememberMe }));
+    } catch (error) {
+      console.error('Google sign-in error:', error);
+      setIsRedirecting(false);
+      onError?.('We could not start Google sign-in. Please try again.');
     }
-    // redirect to backend when ready
-    // window.location.href = `${apiUrl}/auth/google`;// backend logic/api
   };
 
   return (
     <button
+      type="button"
       onClick={handleLogin}
-      className="flex items-center justify-center bg-[#070707] px-6 py-3 gap-2 w-[196px] h-[50px] border-2 border-[#1A1A1A] rounded-[12px]"
+      disabled={isRedirecting}
+      aria-label="Continue with Google"
+      className="flex items-center justify-center bg-[#070707] px-6 py-3 gap-2 w-[196px] h-[50px] border-2 border-[#1A1A1A] rounded-[12px] disabled:opacity-60"
     >
       <img
         src={"/google-logo.png"}// you can change logo and add the new one if you want
@@ -40,5 +41,3 @@ console.warn('onSuccess is not provided or not a function');
 };
 
 export default GoogleAuth;
-
-
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Clock } from 'lucide-react';
+import { useSession } from '../session/useSession';
+import { useIdleTimeout } from '../session/useIdleTimeout';
+
+const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Logs an idle user out everywhere, after a countdown warning they can dismiss.
+ * Renders nothing until the warning window starts.
+ */
+const IdleTimeoutWarning: React.FC = () => {
+  const { status, signOut } = useSession();
+  const { remainingMs, stayActive } = useIdleTimeout({
+    enabled: status === 'authenticated',
+    onTimeout: signOut,
+  });
+
+  if (remainingMs === null) {
+    return null;
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 px-4">
+      <div
+        role="alertdialog"
+        aria-modal="true"
+        aria-labelledby="idle-timeout-title"
+        className="w-full max-w-md bg-gray-900 border border-gray-800 rounded-xl p-8 text-center"
+      >
+        <Clock className="w-10 h-10 text-blue-500 mx-auto mb-4" />
+        <h2 id="idle-timeout-title" className="text-2xl font-bold text-white mb-2">
+          Are you still there?
+        </h2>
+        <p className="text-gray-400 mb-6">
+          For your security you will be logged out in{' '}
+          <span className="font-semibold text-white">{formatCountdown(remainingMs)}</span>.
+        </p>
+        <div className="flex gap-3 justify-center">
+          <button
+            type="button"
+            onClick={signOut}
+            className="px-6 py-3 bg-transparent border border-gray-600 text-white rounded-lg font-medium hover:border-gray-500 transition-colors"
+          >
+            Log out
+          </button>
+          <button
+            type="button"
+            onClick={stayActive}
+            className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-semibold transition-colors"
+          >
+            Stay signed in
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IdleTimeoutWarning;
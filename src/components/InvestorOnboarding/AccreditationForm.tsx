@@ -0,0 +1,40 @@
+import React from 'react';
+import { Accreditation } from '../../api/types';
+import { useSchemaForm } from '../../forms/useSchemaForm';
+import { accreditationSchema, initialAccreditation, toAccreditation } from '../../onboarding/schemas';
+import { useOnboardingDraft } from '../../onboarding/useOnboardingDraft';
+import DraftSavedStatus from '../DraftSavedStatus';
+import OnboardingStepLayout, { StepButtons, StepErrorProps } from '../OnboardingStepLayout';
+import SchemaFields from '../SchemaFields';
+
+interface AccreditationFormProps extends StepErrorProps {
+  onNext: (data: Accreditation) => void;
+  onBack: () => void;
+}
+
+/**
+ * Self-declaration only: we record what the investor states and when, and
+ * leave verification to the point a deal is actually made.
+ */
+const AccreditationForm: React.FC<AccreditationFormProps> = ({ onNext, onBack, error }) => {
+  const form = useSchemaForm(accreditationSchema, initialAccreditation);
+  const { status: draftStatus } = useOnboardingDraft('accreditation', form.values, draft =>
+    form.setValues({ ...initialAccreditation, ...draft })
+  );
+
+  return (
+    <OnboardingStepLayout
+      step="accreditation"
+      title="Accreditation"
+      description="Many startups can only take money from accredited or sophisticated investors. Tell us which applies to you."
+      aside={<DraftSavedStatus status={draftStatus} />}
+    >
+      <form onSubmit={form.handleSubmit(values => onNext(toAccreditation(values)))} className="space-y-8">
+        <SchemaFields schema={accreditationSchema} form={form} />
+        <StepButtons onBack={onBack} error={error} />
+      </form>
+    </OnboardingStepLayout>
+  );
+};
+
+export default AccreditationForm;
@@ -0,0 +1,37 @@
+import React from 'react';
+import { InvestmentFocus } from '../../api/types';
+import { useSchemaForm } from '../../forms/useSchemaForm';
+import { initialInvestmentFocus, investmentFocusSchema, toInvestmentFocus } from '../../onboarding/schemas';
+import { useOnboardingDraft } from '../../onboarding/useOnboardingDraft';
+import DraftSavedStatus from '../DraftSavedStatus';
+import OnboardingStepLayout, { StepButtons, StepErrorProps } from '../OnboardingStepLayout';
+import SchemaFields from '../SchemaFields';
+
+interface InvestmentFocusFormProps extends StepErrorProps {
+  onNext: (data: InvestmentFocus) => void;
+  onBack: () => void;
+}
+
+// The fields and their rules live in investmentFocusSchema; cheque sizes leave as Money.
+const InvestmentFocusForm: React.FC<InvestmentFocusFormProps> = ({ onNext, onBack, error }) => {
+  const form = useSchemaForm(investmentFocusSchema, initialInvestmentFocus);
+  const { status: draftStatus } = useOnboardingDraft('investmentFocus', form.values, draft =>
+    form.setValues({ ...initialInvestmentFocus, ...draft })
+  );
+
+  return (
+    <OnboardingStepLayout
+      step="investmentFocus"
+      title="Investment Focus"
+      description="What you invest in and how much, so we only match you with startups that fit."
+      aside={<DraftSavedStatus status={draftStatus} />}
+    >
+      <form onSubmit={form.handleSubmit(values => onNext(toInvestmentFocus(values)))} className="space-y-8">
+        <SchemaFields schema={investmentFocusSchema} form={form} />
+        <StepButtons onBack={onBack} error={error} />
+      </form>
+    </OnboardingStepLayout>
+  );
+};
+
+export default InvestmentFocusForm;
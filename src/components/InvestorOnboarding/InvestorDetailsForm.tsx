@@ -0,0 +1,37 @@
+import React from 'react';
+import { InvestorDetails } from '../../api/types';
+import { useSchemaForm } from '../../forms/useSchemaForm';
+import { initialInvestorDetails, investorDetailsSchema } from '../../onboarding/schemas';
+import { useOnboardingDraft } from '../../onboarding/useOnboardingDraft';
+import DraftSavedStatus from '../DraftSavedStatus';
+import OnboardingStepLayout, { StepButtons, StepErrorProps } from '../OnboardingStepLayout';
+import SchemaFields from '../SchemaFields';
+
+interface InvestorDetailsFormProps extends StepErrorProps {
+  onNext: (data: InvestorDetails) => void;
+  onBack: () => void;
+}
+
+// The fields and their rules live in investorDetailsSchema.
+const InvestorDetailsForm: React.FC<InvestorDetailsFormProps> = ({ onNext, onBack, error }) => {
+  const form = useSchemaForm(investorDetailsSchema, initialInvestorDetails);
+  const { status: draftStatus } = useOnboardingDraft('investorDetails', form.values, draft =>
+    form.setValues({ ...initialInvestorDetails, ...draft })
+  );
+
+  return (
+    <OnboardingStepLayout
+      step="investorDetails"
+      title="Investor Details"
+      description="Tell founders who they would be talking to."
+      aside={<DraftSavedStatus status={draftStatus} />}
+    >
+      <form onSubmit={form.handleSubmit(onNext)} className="space-y-8">
+        <SchemaFields schema={investorDetailsSchema} form={form} />
+        <StepButtons onBack={onBack} error={error} />
+      </form>
+    </OnboardingStepLayout>
+  );
+};
+
+export default InvestorDetailsForm;
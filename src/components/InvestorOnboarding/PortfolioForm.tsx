@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { PortfolioCompany } from '../../api/types';
+import { useSchemaForm } from '../../forms/useSchemaForm';
+import { initialPortfolioCompany, portfolioCompanySchema, toPortfolioCompany } from '../../onboarding/schemas';
+import { useOnboardingDraft } from '../../onboarding/useOnboardingDraft';
+import DraftSavedStatus from '../DraftSavedStatus';
+import OnboardingStepLayout, { StepButtons, StepErrorProps } from '../OnboardingStepLayout';
+import SchemaFields from '../SchemaFields';
+
+interface PortfolioFormProps extends StepErrorProps {
+  onNext: (data: { companies: PortfolioCompany[] }) => void;
+  onBack: () => void;
+}
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// Optional: first-time investors carry on with an empty list. Companies are
+// added one at a time with portfolioCompanySchema.
+const PortfolioForm: React.FC<PortfolioFormProps> = ({ onNext, onBack, error }) => {
+  const [companies, setCompanies] = useState<PortfolioCompany[]>([]);
+  const companyForm = useSchemaForm(portfolioCompanySchema, initialPortfolioCompany);
+  // The companies added so far; one still being typed is not worth restoring.
+  const { status: draftStatus } = useOnboardingDraft('portfolio', companies, setCompanies);
+
+  const addCompany = companyForm.handleSubmit(values => {
+    setCompanies(prev => [...prev, toPortfolioCompany(values, generateId())]);
+    companyForm.setValues(initialPortfolioCompany);
+  });
+
+  // Enter in a company's field adds the company instead of submitting the step.
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && e.target instanceof HTMLInputElement) {
+      addCompany(e);
+    }
+  };
+
+  const handleRemoveCompany = (id: string) => {
+    setCompanies(prev => prev.filter(company => company.id !== id));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onNext({ companies });
+  };
+
+  return (
+    <OnboardingStepLayout
+      step="portfolio"
+      title="Portfolio"
+      description="Companies you have backed. Founders look at these first, but you can skip this if you are just starting out."
+      aside={<DraftSavedStatus status={draftStatus} />}
+    >
+      <form onSubmit={handleSubmit} className="space-y-8">
+        {companies.length > 0 && (
+          <ul className="space-y-2 max-w-[600px]">
+            {companies.map(company => (
+              <li key={company.id} className="flex items-center justify-between p-4 bg-gray-900 rounded-xl border border-gray-700">
+                <div>
+                  <p className="text-white font-medium">{company.name}</p>
+                  <p className="text-sm text-gray-400">
+                    {[company.yearInvested, company.website].filter(Boolean).join(' · ')}
+                  </p>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleRemoveCompany(company.id)}
+                  className="text-gray-400 hover:text-red-400 transition-colors"
+                  aria-label={`Remove ${company.name}`}
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-4" onKeyDown={handleKeyDown}>
+          <SchemaFields schema={portfolioCompanySchema} form={companyForm} idPrefix="portfolio-" />
+          <button
+            type="button"
+            onClick={addCompany}
+            className="flex items-center px-5 py-3 border border-gray-600 text-white rounded-xl hover:border-gray-500 hover:bg-gray-900/50 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Company
+          </button>
+        </div>
+
+        <StepButtons onBack={onBack} error={error} nextLabel={companies.length > 0 ? 'Next' : 'Skip for now'} />
+      </form>
+    </OnboardingStepLayout>
+  );
+};
+
+export default PortfolioForm;
@@ -0,0 +1,202 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { Lock, AlertCircle, Link2 } from 'lucide-react';
+import { authApi, isTwoFactorChallenge } from '../api/auth';
+import { ApiError, getErrorMessage } from '../api/client';
+import { OAuthProvider } from '../api/types';
+import { getChallengeWidget } from '../challenge/widget';
+import { applyOAuthProfile } from '../oauth/profile';
+import { oauthProviders } from '../oauth/providers';
+import { paths } from '../routes/paths';
+import { useSession } from '../session/useSession';
+import { getTrustedDeviceToken } from '../session/trustedDevice';
+import { formatWait, useLoginThrottle } from '../session/useLoginThrottle';
+
+interface PendingLink {
+  provider: OAuthProvider;
+  linkToken: string;
+  email: string;
+  rememberMe: boolean;
+}
+
+interface LinkAccountFormProps {
+  onLinked: () => void;
+  onTwoFactorRequired: (challengeToken: string, rememberMe: boolean) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Shown when a Google/LinkedIn sign-in uses the email of an existing password
+ * account. Entering that password proves the account is theirs and links the
+ * identity, so future social sign-ins land in the same account. Wrong
+ * passwords are throttled like on the login form, and after a few the backend
+ * drops the request so the sign-in has to start over.
+ */
+const LinkAccountForm: React.FC<LinkAccountFormProps> = ({ onLinked, onTwoFactorRequired, onCancel }) => {
+  const location = useLocation();
+  const link = location.state as PendingLink | null;
+  const { signIn } = useSession();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isExpired, setIsExpired] = useState(false);
+  const throttle = useLoginThrottle();
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  // Bumped to hand the user a fresh challenge once a token has been spent.
+  const [challengeKey, setChallengeKey] = useState(0);
+  const ChallengeWidget = getChallengeWidget();
+  const isWaiting = throttle.secondsLeft > 0;
+
+  // Only reachable from the OAuth callback; a reload or direct visit has nothing to link.
+  if (!link?.linkToken) {
+    return <Navigate to={paths.login} replace />;
+  }
+
+  const { label } = oauthProviders[link.provider];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!password) {
+      setError('Password is required');
+      return;
+    }
+    if (isWaiting || isExpired) {
+      return;
+    }
+    if (throttle.needsChallenge && !challengeToken) {
+      setError('Please complete the verification check first.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const result = await authApi.confirmOAuthLink({
+        linkToken: link.linkToken,
+        password,
+        trustedDeviceToken: getTrustedDeviceToken(),
+        challengeToken: challengeToken ?? undefined,
+      });
+      throttle.reset();
+      if (isTwoFactorChallenge(result)) {
+        onTwoFactorRequired(result.challengeToken, link.rememberMe);
+        return;
+      }
+      const { user, tokens, profile } = result;
+      signIn({ user: applyOAuthProfile(user, profile), tokens }, link.rememberMe);
+      onLinked();
+    } catch (err) {
+      console.error('Account linking error:', err);
+      if (err instanceof ApiError && err.code === 'invalid_credentials') {
+        throttle.recordFailure();
+      } else if (err instanceof ApiError && err.code === 'account_locked') {
+        throttle.lockOut(err.retryAfter ?? 60);
+      } else if (err instanceof ApiError && err.code === 'challenge_required') {
+        throttle.requireChallenge();
+      } else if (err instanceof ApiError && err.code === 'invalid_link') {
+        setIsExpired(true);
+      }
+      setError(getErrorMessage(err, 'We could not link your account. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+      // Challenge tokens are single use, whatever the outcome.
+      if (challengeToken) {
+        setChallengeToken(null);
+        setChallengeKey(key => key + 1);
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-8 py-12 bg-black">
+      <div className="w-full max-w-md">
+        <div className="flex items-center mb-8">
+          <img src="/image.png" alt="Power Nest Logo" className="w-8 h-8 mr-3" />
+          <h1 className="text-xl font-bold text-white">Power Nest</h1>
+        </div>
+
+        <div className="mb-8">
+          <div className="w-12 h-12 bg-blue-600 rounded-full flex items-center justify-center mb-4">
+            <Link2 className="w-6 h-6 text-white" />
+          </div>
+          <h2 className="text-3xl font-bold text-white mb-2">Link your {label} account</h2>
+          <p className="text-gray-400">
+            You already have a Power Nest account for <span className="text-white">{link.email}</span>. Enter its
+            password to connect {label}, so you can sign in either way.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-white mb-2">
+              Password
+            </label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="password"
+                id="password"
+                name="password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setError('');
+                }}
+                className={`w-full pl-10 pr-4 py-3 bg-gray-800 text-white rounded-lg border transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  error ? 'border-red-500' : 'border-gray-700 hover:border-gray-600'
+                }`}
+                placeholder="Enter your password"
+                aria-describedby={error ? 'password-error' : undefined}
+                aria-invalid={error ? 'true' : 'false'}
+              />
+              {error && (
+                <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
+                  <AlertCircle className="w-5 h-5 text-red-500" />
+                </div>
+              )}
+            </div>
+            {error && (
+              <p id="password-error" className="mt-1 text-sm text-red-500" role="alert">
+                {error}
+                {throttle.isLockedOut && ` You can try again in ${formatWait(throttle.secondsLeft)}.`}
+              </p>
+            )}
+          </div>
+
+          {throttle.needsChallenge && !isExpired && (
+            ChallengeWidget ? (
+              <ChallengeWidget key={challengeKey} onSolved={setChallengeToken} />
+            ) : (
+              <p className="text-sm text-gray-400">
+                Verification is required to continue, but it could not be loaded. Please sign in again later.
+              </p>
+            )
+          )}
+
+          <button
+            type="submit"
+            disabled={isSubmitting || isWaiting || isExpired}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-black"
+          >
+            {isSubmitting
+              ? 'Linking...'
+              : isWaiting
+                ? `Try again in ${formatWait(throttle.secondsLeft)}`
+                : `Link ${label} and sign in`}
+          </button>
+
+          <button
+            type="button"
+            onClick={onCancel}
+            className="w-full bg-gray-800 hover:bg-gray-700 text-white font-semibold py-3 px-4 rounded-lg transition-colors"
+          >
+            {isExpired ? 'Back to sign in' : 'Cancel'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default LinkAccountForm;
@@ -1,33 +1,34 @@
+import { useState } from 'react';
+import { beginOAuth, OAuthIntent } from '../oauth/flow';
+
 type LinkedInAuthProps = {
-  onSuccess?: (user: any) => void;
+  intent: OAuthIntent;
+  rememberMe?: boolean;
+  onError?: (message: string) => void;
 };
 
-const LinkedInAuth = ({ onSuccess }: LinkedInAuthProps) => {
-  
-  // const apiUrl = process.env.REACT_APP_API_URL || '';
+const LinkedInAuth = ({ intent, rememberMe, onError }: LinkedInAuthProps) => {
+  const [isRedirecting, setIsRedirecting] = useState(false);
 
-  const handleLogin = () => {
-      const dummyUser = {
-      name: 'LinkedIn User',
-      email: 'linkedinuser@example.com',
-      role: 'Founder',
-      lastLogin: new Date(),
-      notifications: [],
-      quickActions: [],
-    };
-      if (typeof onSuccess === 'function') {
-    onSuccess(dummyUser);
-     } else {
-      console.warn('onSuccess is not provided or not a function');
+  // Sends the browser to LinkedIn; it comes back on the OAuth callback route.
+  const handleLogin = async () => {
+    setIsRedirecting(true);
+    try {
+      window.location.assign(await beginOAuth('linkedin', { intent, rememberMe }));
+    } catch (error) {
+      console.error('LinkedIn sign-in error:', error);
+      setIsRedirecting(false);
+      onError?.('We could not start LinkedIn sign-in. Please try again.');
     }
-    //redirect to backend when is ready
-    // window.location.href = `${apiUrl}/auth/linkedin`;  //here you can add your backend Api
   };
 
   return (
     <button
+      type="button"
       onClick={handleLogin}
-      className="flex items-center justify-center bg-[#070707] px-6 py-3 gap-2 w-[196px] h-[50px] border-2 border-[#1A1A1A] rounded-[12px]"
+      disabled={isRedirecting}
+      aria-label="Continue with LinkedIn"
+      className="flex items-center justify-center bg-[#070707] px-6 py-3 gap-2 w-[196px] h-[50px] border-2 border-[#1A1A1A] rounded-[12px] disabled:opacity-60"
     >
       <img
         src="/linkedin-logo.jpg"  // you can change logo and add the new one if you want
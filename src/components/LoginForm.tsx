@@ -1,10 +1,14 @@
 import React, { useState } from 'react';
 import { Mail, Lock, AlertCircle, Eye, EyeOff } from 'lucide-react';
-<<<<<<< HEAD
+import { useLocation } from 'react-router-dom';
 import GoogleAuth from "./GoogleAuth";
 import LinkedInAuth from "./LinkedInAuth";
-=======
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
+import { authApi, isTwoFactorChallenge } from '../api/auth';
+import { ApiError, getErrorMessage } from '../api/client';
+import { getChallengeWidget } from '../challenge/widget';
+import { useSession } from '../session/useSession';
+import { getTrustedDeviceToken } from '../session/trustedDevice';
+import { formatWait, useLoginThrottle } from '../session/useLoginThrottle';
 
 interface LoginFormData {
   email: string;
@@ -22,18 +26,28 @@ interface LoginFormProps {
   onForgotPassword: () => void;
   onSignUp: () => void;
   onLoginSuccess: (userData: any) => void;
+  onTwoFactorRequired: (challengeToken: string, rememberMe: boolean) => void;
 }
 
-const LoginForm: React.FC<LoginFormProps> = ({ onForgotPassword, onSignUp, onLoginSuccess }) => {
+const LoginForm: React.FC<LoginFormProps> = ({ onForgotPassword, onSignUp, onLoginSuccess, onTwoFactorRequired }) => {
   const [formData, setFormData] = useState<LoginFormData>({
     email: '',
     password: '',
     rememberMe: false,
   });
 
-  const [errors, setErrors] = useState<LoginFormErrors>({});
+  // A failed Google/LinkedIn sign-in comes back here with its error in the route state.
+  const location = useLocation();
+  const [errors, setErrors] = useState<LoginFormErrors>(() => ({ general: location.state?.oauthError }));
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const { signIn } = useSession();
+  const throttle = useLoginThrottle();
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  // Bumped to hand the user a fresh challenge once a token has been spent.
+  const [challengeKey, setChallengeKey] = useState(0);
+  const ChallengeWidget = getChallengeWidget();
+  const isWaiting = throttle.secondsLeft > 0;
 
   const validateForm = (): boolean => {
     const newErrors: LoginFormErrors = {};
@@ -73,7 +87,11 @@ const LoginForm: React.FC<LoginFormProps> = ({ onForgotPassword, onSignUp, onLog
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (!validateForm()) {
+    if (!validateForm() || isWaiting) {
+      return;
+    }
+    if (throttle.needsChallenge && !challengeToken) {
+      setErrors({ general: 'Please complete the verification check first.' });
       return;
     }
 
@@ -81,47 +99,42 @@ const LoginForm: React.FC<LoginFormProps> = ({ onForgotPassword, onSignUp, onLog
     setErrors({});
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Mock user data - in real app this would come from API
-      const userData = {
-        name: 'Alex Johnson',
-        email: formData.email,
-        role: 'Founder',
-        lastLogin: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000), // 2 days ago
-        notifications: [
-          { id: 1, type: 'message', content: '3 new investor inquiries', time: '2 hours ago' },
-          { id: 2, type: 'update', content: 'Platform update: New analytics dashboard', time: '1 day ago' },
-          { id: 3, type: 'achievement', content: 'Your pitch deck was viewed 15 times', time: '2 days ago' }
-        ],
-        quickActions: [
-          { id: 1, title: 'View Dashboard', icon: 'BarChart3', description: 'Check your latest metrics' },
-          { id: 2, title: 'Investor Network', icon: 'Users', description: 'Connect with investors' },
-          { id: 3, title: 'Pitch Deck', icon: 'FileText', description: 'Update your presentation' },
-          { id: 4, title: 'Messages', icon: 'MessageSquare', description: '5 unread messages' }
-        ]
-      };
-      
-      console.log('Login successful:', formData);
-      onLoginSuccess(userData);
+      const session = await authApi.login({
+        ...formData,
+        trustedDeviceToken: getTrustedDeviceToken(),
+        challengeToken: challengeToken ?? undefined,
+      });
+
+      throttle.reset();
+      if (isTwoFactorChallenge(session)) {
+        onTwoFactorRequired(session.challengeToken, formData.rememberMe);
+        return;
+      }
+      signIn(session, formData.rememberMe);
+      onLoginSuccess(session.user);
     } catch (error) {
       console.error('Login error:', error);
-      setErrors({ general: 'Invalid email or password. Please try again.' });
+      if (error instanceof ApiError && error.code === 'invalid_credentials') {
+        throttle.recordFailure();
+      } else if (error instanceof ApiError && error.code === 'account_locked') {
+        throttle.lockOut(error.retryAfter ?? 60);
+      } else if (error instanceof ApiError && error.code === 'challenge_required') {
+        throttle.requireChallenge();
+      }
+      setErrors({ general: getErrorMessage(error, 'Invalid email or password. Please try again.') });
     } finally {
       setIsSubmitting(false);
+      // Challenge tokens are single use, whatever the outcome.
+      if (challengeToken) {
+        setChallengeToken(null);
+        setChallengeKey(key => key + 1);
+      }
     }
   };
 
-<<<<<<< HEAD
-  
- 
-=======
-  const handleSocialLogin = (provider: 'google' | 'linkedin') => {
-    console.log(`Attempting to login with ${provider}`);
-    // Implement social login logic here
+  const handleSocialError = (message: string) => {
+    setErrors({ general: message });
   };
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
 
   return (
     <div className="min-h-screen flex">
@@ -169,6 +182,11 @@ const LoginForm: React.FC<LoginFormProps> = ({ onForgotPassword, onSignUp, onLog
           {errors.general && (
             <div className="mb-6 p-4 bg-red-900/20 border border-red-500 rounded-lg">
               <p className="text-red-400 text-sm">{errors.general}</p>
+              {throttle.isLockedOut && (
+                <p className="text-red-300 text-sm mt-1">
+                  You can try again in {formatWait(throttle.secondsLeft)}.
+                </p>
+              )}
             </div>
           )}
 
@@ -268,10 +286,21 @@ const LoginForm: React.FC<LoginFormProps> = ({ onForgotPassword, onSignUp, onLog
               </button>
             </div>
 
+            {/* Verification check after repeated failures */}
+            {throttle.needsChallenge && (
+              ChallengeWidget ? (
+                <ChallengeWidget key={challengeKey} onSolved={setChallengeToken} />
+              ) : (
+                <p className="text-sm text-gray-400">
+                  Verification is required to continue, but it could not be loaded. Please reset your password instead.
+                </p>
+              )
+            )}
+
             {/* Submit Button */}
             <button
               type="submit"
-              disabled={isSubmitting}
+              disabled={isSubmitting || isWaiting}
               className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-black"
             >
               {isSubmitting ? (
@@ -279,6 +308,8 @@ const LoginForm: React.FC<LoginFormProps> = ({ onForgotPassword, onSignUp, onLog
                   <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin mr-2"></div>
                   Signing In...
                 </div>
+              ) : isWaiting ? (
+                `Try again in ${formatWait(throttle.secondsLeft)}`
               ) : (
                 'Sign In'
               )}
@@ -286,7 +317,6 @@ const LoginForm: React.FC<LoginFormProps> = ({ onForgotPassword, onSignUp, onLog
 
             {/* Social Login Options */}
             <div className="space-y-4">
-<<<<<<< HEAD
               <div className="flex items-center my-4">
   <div className="flex-grow border-t border-gray-700"></div>
   <span className="px-2 text-gray-400 text-sm">Or register with</span>
@@ -297,47 +327,11 @@ const LoginForm: React.FC<LoginFormProps> = ({ onForgotPassword, onSignUp, onLog
 
               <div className="grid grid-cols-2 gap-3">
                 
-      <GoogleAuth onSuccess={onLoginSuccess} />
-      <LinkedInAuth onSuccess={onLoginSuccess} />
+      <GoogleAuth intent="login" rememberMe={formData.rememberMe} onError={handleSocialError} />
+      <LinkedInAuth intent="login" rememberMe={formData.rememberMe} onError={handleSocialError} />
                </div>
 
               
-=======
-              <div className="relative">
-                <div className="absolute inset-0 flex items-center">
-                  <div className="w-full border-t border-gray-700"></div>
-                </div>
-                <div className="relative flex justify-center text-sm">
-                  <span className="px-2 bg-black text-gray-400">Or register with</span>
-                </div>
-              </div>
-
-              <div className="grid grid-cols-2 gap-3">
-                <button
-                  type="button"
-                  onClick={() => handleSocialLogin('google')}
-                  className="flex items-center justify-center px-4 py-3 border border-gray-700 rounded-lg hover:border-gray-600 hover:bg-gray-900 transition-colors group"
-                  aria-label="Sign in with Google"
-                >
-                  <svg className="w-5 h-5 text-white group-hover:text-gray-200" viewBox="0 0 24 24">
-                    <path fill="currentColor" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-                    <path fill="currentColor" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-                    <path fill="currentColor" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
-                    <path fill="currentColor" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-                  </svg>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => handleSocialLogin('linkedin')}
-                  className="flex items-center justify-center px-4 py-3 border border-gray-700 rounded-lg hover:border-gray-600 hover:bg-gray-900 transition-colors group"
-                  aria-label="Sign in with LinkedIn"
-                >
-                  <svg className="w-5 h-5 text-white group-hover:text-gray-200" viewBox="0 0 24 24">
-                    <path fill="currentColor" d="M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.414v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433c-1.144 0-2.063-.926-2.063-2.065 0-1.138.92-2.063 2.063-2.063 1.14 0 2.064.925 2.064 2.063 0 1.139-.925 2.065-2.064 2.065zm1.782 13.019H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z"/>
-                  </svg>
-                </button>
-              </div>
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
             </div>
           </form>
         </div>
@@ -0,0 +1,313 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ImageIcon, Loader2, Trash2, Upload, ZoomIn } from 'lucide-react';
+import { LogoAspect } from '../api/types';
+import {
+  MAX_LOGO_ZOOM,
+  Point,
+  ProcessedLogo,
+  cropAround,
+  describeLogo,
+  drawCrop,
+  loadLogoImage,
+  logoPresets,
+  processLogo,
+} from '../images/logo';
+
+interface LogoEditorProps {
+  logo: ProcessedLogo | null;
+  onChange: (logo: ProcessedLogo | null) => void;
+  maxSizeMb: number;
+  // An image URL to offer instead of picking a file, e.g. the one found on the startup's website.
+  suggestion?: string | null;
+  // The suggestion was used or dismissed.
+  onSuggestionSettled?: () => void;
+}
+
+// On-screen width of the crop frame; its height follows the preset's ratio.
+const frameWidths: Record<LogoAspect, number> = { square: 240, wide: 400 };
+
+// Shows through wherever the logo is transparent.
+const checkerboard: React.CSSProperties = {
+  backgroundImage: 'repeating-conic-gradient(#374151 0% 25%, #1f2937 0% 50%)',
+  backgroundSize: '16px 16px',
+};
+
+/**
+ * Picks the startup's logo and crops it in the browser: a square or wide frame,
+ * zoom with the slider and drag to move the image inside it. Applying renders
+ * the standard sizes, so only clean, re-encoded files are uploaded.
+ */
+const LogoEditor: React.FC<LogoEditorProps> = ({ logo, onChange, maxSizeMb, suggestion, onSuggestionSettled }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragFrom = useRef<Point | null>(null);
+  const [source, setSource] = useState<ImageBitmap | null>(null);
+  const [aspect, setAspect] = useState<LogoAspect>('square');
+  const [zoom, setZoom] = useState(1);
+  const [center, setCenter] = useState<Point>({ x: 0, y: 0 });
+  const [preview, setPreview] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessing, setIsProcessing] = useState(false);
+
+  const frame = { width: frameWidths[aspect], height: frameWidths[aspect] / logoPresets[aspect].ratio };
+  const crop = source && cropAround(source, logoPresets[aspect].ratio, zoom, center);
+
+  useEffect(() => {
+    if (!source || !crop || !canvasRef.current) return;
+    drawCrop(canvasRef.current, source, crop, frame);
+  });
+
+  // The decoded image holds memory outside the JS heap until closed.
+  useEffect(() => () => source?.close(), [source]);
+
+  useEffect(() => {
+    if (!logo) {
+      setPreview(null);
+      return;
+    }
+    const url = URL.createObjectURL(logo.renditions[0].file);
+    setPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [logo]);
+
+  const openFile = async (picked: File) => {
+    setError(null);
+    if (!picked.type.startsWith('image/')) {
+      setError('Please upload an image file');
+      return;
+    }
+    if (picked.size > maxSizeMb * 1024 * 1024) {
+      setError(`File size must be less than ${maxSizeMb}MB`);
+      return;
+    }
+    try {
+      const image = await loadLogoImage(picked);
+      // Start from the shape the image already has.
+      setAspect(image.width / image.height >= 2 ? 'wide' : 'square');
+      setZoom(1);
+      setCenter({ x: image.width / 2, y: image.height / 2 });
+      setSource(image);
+    } catch (loadError) {
+      console.error('Logo decode error:', loadError);
+      setError('We could not read this image. Please try a PNG, JPG or WebP file.');
+    }
+  };
+
+  const handlePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked = e.target.files?.[0];
+    e.target.value = '';
+    if (picked) {
+      openFile(picked);
+    }
+  };
+
+  const handleUseSuggestion = async () => {
+    if (!suggestion) return;
+    try {
+      const blob = await (await fetch(suggestion)).blob();
+      await openFile(new File([blob], 'logo', { type: blob.type }));
+    } catch (fetchError) {
+      console.error('Logo suggestion error:', fetchError);
+      setError('We could not load the logo from your website. Please upload it instead.');
+    }
+    onSuggestionSettled?.();
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragFrom.current = { x: e.clientX, y: e.clientY };
+  };
+
+  // Moves the image with the pointer, starting from where the clamped crop is
+  // so dragging past an edge does not have to be undone first.
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!dragFrom.current || !crop) return;
+    const scale = crop.width / frame.width;
+    const dx = (e.clientX - dragFrom.current.x) * scale;
+    const dy = (e.clientY - dragFrom.current.y) * scale;
+    dragFrom.current = { x: e.clientX, y: e.clientY };
+    setCenter({ x: crop.x + crop.width / 2 - dx, y: crop.y + crop.height / 2 - dy });
+  };
+
+  const handlePointerUp = () => {
+    dragFrom.current = null;
+  };
+
+  const handleApply = async () => {
+    if (!source || !crop) return;
+    setIsProcessing(true);
+    try {
+      onChange(await processLogo(source, aspect, crop));
+      setSource(null);
+    } catch (processError) {
+      console.error('Logo processing error:', processError);
+      setError('We could not process this image. Please try another file.');
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const fileInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      accept="image/png,image/jpeg,image/webp,image/gif"
+      onChange={handlePick}
+      className="hidden"
+      aria-label="Logo"
+    />
+  );
+
+  let content: React.ReactNode;
+  if (source) {
+    content = (
+      <div className="space-y-4 p-6 bg-gray-900/40 rounded-xl border border-gray-800 max-w-[600px]">
+        <div className="flex gap-2" role="group" aria-label="Logo shape">
+          {(Object.keys(logoPresets) as LogoAspect[]).map(preset => (
+            <button
+              key={preset}
+              type="button"
+              onClick={() => setAspect(preset)}
+              aria-pressed={aspect === preset}
+              className={`px-4 py-2 rounded-lg border text-sm transition-colors ${
+                aspect === preset
+                  ? 'border-blue-500 bg-blue-600/20 text-white'
+                  : 'border-gray-700 text-gray-400 hover:border-gray-600'
+              }`}
+            >
+              {logoPresets[preset].label}
+            </button>
+          ))}
+        </div>
+        <canvas
+          ref={canvasRef}
+          style={{ ...checkerboard, width: frame.width, height: frame.height }}
+          className="rounded-lg border border-gray-700 cursor-move touch-none"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          aria-label="Logo crop. Drag to move the image."
+        />
+        <label className="flex items-center gap-3 text-sm text-gray-400 max-w-[400px]">
+          <ZoomIn className="w-4 h-4 shrink-0" />
+          <span className="sr-only">Zoom</span>
+          <input
+            type="range"
+            min={1}
+            max={MAX_LOGO_ZOOM}
+            step={0.01}
+            value={zoom}
+            onChange={(e) => setZoom(Number(e.target.value))}
+            className="flex-1 accent-blue-600"
+          />
+        </label>
+        <div className="flex gap-3">
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={isProcessing}
+            className="flex items-center px-5 py-3 bg-blue-600 text-white rounded-xl hover:bg-blue-700 transition-colors disabled:opacity-50"
+          >
+            {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Use Logo
+          </button>
+          <button
+            type="button"
+            onClick={() => setSource(null)}
+            disabled={isProcessing}
+            className="px-5 py-3 border border-gray-600 text-white rounded-xl hover:border-gray-500 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  } else if (logo && preview) {
+    content = (
+      <div className="flex items-center gap-6 w-[434px] p-4 bg-gray-900 rounded-xl border border-gray-700">
+        <img
+          src={preview}
+          alt="Logo preview"
+          style={checkerboard}
+          className="max-h-[80px] max-w-[200px] object-contain rounded"
+        />
+        <div className="min-w-0">
+          <p className="text-sm text-gray-300">{describeLogo(logo)}</p>
+          <div className="flex gap-4 mt-2 text-sm">
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center text-blue-400 hover:text-blue-300"
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              Replace
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange(null)}
+              className="flex items-center text-gray-400 hover:text-red-400"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Remove
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  } else {
+    content = (
+      <div
+        onClick={() => fileInputRef.current?.click()}
+        className={`w-[434px] h-[120px] bg-gray-900 rounded-xl border-2 border-dashed transition-colors cursor-pointer hover:border-gray-600 flex items-center justify-center ${
+          error ? 'border-red-500' : 'border-gray-700'
+        }`}
+      >
+        <div className="text-center">
+          <ImageIcon className="w-8 h-8 text-gray-500 mx-auto mb-2" />
+          <p className="text-gray-500 text-sm">Upload your Logo here</p>
+          <p className="text-gray-600 text-xs mt-1">PNG, JPG or WebP up to {maxSizeMb}MB</p>
+        </div>
+      </div>
+    );
+    if (suggestion) {
+      content = (
+        <>
+          {content}
+          <div className="flex items-center gap-3 mt-3 text-sm">
+            <img src={suggestion} alt="Logo from your website" style={checkerboard} className="w-8 h-8 rounded" />
+            <button type="button" onClick={handleUseSuggestion} className="text-blue-400 hover:text-blue-300">
+              Use the logo from your website
+            </button>
+            <button type="button" onClick={onSuggestionSettled} className="text-gray-500 hover:text-gray-300">
+              Dismiss
+            </button>
+          </div>
+        </>
+      );
+    }
+  }
+
+  return (
+    <div className="form-group">
+      <span className="block text-lg font-medium text-white mb-2">
+        Logo
+        <span className="ml-2 text-sm text-gray-400">(Optional)</span>
+      </span>
+      {fileInput}
+      {content}
+      {error && (
+        <p className="mt-2 text-sm text-red-500" role="alert">
+          {error}
+        </p>
+      )}
+      {!source && (
+        <p className="mt-2 text-sm text-gray-500">
+          Cropped and resized here, so it looks the same on match cards and in the navigation bar.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default LogoEditor;
@@ -3,13 +3,32 @@ import {
  
   RiSettings3Line,
   RiQuestionLine,
+  RiLogoutBoxRLine,
 } from 'react-icons/ri';
 
 import { HiOutlineBellAlert } from "react-icons/hi2";
 import profilePic from '../../assets/profilePic.png';
+import { Link } from 'react-router-dom';
 import LogoAndTheme from './LogoAndTheme';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+import { founderProfilePath, paths } from '../../routes/paths';
+import { useSession } from '../../session/useSession';
 
 export default function Navbar({ onToggleTheme }) {
+  const { user, signOut } = useSession();
+  // The profile of the active workspace, when the user has set one up.
+  const profile = user?.role ? user.profiles[user.role] : undefined;
+  const identity = (
+    <>
+      <img
+        src={profilePic}
+        alt="Profile"
+        className="h-8 w-8 rounded-full object-cover border dark:border-[#303030]"
+      />
+      <span className="text-sm font-medium hidden sm:inline">{profile?.displayName || user?.name || user?.email}</span>
+    </>
+  );
+
   return (
     <header
   className="fixed top-0 left-0 right-0 h-16 border-b flex items-center justify-between px-4 z-10"
@@ -22,16 +41,32 @@ export default function Navbar({ onToggleTheme }) {
       {/* Left: Logo and Theme Toggle */}
       <div className="flex items-center gap-4">
         <LogoAndTheme />
+        <WorkspaceSwitcher />
       </div>
           
         {/* Profile */}
         <div className="flex items-center gap-2 pl-4">
-          <img
-            src={profilePic}
-            alt="Profile"
-            className="h-8 w-8 rounded-full object-cover border dark:border-[#303030]"
-          />
-          <span className="text-sm font-medium hidden sm:inline">Tobi Mathew</span>
+          {user?.role === 'founder' ? (
+            <Link
+              to={founderProfilePath(user.id)}
+              className="flex items-center gap-2 hover:text-blue-500"
+              title="View your public profile"
+            >
+              {identity}
+            </Link>
+          ) : (
+            identity
+          )}
+          <button
+            type="button"
+            onClick={signOut}
+            className="p-1 rounded-lg hover:text-blue-500"
+            style={{ color: 'var(--subtext-color)' }}
+            title="Log out"
+            aria-label="Log out"
+          >
+            <RiLogoutBoxRLine className="text-xl" />
+          </button>
         </div>
 
       {/* Center: Search Bar */}
@@ -56,6 +91,7 @@ export default function Navbar({ onToggleTheme }) {
       {/* Right: Icons + Profile */}
       <div className="flex items-center gap-4">
         {/* Icons */}
+        <div className="relative">
         <HiOutlineBellAlert 
           className="text-2xl cursor-pointer hover:text-blue-500 p-1"
           style={{
@@ -67,6 +103,13 @@ export default function Navbar({ onToggleTheme }) {
   }}
           title="Notifications"
         />
+        {!!user?.notifications.length && (
+          <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full bg-blue-600 text-white text-[10px] leading-4 text-center">
+            {user.notifications.length}
+          </span>
+        )}
+        </div>
+        <Link to={paths.settings} aria-label="Settings">
         <RiSettings3Line
           className="text-2xl cursor-pointer hover:text-blue-500 p-1"
           style={{
@@ -78,6 +121,7 @@ export default function Navbar({ onToggleTheme }) {
   }}
           title="Settings"
         />
+        </Link>
         <RiQuestionLine
           className="text-2xl cursor-pointer hover:text-blue-500 p-1"
   style={{
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Check, ChevronDown, Plus } from 'lucide-react';
+import { UserRole } from '../../api/types';
+import { paths } from '../../routes/paths';
+import { roleLabels, rolePermissions } from '../../session/permissions';
+import { useWorkspace } from '../../session/useWorkspace';
+
+const allRoles = Object.keys(rolePermissions) as UserRole[];
+
+/**
+ * Shows which workspace the dashboard is in and switches to the user's other
+ * one. Switching lands on the dashboard overview, since the section on screen
+ * may not exist in the other workspace.
+ */
+const WorkspaceSwitcher: React.FC = () => {
+  const navigate = useNavigate();
+  const { active, roles, profiles, switchTo, isSwitching, error } = useWorkspace();
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (!active) {
+    return null;
+  }
+
+  const handleSwitch = async (role: UserRole) => {
+    setIsOpen(false);
+    if (role !== active && (await switchTo(role))) {
+      navigate(paths.dashboard);
+    }
+  };
+
+  const missingRoles = allRoles.filter(role => !roles.includes(role));
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={isSwitching}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        className="flex items-center gap-1 px-3 py-1.5 text-sm font-medium rounded-lg border hover:text-blue-500 disabled:opacity-60"
+        style={{ borderColor: 'var(--stroke-color)' }}
+      >
+        {roleLabels[active]} workspace
+        <ChevronDown className="w-4 h-4" />
+      </button>
+
+      {isOpen && (
+        <div
+          role="menu"
+          className="absolute left-0 mt-2 w-64 rounded-lg border bg-gray-900 text-white shadow-xl py-1 z-20"
+          style={{ borderColor: 'var(--stroke-color)' }}
+        >
+          {roles.map(role => (
+            <button
+              key={role}
+              type="button"
+              role="menuitem"
+              onClick={() => handleSwitch(role)}
+              className="flex items-center w-full px-3 py-2 text-left hover:bg-gray-800"
+            >
+              <span className="flex-grow">
+                <span className="block text-sm font-medium">{roleLabels[role]}</span>
+                <span className="block text-xs text-gray-400">{profiles[role]?.displayName}</span>
+              </span>
+              {role === active && <Check className="w-4 h-4 text-blue-400" />}
+            </button>
+          ))}
+          {missingRoles.map(role => (
+            <Link
+              key={role}
+              to={paths.settings}
+              role="menuitem"
+              onClick={() => setIsOpen(false)}
+              className="flex items-center px-3 py-2 text-sm text-blue-400 hover:bg-gray-800 border-t border-gray-800"
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add {roleLabels[role].toLowerCase()} workspace
+            </Link>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="absolute mt-1 text-xs text-red-400 whitespace-nowrap" role="alert">{error}</p>}
+    </div>
+  );
+};
+
+export default WorkspaceSwitcher;
@@ -0,0 +1,83 @@
+import React, { useEffect, useRef } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { completeOAuth, OAuthError, OAuthIntent } from '../oauth/flow';
+import { isOAuthProvider } from '../oauth/providers';
+import { paths } from '../routes/paths';
+import { useSession } from '../session/useSession';
+
+// Where each flow goes back to, with the error, when it fails.
+const returnPaths: Record<OAuthIntent, string> = {
+  login: paths.login,
+  signup: paths.signup,
+  link: paths.settings,
+};
+
+/**
+ * Where Google and LinkedIn send the browser back to. Exchanges the code for a
+ * session, then continues to onboarding (new accounts) or the welcome page.
+ * An email that already has a password account goes to the link confirmation
+ * first, accounts with two-factor authentication to the code step, and
+ * identities linked from settings return there. On failure it goes
+ * back to the screen the flow started from with the error.
+ */
+const OAuthCallback: React.FC = () => {
+  const { provider } = useParams();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { signIn } = useSession();
+  // The code is single use, so the exchange must not run twice (StrictMode
+  // mounts effects twice in development).
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    if (!isOAuthProvider(provider)) {
+      navigate(paths.login, { replace: true });
+      return;
+    }
+
+    completeOAuth(provider, searchParams)
+      .then((result) => {
+        if (result.type === 'linked') {
+          navigate(paths.settings, { replace: true, state: { linkedProvider: result.provider } });
+        } else if (result.type === 'twoFactorRequired') {
+          navigate(paths.twoFactor, {
+            replace: true,
+            state: { challengeToken: result.challengeToken, rememberMe: result.rememberMe },
+          });
+        } else if (result.type === 'linkRequired') {
+          navigate(paths.linkAccount, {
+            replace: true,
+            state: {
+              provider: result.provider,
+              linkToken: result.linkToken,
+              email: result.email,
+              rememberMe: result.rememberMe,
+            },
+          });
+        } else {
+          signIn(result.session, result.rememberMe);
+          navigate(result.isNewUser ? paths.roleSelection : paths.welcomeBack, { replace: true });
+        }
+      })
+      .catch((error) => {
+        console.error('OAuth callback error:', error);
+        const intent = error instanceof OAuthError ? error.intent : 'login';
+        navigate(returnPaths[intent], {
+          replace: true,
+          state: { oauthError: error instanceof OAuthError ? error.message : 'Sign-in failed. Please try again.' },
+        });
+      });
+  }, [provider, searchParams, navigate, signIn]);
+
+  return (
+    <div className="min-h-screen bg-black flex flex-col items-center justify-center text-white">
+      <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mb-4" />
+      <p className="text-gray-400">Signing you in...</p>
+    </div>
+  );
+};
+
+export default OAuthCallback;
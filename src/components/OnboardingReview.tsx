@@ -0,0 +1,258 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { AlertCircle, AlertTriangle, FileText, Pencil } from 'lucide-react';
+import { ApiError, getErrorMessage, isCancelledRequest } from '../api/client';
+import { onboardingApi } from '../api/onboarding';
+import { FounderReview, OnboardingResponse } from '../api/types';
+import { FormSchema, formatFieldValue, isFieldVisible } from '../forms/schema';
+import { describeLogo } from '../images/logo';
+import { describeMoney, formatMoney } from '../money/money';
+import { describeRound, totalRaised } from '../onboarding/fundingRounds';
+import { ReviewProblems, findReviewProblems, missingOptionalFields } from '../onboarding/review';
+import {
+  basicInfoFormData,
+  basicInfoSchema,
+  initialStartupProfile,
+  startupProfileFormData,
+  startupProfileSchema,
+} from '../onboarding/schemas';
+import { FounderOnboardingStep, onboardingSteps } from '../routes/onboarding';
+import { paths } from '../routes/paths';
+import OnboardingStepLayout, { StepButtons } from './OnboardingStepLayout';
+
+interface OnboardingReviewProps {
+  onSubmitted: (response: OnboardingResponse) => void;
+  onBack: () => void;
+}
+
+const NotProvided: React.FC = () => (
+  <span className="flex items-center text-yellow-400">
+    <AlertTriangle className="w-4 h-4 mr-1" />
+    Not provided
+  </span>
+);
+
+const Row: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex py-2 border-b border-gray-800 last:border-b-0">
+    <dt className="w-56 shrink-0 text-gray-400">{label}</dt>
+    <dd className="text-white break-words min-w-0">{children}</dd>
+  </div>
+);
+
+interface ReviewSectionProps {
+  step: FounderOnboardingStep;
+  problem?: string;
+  // The answers as saved, handed to the step so it opens with them.
+  saved?: unknown;
+  children: React.ReactNode;
+}
+
+// One step's answers, with a link back to change them. The step returns here once saved.
+const ReviewSection: React.FC<ReviewSectionProps> = ({ step, problem, saved, children }) => (
+  <section className={`bg-gray-900 rounded-xl p-6 border ${problem ? 'border-red-500' : 'border-gray-800'}`}>
+    <div className="flex items-center justify-between mb-4">
+      <h3 className="text-xl font-semibold text-white">{onboardingSteps[step].title}</h3>
+      <Link
+        to={onboardingSteps[step].path}
+        state={{ returnTo: paths.review, saved }}
+        className="flex items-center text-sm text-blue-400 hover:text-blue-300"
+      >
+        <Pencil className="w-4 h-4 mr-1" />
+        Edit
+      </Link>
+    </div>
+    {problem && (
+      <p className="mb-4 flex items-center text-sm text-red-500" role="alert">
+        <AlertCircle className="w-4 h-4 mr-1" />
+        {problem}
+      </p>
+    )}
+    <dl>{children}</dl>
+  </section>
+);
+
+const schemaRows = <T,>(schema: FormSchema<T>, values: T) =>
+  schema
+    .filter(field => isFieldVisible(field, values))
+    .map(field => {
+      const value = formatFieldValue(field, values);
+      return (
+        <Row key={field.name} label={field.label}>
+          {value || (field.required ? <span className="text-red-500">Missing</span> : <NotProvided />)}
+        </Row>
+      );
+    });
+
+/**
+ * The last founder step: everything entered so far on one page, with empty
+ * optional fields pointed out and an edit link per step. Submitting checks the
+ * steps together once more before the profile goes to investors.
+ */
+const OnboardingReview: React.FC<OnboardingReviewProps> = ({ onSubmitted, onBack }) => {
+  const [review, setReview] = useState<FounderReview | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [problems, setProblems] = useState<ReviewProblems>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    onboardingApi
+      .getFounderReview({ signal: controller.signal })
+      .then(setReview)
+      .catch((error) => {
+        if (isCancelledRequest(error)) return;
+        setLoadError(getErrorMessage(error, 'We could not load your answers. Please try again.'));
+      });
+    return () => controller.abort();
+  }, []);
+
+  if (loadError) {
+    return (
+      <OnboardingStepLayout step="review" title="Review & Submit" description="">
+        <p className="text-red-500" role="alert">{loadError}</p>
+      </OnboardingStepLayout>
+    );
+  }
+
+  if (!review) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  const basicInfo = review.basicInfo && basicInfoFormData(review.basicInfo);
+  const startupProfile = review.startupProfile ? startupProfileFormData(review.startupProfile) : initialStartupProfile;
+  const logo = review.startupProfile?.logo;
+  const pitchDeck = review.documents.find(document => document.kind === 'pitchDeck');
+  const otherDocuments = review.documents.filter(document => document.kind === 'other');
+  const total = totalRaised(startupProfile.fundingRounds);
+
+  const missingOptional = [
+    ...(basicInfo ? missingOptionalFields(basicInfoSchema, basicInfo) : []),
+    ...missingOptionalFields(startupProfileSchema, startupProfile),
+    ...(startupProfile.fundingRounds.length > 0 ? [] : ['Funding rounds']),
+    ...(logo ? [] : ['Logo']),
+    ...(otherDocuments.length > 0 ? [] : ['Other documents']),
+    ...(review.teamMembers.length > 0 ? [] : ['Team members']),
+  ];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitError(null);
+
+    const newProblems = findReviewProblems(review);
+    setProblems(newProblems);
+    if (Object.keys(newProblems).length > 0) {
+      setSubmitError('Some steps still need your attention.');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      onSubmitted(await onboardingApi.submitFounderReview());
+    } catch (error) {
+      console.error('Onboarding review error:', error);
+      if (error instanceof ApiError) {
+        setProblems(error.fields);
+      }
+      setSubmitError(getErrorMessage(error, 'We could not submit your profile. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <OnboardingStepLayout
+      step="review"
+      title="Review & Submit"
+      description="Check your answers before your profile goes to investors. You can still change any step."
+    >
+      <form onSubmit={handleSubmit} className="space-y-6">
+        {missingOptional.length > 0 && (
+          <div className="p-4 bg-yellow-900/20 border border-yellow-600 rounded-lg text-sm text-yellow-100">
+            {missingOptional.length} optional {missingOptional.length === 1 ? 'item is' : 'items are'} empty:{' '}
+            {missingOptional.join(', ')}. Complete profiles get more attention from investors.
+          </div>
+        )}
+
+        <ReviewSection step="basicInfo" problem={problems.basicInfo} saved={review.basicInfo ?? undefined}>
+          {basicInfo ? (
+            schemaRows(basicInfoSchema, basicInfo)
+          ) : (
+            <Row label="Basic info">
+              <span className="text-red-500">Missing</span>
+            </Row>
+          )}
+        </ReviewSection>
+
+        <ReviewSection step="startupProfile" problem={problems.startupProfile} saved={review.startupProfile ?? undefined}>
+          <Row label="Logo">{logo ? describeLogo(logo) : <NotProvided />}</Row>
+          {schemaRows(startupProfileSchema, startupProfile)}
+          <Row label="Funding Rounds">
+            {startupProfile.fundingRounds.length > 0 ? (
+              <ul>
+                {startupProfile.fundingRounds.map(round => (
+                  <li key={round.id}>
+                    {round.stage} · {describeMoney(round.amount)}
+                    <span className="block text-sm text-gray-400">{describeRound(round)}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <NotProvided />
+            )}
+          </Row>
+          {startupProfile.fundingRounds.length > 0 && total && <Row label="Total Raised">{formatMoney(total)}</Row>}
+        </ReviewSection>
+
+        <ReviewSection step="documentUpload" problem={problems.documentUpload}>
+          <Row label="Pitch Deck">
+            {pitchDeck ? pitchDeck.name : <span className="text-red-500">Missing</span>}
+          </Row>
+          <Row label="Other documents">
+            {otherDocuments.length > 0 ? (
+              <ul>
+                {otherDocuments.map(document => (
+                  <li key={document.id} className="flex items-center">
+                    <FileText className="w-4 h-4 mr-2 text-blue-400" />
+                    {document.name}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <NotProvided />
+            )}
+          </Row>
+        </ReviewSection>
+
+        <ReviewSection step="addTeam" problem={problems.addTeam}>
+          {review.teamMembers.length > 0 ? (
+            review.teamMembers.map(member => (
+              <Row key={member.id} label={member.name}>
+                {member.role}
+                {member.linkedin && <span className="block text-sm text-gray-400">{member.linkedin}</span>}
+              </Row>
+            ))
+          ) : (
+            <Row label="Team members">
+              <NotProvided />
+            </Row>
+          )}
+        </ReviewSection>
+
+        {submitError && (
+          <p className="text-sm text-red-500" role="alert">
+            {submitError}
+          </p>
+        )}
+
+        <StepButtons onBack={onBack} nextLabel={isSubmitting ? 'Submitting...' : 'Submit'} disabled={isSubmitting} />
+      </form>
+    </OnboardingStepLayout>
+  );
+};
+
+export default OnboardingReview;
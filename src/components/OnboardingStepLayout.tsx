@@ -0,0 +1,84 @@
+import React from 'react';
+import { OnboardingStep } from '../routes/onboarding';
+import OnboardingStepper from './OnboardingStepper';
+
+export const fieldClass = (error?: string) =>
+  `w-full max-w-[434px] h-14 bg-gray-900 rounded-xl px-5 py-4 text-white placeholder-gray-500 border transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+    error ? 'border-red-500' : 'border-gray-700 hover:border-gray-600'
+  }`;
+
+interface OnboardingStepLayoutProps {
+  step: OnboardingStep;
+  title: string;
+  description: string;
+  // Shown opposite the title, e.g. the draft's saved status.
+  aside?: React.ReactNode;
+  children: React.ReactNode;
+}
+
+/**
+ * Frame shared by the onboarding steps: the stepper on the left and the
+ * step's form on the right.
+ */
+const OnboardingStepLayout: React.FC<OnboardingStepLayoutProps> = ({ step, title, description, aside, children }) => (
+  <div className="min-h-screen bg-black flex">
+    <OnboardingStepper step={step} />
+
+    {/* Main Content */}
+    <div className="flex-1 p-10 pl-8">
+      <div className="max-w-[898px]">
+        <div className="mb-12">
+          <div className="flex items-center justify-between mb-2">
+            <h2 className="text-4xl font-bold text-white">{title}</h2>
+            {aside}
+          </div>
+          <p className="text-gray-400">{description}</p>
+        </div>
+        {children}
+      </div>
+    </div>
+  </div>
+);
+
+// Taken by every onboarding step and passed on to wherever it shows the error.
+export interface StepErrorProps {
+  // Why saving the step failed, if it did.
+  error?: string | null;
+}
+
+interface StepButtonsProps extends StepErrorProps {
+  onBack: () => void;
+  nextLabel?: string;
+  disabled?: boolean;
+}
+
+export const StepError: React.FC<StepErrorProps> = ({ error }) =>
+  error ? (
+    <p className="text-sm text-red-500" role="alert">
+      {error}
+    </p>
+  ) : null;
+
+export const StepButtons: React.FC<StepButtonsProps> = ({ onBack, nextLabel = 'Next', disabled = false, error }) => (
+  <>
+    <StepError error={error} />
+    <div className="flex justify-between pt-8">
+      <button
+        type="button"
+        onClick={onBack}
+        className="w-[180px] h-[52px] bg-transparent border border-gray-600 text-white rounded-xl font-medium hover:border-gray-500 hover:bg-gray-900/50 transition-colors focus:outline-none focus:ring-2 focus:ring-gray-500"
+      >
+        Back
+      </button>
+      <button
+        type="submit"
+        disabled={disabled}
+        className="w-[180px] h-[52px] bg-blue-600 text-white rounded-xl font-medium hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-black"
+      >
+        {nextLabel}
+      </button>
+    </div>
+  </>
+);
+
+export default OnboardingStepLayout;
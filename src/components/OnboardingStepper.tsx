@@ -0,0 +1,110 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Briefcase, Building, Check, ClipboardCheck, Layers, Lock, Scale, Target, Upload, User, Users } from 'lucide-react';
+import { OnboardingStep, WizardStep, wizardSteps } from '../routes/onboarding';
+import { useSession } from '../session/useSession';
+
+interface OnboardingStepperProps {
+  step: OnboardingStep;
+}
+
+const stepIcons: Record<OnboardingStep, React.ElementType> = {
+  basicInfo: User,
+  startupProfile: Building,
+  documentUpload: Upload,
+  addTeam: Users,
+  review: ClipboardCheck,
+  investorDetails: User,
+  investmentFocus: Target,
+  portfolio: Briefcase,
+  accreditation: Scale,
+  assessment: Layers,
+};
+
+const itemClass: Record<WizardStep['state'], string> = {
+  active: 'bg-blue-600/20 border border-blue-500/30',
+  completed: 'bg-green-600/20 border border-green-500/30 hover:bg-green-600/30',
+  open: 'border border-gray-700 hover:bg-gray-800/50',
+  locked: 'text-gray-500',
+};
+
+const badgeClass: Record<WizardStep['state'], string> = {
+  active: 'bg-blue-600',
+  completed: 'bg-green-600',
+  open: 'bg-gray-700',
+  locked: 'bg-gray-700',
+};
+
+const titleClass: Record<WizardStep['state'], string> = {
+  active: 'text-white',
+  completed: 'text-green-400',
+  open: 'text-gray-300',
+  locked: 'text-gray-400',
+};
+
+/**
+ * The step list beside every onboarding screen, built from the active role's
+ * flow and the user's saved progress. Completed steps link back so they can be
+ * changed; steps after the next one due stay locked.
+ */
+const OnboardingStepper: React.FC<OnboardingStepperProps> = ({ step }) => {
+  const { user } = useSession();
+  const steps = user?.role ? wizardSteps(user.role, step, user.onboarding) : [];
+  const completed = steps.filter(({ step: id }) => user?.onboarding?.[id]).length;
+
+  return (
+    <aside className="hidden lg:block w-[528px] h-screen bg-gray-800/5 rounded-xl p-5 m-10 mr-0">
+      <div className="flex items-center mb-12">
+        <img src="/image.png" alt="Power Nest Logo" className="w-10 h-10 mr-4" />
+        <h1 className="text-2xl font-bold text-white">Power Nest</h1>
+      </div>
+
+      {steps.length > 0 && (
+        <div className="mb-6">
+          <p className="text-sm text-gray-400 mb-2">
+            {completed} of {steps.length} steps complete
+          </p>
+          <div className="h-1.5 bg-gray-800 rounded-full" aria-hidden="true">
+            <div
+              className="h-1.5 bg-green-500 rounded-full transition-all"
+              style={{ width: `${(completed / steps.length) * 100}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      <nav aria-label="Onboarding steps">
+        <ol className="space-y-4">
+          {steps.map(({ step: id, title, path, state }) => {
+            const Icon = state === 'completed' ? Check : state === 'locked' ? Lock : stepIcons[id];
+            const content = (
+              <>
+                <div className={`w-8 h-8 rounded-full flex items-center justify-center mr-4 ${badgeClass[state]}`}>
+                  <Icon className={`w-4 h-4 ${state === 'active' || state === 'completed' ? 'text-white' : 'text-gray-400'}`} />
+                </div>
+                <span className={`font-medium ${titleClass[state]}`}>{title}</span>
+              </>
+            );
+            const className = `flex items-center p-4 rounded-lg transition-colors ${itemClass[state]}`;
+
+            return (
+              <li key={id}>
+                {state === 'completed' || state === 'open' ? (
+                  <Link to={path} className={className}>
+                    {content}
+                  </Link>
+                ) : (
+                  <div className={className} aria-current={state === 'active' ? 'step' : undefined}>
+                    {content}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      </nav>
+    </aside>
+  );
+};
+
+export default OnboardingStepper;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { measurePasswordStrength, passwordScoreLabels, PasswordScore } from '../validation/password';
+
+interface PasswordStrengthMeterProps {
+  password: string;
+  email?: string;
+}
+
+const scoreColors: Record<PasswordScore, string> = {
+  0: 'bg-red-600',
+  1: 'bg-orange-500',
+  2: 'bg-yellow-500',
+  3: 'bg-green-500',
+  4: 'bg-green-400',
+};
+
+// One segment per score above zero; a very weak password still shows one, in red.
+const SEGMENTS = 4;
+
+/**
+ * Live feedback under a new-password field: a four-part bar, a label and the
+ * top two things that would make the password stronger.
+ */
+const PasswordStrengthMeter: React.FC<PasswordStrengthMeterProps> = ({ password, email }) => {
+  if (!password) {
+    return null;
+  }
+
+  const { score, hints } = measurePasswordStrength(password, { email });
+  const filled = Math.max(1, score);
+
+  return (
+    <div className="mt-2" aria-live="polite">
+      <div className="flex gap-1" aria-hidden="true">
+        {Array.from({ length: SEGMENTS }, (_, index) => (
+          <div
+            key={index}
+            className={`h-1.5 flex-1 rounded-full ${index < filled ? scoreColors[score] : 'bg-gray-700'}`}
+          />
+        ))}
+      </div>
+      <p className="mt-1 text-sm text-gray-300">
+        Password strength: <span className="font-semibold">{passwordScoreLabels[score]}</span>
+      </p>
+      {hints.length > 0 && score < 4 && (
+        <ul className="mt-1 text-xs text-gray-400 list-disc list-inside">
+          {hints.slice(0, 2).map(hint => (
+            <li key={hint}>{hint}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PasswordStrengthMeter;
@@ -1,4 +1,6 @@
 import React, { useState, useEffect } from 'react';
+import { AssessmentAnswers } from '../api/types';
+import { StepError, StepErrorProps } from './OnboardingStepLayout';
 
 interface Question {
   id: number;
@@ -6,17 +8,18 @@ interface Question {
   options: string[];
 }
 
-interface PsychologicalAssessmentProps {
-  onComplete: (answers: Record<number, number>) => void;
+interface PsychologicalAssessmentProps extends StepErrorProps {
+  onComplete: (answers: AssessmentAnswers) => void;
   onSkip: () => void;
 }
 
 const PsychologicalAssessment: React.FC<PsychologicalAssessmentProps> = ({ 
   onComplete, 
-  onSkip 
+  onSkip,
+  error
 }) => {
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [answers, setAnswers] = useState<Record<number, number>>({});
+  const [answers, setAnswers] = useState<AssessmentAnswers>({});
   const [selectedOption, setSelectedOption] = useState<number | null>(null);
 
   const questions: Question[] = [
@@ -174,6 +177,12 @@ const PsychologicalAssessment: React.FC<PsychologicalAssessmentProps> = ({
             </div>
           </div>
 
+          {error && (
+            <div className="mb-6">
+              <StepError error={error} />
+            </div>
+          )}
+
           {/* Navigation */}
           <div className="flex justify-between">
             <button
@@ -0,0 +1,41 @@
+import React, { useMemo } from 'react';
+import { encodeQrCode } from './encode';
+
+interface QrCodeProps {
+  value: string;
+  size?: number;
+  label: string;
+}
+
+// Scanners need a light margin of four modules around the symbol.
+const QUIET_ZONE = 4;
+
+const QrCode: React.FC<QrCodeProps> = ({ value, size = 200, label }) => {
+  const { path, dimension } = useMemo(() => {
+    const modules = encodeQrCode(value);
+    let d = '';
+    modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (dark) d += `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z`;
+      });
+    });
+    return { path: d, dimension: modules.length + QUIET_ZONE * 2 };
+  }, [value]);
+
+  return (
+    <svg
+      role="img"
+      aria-label={label}
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      className="rounded-lg"
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#000000" />
+    </svg>
+  );
+};
+
+export default QrCode;
@@ -0,0 +1,200 @@
+import { buildOtpauthUrl } from '../../mocks/totp';
+import { encodeQrCode } from './encode';
+
+// Reads a symbol back the way a scanner would, from the tables in ISO/IEC
+// 18004 rather than the encoder's own helpers, so a shared mistake cannot pass.
+
+// Level M, versions 1-10: error correction codewords per block, and blocks.
+const BLOCKS_AT_M: Record<number, [number, number]> = {
+  1: [10, 1], 2: [16, 1], 3: [26, 1], 4: [18, 2], 5: [24, 2],
+  6: [16, 4], 7: [18, 4], 8: [22, 4], 9: [22, 5], 10: [26, 5],
+};
+const ALIGNMENT_CENTERS: Record<number, number[]> = {
+  1: [], 2: [6, 18], 3: [6, 22], 4: [6, 26], 5: [6, 30],
+  6: [6, 34], 7: [6, 22, 38], 8: [6, 24, 42], 9: [6, 26, 46], 10: [6, 28, 50],
+};
+
+const MASKS: ((row: number, column: number) => boolean)[] = [
+  (i, j) => (i + j) % 2 === 0,
+  i => i % 2 === 0,
+  (_, j) => j % 3 === 0,
+  (i, j) => (i + j) % 3 === 0,
+  (i, j) => (Math.floor(i / 2) + Math.floor(j / 3)) % 2 === 0,
+  (i, j) => ((i * j) % 2) + ((i * j) % 3) === 0,
+  (i, j) => (((i * j) % 2) + ((i * j) % 3)) % 2 === 0,
+  (i, j) => (((i + j) % 2) + ((i * j) % 3)) % 2 === 0,
+];
+
+// Remainder of a BCH code word, which is zero when the bits are intact.
+const bchRemainder = (bits: number, generator: number) => {
+  const degree = Math.floor(Math.log2(generator));
+  let remainder = bits;
+  for (let shift = Math.floor(Math.log2(bits || 1)) - degree; shift >= 0; shift--) {
+    if (remainder & (1 << (shift + degree))) remainder ^= generator << shift;
+  }
+  return remainder;
+};
+
+const readBits = (modules: boolean[][], positions: [number, number][]) =>
+  positions.reduce((bits, [x, y], i) => bits | (Number(modules[y][x]) << i), 0);
+
+const formatInfo = (modules: boolean[][]) => {
+  const size = modules.length;
+  const around: [number, number][] = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+    [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+  ];
+  const split: [number, number][] = [
+    ...Array.from({ length: 8 }, (_, i): [number, number] => [size - 1 - i, 8]),
+    ...Array.from({ length: 7 }, (_, i): [number, number] => [8, size - 7 + i]),
+  ];
+  const bits = readBits(modules, around);
+  return { bits, copy: readBits(modules, split), level: (bits ^ 0x5412) >>> 13, mask: ((bits ^ 0x5412) >>> 10) & 7 };
+};
+
+const versionInfo = (modules: boolean[][], transposed: boolean) => {
+  const size = modules.length;
+  const positions = Array.from({ length: 18 }, (_, i): [number, number] => {
+    const long = size - 11 + (i % 3);
+    const short = Math.floor(i / 3);
+    return transposed ? [short, long] : [long, short];
+  });
+  return readBits(modules, positions);
+};
+
+const functionModules = (version: number) => {
+  const size = version * 4 + 17;
+  const reserved = Array.from({ length: size }, () => new Array<boolean>(size).fill(false));
+  const reserve = (x0: number, y0: number, width: number, height: number) => {
+    for (let y = y0; y < y0 + height; y++) for (let x = x0; x < x0 + width; x++) reserved[y][x] = true;
+  };
+  // Finders with their separators and format information, then timing.
+  reserve(0, 0, 9, 9);
+  reserve(size - 8, 0, 8, 9);
+  reserve(0, size - 8, 9, 8);
+  reserve(6, 0, 1, size);
+  reserve(0, 6, size, 1);
+  // Alignment patterns, except the three corners taken by finders.
+  const centers = ALIGNMENT_CENTERS[version];
+  const last = centers[centers.length - 1];
+  for (const cx of centers) {
+    for (const cy of centers) {
+      if (!(cx === 6 && cy === 6) && !(cx === 6 && cy === last) && !(cx === last && cy === 6)) {
+        reserve(cx - 2, cy - 2, 5, 5);
+      }
+    }
+  }
+  if (version >= 7) {
+    reserve(size - 11, 0, 3, 6);
+    reserve(0, size - 11, 6, 3);
+  }
+  return reserved;
+};
+
+const gfTables = () => {
+  const exp = [1];
+  for (let i = 1; i < 255; i++) exp.push(exp[i - 1] & 0x80 ? ((exp[i - 1] << 1) ^ 0x11d) & 0xff : exp[i - 1] << 1);
+  const log = new Array<number>(256).fill(0);
+  exp.forEach((value, i) => (log[value] = i));
+  const multiply = (x: number, y: number) => (x && y ? exp[(log[x] + log[y]) % 255] : 0);
+  return { exp, multiply };
+};
+
+// The block's polynomial evaluated at each root of the generator; all zero when the codewords check out.
+const syndromes = (block: number[], eccLength: number) => {
+  const { exp, multiply } = gfTables();
+  return Array.from({ length: eccLength }, (_, i) =>
+    block.reduce((sum, codeword) => multiply(sum, exp[i]) ^ codeword, 0)
+  );
+};
+
+const decodeQrCode = (modules: boolean[][]) => {
+  const size = modules.length;
+  const version = (size - 17) / 4;
+  const { mask } = formatInfo(modules);
+  const reserved = functionModules(version);
+
+  const bits: number[] = [];
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    const upward = ((size - 1 - right) >> 1) % 2 === 0;
+    for (let step = 0; step < size; step++) {
+      const y = upward ? size - 1 - step : step;
+      for (const x of [right, right - 1]) {
+        if (!reserved[y][x]) bits.push(Number(modules[y][x] !== MASKS[mask](y, x)));
+      }
+    }
+  }
+  const codewords = Array.from({ length: Math.floor(bits.length / 8) }, (_, i) =>
+    bits.slice(i * 8, i * 8 + 8).reduce((byte, bit) => (byte << 1) | bit, 0)
+  );
+
+  const [eccLength, numBlocks] = BLOCKS_AT_M[version];
+  const shortLength = Math.floor(codewords.length / numBlocks);
+  const numShort = numBlocks - (codewords.length % numBlocks);
+  const blocks = Array.from({ length: numBlocks }, () => [] as number[]);
+  const dataLength = (block: number) => shortLength - eccLength + (block < numShort ? 0 : 1);
+  let next = 0;
+  for (let i = 0; i <= shortLength - eccLength; i++) {
+    blocks.forEach((block, j) => i < dataLength(j) && block.push(codewords[next++]));
+  }
+  for (let i = 0; i < eccLength; i++) {
+    blocks.forEach(block => block.push(codewords[next++]));
+  }
+
+  const data = blocks.flatMap((block, j) => block.slice(0, dataLength(j)));
+  const stream = data.flatMap(byte => Array.from({ length: 8 }, (_, i) => (byte >>> (7 - i)) & 1));
+  let position = 0;
+  const take = (length: number) =>
+    stream.slice(position, (position += length)).reduce((value, bit) => value * 2 + bit, 0);
+  const mode = take(4);
+  const length = take(version <= 9 ? 8 : 16);
+  const text = String.fromCharCode(...Array.from({ length }, () => take(8)));
+
+  return { version, mode, text, blockSyndromes: blocks.map(block => syndromes(block, eccLength)) };
+};
+
+// 125 bytes, which takes version 8 and its four error correction blocks.
+const OTPAUTH_URL = buildOtpauthUrl('JBSWY3DPEHPK3PXP', 'sam@greenline.dev', 'Power Nest');
+
+test('reads back an otpauth URL the way an authenticator app would', () => {
+  const modules = encodeQrCode(OTPAUTH_URL);
+  const decoded = decodeQrCode(modules);
+
+  expect(decoded.version).toBe(8);
+  expect(modules).toHaveLength(49);
+  expect(modules.every(row => row.length === 49)).toBe(true);
+  expect(decoded.mode).toBe(0b0100);
+  expect(decoded.text).toBe(OTPAUTH_URL);
+  decoded.blockSyndromes.forEach(syndrome => expect(syndrome.every(value => value === 0)).toBe(true));
+});
+
+test('writes both copies of the format information for level M', () => {
+  const format = formatInfo(encodeQrCode(OTPAUTH_URL));
+
+  expect(format.copy).toBe(format.bits);
+  expect(bchRemainder(format.bits ^ 0x5412, 0x537)).toBe(0);
+  expect(format.level).toBe(0b00);
+});
+
+test.each([
+  [14, 1],
+  [15, 2],
+  [122, 7],
+  [123, 8],
+  [181, 10],
+])('fits %i bytes into version %i and reads them back', (length, version) => {
+  const text = Array.from({ length }, (_, i) => String.fromCharCode(33 + (i % 90))).join('');
+  const modules = encodeQrCode(text);
+  const decoded = decodeQrCode(modules);
+
+  expect(modules).toHaveLength(version * 4 + 17);
+  expect(decoded.text).toBe(text);
+  decoded.blockSyndromes.forEach(syndrome => expect(syndrome.every(value => value === 0)).toBe(true));
+  if (version >= 7) {
+    const info = versionInfo(modules, false);
+    expect(versionInfo(modules, true)).toBe(info);
+    expect(info >>> 12).toBe(version);
+    expect(bchRemainder(info, 0x1f25)).toBe(0);
+  }
+});
@@ -0,0 +1,37 @@
+import React from 'react';
+import { useResendVerification } from '../session/useResendVerification';
+
+interface ResendVerificationButtonProps {
+  // Start in the cooldown, e.g. right after sign-up sent the first email.
+  justSent?: boolean;
+  className?: string;
+}
+
+const ResendVerificationButton: React.FC<ResendVerificationButtonProps> = ({ justSent, className = '' }) => {
+  const { resend, secondsLeft, isSending, sent, error, canResend } = useResendVerification({ justSent });
+
+  return (
+    <div className={className}>
+      <button
+        type="button"
+        onClick={resend}
+        disabled={!canResend}
+        className="text-blue-400 hover:text-blue-300 underline transition-colors disabled:text-gray-500 disabled:no-underline disabled:cursor-not-allowed"
+      >
+        {isSending
+          ? 'Sending...'
+          : secondsLeft > 0
+            ? `Resend email in ${secondsLeft}s`
+            : 'Resend email'}
+      </button>
+      {sent && !error && <p className="mt-1 text-sm text-green-400">We sent you a new link.</p>}
+      {error && (
+        <p className="mt-1 text-sm text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ResendVerificationButton;
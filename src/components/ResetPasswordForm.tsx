@@ -0,0 +1,292 @@
+import React, { useEffect, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { Lock, AlertCircle, ArrowLeft, Eye, EyeOff } from 'lucide-react';
+import { authApi, isTwoFactorChallenge } from '../api/auth';
+import { ApiError, getErrorMessage, isCancelledRequest } from '../api/client';
+import { useSession } from '../session/useSession';
+import { getTrustedDeviceToken } from '../session/trustedDevice';
+import { checkNewPassword, validatePassword } from '../validation/password';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
+
+interface FormErrors {
+  password?: string;
+  confirmPassword?: string;
+  general?: string;
+}
+
+interface ResetPasswordFormProps {
+  onResetSuccess: () => void;
+  onTwoFactorRequired: (challengeToken: string, rememberMe: boolean) => void;
+  onRequestNewLink: () => void;
+  onBackToLogin: () => void;
+}
+
+// Errors that mean the link itself is dead, as opposed to a bad password.
+const DEAD_LINK_CODES = ['invalid_reset_token', 'reset_token_expired', 'reset_token_used'];
+
+const isDeadLink = (error: unknown) => error instanceof ApiError && DEAD_LINK_CODES.includes(error.code);
+
+/**
+ * Where the link in the password reset email lands. Checks the token first so
+ * an expired or used link says so straight away, then sets the new password
+ * and signs the user in.
+ */
+const ResetPasswordForm: React.FC<ResetPasswordFormProps> = ({
+  onResetSuccess,
+  onTwoFactorRequired,
+  onRequestNewLink,
+  onBackToLogin,
+}) => {
+  const { token = '' } = useParams();
+  const { signIn } = useSession();
+  const [email, setEmail] = useState<string | null>(null);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [showPassword, setShowPassword] = useState(false);
+  const [errors, setErrors] = useState<FormErrors>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    authApi
+      .checkPasswordResetToken(token, { signal: controller.signal })
+      .then(({ email }) => setEmail(email))
+      .catch((error) => {
+        if (isCancelledRequest(error)) return;
+        setLinkError(getErrorMessage(error, 'We could not check this password reset link. Please try again.'));
+      });
+    return () => controller.abort();
+  }, [token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const newErrors: FormErrors = {};
+    const passwordError = validatePassword(password, { email: email ?? undefined });
+    if (passwordError) {
+      newErrors.password = passwordError;
+    }
+    if (password !== confirmPassword) {
+      newErrors.confirmPassword = 'Passwords do not match';
+    }
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length > 0) {
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      const passwordProblem = await checkNewPassword(password, { email: email ?? undefined });
+      if (passwordProblem) {
+        setErrors({ password: passwordProblem });
+        return;
+      }
+
+      const result = await authApi.resetPassword({ token, password, trustedDeviceToken: getTrustedDeviceToken() });
+      if (isTwoFactorChallenge(result)) {
+        onTwoFactorRequired(result.challengeToken, false);
+        return;
+      }
+      signIn(result, false);
+      onResetSuccess();
+    } catch (error) {
+      console.error('Password reset error:', error);
+      if (isDeadLink(error)) {
+        setLinkError(getErrorMessage(error, 'This password reset link no longer works.'));
+      } else if (error instanceof ApiError && error.fields.password) {
+        setErrors({ password: error.fields.password });
+      } else {
+        setErrors({ general: getErrorMessage(error, 'We could not reset your password. Please try again.') });
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const passwordInputClass = (error?: string) =>
+    `w-full pl-10 pr-12 py-3 bg-gray-800 text-white rounded-lg border transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+      error ? 'border-red-500' : 'border-gray-700 hover:border-gray-600'
+    }`;
+
+  const renderContent = () => {
+    if (linkError) {
+      return (
+        <div>
+          <div className="w-16 h-16 bg-red-600 rounded-full flex items-center justify-center mb-6">
+            <AlertCircle className="w-8 h-8 text-white" />
+          </div>
+          <h2 className="text-3xl font-bold text-white mb-4">Link no longer works</h2>
+          <p className="text-gray-400 mb-8" role="alert">{linkError}</p>
+          <button
+            type="button"
+            onClick={onRequestNewLink}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-black mb-4"
+          >
+            Request a new link
+          </button>
+          <button
+            type="button"
+            onClick={onBackToLogin}
+            className="flex items-center justify-center w-full text-gray-400 hover:text-white transition-colors rounded-lg py-2"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Sign In
+          </button>
+        </div>
+      );
+    }
+
+    if (!email) {
+      return (
+        <div className="flex justify-center">
+          <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin" />
+        </div>
+      );
+    }
+
+    return (
+      <>
+        <div className="mb-8">
+          <h2 className="text-3xl font-bold text-white mb-2">Set a new password</h2>
+          <p className="text-gray-400">
+            Choose a new password for <span className="text-white">{email}</span>.
+          </p>
+        </div>
+
+        {errors.general && (
+          <div className="mb-6 p-4 bg-red-900/20 border border-red-500 rounded-lg">
+            <p className="text-red-400 text-sm">{errors.general}</p>
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          {/* New Password Field */}
+          <div>
+            <label htmlFor="password" className="block text-sm font-medium text-white mb-2">
+              New Password
+            </label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type={showPassword ? 'text' : 'password'}
+                id="password"
+                name="password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setErrors(prev => ({ ...prev, password: undefined }));
+                }}
+                autoComplete="new-password"
+                className={passwordInputClass(errors.password)}
+                placeholder="Enter a new password"
+                aria-describedby={errors.password ? 'password-error' : undefined}
+                aria-invalid={errors.password ? 'true' : 'false'}
+              />
+              <button
+                type="button"
+                onClick={() => setShowPassword(!showPassword)}
+                className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-300 transition-colors"
+                aria-label={showPassword ? 'Hide password' : 'Show password'}
+              >
+                {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+              </button>
+            </div>
+            {errors.password && (
+              <p id="password-error" className="mt-1 text-sm text-red-500" role="alert">
+                {errors.password}
+              </p>
+            )}
+            <PasswordStrengthMeter password={password} email={email ?? undefined} />
+          </div>
+
+          {/* Confirm Password Field */}
+          <div>
+            <label htmlFor="confirmPassword" className="block text-sm font-medium text-white mb-2">
+              Confirm New Password
+            </label>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type={showPassword ? 'text' : 'password'}
+                id="confirmPassword"
+                name="confirmPassword"
+                value={confirmPassword}
+                onChange={(e) => {
+                  setConfirmPassword(e.target.value);
+                  setErrors(prev => ({ ...prev, confirmPassword: undefined }));
+                }}
+                autoComplete="new-password"
+                className={passwordInputClass(errors.confirmPassword)}
+                placeholder="Enter the new password again"
+                aria-describedby={errors.confirmPassword ? 'confirm-password-error' : undefined}
+                aria-invalid={errors.confirmPassword ? 'true' : 'false'}
+              />
+            </div>
+            {errors.confirmPassword && (
+              <p id="confirm-password-error" className="mt-1 text-sm text-red-500" role="alert">
+                {errors.confirmPassword}
+              </p>
+            )}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-black"
+          >
+            {isSubmitting ? 'Saving...' : 'Reset Password and Sign In'}
+          </button>
+
+          <button
+            type="button"
+            onClick={onBackToLogin}
+            className="flex items-center justify-center w-full text-gray-400 hover:text-white transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-black rounded-lg py-2"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Sign In
+          </button>
+        </form>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen flex">
+      {/* Left side - Gradient background with branding */}
+      <div className="hidden lg:flex lg:w-1/2 relative overflow-hidden">
+        <div
+          className="absolute inset-0 w-full h-full"
+          style={{
+            background: 'radial-gradient(195.32% 112.27% at 50% 100%, #000000 30.77%, #0C0C4A 44.28%, #0606A9 58.97%, #0000FF 75.08%, #9898FF 91.44%)',
+          }}
+        />
+        <div className="relative z-10 flex flex-col justify-center items-start p-16 text-white">
+          <div className="flex items-center mb-12">
+            <img src="/image.png" alt="Power Nest Logo" className="w-10 h-10 mr-4" />
+            <h1 className="text-2xl font-bold">Power Nest</h1>
+          </div>
+          <h2 className="text-5xl font-bold leading-tight">
+            Reset Password
+          </h2>
+        </div>
+      </div>
+
+      {/* Right side - Form */}
+      <div className="flex-1 flex items-center justify-center px-8 py-12 bg-black">
+        <div className="w-full max-w-md">
+          {/* Mobile branding */}
+          <div className="lg:hidden flex items-center mb-8">
+            <img src="/image.png" alt="Power Nest Logo" className="w-8 h-8 mr-3" />
+            <h1 className="text-xl font-bold text-white">Power Nest</h1>
+          </div>
+
+          {renderContent()}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPasswordForm;
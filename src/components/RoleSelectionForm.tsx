@@ -1,21 +1,40 @@
 import React, { useState } from 'react';
 import { Lightbulb, DollarSign, HelpCircle } from 'lucide-react';
+import { onboardingApi } from '../api/onboarding';
+import { getErrorMessage } from '../api/client';
+import { UserRole } from '../api/types';
+import { useSession } from '../session/useSession';
 
 interface RoleSelectionFormProps {
-  onComplete: () => void;
+  onComplete: (role: UserRole) => void;
 }
 
 const RoleSelectionForm: React.FC<RoleSelectionFormProps> = ({ onComplete }) => {
-  const [selectedRole, setSelectedRole] = useState<'founder' | 'investor' | null>(null);
+  const { user, updateUser } = useSession();
+  const [selectedRole, setSelectedRole] = useState<UserRole | null>(user?.role ?? null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
 
-  const handleRoleSelect = (role: 'founder' | 'investor') => {
+  const handleRoleSelect = (role: UserRole) => {
     setSelectedRole(role);
+    setError('');
   };
 
-  const handleGetStarted = () => {
-    if (selectedRole) {
-      console.log('Selected role:', selectedRole);
-      onComplete();
+  const handleGetStarted = async () => {
+    if (!selectedRole) {
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { role, roles } = await onboardingApi.saveRole(selectedRole);
+      updateUser({ role, roles });
+      onComplete(role);
+    } catch (err) {
+      console.error('Role selection error:', err);
+      setError(getErrorMessage(err, 'We could not save your role. Please try again.'));
+    } finally {
+      setIsSaving(false);
     }
   };
 
@@ -131,12 +150,18 @@ const RoleSelectionForm: React.FC<RoleSelectionFormProps> = ({ onComplete }) =>
             </button>
           </div>
 
+          {error && (
+            <div className="mb-6 p-4 bg-red-900/20 border border-red-500 rounded-lg">
+              <p className="text-red-400 text-sm" role="alert">{error}</p>
+            </div>
+          )}
+
           <button
             onClick={handleGetStarted}
-            disabled={!selectedRole}
+            disabled={!selectedRole || isSaving}
             className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-gray-800 disabled:cursor-not-allowed text-white font-semibold py-4 px-6 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-black"
           >
-            Let's get started
+            {isSaving ? 'Saving...' : "Let's get started"}
           </button>
 
           <p className="text-center text-gray-500 text-sm mt-4">
@@ -0,0 +1,270 @@
+import { ChevronDown } from 'lucide-react';
+import {
+  AddonSelect,
+  CheckboxField,
+  ChipsField,
+  FieldChange,
+  FieldOptions,
+  FormField,
+  FormSchema,
+  InputField,
+  RadioField,
+  SelectField,
+  TextAreaField,
+  isFieldVisible,
+  optionLabel,
+  optionValue,
+} from '../forms/schema';
+import { SchemaFormState } from '../forms/useSchemaForm';
+
+interface SchemaFieldsProps<T> {
+  schema: FormSchema<T>;
+  form: SchemaFormState<T>;
+  // Keeps element ids apart when a second schema shares the page.
+  idPrefix?: string;
+}
+
+interface FieldProps<T, F extends FormField<T>> {
+  field: F;
+  form: SchemaFormState<T>;
+  id: string;
+}
+
+const borderClass = (error?: string) => (error ? 'border-red-500' : 'border-gray-700 hover:border-gray-600');
+
+const inputClass = (width: string, error?: string) =>
+  `${width} h-14 bg-gray-900 rounded-xl px-5 py-4 text-white placeholder-gray-500 border transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${borderClass(error)}`;
+
+// Sets a field to what was entered, or applies what its `change` hook returns instead.
+const applyChange = <T,>(form: SchemaFormState<T>, name: keyof T & string, value: string, change?: FieldChange<T>) => {
+  const updates = change ? change(value, form.values) : ({ [name]: value } as Partial<T>);
+  (Object.keys(updates) as (keyof T)[]).forEach(key => form.setValue(key, updates[key] as T[keyof T]));
+};
+
+const renderOptions = (options: FieldOptions) =>
+  options.map(option => (
+    <option key={optionValue(option)} value={optionValue(option)}>
+      {optionLabel(option)}
+    </option>
+  ));
+
+const Addon = <T,>({ addon, form, width }: { addon: AddonSelect<T>; form: SchemaFormState<T>; width: string }) => (
+  <div className="relative">
+    <select
+      name={addon.name}
+      aria-label={addon.label}
+      value={String(form.values[addon.name] ?? '')}
+      onChange={(e) => applyChange(form, addon.name, e.target.value, addon.change)}
+      className={`${width} h-14 bg-gray-900 rounded-xl px-3 py-4 text-white border border-gray-700 hover:border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none cursor-pointer`}
+    >
+      {renderOptions(addon.options)}
+    </select>
+    <ChevronDown className="absolute right-2 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 pointer-events-none" />
+  </div>
+);
+
+const TextInput = <T,>({ field, form, id }: FieldProps<T, InputField<T>>) => {
+  const error = form.errors[field.name];
+  const width = field.prefix || field.suffix ? 'flex-1 max-w-[280px]' : 'w-[434px]';
+  const input = (
+    <input
+      id={id}
+      type={field.type}
+      name={field.name}
+      value={String(form.values[field.name] ?? '')}
+      onChange={(e) => {
+        const value = field.strip ? e.target.value.replace(field.strip, '') : e.target.value;
+        applyChange(form, field.name, value, field.change);
+      }}
+      className={inputClass(width, error)}
+      placeholder={field.placeholder}
+      aria-invalid={error ? 'true' : 'false'}
+    />
+  );
+
+  if (!field.prefix && !field.suffix) {
+    return input;
+  }
+  return (
+    <div className="flex gap-3">
+      {field.prefix && <Addon addon={field.prefix} form={form} width="w-32" />}
+      {input}
+      {field.suffix && <Addon addon={field.suffix} form={form} width="w-32" />}
+    </div>
+  );
+};
+
+const SelectInput = <T,>({ field, form, id }: FieldProps<T, SelectField<T>>) => {
+  const error = form.errors[field.name];
+  const value = String(form.values[field.name] ?? '');
+  return (
+    <div className="relative">
+      <select
+        id={id}
+        name={field.name}
+        value={value}
+        onChange={(e) => applyChange(form, field.name, e.target.value, field.change)}
+        className={`w-[434px] h-14 bg-gray-900 rounded-xl px-5 py-4 border transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 appearance-none cursor-pointer ${borderClass(error)} ${
+          value ? 'text-white' : 'text-gray-500'
+        }`}
+        aria-invalid={error ? 'true' : 'false'}
+      >
+        <option value="">{field.placeholder ?? `Select your ${field.label}`}</option>
+        {renderOptions(field.options)}
+      </select>
+      <ChevronDown className="absolute right-5 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400 pointer-events-none" />
+    </div>
+  );
+};
+
+const TextAreaInput = <T,>({ field, form, id }: FieldProps<T, TextAreaField<T>>) => {
+  const error = form.errors[field.name];
+  return (
+    <textarea
+      id={id}
+      name={field.name}
+      rows={field.rows ?? 4}
+      value={String(form.values[field.name] ?? '')}
+      onChange={(e) => applyChange(form, field.name, e.target.value, field.change)}
+      className={`w-full max-w-[700px] bg-gray-900 rounded-xl px-5 py-4 text-white placeholder-gray-500 border transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${borderClass(error)}`}
+      placeholder={field.placeholder}
+      aria-invalid={error ? 'true' : 'false'}
+    />
+  );
+};
+
+const RadioInput = <T,>({ field, form, id }: FieldProps<T, RadioField<T>>) => {
+  const selected = String(form.values[field.name] ?? '');
+  return (
+    <div id={id} role="radiogroup" aria-label={field.label} className="space-y-3 max-w-[700px]">
+      {field.options.map(option => {
+        const value = optionValue(option);
+        const description = typeof option === 'string' ? undefined : option.description;
+        return (
+          <label
+            key={value}
+            className={`flex items-start p-4 rounded-xl border cursor-pointer transition-colors ${
+              selected === value ? 'border-blue-500 bg-blue-500/10' : 'border-gray-700 hover:border-gray-600'
+            }`}
+          >
+            <input
+              type="radio"
+              name={field.name}
+              value={value}
+              checked={selected === value}
+              onChange={() => applyChange(form, field.name, value, field.change)}
+              className="mt-1 mr-3"
+            />
+            <span>
+              <span className="block text-gray-200 text-sm">{optionLabel(option)}</span>
+              {description && <span className="block text-sm text-gray-400">{description}</span>}
+            </span>
+          </label>
+        );
+      })}
+    </div>
+  );
+};
+
+const ChipsInput = <T,>({ field, form, id }: FieldProps<T, ChipsField<T>>) => {
+  const selected = (form.values[field.name] as unknown as string[] | undefined) ?? [];
+  const toggle = (value: string) =>
+    form.setValue(
+      field.name,
+      (selected.includes(value) ? selected.filter(other => other !== value) : [...selected, value]) as unknown as T[keyof T & string]
+    );
+  return (
+    <div id={id} role="group" aria-label={field.label} className="flex flex-wrap gap-2 max-w-[700px]">
+      {field.options.map(option => {
+        const value = optionValue(option);
+        const isSelected = selected.includes(value);
+        return (
+          <button
+            key={value}
+            type="button"
+            aria-pressed={isSelected}
+            onClick={() => toggle(value)}
+            className={`px-4 py-2 rounded-full text-sm border transition-colors ${
+              isSelected
+                ? 'bg-blue-600 border-blue-500 text-white'
+                : 'bg-gray-900 border-gray-700 text-gray-300 hover:border-gray-600'
+            }`}
+          >
+            {optionLabel(option)}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+const CheckboxInput = <T,>({ field, form, id }: FieldProps<T, CheckboxField<T>>) => (
+  <label className="flex items-start cursor-pointer max-w-[700px]">
+    <input
+      id={id}
+      type="checkbox"
+      name={field.name}
+      checked={!!form.values[field.name]}
+      onChange={(e) => form.setValue(field.name, e.target.checked as unknown as T[keyof T & string])}
+      className="mt-1 mr-3 w-4 h-4"
+    />
+    <span className="text-gray-300 text-sm">{field.label}</span>
+  </label>
+);
+
+const renderInput = <T,>(field: FormField<T>, form: SchemaFormState<T>, id: string) => {
+  switch (field.type) {
+    case 'textarea':
+      return <TextAreaInput field={field} form={form} id={id} />;
+    case 'select':
+      return <SelectInput field={field} form={form} id={id} />;
+    case 'radio':
+      return <RadioInput field={field} form={form} id={id} />;
+    case 'chips':
+      return <ChipsInput field={field} form={form} id={id} />;
+    case 'checkbox':
+      return <CheckboxInput field={field} form={form} id={id} />;
+    default:
+      return <TextInput field={field} form={form} id={id} />;
+  }
+};
+
+// Fields with a single control the label can point at; groups carry their own aria-label.
+const labelled = <T,>(field: FormField<T>) => !['radio', 'chips'].includes(field.type);
+
+/**
+ * Renders the visible fields of a schema with the onboarding look: label,
+ * control, error and hint. The surrounding <form> and its buttons stay with
+ * the caller.
+ */
+const SchemaFields = <T,>({ schema, form, idPrefix = '' }: SchemaFieldsProps<T>) => (
+  <>
+    {schema
+      .filter(field => isFieldVisible(field, form.values))
+      .map(field => {
+        const error = form.errors[field.name];
+        const hint = typeof field.hint === 'function' ? field.hint(form.values) : field.hint;
+        const id = `${idPrefix}${field.name}`;
+        return (
+          <div key={field.name} className="form-group">
+            {/* A checkbox carries its label beside the box. */}
+            {field.type !== 'checkbox' && (
+              <label htmlFor={labelled(field) ? id : undefined} className="block text-lg font-medium text-white mb-2">
+                {field.label}
+                {!field.required && <span className="ml-2 text-sm text-gray-400">(Optional)</span>}
+              </label>
+            )}
+            {renderInput(field, form, id)}
+            {error && (
+              <p className="mt-2 text-sm text-red-500" role="alert">
+                {error}
+              </p>
+            )}
+            {hint && <p className="mt-2 text-sm text-gray-500">{hint}</p>}
+          </div>
+        );
+      })}
+  </>
+);
+
+export default SchemaFields;
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Navigate, useParams } from 'react-router-dom';
+import MyMatches from './MyMatches';
+import TaskCalendar from './TaskCalendar';
+import JobHiring from './JobHiring';
+import { DashboardSection as SectionName, paths } from '../../routes/paths';
+import { hasPermission, sectionPermissions } from '../../session/permissions';
+import { useSession } from '../../session/useSession';
+
+const sectionTitles: Record<SectionName, string> = {
+  'ai-agent': 'AI Agent',
+  'my-matches': 'My Matches',
+  'manage-deck': 'Manage Deck',
+  'schedule-meeting': 'Schedule Meeting',
+  'job-hiring': 'Job Hiring',
+  'analytics': 'Analytics',
+  'my-investments': 'My Investments',
+  'portfolio': 'Portfolio',
+  'upcoming-meetings': 'Upcoming Meetings',
+  'market-insights': 'Market Insights',
+};
+
+// Sections that already have a screen; the rest show a placeholder until built.
+const sectionComponents: Partial<Record<SectionName, React.ComponentType>> = {
+  'my-matches': MyMatches,
+  'schedule-meeting': TaskCalendar,
+  'job-hiring': JobHiring,
+  'upcoming-meetings': TaskCalendar,
+};
+
+// Sections that share the founder's material with others, closed until the
+// email address is verified.
+const verifiedEmailSections: SectionName[] = ['manage-deck'];
+
+const isSectionName = (value: string | undefined): value is SectionName =>
+  !!value && value in sectionTitles;
+
+const DashboardSection = () => {
+  const { section } = useParams();
+  const { user } = useSession();
+
+  if (!isSectionName(section) || !hasPermission(user, sectionPermissions[section])) {
+    return <Navigate to={paths.dashboard} replace />;
+  }
+
+  if (verifiedEmailSections.includes(section) && !user?.emailVerified) {
+    return (
+      <section className="p-4 text-white">
+        <h2 className="text-xl font-semibold mb-2">{sectionTitles[section]}</h2>
+        <p className="text-gray-400 text-sm">Verify your email address to share your deck.</p>
+      </section>
+    );
+  }
+
+  const SectionComponent = sectionComponents[section];
+  if (SectionComponent) {
+    return (
+      <div className="flex flex-col items-center p-2">
+        <SectionComponent />
+      </div>
+    );
+  }
+
+  return (
+    <section className="p-4 text-white">
+      <h2 className="text-xl font-semibold mb-2">{sectionTitles[section]}</h2>
+      <p className="text-gray-400 text-sm">This section is coming soon.</p>
+    </section>
+  );
+};
+
+export default DashboardSection;
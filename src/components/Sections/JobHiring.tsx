@@ -1,80 +1,37 @@
 // src/components/JobHiringSection.jsx
 import React, { useState, useEffect } from 'react';
+import { jobsApi } from '../../api/jobs';
+import { getErrorMessage, isCancelledRequest } from '../../api/client';
+import { JobApplicant } from '../../api/types';
 
 const JobHiring = () => {
-  const [jobApplicants, setJobApplicants] = useState([]);
+  const [jobApplicants, setJobApplicants] = useState<JobApplicant[]>([]);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState(null);
-
-  // In a real application, replace this with your actual API endpoint
-  // For example: const API_ENDPOINT = 'https://api.yourwebsite.com/jobs/applicants';
-  const API_ENDPOINT = 'https://api.example.com/job-applicants'; // Placeholder
+  const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
+    const controller = new AbortController();
+
     const fetchJobApplicants = async () => {
       setLoading(true);
       setError(null); // Clear any previous errors
 
       try {
-        // --- Simulate API Call ---
-        // In a real app, you would use:
-        // const response = await fetch(API_ENDPOINT);
-        // if (!response.ok) {
-        //   throw new Error(`HTTP error! status: ${response.status}`);
-        // }
-        // const data = await response.json();
-
-        // Using setTimeout to simulate network delay and data fetching
-        const simulatedData = [
-          {
-            id: 1,
-            name: 'Alex Morgan',
-            role: 'UI/UX Designer',
-            date: '02 Jan 2025',
-            avatar: 'https://randomuser.me/api/portraits/men/32.jpg',
-          },
-          {
-            id: 2,
-            name: 'Jordan Lee',
-            role: 'Web Developer',
-            date: '02 Jan 2025',
-            avatar: 'https://randomuser.me/api/portraits/men/47.jpg',
-          },
-          {
-            id: 3,
-            name: 'Tim Smith',
-            role: 'JavaScript Engineer',
-            date: '02 Jan 2025',
-            avatar: 'https://randomuser.me/api/portraits/men/75.jpg',
-          },
-          {
-            id: 4,
-            name: 'Casey Jordan',
-            role: 'React Developer',
-            date: '02 Jan 2025',
-            avatar: 'https://randomuser.me/api/portraits/women/68.jpg',
-          },
-          {
-            id: 5,
-            name: 'Samantha Grey',
-            role: 'Product Manager',
-            date: '05 Jan 2025',
-            avatar: 'https://randomuser.me/api/portraits/women/55.jpg',
-          },
-        ];
-
-        setTimeout(() => {
-          setJobApplicants(simulatedData);
-          setLoading(false);
-        }, 1500); // Simulate 1.5 seconds loading time
-
+        const applicants = await jobsApi.listApplicants({ signal: controller.signal });
+        setJobApplicants(applicants);
+        setLoading(false);
       } catch (err) {
-        setError(err.message);
+        // The request is cancelled when the section unmounts; nothing to show then.
+        if (isCancelledRequest(err)) {
+          return;
+        }
+        setError(getErrorMessage(err, 'Something went wrong.'));
         setLoading(false);
       }
     };
 
     fetchJobApplicants();
+    return () => controller.abort();
   }, []); // Empty dependency array means this effect runs only once after the initial render
 
   if (loading) {
@@ -1,16 +1,31 @@
-// src/pages/MyMatches.jsx
-import React, { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { RiSearchLine } from 'react-icons/ri';
+import { matchesApi } from '../../api/matches';
+import { isCancelledRequest } from '../../api/client';
+import { Match } from '../../api/types';
+import { useSession } from '../../session/useSession';
 
 const MyMatches = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filter, setFilter] = useState('all');
 
-  const matches = [
-    { id: 1, name: 'Investor A', status: 'viewed' },
-    { id: 2, name: 'Investor B', status: 'viewed' },
-    { id: 3, name: 'Investor C', status: 'viewed' },
-  ];
+  const [matches, setMatches] = useState<Match[]>([]);
+  // Intro requests message investors, which needs a verified email.
+  const { user } = useSession();
+  const canRequestIntro = !!user?.emailVerified;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    matchesApi
+      .list({ signal: controller.signal })
+      .then(setMatches)
+      .catch((err) => {
+        if (!isCancelledRequest(err)) {
+          console.error('Error loading matches:', err);
+        }
+      });
+    return () => controller.abort();
+  }, []);
 
   const filteredMatches = matches.filter((match) => {
     const matchesSearch = match.name.toLowerCase().includes(searchTerm.toLowerCase());
@@ -32,7 +47,7 @@ const MyMatches = () => {
                 <input
                   type="text"
                   value={searchTerm}
-                  onC          hange={(e) => setSearchTerm(e.target.value)}
+                  onChange={(e) => setSearchTerm(e.target.value)}
                   placeholder="Search..."
                   className="w-full px-3 py-1.5 pl-9 rounded-md bg-[#1a1a2e] border border-[#333] text-sm text-white focus:outline-none"
                 />
@@ -91,7 +106,11 @@ const MyMatches = () => {
 
         {/* Bottom: Request Intro */}
         <div className="pt-4">
-          <button className="text-sm bg-[#102361] hover:bg-[#0C0D17] border border-[#333] px-4 py-1.5 rounded-md text-white">
+          <button
+            disabled={!canRequestIntro}
+            title={canRequestIntro ? undefined : 'Verify your email to message investors'}
+            className="text-sm bg-[#102361] hover:bg-[#0C0D17] border border-[#333] px-4 py-1.5 rounded-md text-white disabled:opacity-50 disabled:cursor-not-allowed"
+          >
             Request Intro
           </button>
         </div>
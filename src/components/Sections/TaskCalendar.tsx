@@ -13,23 +13,29 @@ import {
   addDays,
   parseISO,
 } from 'date-fns';
+import { tasksApi } from '../../api/tasks';
+import { isCancelledRequest } from '../../api/client';
+import { Task } from '../../api/types';
 
 const TaskCalendar = () => {
   const [currentMonth, setCurrentMonth] = useState(new Date());
   // CHANGE 1: selectedDate is now an array
   const [selectedDates, setSelectedDates] = useState([]);
 
-  // Dummy task data (replace with your actual data fetching)
-  const [tasks, setTasks] = useState([
-    { id: 1, date: '2025-03-15', description: 'Review Q1 Investor Report' },
-    { id: 2, date: '2025-03-16', description: 'Advisor Meeting' },
-    { id: 3, date: '2025-03-17', description: 'Job Interview - Candidate A' },
-    { id: 4, date: '2025-03-24', description: 'Team Standup' },
-    { id: 5, date: '2025-03-08', description: 'Prepare Marketing Plan' },
-    { id: 6, date: '2025-03-18', description: 'Project Deadline' },
-    { id: 7, date: '2025-03-19', description: 'Client Call' },
-    // Add more dummy tasks as needed
-  ]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    tasksApi
+      .list({ signal: controller.signal })
+      .then(setTasks)
+      .catch(err => {
+        if (!isCancelledRequest(err)) {
+          console.error('Error loading tasks:', err);
+        }
+      });
+    return () => controller.abort();
+  }, []);
 
   // Dummy progress data (could also be dynamic based on task completion)
   const progressData = [
@@ -2,6 +2,7 @@ import React from 'react'
 import ProfileCompletion from './ProfileComplection'
 import TaskCalendar from './TaskCalendar'
 import JobHiring from './JobHiring'
+import Can from '../Can'
 const index = () => {
   return (
     <>
@@ -18,7 +19,9 @@ const index = () => {
   </section> */}
    <div className="flex flex-col items-center p-2"> {/* Added a wrapper for overall layout */}
       <TaskCalendar />
-      <JobHiring /> {/* Render the JobHiringSection below the calendar */}
+      <Can permission="job:post">
+        <JobHiring /> {/* Render the JobHiringSection below the calendar */}
+      </Can>
     </div>
   </>
   )
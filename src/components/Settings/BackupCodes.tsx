@@ -0,0 +1,52 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+
+interface BackupCodesProps {
+  codes: string[];
+}
+
+const DOWNLOAD_NAME = 'powernest-backup-codes.txt';
+
+// Freshly issued backup codes. They are shown once, so offer a download.
+const BackupCodes: React.FC<BackupCodesProps> = ({ codes }) => {
+  const handleDownload = () => {
+    const text = [
+      'Power Nest backup codes',
+      'Each code signs you in once if you lose access to your authenticator app.',
+      '',
+      ...codes,
+      '',
+    ].join('\n');
+    const url = URL.createObjectURL(new Blob([text], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = DOWNLOAD_NAME;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-4 bg-gray-900 rounded-lg border border-gray-700">
+      <p className="text-sm text-gray-300 mb-3">
+        Save these backup codes somewhere safe. Each one works once, and you will not see them again.
+      </p>
+      <ul className="grid grid-cols-2 gap-2 font-mono text-sm mb-4">
+        {codes.map(code => (
+          <li key={code} className="px-3 py-1 bg-gray-800 rounded text-center">
+            {code}
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={handleDownload}
+        className="flex items-center py-2 px-4 border border-gray-600 rounded-md text-sm hover:border-gray-500 transition-colors"
+      >
+        <Download className="w-4 h-4 mr-2" />
+        Download codes
+      </button>
+    </div>
+  );
+};
+
+export default BackupCodes;
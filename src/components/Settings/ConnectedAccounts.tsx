@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { identitiesApi } from '../../api/identities';
+import { getErrorMessage, isCancelledRequest } from '../../api/client';
+import { ConnectedAccounts as ConnectedAccountsData, OAuthProvider } from '../../api/types';
+import { beginOAuth } from '../../oauth/flow';
+import { oauthProviders } from '../../oauth/providers';
+
+const providerLogos: Record<OAuthProvider, string> = {
+  google: '/google-logo.png',
+  linkedin: '/linkedin-logo.jpg',
+};
+
+const providers = Object.keys(oauthProviders) as OAuthProvider[];
+
+/**
+ * Lists the Google/LinkedIn identities linked to the signed-in account and
+ * links or unlinks them. Linking runs the normal OAuth flow, which comes back
+ * to this page with the outcome in the route state.
+ */
+const ConnectedAccounts: React.FC = () => {
+  const location = useLocation();
+  const [accounts, setAccounts] = useState<ConnectedAccountsData | null>(null);
+  const [busyProvider, setBusyProvider] = useState<OAuthProvider | null>(null);
+  const [error, setError] = useState<string | null>(location.state?.oauthError ?? null);
+  const [notice, setNotice] = useState<string | null>(
+    location.state?.linkedProvider ? `${oauthProviders[location.state.linkedProvider as OAuthProvider].label} is now connected.` : null
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+    identitiesApi
+      .list({ signal: controller.signal })
+      .then(setAccounts)
+      .catch((err) => {
+        if (isCancelledRequest(err)) return;
+        setError(getErrorMessage(err, 'Could not load your connected accounts.'));
+      });
+    return () => controller.abort();
+  }, []);
+
+  const handleConnect = async (provider: OAuthProvider) => {
+    setBusyProvider(provider);
+    try {
+      window.location.assign(await beginOAuth(provider, { intent: 'link' }));
+    } catch (err) {
+      console.error('Link account error:', err);
+      setBusyProvider(null);
+      setError(`We could not start ${oauthProviders[provider].label} sign-in. Please try again.`);
+    }
+  };
+
+  const handleDisconnect = async (provider: OAuthProvider) => {
+    setBusyProvider(provider);
+    setError(null);
+    setNotice(null);
+    try {
+      setAccounts(await identitiesApi.unlink(provider));
+      setNotice(`${oauthProviders[provider].label} has been disconnected.`);
+    } catch (err) {
+      setError(getErrorMessage(err, 'We could not disconnect this account. Please try again.'));
+    } finally {
+      setBusyProvider(null);
+    }
+  };
+
+  // An account must keep at least one way to sign in.
+  const isLastSignInMethod = !!accounts && !accounts.hasPassword && accounts.identities.length === 1;
+
+  return (
+    <section className="p-6 bg-black text-white rounded-lg border border-gray-800">
+      <h2 className="text-xl font-semibold mb-1">Connected accounts</h2>
+      <p className="text-gray-400 text-sm mb-4">Sign in to Power Nest with Google or LinkedIn as well as your password.</p>
+
+      {error && <p className="mb-4 text-sm text-red-400" role="alert">{error}</p>}
+      {notice && <p className="mb-4 text-sm text-green-400">{notice}</p>}
+
+      {!accounts ? (
+        !error && <p className="text-gray-400 text-sm">Loading...</p>
+      ) : (
+        <ul className="divide-y divide-gray-800">
+          {providers.map((provider) => {
+            const identity = accounts.identities.find(candidate => candidate.provider === provider);
+            const { label } = oauthProviders[provider];
+            return (
+              <li key={provider} className="flex items-center py-3">
+                <img src={providerLogos[provider]} alt="" className="w-8 h-8 mr-4 object-contain" />
+                <div className="flex-grow">
+                  <p className="font-semibold text-sm">{label}</p>
+                  <p className="text-gray-400 text-sm">
+                    {identity
+                      ? `${identity.email} · connected ${new Date(identity.connectedAt).toLocaleDateString()}`
+                      : 'Not connected'}
+                  </p>
+                </div>
+                {identity ? (
+                  <button
+                    type="button"
+                    onClick={() => handleDisconnect(provider)}
+                    disabled={busyProvider !== null || isLastSignInMethod}
+                    title={isLastSignInMethod ? 'Set a password before disconnecting your only sign-in method' : undefined}
+                    className="py-2 px-4 border border-gray-600 rounded-md text-sm hover:border-gray-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    Disconnect
+                  </button>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => handleConnect(provider)}
+                    disabled={busyProvider !== null}
+                    className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md text-sm transition-colors"
+                  >
+                    Connect
+                  </button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default ConnectedAccounts;
@@ -0,0 +1,16 @@
+import React from 'react';
+import ConnectedAccounts from './ConnectedAccounts';
+import TwoFactorSettings from './TwoFactorSettings';
+import Workspaces from './Workspaces';
+
+// Account settings, shown inside the dashboard layout.
+const Settings: React.FC = () => (
+  <div className="flex flex-col gap-6 p-4 max-w-2xl w-full mx-auto">
+    <h1 className="text-2xl font-bold text-white">Settings</h1>
+    <Workspaces />
+    <TwoFactorSettings />
+    <ConnectedAccounts />
+  </div>
+);
+
+export default Settings;
@@ -0,0 +1,165 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { twoFactorApi } from '../../api/twoFactor';
+import { getErrorMessage, isCancelledRequest } from '../../api/client';
+import { TwoFactorStatus } from '../../api/types';
+import { paths } from '../../routes/paths';
+import BackupCodes from './BackupCodes';
+
+type PendingAction = 'disable' | 'regenerate';
+
+const actionLabels: Record<PendingAction, string> = {
+  disable: 'Turn off',
+  regenerate: 'Get new backup codes',
+};
+
+/**
+ * Two-factor authentication status. Setting it up happens on its own page;
+ * turning it off or replacing the backup codes asks for a current code first.
+ */
+const TwoFactorSettings: React.FC = () => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [action, setAction] = useState<PendingAction | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    twoFactorApi
+      .status({ signal: controller.signal })
+      .then(setStatus)
+      .catch((err) => {
+        if (isCancelledRequest(err)) return;
+        setError(getErrorMessage(err, 'Could not load your two-factor settings.'));
+      });
+    return () => controller.abort();
+  }, []);
+
+  const handleStartAction = (next: PendingAction) => {
+    setAction(next);
+    setCode('');
+    setError(null);
+    setBackupCodes(null);
+  };
+
+  const handleCancel = () => {
+    setAction(null);
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) {
+      setError('Enter a code to confirm');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      if (action === 'disable') {
+        setStatus(await twoFactorApi.disable(code.trim()));
+      } else {
+        const { backupCodes } = await twoFactorApi.regenerateBackupCodes(code.trim());
+        setBackupCodes(backupCodes);
+        setStatus(current => current && { ...current, backupCodesRemaining: backupCodes.length });
+      }
+      setAction(null);
+    } catch (err) {
+      setError(getErrorMessage(err, 'That code did not work. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <section className="p-6 bg-black text-white rounded-lg border border-gray-800">
+      <h2 className="text-xl font-semibold mb-1">Two-factor authentication</h2>
+      <p className="text-gray-400 text-sm mb-4">
+        Ask for a code from an authenticator app as well as your password when you sign in.
+      </p>
+
+      {error && <p className="mb-4 text-sm text-red-400" role="alert">{error}</p>}
+
+      {!status ? (
+        !error && <p className="text-gray-400 text-sm">Loading...</p>
+      ) : !status.enabled ? (
+        <div className="flex items-center">
+          <p className="flex-grow text-sm text-gray-300">Off</p>
+          <Link
+            to={paths.twoFactorSetup}
+            className="py-2 px-4 bg-blue-600 hover:bg-blue-700 rounded-md text-sm transition-colors"
+          >
+            Set up
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex items-center gap-2">
+            <p className="flex-grow text-sm text-gray-300">
+              On · {status.backupCodesRemaining} backup {status.backupCodesRemaining === 1 ? 'code' : 'codes'} left
+            </p>
+            {!action && (
+              <>
+                <button
+                  type="button"
+                  onClick={() => handleStartAction('regenerate')}
+                  className="py-2 px-4 border border-gray-600 rounded-md text-sm hover:border-gray-500 transition-colors"
+                >
+                  {actionLabels.regenerate}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleStartAction('disable')}
+                  className="py-2 px-4 border border-red-700 text-red-400 rounded-md text-sm hover:border-red-500 transition-colors"
+                >
+                  {actionLabels.disable}
+                </button>
+              </>
+            )}
+          </div>
+
+          {action && (
+            <form onSubmit={handleSubmit} className="flex items-end gap-2">
+              <div className="flex-grow">
+                <label htmlFor="two-factor-code" className="block text-sm text-gray-300 mb-1">
+                  {action === 'disable'
+                    ? 'Enter a code from your authenticator app or a backup code'
+                    : 'Enter a code from your authenticator app'}
+                </label>
+                <input
+                  id="two-factor-code"
+                  type="text"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  className="w-full px-3 py-2 bg-gray-800 text-white rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md text-sm transition-colors"
+              >
+                {actionLabels[action]}
+              </button>
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="py-2 px-4 border border-gray-600 rounded-md text-sm hover:border-gray-500 transition-colors"
+              >
+                Cancel
+              </button>
+            </form>
+          )}
+
+          {backupCodes && <BackupCodes codes={backupCodes} />}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ShieldCheck } from 'lucide-react';
+import { twoFactorApi } from '../../api/twoFactor';
+import { getErrorMessage, isCancelledRequest } from '../../api/client';
+import { TwoFactorSetup as TwoFactorSetupData } from '../../api/types';
+import { paths } from '../../routes/paths';
+import QrCode from '../QrCode/QrCode';
+import BackupCodes from './BackupCodes';
+
+// Groups of four are easier to type into an authenticator app by hand.
+const formatSecret = (secret: string) => secret.match(/.{1,4}/g)?.join(' ') ?? secret;
+
+/**
+ * Turns on two-factor authentication: scan the QR code (or type the secret),
+ * confirm with a first code, then save the backup codes.
+ */
+const TwoFactorSetup: React.FC = () => {
+  const navigate = useNavigate();
+  const [setup, setSetup] = useState<TwoFactorSetupData | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    twoFactorApi
+      .setup({ signal: controller.signal })
+      .then(setSetup)
+      .catch((err) => {
+        if (isCancelledRequest(err)) return;
+        setError(getErrorMessage(err, 'Could not start two-factor setup. Please try again.'));
+      });
+    return () => controller.abort();
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d{6}$/.test(code)) {
+      setError('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const { backupCodes } = await twoFactorApi.enable(code);
+      setBackupCodes(backupCodes);
+    } catch (err) {
+      setError(getErrorMessage(err, 'That code did not work. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-6 p-4 max-w-2xl w-full mx-auto text-white">
+      <h1 className="text-2xl font-bold">Set up two-factor authentication</h1>
+
+      {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+
+      {backupCodes ? (
+        <section className="p-6 bg-black rounded-lg border border-gray-800 space-y-4">
+          <div className="flex items-center">
+            <ShieldCheck className="w-6 h-6 text-green-400 mr-2" />
+            <h2 className="text-xl font-semibold">Two-factor authentication is on</h2>
+          </div>
+          <BackupCodes codes={backupCodes} />
+          <button
+            type="button"
+            onClick={() => navigate(paths.settings)}
+            className="py-2 px-4 bg-blue-600 hover:bg-blue-700 rounded-md text-sm transition-colors"
+          >
+            Done
+          </button>
+        </section>
+      ) : !setup ? (
+        !error && <p className="text-gray-400 text-sm">Loading...</p>
+      ) : (
+        <section className="p-6 bg-black rounded-lg border border-gray-800 space-y-6">
+          <div>
+            <h2 className="font-semibold mb-2">1. Scan this QR code</h2>
+            <p className="text-gray-400 text-sm mb-4">
+              Use Google Authenticator, 1Password, Authy or any other authenticator app.
+            </p>
+            <QrCode value={setup.otpauthUrl} label="QR code for your authenticator app" />
+            <p className="text-gray-400 text-sm mt-4">Can't scan it? Enter this key instead:</p>
+            <p className="font-mono text-sm mt-1 break-all">{formatSecret(setup.secret)}</p>
+          </div>
+
+          <form onSubmit={handleSubmit}>
+            <h2 className="font-semibold mb-2">2. Enter the code it shows</h2>
+            <div className="flex gap-2">
+              <input
+                type="text"
+                value={code}
+                onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                aria-label="Authentication code"
+                className="w-40 px-3 py-2 bg-gray-800 text-white tracking-widest rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <button
+                type="submit"
+                disabled={isSubmitting}
+                className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md text-sm transition-colors"
+              >
+                {isSubmitting ? 'Verifying...' : 'Turn on'}
+              </button>
+              <button
+                type="button"
+                onClick={() => navigate(paths.settings)}
+                className="py-2 px-4 border border-gray-600 rounded-md text-sm hover:border-gray-500 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorSetup;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { ApiError, getErrorMessage } from '../../api/client';
+import { UserRole, WorkspaceProfile } from '../../api/types';
+import { roleLabels, rolePermissions } from '../../session/permissions';
+import { useWorkspace } from '../../session/useWorkspace';
+
+const allRoles = Object.keys(rolePermissions) as UserRole[];
+
+interface WorkspaceFormProps {
+  role: UserRole;
+  // Missing when the user does not hold this role yet.
+  profile?: WorkspaceProfile;
+}
+
+const WorkspaceForm: React.FC<WorkspaceFormProps> = ({ role, profile }) => {
+  const { saveProfile } = useWorkspace();
+  const [displayName, setDisplayName] = useState(profile?.displayName ?? '');
+  const [headline, setHeadline] = useState(profile?.headline ?? '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await saveProfile(role, { displayName, headline });
+      setNotice(profile ? 'Profile saved.' : `Your ${roleLabels[role].toLowerCase()} workspace is ready. Switch to it from the top bar.`);
+    } catch (err) {
+      setError(
+        err instanceof ApiError && err.fields.displayName
+          ? err.fields.displayName
+          : getErrorMessage(err, 'We could not save this workspace. Please try again.')
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 rounded-lg border border-gray-800 space-y-3">
+      <h3 className="font-semibold">{roleLabels[role]}</h3>
+      {!profile && (
+        <p className="text-gray-400 text-sm">
+          Add a {roleLabels[role].toLowerCase()} workspace to use Power Nest in this role too, with its own profile.
+        </p>
+      )}
+      <div>
+        <label htmlFor={`${role}-display-name`} className="block text-sm text-gray-300 mb-1">
+          Display name
+        </label>
+        <input
+          id={`${role}-display-name`}
+          type="text"
+          value={displayName}
+          onChange={(e) => setDisplayName(e.target.value)}
+          className="w-full px-3 py-2 bg-gray-800 text-white rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      <div>
+        <label htmlFor={`${role}-headline`} className="block text-sm text-gray-300 mb-1">
+          Headline
+        </label>
+        <input
+          id={`${role}-headline`}
+          type="text"
+          value={headline}
+          onChange={(e) => setHeadline(e.target.value)}
+          className="w-full px-3 py-2 bg-gray-800 text-white rounded-md border border-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+      {error && <p className="text-sm text-red-400" role="alert">{error}</p>}
+      {notice && <p className="text-sm text-green-400">{notice}</p>}
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded-md text-sm transition-colors"
+      >
+        {isSaving ? 'Saving...' : profile ? 'Save profile' : 'Add workspace'}
+      </button>
+    </form>
+  );
+};
+
+/**
+ * One workspace per role, each with the profile shown to others in that role.
+ * Adding the second role is how a founder becomes an angel investor too.
+ */
+const Workspaces: React.FC = () => {
+  const { profiles } = useWorkspace();
+
+  return (
+    <section className="p-6 bg-black text-white rounded-lg border border-gray-800">
+      <h2 className="text-xl font-semibold mb-1">Workspaces</h2>
+      <p className="text-gray-400 text-sm mb-4">Keep a separate profile for each role you use Power Nest in.</p>
+      <div className="space-y-4">
+        {allRoles.map(role => (
+          <WorkspaceForm key={role} role={role} profile={profiles[role]} />
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default Workspaces;
@@ -1,10 +1,13 @@
 import React, { useState } from 'react';
 import { Mail, Lock, Check, AlertCircle } from 'lucide-react';
-<<<<<<< HEAD
+import { useLocation } from 'react-router-dom';
 import GoogleAuth from './GoogleAuth';
 import LinkedInAuth from './LinkedInAuth';
-=======
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
+import { authApi } from '../api/auth';
+import { ApiError, getErrorMessage } from '../api/client';
+import { useSession } from '../session/useSession';
+import { checkNewPassword, validatePassword } from '../validation/password';
+import PasswordStrengthMeter from './PasswordStrengthMeter';
 
 interface FormData {
   email: string;
@@ -16,30 +19,28 @@ interface FormErrors {
   email?: string;
   password?: string;
   agreeToTerms?: string;
+  general?: string;
 }
 
 interface SignUpFormProps {
+  onSignIn: () => void;
   onForgotPassword: () => void;
-  onSignUpSuccess: () => void;
-<<<<<<< HEAD
-  onLoginSuccess: (userData: any) => void;
+  onSignUpSuccess: (userData: any) => void;
 }
 
-const SignUpForm: React.FC<SignUpFormProps> = ({ onForgotPassword, onSignUpSuccess, onLoginSuccess }) => {
-=======
-}
-
-const SignUpForm: React.FC<SignUpFormProps> = ({ onForgotPassword, onSignUpSuccess }) => {
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
+const SignUpForm: React.FC<SignUpFormProps> = ({ onSignIn, onForgotPassword, onSignUpSuccess }) => {
   const [formData, setFormData] = useState<FormData>({
     email: '',
     password: '',
     agreeToTerms: false,
   });
 
-  const [errors, setErrors] = useState<FormErrors>({});
+  // A failed Google/LinkedIn sign-up comes back here with its error in the route state.
+  const location = useLocation();
+  const [errors, setErrors] = useState<FormErrors>(() => ({ general: location.state?.oauthError }));
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const { signIn } = useSession();
 
   const validateForm = (): boolean => {
     const newErrors: FormErrors = {};
@@ -52,12 +53,9 @@ const SignUpForm: React.FC<SignUpFormProps> = ({ onForgotPassword, onSignUpSucce
     }
 
     // Password validation
-    if (!formData.password) {
-      newErrors.password = 'Password is required';
-    } else if (formData.password.length < 8) {
-      newErrors.password = 'Password must be at least 8 characters long';
-    } else if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(formData.password)) {
-      newErrors.password = 'Password must contain at least one uppercase letter, one lowercase letter, and one number';
+    const passwordError = validatePassword(formData.password, { email: formData.email });
+    if (passwordError) {
+      newErrors.password = passwordError;
     }
 
     // Terms validation
@@ -95,12 +93,15 @@ const SignUpForm: React.FC<SignUpFormProps> = ({ onForgotPassword, onSignUpSucce
     setIsSubmitting(true);
 
     try {
-      // Simulate API call
-      await new Promise(resolve => setTimeout(resolve, 2000));
-      
-      // Handle successful submission
-      console.log('Form submitted successfully:', formData);
-      
+      const passwordProblem = await checkNewPassword(formData.password, { email: formData.email });
+      if (passwordProblem) {
+        setErrors(prev => ({ ...prev, password: passwordProblem }));
+        return;
+      }
+
+      const session = await authApi.signUp(formData);
+      signIn(session, false);
+
       // Reset form
       setFormData({
         email: '',
@@ -108,26 +109,22 @@ const SignUpForm: React.FC<SignUpFormProps> = ({ onForgotPassword, onSignUpSucce
         agreeToTerms: false,
       });
       
-      onSignUpSuccess();
+      onSignUpSuccess(session.user);
     } catch (error) {
-      console.error('Error submitting form:', error);
-      alert('An error occurred. Please try again.');
+      if (error instanceof ApiError) {
+        setErrors({ ...error.fields, general: error.message });
+      } else {
+        console.error('Error submitting form:', error);
+        setErrors({ general: getErrorMessage(error, 'An error occurred. Please try again.') });
+      }
     } finally {
       setIsSubmitting(false);
     }
   };
 
-<<<<<<< HEAD
-  // const handleSocialLogin = (provider: 'google' | 'linkedin') => {
-  //   console.log(`Attempting to login with ${provider}`);
-  //   // Implement social login logic here
-  // };
-=======
-  const handleSocialLogin = (provider: 'google' | 'linkedin') => {
-    console.log(`Attempting to login with ${provider}`);
-    // Implement social login logic here
+  const handleSocialError = (message: string) => {
+    setErrors({ general: message });
   };
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
 
   return (
     <div className="min-h-screen flex">
@@ -164,7 +161,7 @@ const SignUpForm: React.FC<SignUpFormProps> = ({ onForgotPassword, onSignUpSucce
             <p className="text-gray-400">
               Already have an account?{' '}
               <button 
-                onClick={() => window.location.reload()} // This will reset to login state
+                onClick={onSignIn}
                 className="text-blue-400 hover:text-blue-300 underline transition-colors"
               >
                 Sign In
@@ -179,6 +176,12 @@ const SignUpForm: React.FC<SignUpFormProps> = ({ onForgotPassword, onSignUpSucce
             </p>
           </div>
 
+          {errors.general && (
+            <div className="mb-6 p-4 bg-red-900/20 border border-red-500 rounded-lg">
+              <p className="text-red-400 text-sm">{errors.general}</p>
+            </div>
+          )}
+
           <form onSubmit={handleSubmit} className="space-y-6">
             {/* Email Field */}
             <div>
@@ -243,6 +246,7 @@ const SignUpForm: React.FC<SignUpFormProps> = ({ onForgotPassword, onSignUpSucce
               {errors.password && (
                 <p className="mt-1 text-sm text-red-500">{errors.password}</p>
               )}
+              <PasswordStrengthMeter password={formData.password} email={formData.email} />
             </div>
 
             {/* Terms Checkbox */}
@@ -293,7 +297,6 @@ const SignUpForm: React.FC<SignUpFormProps> = ({ onForgotPassword, onSignUpSucce
             </button>
 
             {/* Social Login Options */}
-<<<<<<< HEAD
           <div className="space-y-4">
               <div className="flex items-center my-4">
   <div className="flex-grow border-t border-gray-700"></div>
@@ -305,46 +308,11 @@ const SignUpForm: React.FC<SignUpFormProps> = ({ onForgotPassword, onSignUpSucce
 
               <div className="grid grid-cols-2 gap-3">
                 
-      <GoogleAuth onSuccess={onLoginSuccess} />
-      <LinkedInAuth onSuccess={onLoginSuccess} />
+      <GoogleAuth intent="signup" onError={handleSocialError} />
+      <LinkedInAuth intent="signup" onError={handleSocialError} />
                </div>
 
               
-=======
-            <div className="space-y-4">
-              <div className="relative">
-                <div className="absolute inset-0 flex items-center">
-                  <div className="w-full border-t border-gray-700"></div>
-                </div>
-                <div className="relative flex justify-center text-sm">
-                  <span className="px-2 bg-black text-gray-400">Or register with</span>
-                </div>
-              </div>
-
-              <div className="grid grid-cols-2 gap-3">
-                <button
-                  type="button"
-                  onClick={() => handleSocialLogin('google')}
-                  className="flex items-center justify-center px-4 py-3 border border-gray-700 rounded-lg hover:border-gray-600 hover:bg-gray-900 transition-colors group"
-                >
-                  <svg className="w-5 h-5 text-white group-hover:text-gray-200" viewBox="0 0 24 24">
-                    <path fill="currentColor" d="M22.56 12.25c0-.78-.07-1.53-.2-2.25H12v4.26h5.92c-.26 1.37-1.04 2.53-2.21 3.31v2.77h3.57c2.08-1.92 3.28-4.74 3.28-8.09z"/>
-                    <path fill="currentColor" d="M12 23c2.97 0 5.46-.98 7.28-2.66l-3.57-2.77c-.98.66-2.23 1.06-3.71 1.06-2.86 0-5.29-1.93-6.16-4.53H2.18v2.84C3.99 20.53 7.7 23 12 23z"/>
-                    <path fill="currentColor" d="M5.84 14.09c-.22-.66-.35-1.36-.35-2.09s.13-1.43.35-2.09V7.07H2.18C1.43 8.55 1 10.22 1 12s.43 3.45 1.18 4.93l2.85-2.22.81-.62z"/>
-                    <path fill="currentColor" d="M12 5.38c1.62 0 3.06.56 4.21 1.64l3.15-3.15C17.45 2.09 14.97 1 12 1 7.7 1 3.99 3.47 2.18 7.07l3.66 2.84c.87-2.6 3.3-4.53 6.16-4.53z"/>
-                  </svg>
-                </button>
-                <button
-                  type="button"
-                  onClick={() => handleSocialLogin('linkedin')}
-                  className="flex items-center justify-center px-4 py-3 border border-gray-700 rounded-lg hover:border-gray-600 hover:bg-gray-900 transition-colors group"
-                >
-                  <svg className="w-5 h-5 text-white group-hover:text-gray-200" viewBox="0 0 24 24">
-                    <path fill="currentColor" d="M20.447 20.452h-3.554v-5.569c0-1.328-.027-3.037-1.852-3.037-1.853 0-2.136 1.445-2.136 2.939v5.667H9.351V9h3.414v1.561h.046c.477-.9 1.637-1.85 3.37-1.85 3.601 0 4.267 2.37 4.267 5.455v6.286zM5.337 7.433c-1.144 0-2.063-.926-2.063-2.065 0-1.138.92-2.063 2.063-2.063 1.14 0 2.064.925 2.064 2.063 0 1.139-.925 2.065-2.064 2.065zm1.782 13.019H3.555V9h3.564v11.452zM22.225 0H1.771C.792 0 0 .774 0 1.729v20.542C0 23.227.792 24 1.771 24h20.451C23.2 24 24 23.227 24 22.271V1.729C24 .774 23.2 0 22.222 0h.003z"/>
-                  </svg>
-                </button>
-              </div>
->>>>>>> 09f2716aa4ced04db4e933c4d7bad16a0953771c
             </div>
           </form>
         </div>
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { Navigate, useLocation } from 'react-router-dom';
+import { ShieldCheck, KeyRound, AlertCircle } from 'lucide-react';
+import { authApi } from '../api/auth';
+import { ApiError, getErrorMessage } from '../api/client';
+import { paths } from '../routes/paths';
+import { useSession } from '../session/useSession';
+import { saveTrustedDeviceToken } from '../session/trustedDevice';
+
+interface PendingTwoFactor {
+  challengeToken: string;
+  rememberMe: boolean;
+}
+
+interface TwoFactorFormProps {
+  onVerified: () => void;
+  onBackToLogin: () => void;
+}
+
+/**
+ * Second sign-in step for accounts with two-factor authentication: a code
+ * from the authenticator app, or one of the backup codes.
+ */
+const TwoFactorForm: React.FC<TwoFactorFormProps> = ({ onVerified, onBackToLogin }) => {
+  const location = useLocation();
+  const challenge = location.state as PendingTwoFactor | null;
+  const { signIn } = useSession();
+  const [code, setCode] = useState('');
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [trustDevice, setTrustDevice] = useState(false);
+  const [error, setError] = useState('');
+  const [isExpired, setIsExpired] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Only reachable right after the password (or social) step.
+  if (!challenge?.challengeToken) {
+    return <Navigate to={paths.login} replace />;
+  }
+
+  const handleCodeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setCode(useBackupCode ? value : value.replace(/\D/g, '').slice(0, 6));
+    setError('');
+  };
+
+  const handleToggleBackupCode = () => {
+    setUseBackupCode(prev => !prev);
+    setCode('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!useBackupCode && code.length !== 6) {
+      setError('Enter the 6-digit code from your authenticator app');
+      return;
+    }
+    if (useBackupCode && !code.trim()) {
+      setError('Enter one of your backup codes');
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const { trustedDeviceToken, ...session } = await authApi.verifyTwoFactor({
+        challengeToken: challenge.challengeToken,
+        code: code.trim(),
+        trustDevice,
+      });
+      if (trustedDeviceToken) {
+        saveTrustedDeviceToken(trustedDeviceToken);
+      }
+      signIn(session, challenge.rememberMe);
+      onVerified();
+    } catch (err) {
+      console.error('Two-factor error:', err);
+      setIsExpired(err instanceof ApiError && err.code === 'challenge_expired');
+      setError(getErrorMessage(err, 'That code did not work. Please try again.'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-8 py-12 bg-black">
+      <div className="w-full max-w-md">
+        <div className="flex items-center mb-8">
+          <img src="/image.png" alt="Power Nest Logo" className="w-8 h-8 mr-3" />
+          <h1 className="text-xl font-bold text-white">Power Nest</h1>
+        </div>
+
+        <div className="mb-8">
+          <div className="w-12 h-12 bg-blue-600 rounded-full flex items-center justify-center mb-4">
+            {useBackupCode ? <KeyRound className="w-6 h-6 text-white" /> : <ShieldCheck className="w-6 h-6 text-white" />}
+          </div>
+          <h2 className="text-3xl font-bold text-white mb-2">Two-factor authentication</h2>
+          <p className="text-gray-400">
+            {useBackupCode
+              ? 'Enter one of the backup codes you saved when you turned on two-factor authentication. Each code works once.'
+              : 'Enter the 6-digit code from your authenticator app.'}
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div>
+            <label htmlFor="code" className="block text-sm font-medium text-white mb-2">
+              {useBackupCode ? 'Backup code' : 'Authentication code'}
+            </label>
+            <div className="relative">
+              <input
+                type="text"
+                id="code"
+                name="code"
+                value={code}
+                onChange={handleCodeChange}
+                inputMode={useBackupCode ? 'text' : 'numeric'}
+                autoComplete="one-time-code"
+                autoFocus
+                className={`w-full px-4 py-3 bg-gray-800 text-white text-lg tracking-widest rounded-lg border transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                  error ? 'border-red-500' : 'border-gray-700 hover:border-gray-600'
+                }`}
+                placeholder={useBackupCode ? 'xxxx-xxxx' : '123456'}
+                aria-describedby={error ? 'code-error' : undefined}
+                aria-invalid={error ? 'true' : 'false'}
+              />
+              {error && (
+                <div className="absolute right-3 top-1/2 transform -translate-y-1/2">
+                  <AlertCircle className="w-5 h-5 text-red-500" />
+                </div>
+              )}
+            </div>
+            {error && (
+              <p id="code-error" className="mt-1 text-sm text-red-500" role="alert">
+                {error}
+              </p>
+            )}
+          </div>
+
+          <label className="flex items-center">
+            <input
+              type="checkbox"
+              checked={trustDevice}
+              onChange={(e) => setTrustDevice(e.target.checked)}
+              className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+            />
+            <span className="ml-2 text-sm text-gray-300">Trust this device for 30 days</span>
+          </label>
+
+          {isExpired ? (
+            <button
+              type="button"
+              onClick={onBackToLogin}
+              className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-lg transition-colors"
+            >
+              Back to Sign In
+            </button>
+          ) : (
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-800 disabled:cursor-not-allowed text-white font-semibold py-3 px-4 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-black"
+            >
+              {isSubmitting ? 'Verifying...' : 'Verify'}
+            </button>
+          )}
+
+          <div className="flex justify-between text-sm">
+            <button type="button" onClick={handleToggleBackupCode} className="text-blue-400 hover:text-blue-300 underline">
+              {useBackupCode ? 'Use your authenticator app' : 'Use a backup code'}
+            </button>
+            <button type="button" onClick={onBackToLogin} className="text-gray-400 hover:text-gray-300 underline">
+              Cancel
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default TwoFactorForm;
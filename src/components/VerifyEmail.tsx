@@ -0,0 +1,113 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { CheckCircle, AlertCircle } from 'lucide-react';
+import { authApi } from '../api/auth';
+import { ApiError, getErrorMessage } from '../api/client';
+import { useSession } from '../session/useSession';
+import ResendVerificationButton from './ResendVerificationButton';
+
+interface VerifyEmailProps {
+  onContinue: () => void;
+}
+
+type Outcome =
+  | { type: 'verifying' }
+  | { type: 'verified' }
+  | { type: 'failed'; message: string; canResend: boolean };
+
+/**
+ * Where the link in the verification email lands. It may be opened signed out
+ * or on another device, so it only needs the token; a signed-in user's banner
+ * goes away straight after.
+ */
+const VerifyEmail: React.FC<VerifyEmailProps> = ({ onContinue }) => {
+  const { token = '' } = useParams();
+  const { user, updateUser } = useSession();
+  const [outcome, setOutcome] = useState<Outcome>({ type: 'verifying' });
+  // Tokens are single use, so the request must not run twice (StrictMode
+  // mounts effects twice in development).
+  const started = useRef(false);
+
+  useEffect(() => {
+    if (started.current) return;
+    started.current = true;
+
+    authApi
+      .verifyEmail(token)
+      .then(() => {
+        updateUser({ emailVerified: true });
+        setOutcome({ type: 'verified' });
+      })
+      .catch((error) => {
+        console.error('Email verification error:', error);
+        if (error instanceof ApiError && error.code === 'verification_token_used') {
+          updateUser({ emailVerified: true });
+          setOutcome({ type: 'verified' });
+          return;
+        }
+        setOutcome({
+          type: 'failed',
+          message: getErrorMessage(error, 'We could not verify your email. Please try again.'),
+          canResend: error instanceof ApiError && error.code === 'verification_token_expired',
+        });
+      });
+  }, [token, updateUser]);
+
+  if (outcome.type === 'verifying') {
+    return (
+      <div className="min-h-screen bg-black flex flex-col items-center justify-center text-white">
+        <div className="w-8 h-8 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mb-4" />
+        <p className="text-gray-400">Verifying your email...</p>
+      </div>
+    );
+  }
+
+  const verified = outcome.type === 'verified';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-8 py-12 bg-black">
+      <div className="w-full max-w-md text-center">
+        <div className="flex items-center justify-center mb-8">
+          <img src="/image.png" alt="Power Nest Logo" className="w-8 h-8 mr-3" />
+          <h1 className="text-xl font-bold text-white">Power Nest</h1>
+        </div>
+
+        <div className="mb-8">
+          <div
+            className={`w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-6 ${
+              verified ? 'bg-green-600' : 'bg-red-600'
+            }`}
+          >
+            {verified ? <CheckCircle className="w-8 h-8 text-white" /> : <AlertCircle className="w-8 h-8 text-white" />}
+          </div>
+          <h2 className="text-3xl font-bold text-white mb-4">
+            {verified ? 'Email verified' : 'Verification failed'}
+          </h2>
+          {outcome.type === 'failed' ? (
+            <>
+              <p className="text-gray-400 mb-4" role="alert">{outcome.message}</p>
+              {outcome.canResend &&
+                (user ? (
+                  <ResendVerificationButton className="text-sm" />
+                ) : (
+                  <p className="text-gray-400 text-sm">Sign in to send yourself a new link.</p>
+                ))}
+            </>
+          ) : (
+            <p className="text-gray-400">You can now share your deck and message investors.</p>
+          )}
+        </div>
+
+        <button
+          type="button"
+          onClick={onContinue}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white font-semibold py-3 px-4 rounded-lg transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-black"
+        >
+          {user ? 'Continue' : 'Sign In'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default VerifyEmail;
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { Sparkles } from 'lucide-react';
+import { WebsiteSuggestions } from '../onboarding/enrichment';
+
+type SuggestionName = Exclude<keyof WebsiteSuggestions, 'source'>;
+
+interface WebsiteSuggestionsPanelProps {
+  suggestions: WebsiteSuggestions;
+  // What the form already holds; a suggestion equal to it is not offered.
+  current: Partial<Record<SuggestionName, string>>;
+  onApply: (accepted: Partial<Record<SuggestionName, string>>) => void;
+  onDismiss: () => void;
+}
+
+const labels: Record<SuggestionName, string> = {
+  startupName: 'Startup name',
+  linkedin: 'LinkedIn',
+  sector: 'Sector, on your startup profile',
+  logo: 'Logo, to crop on your startup profile',
+};
+
+/**
+ * Offers what the startup's website says, each answer ticked by default. Keyed
+ * by the site in the parent, so a different site starts over.
+ */
+const WebsiteSuggestionsPanel: React.FC<WebsiteSuggestionsPanelProps> = ({
+  suggestions,
+  current,
+  onApply,
+  onDismiss,
+}) => {
+  const offered = (Object.keys(labels) as SuggestionName[]).filter(
+    name => suggestions[name] && suggestions[name] !== current[name]
+  );
+  const [selected, setSelected] = useState<SuggestionName[]>(offered);
+
+  if (offered.length === 0) {
+    return null;
+  }
+
+  const toggle = (name: SuggestionName) =>
+    setSelected(prev => (prev.includes(name) ? prev.filter(other => other !== name) : [...prev, name]));
+
+  const handleApply = () =>
+    onApply(Object.fromEntries(offered.filter(name => selected.includes(name)).map(name => [name, suggestions[name]])));
+
+  return (
+    <div className="max-w-[600px] p-4 bg-blue-900/20 border border-blue-700 rounded-xl">
+      <p className="flex items-center text-white font-medium mb-3">
+        <Sparkles className="w-4 h-4 mr-2 text-blue-400" />
+        We found {suggestions.source}. Fill in these answers from it?
+      </p>
+      <ul className="space-y-2 mb-4">
+        {offered.map(name => (
+          <li key={name}>
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={selected.includes(name)}
+                onChange={() => toggle(name)}
+                className="w-4 h-4 text-blue-600 bg-gray-800 border-gray-600 rounded focus:ring-blue-500 focus:ring-2"
+              />
+              <span className="ml-2 w-64 shrink-0 text-sm text-gray-400">{labels[name]}</span>
+              {name === 'logo' ? (
+                <img src={suggestions.logo} alt="Logo from the website" className="w-8 h-8 object-contain rounded" />
+              ) : (
+                <span className="text-sm text-gray-200 truncate">{suggestions[name]}</span>
+              )}
+            </label>
+          </li>
+        ))}
+      </ul>
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={handleApply}
+          disabled={selected.length === 0}
+          className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Use Selected
+        </button>
+        <button
+          type="button"
+          onClick={onDismiss}
+          className="px-4 py-2 text-sm text-gray-400 hover:text-white transition-colors"
+        >
+          No Thanks
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WebsiteSuggestionsPanel;
@@ -11,6 +11,8 @@ import {
   Calendar,
   Star
 } from 'lucide-react';
+import { UserRole } from '../api/types';
+import { roleLabels } from '../session/permissions';
 
 interface Notification {
   id: number;
@@ -29,7 +31,7 @@ interface QuickAction {
 interface UserData {
   name: string;
   email: string;
-  role: string;
+  role: UserRole | null;
   lastLogin: Date;
   notifications: Notification[];
   quickActions: QuickAction[];
@@ -139,7 +141,7 @@ const WelcomeBackPage: React.FC<WelcomeBackPageProps> = ({ userData, onProceedTo
             </div>
             <div className="flex items-center text-blue-400">
               <div className="w-2 h-2 bg-blue-400 rounded-full mr-2"></div>
-              <span className="text-sm font-medium">{userData.role}</span>
+              <span className="text-sm font-medium">{userData.role ? roleLabels[userData.role] : 'Role not chosen yet'}</span>
             </div>
           </div>
 
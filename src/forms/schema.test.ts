@@ -0,0 +1,97 @@
+import {
+  AccreditationFormData,
+  accreditationSchema,
+  initialAccreditation,
+  initialInvestmentFocus,
+  InvestmentFocusFormData,
+  initialStartupProfile,
+  investmentFocusSchema,
+  startupProfileSchema,
+  toInvestmentFocus,
+} from '../onboarding/schemas';
+import { FormSchema, submittedValues, validateForm } from './schema';
+
+interface Sample {
+  email: string;
+  plan: string;
+  company: string;
+}
+
+const schema: FormSchema<Sample> = [
+  { name: 'email', type: 'text', label: 'Email', required: 'Email is required', rules: [{ test: /@/, message: 'Not an email' }] },
+  { name: 'plan', type: 'select', label: 'Plan', options: ['solo', 'team'] },
+  {
+    name: 'company',
+    type: 'text',
+    label: 'Company',
+    required: 'Company is required',
+    visibleWhen: ({ plan }) => plan === 'team',
+  },
+];
+
+test('reports required fields and failed rules, skipping hidden fields', () => {
+  expect(validateForm(schema, { email: '', plan: 'solo', company: '' })).toEqual({ email: 'Email is required' });
+  expect(validateForm(schema, { email: 'nope', plan: 'team', company: ' ' })).toEqual({
+    email: 'Not an email',
+    company: 'Company is required',
+  });
+  expect(validateForm(schema, { email: 'a@b.co', plan: 'team', company: 'Acme' })).toEqual({});
+});
+
+test('resets hidden fields to their initial value on submit', () => {
+  const initial = { email: '', plan: '', company: '' };
+  expect(submittedValues(schema, { email: 'a@b.co', plan: 'solo', company: 'Acme' }, initial)).toEqual({
+    email: 'a@b.co',
+    plan: 'solo',
+    company: '',
+  });
+});
+
+test('asks for an incorporation date only once the startup is incorporated', () => {
+  const profile = {
+    ...initialStartupProfile,
+    sector: 'Energy',
+    stage: 'Seed',
+    fundingRaised: '1.5',
+    currentFundingNeeds: '3',
+  };
+
+  expect(validateForm(startupProfileSchema, { ...profile, legalEntityType: 'Not incorporated yet' })).toEqual({});
+  expect(validateForm(startupProfileSchema, { ...profile, legalEntityType: 'C corporation' })).toEqual({
+    incorporationDate: 'Incorporation date is required',
+  });
+  expect(
+    validateForm(startupProfileSchema, { ...profile, legalEntityType: 'C corporation', incorporationDate: '2999-01-01' })
+  ).toEqual({ incorporationDate: 'Incorporation date cannot be in the future' });
+});
+
+test('counts unticked boxes and empty choice lists as missing', () => {
+  expect(validateForm(accreditationSchema, initialAccreditation)).toEqual({
+    basis: 'Please choose the statement that applies to you',
+    declared: 'Please confirm the declaration to continue',
+  });
+  expect(validateForm<AccreditationFormData>(accreditationSchema, { basis: 'income', declared: true })).toEqual({});
+});
+
+test('compares cheque sizes across units and sends them as Money', () => {
+  const focus: InvestmentFocusFormData = {
+    ...initialInvestmentFocus,
+    thesis: 'Climate software for heavy industry',
+    sectors: ['Energy'],
+    stages: ['Seed'],
+    chequeCurrency: 'GBP',
+    chequeSizeMin: '250',
+    chequeSizeMax: '1',
+    chequeSizeMaxUnit: 'million',
+  };
+
+  expect(validateForm(investmentFocusSchema, { ...focus, sectors: [] })).toEqual({ sectors: 'Pick at least one sector' });
+  expect(validateForm<InvestmentFocusFormData>(investmentFocusSchema, { ...focus, chequeSizeMaxUnit: 'thousand' })).toEqual({
+    chequeSizeMax: 'The largest cheque must be at least the smallest',
+  });
+  expect(validateForm(investmentFocusSchema, focus)).toEqual({});
+  expect(toInvestmentFocus(focus)).toMatchObject({
+    chequeSizeMin: { amountMinor: 25_000_000, currency: 'GBP' },
+    chequeSizeMax: { amountMinor: 100_000_000, currency: 'GBP' },
+  });
+});
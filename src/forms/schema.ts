@@ -0,0 +1,183 @@
+// Declarative form schemas: each field says what it is, how it is labelled,
+// what it accepts and when it shows. SchemaFields renders a schema and
+// useSchemaForm holds its values, so a form is configuration rather than JSX.
+
+export interface FieldOption {
+  value: string;
+  label: string;
+  // A line under the label, where the choices are laid out as a list.
+  description?: string;
+}
+
+// Plain strings are used as both value and label.
+export type FieldOptions = readonly (string | FieldOption)[];
+
+export interface FieldRule<T> {
+  test: RegExp | ((value: string, values: T) => boolean);
+  // A function when the message depends on other fields, e.g. the country of a phone number.
+  message: string | ((values: T) => string);
+}
+
+// Turns what was entered into the fields to update: the field's own value,
+// reformatted if need be, and any fields that follow it.
+export type FieldChange<T> = (value: string, values: T) => Partial<T>;
+
+interface FieldBase<T> {
+  name: keyof T & string;
+  label: string;
+  placeholder?: string;
+  // Help text under the field; a function when it depends on what has been entered.
+  hint?: string | ((values: T) => string);
+  // The message shown when the field is left empty; optional fields leave it out.
+  required?: string;
+  // Checked in order on a non-empty value; the first that fails is shown.
+  rules?: FieldRule<T>[];
+  // Hidden fields are not validated and go back to their initial value on submit.
+  visibleWhen?: (values: T) => boolean;
+  change?: FieldChange<T>;
+  // How a filled-in value reads on its own, e.g. on the review page, when the raw text would not do.
+  display?: (values: T) => string;
+}
+
+// A select drawn beside a text input and bound to another field, such as a
+// dialling code before a phone number or a unit after an amount.
+export interface AddonSelect<T> {
+  name: keyof T & string;
+  options: FieldOptions;
+  label: string;
+  change?: FieldChange<T>;
+}
+
+export interface InputField<T> extends FieldBase<T> {
+  type: 'text' | 'url' | 'tel' | 'date';
+  // Characters dropped as they are typed, e.g. everything but digits in an amount.
+  strip?: RegExp;
+  prefix?: AddonSelect<T>;
+  suffix?: AddonSelect<T>;
+}
+
+export interface SelectField<T> extends FieldBase<T> {
+  type: 'select';
+  options: FieldOptions;
+}
+
+export interface TextAreaField<T> extends FieldBase<T> {
+  type: 'textarea';
+  rows?: number;
+}
+
+// One of a few choices, listed rather than hidden in a dropdown.
+export interface RadioField<T> extends FieldBase<T> {
+  type: 'radio';
+  options: FieldOptions;
+}
+
+// Any number of the options, held as an array of their values.
+export interface ChipsField<T> extends FieldBase<T> {
+  type: 'chips';
+  options: FieldOptions;
+}
+
+// A box to tick, held as a boolean. The label is what ticking it says, and
+// `required` makes ticking it mandatory.
+export interface CheckboxField<T> extends FieldBase<T> {
+  type: 'checkbox';
+}
+
+export type FormField<T> =
+  | InputField<T>
+  | TextAreaField<T>
+  | SelectField<T>
+  | RadioField<T>
+  | ChipsField<T>
+  | CheckboxField<T>;
+
+export type FormSchema<T> = readonly FormField<T>[];
+
+export type FormErrors<T> = Partial<Record<keyof T, string>>;
+
+export const optionValue = (option: string | FieldOption) => (typeof option === 'string' ? option : option.value);
+
+export const optionLabel = (option: string | FieldOption) => (typeof option === 'string' ? option : option.label);
+
+export const isFieldVisible = <T>(field: FormField<T>, values: T) => !field.visibleWhen || field.visibleWhen(values);
+
+// Nothing entered: blank text, no chips picked or a box left unticked.
+const isEmpty = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  value === false ||
+  (typeof value === 'string' && !value.trim()) ||
+  (Array.isArray(value) && value.length === 0);
+
+// What is wrong with one field's value, or undefined when it is fine or hidden.
+export const validateField = <T>(field: FormField<T>, values: T): string | undefined => {
+  if (!isFieldVisible(field, values)) {
+    return undefined;
+  }
+  const value = values[field.name];
+  if (isEmpty(value)) {
+    return field.required;
+  }
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+  const failed = field.rules?.find(({ test }) => (typeof test === 'function' ? !test(value, values) : !test.test(value)));
+  return typeof failed?.message === 'function' ? failed.message(values) : failed?.message;
+};
+
+export const validateForm = <T>(schema: FormSchema<T>, values: T): FormErrors<T> => {
+  const errors: FormErrors<T> = {};
+  schema.forEach(field => {
+    const error = validateField(field, values);
+    if (error) {
+      errors[field.name] = error;
+    }
+  });
+  return errors;
+};
+
+// The values to submit: anything a hidden field still holds goes back to its initial value.
+export const submittedValues = <T>(schema: FormSchema<T>, values: T, initialValues: T): T =>
+  schema.reduce(
+    (submitted, field) =>
+      isFieldVisible(field, values) ? submitted : { ...submitted, [field.name]: initialValues[field.name] },
+    values
+  );
+
+// A field's value as text for read-only display, with any dialling code or unit
+// beside it and chosen options shown by their label. Empty fields give ''.
+export const formatFieldValue = <T>(field: FormField<T>, values: T): string => {
+  const value = values[field.name];
+  if (isEmpty(value)) {
+    return '';
+  }
+  if (field.display) {
+    return field.display(values);
+  }
+  const labelFor = (options: FieldOptions, selected: unknown) =>
+    optionLabel(options.find(option => optionValue(option) === selected) ?? String(selected ?? ''));
+
+  if (field.type === 'chips') {
+    return Array.isArray(value) ? value.map(selected => labelFor(field.options, selected)).join(', ') : '';
+  }
+  if (field.type === 'checkbox') {
+    return 'Yes';
+  }
+  if (typeof value !== 'string') {
+    return '';
+  }
+  if (field.type === 'select' || field.type === 'radio') {
+    return labelFor(field.options, value);
+  }
+  if (field.type === 'textarea') {
+    return value;
+  }
+  return [
+    field.prefix && labelFor(field.prefix.options, values[field.prefix.name]),
+    value,
+    field.suffix && labelFor(field.suffix.options, values[field.suffix.name]),
+  ]
+    .filter(Boolean)
+    .join(' ');
+};
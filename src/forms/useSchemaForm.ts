@@ -0,0 +1,42 @@
+import React, { useState } from 'react';
+import { FormErrors, FormSchema, submittedValues, validateForm } from './schema';
+
+export interface SchemaFormState<T> {
+  values: T;
+  setValues: React.Dispatch<React.SetStateAction<T>>;
+  errors: FormErrors<T>;
+  setErrors: React.Dispatch<React.SetStateAction<FormErrors<T>>>;
+  setValue: <K extends keyof T>(name: K, value: T[K]) => void;
+  setError: (name: keyof T, message: string) => void;
+  handleSubmit: (onValid: (values: T) => void) => (e: React.FormEvent) => void;
+}
+
+/**
+ * Values and errors for a form described by `schema`. Changing a field clears
+ * its error; handleSubmit validates the visible fields and passes the typed
+ * values on only when they all pass.
+ */
+export const useSchemaForm = <T>(schema: FormSchema<T>, initialValues: T): SchemaFormState<T> => {
+  const [values, setValues] = useState<T>(initialValues);
+  const [errors, setErrors] = useState<FormErrors<T>>({});
+
+  const setValue = <K extends keyof T>(name: K, value: T[K]) => {
+    setValues(prev => ({ ...prev, [name]: value }));
+    setErrors(prev => ({ ...prev, [name]: undefined }));
+  };
+
+  const setError = (name: keyof T, message: string) => {
+    setErrors(prev => ({ ...prev, [name]: message }));
+  };
+
+  const handleSubmit = (onValid: (values: T) => void) => (e: React.FormEvent) => {
+    e.preventDefault();
+    const newErrors = validateForm(schema, values);
+    setErrors(newErrors);
+    if (Object.keys(newErrors).length === 0) {
+      onValid(submittedValues(schema, values, initialValues));
+    }
+  };
+
+  return { values, setValues, errors, setErrors, setValue, setError, handleSubmit };
+};
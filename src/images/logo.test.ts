@@ -0,0 +1,51 @@
+import { cropAround, describeLogo, hasTransparentBackground, renditionSizes } from './logo';
+
+// RGBA pixels of a `size` x `size` image, opaque except where `isClear` says.
+const pixels = (size: number, isClear: (x: number, y: number) => boolean) => {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      data[(y * size + x) * 4 + 3] = isClear(x, y) ? 0 : 255;
+    }
+  }
+  return data;
+};
+
+test('crops the largest frame of the ratio and keeps it inside the image', () => {
+  const photo = { width: 1200, height: 800 };
+
+  expect(cropAround(photo, 1, 1, { x: 600, y: 400 })).toEqual({ x: 200, y: 0, width: 800, height: 800 });
+  expect(cropAround(photo, 4, 1, { x: 600, y: 400 })).toEqual({ x: 0, y: 250, width: 1200, height: 300 });
+  expect(cropAround(photo, 1, 2, { x: 0, y: 800 })).toEqual({ x: 0, y: 400, width: 400, height: 400 });
+  expect(cropAround(photo, 1, 10, { x: 600, y: 400 }).width).toBe(200);
+});
+
+test('downscales to the preset sizes without upscaling', () => {
+  expect(renditionSizes('square', { width: 300, height: 300 })).toEqual([
+    { width: 256, height: 256 },
+    { width: 128, height: 128 },
+    { width: 64, height: 64 },
+  ]);
+  expect(renditionSizes('wide', { width: 2000, height: 500 })[0]).toEqual({ width: 1024, height: 256 });
+  expect(renditionSizes('square', { width: 40, height: 40 })).toEqual([{ width: 64, height: 64 }]);
+});
+
+test('detects a transparent background from the edges', () => {
+  const size = 10;
+  const isEdge = (x: number, y: number) => x === 0 || y === 0 || x === size - 1 || y === size - 1;
+
+  expect(hasTransparentBackground(pixels(size, isEdge), { width: size, height: size })).toBe(true);
+  expect(hasTransparentBackground(pixels(size, () => false), { width: size, height: size })).toBe(false);
+  // A clear middle on an opaque background is part of the logo.
+  expect(hasTransparentBackground(pixels(size, (x, y) => !isEdge(x, y)), { width: size, height: size })).toBe(false);
+  // A logo that runs off one side still has a transparent background.
+  expect(hasTransparentBackground(pixels(size, (x, y) => isEdge(x, y) && x > 0), { width: size, height: size })).toBe(
+    true
+  );
+});
+
+test('describes a logo by its shape and largest size', () => {
+  expect(
+    describeLogo({ aspect: 'wide', transparentBackground: true, renditions: [{ width: 1024, height: 256 }] })
+  ).toBe('Wide · 1024 × 256 · Transparent background');
+});
@@ -0,0 +1,164 @@
+import { LogoAspect } from '../api/types';
+
+// Startup logos as they are stored: cropped to one of two shapes, downscaled to
+// a few standard sizes and re-encoded in the browser. Drawing through a canvas
+// keeps only the pixels, so EXIF and other metadata never leave the device.
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// A rectangle of the source image, in its pixels.
+export interface CropRect extends ImageSize, Point {}
+
+interface LogoPreset {
+  label: string;
+  // Width over height.
+  ratio: number;
+  // Widths of the sizes produced, largest first.
+  widths: number[];
+}
+
+export const logoPresets: Record<LogoAspect, LogoPreset> = {
+  square: { label: 'Square', ratio: 1, widths: [512, 256, 128, 64] },
+  wide: { label: 'Wide', ratio: 4, widths: [1024, 512, 256] },
+};
+
+export const MAX_LOGO_ZOOM = 4;
+
+// A logo ready to upload: one file per size, largest first.
+export interface ProcessedLogo {
+  aspect: LogoAspect;
+  transparentBackground: boolean;
+  renditions: (ImageSize & { file: File })[];
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * The crop of `ratio` around `center` at `zoom`, kept inside the image. At a
+ * zoom of 1 it is the largest such crop the image holds; at 2 it is half as
+ * wide and half as tall.
+ */
+export const cropAround = (image: ImageSize, ratio: number, zoom: number, center: Point): CropRect => {
+  const fitsWidth = image.width / image.height <= ratio;
+  const baseWidth = fitsWidth ? image.width : image.height * ratio;
+  const scale = clamp(zoom, 1, MAX_LOGO_ZOOM);
+  const width = baseWidth / scale;
+  const height = width / ratio;
+  return {
+    x: clamp(center.x - width / 2, 0, image.width - width),
+    y: clamp(center.y - height / 2, 0, image.height - height),
+    width,
+    height,
+  };
+};
+
+// The preset's sizes that the crop can fill without upscaling; the smallest is always kept.
+export const renditionSizes = (aspect: LogoAspect, crop: ImageSize): ImageSize[] => {
+  const { ratio, widths } = logoPresets[aspect];
+  const fitting = widths.filter(width => width <= crop.width);
+  return (fitting.length > 0 ? fitting : widths.slice(-1)).map(width => ({ width, height: Math.round(width / ratio) }));
+};
+
+// An edge pixel this see-through or more counts as background.
+const TRANSPARENT_ALPHA = 16;
+
+/**
+ * Whether the image's background is transparent, judged by its edges: most
+ * logos touch the border somewhere, so a majority of clear edge pixels rather
+ * than all of them.
+ */
+export const hasTransparentBackground = (pixels: Uint8ClampedArray, { width, height }: ImageSize) => {
+  let edge = 0;
+  let clear = 0;
+  for (let y = 0; y < height; y++) {
+    const step = y === 0 || y === height - 1 ? 1 : Math.max(width - 1, 1);
+    for (let x = 0; x < width; x += step) {
+      edge++;
+      if (pixels[(y * width + x) * 4 + 3] < TRANSPARENT_ALPHA) {
+        clear++;
+      }
+    }
+  }
+  return edge > 0 && clear / edge > 0.5;
+};
+
+// E.g. "Square · 512 × 512 · Transparent background".
+export const describeLogo = ({ aspect, transparentBackground, renditions }: {
+  aspect: LogoAspect;
+  transparentBackground: boolean;
+  renditions: ImageSize[];
+}) =>
+  [
+    logoPresets[aspect].label,
+    renditions[0] && `${renditions[0].width} × ${renditions[0].height}`,
+    transparentBackground && 'Transparent background',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+// Decodes the file upright: the EXIF orientation is applied here, before it is dropped.
+export const loadLogoImage = (file: File) => createImageBitmap(file, { imageOrientation: 'from-image' });
+
+export const drawCrop = (canvas: HTMLCanvasElement, image: CanvasImageSource, crop: CropRect, size: ImageSize) => {
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D is not available');
+  }
+  context.imageSmoothingQuality = 'high';
+  context.clearRect(0, 0, size.width, size.height);
+  context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, size.width, size.height);
+  return context;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image could not be encoded'))), type, quality)
+  );
+
+// WebP where the browser can encode it (it keeps transparency), PNG otherwise;
+// browsers without a WebP encoder quietly hand back a PNG.
+const encode = async (canvas: HTMLCanvasElement) => {
+  const webp = await toBlob(canvas, 'image/webp', 0.9);
+  return webp.type === 'image/webp' ? webp : toBlob(canvas, 'image/png');
+};
+
+/**
+ * Crops `image` and renders it at each of the preset's sizes it can fill.
+ * Each size is drawn from the one before, halving or so at a time, which keeps
+ * small sizes sharper than one big step down.
+ */
+export const processLogo = async (
+  image: CanvasImageSource,
+  aspect: LogoAspect,
+  crop: CropRect
+): Promise<ProcessedLogo> => {
+  const sizes = renditionSizes(aspect, crop);
+  let source: CanvasImageSource = image;
+  let sourceRect = crop;
+  let transparentBackground = false;
+  const renditions: ProcessedLogo['renditions'] = [];
+  for (const [index, size] of sizes.entries()) {
+    const canvas = document.createElement('canvas');
+    const context = drawCrop(canvas, source, sourceRect, size);
+    if (index === 0) {
+      transparentBackground = hasTransparentBackground(context.getImageData(0, 0, size.width, size.height).data, size);
+    }
+    const blob = await encode(canvas);
+    const extension = blob.type === 'image/webp' ? 'webp' : 'png';
+    const name = `logo-${size.width}x${size.height}.${extension}`;
+    renditions.push({ ...size, file: new File([blob], name, { type: blob.type }) });
+    source = canvas;
+    sourceRect = { x: 0, y: 0, ...size };
+  }
+  return { aspect, transparentBackground, renditions };
+};
@@ -4,6 +4,15 @@ import './styles/themes.css';
 import './index.css';
 import App from './App';
 import reportWebVitals from './reportWebVitals';
+import { enableMockApi } from './mocks/server';
+import MockChallenge from './mocks/MockChallenge';
+import { setChallengeWidget } from './challenge/widget';
+
+// Serve every API call from the in-browser mock backend (see src/mocks).
+if (process.env.REACT_APP_USE_MOCK_API === 'true') {
+  enableMockApi();
+  setChallengeWidget(MockChallenge);
+}
 
 const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
 document.documentElement.setAttribute('data-theme', prefersDark ? 'dark' : 'light');
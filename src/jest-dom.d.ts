@@ -0,0 +1,2 @@
+// The matchers setupTests.js adds to expect(), e.g. toBeInTheDocument().
+/// <reference types="@testing-library/jest-dom" />
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { ShieldQuestion } from 'lucide-react';
+import { ChallengeWidgetProps } from '../challenge/widget';
+import { issueChallengeToken } from './challengeProvider';
+
+const newPuzzle = () => [2 + Math.floor(Math.random() * 8), 2 + Math.floor(Math.random() * 8)];
+
+/**
+ * Stand-in for a CAPTCHA widget when the mock backend is on: a small sum
+ * instead of a third-party script, producing a token the mock login accepts.
+ */
+const MockChallenge: React.FC<ChallengeWidgetProps> = ({ onSolved }) => {
+  const [[a, b], setPuzzle] = useState(newPuzzle);
+  const [answer, setAnswer] = useState('');
+  const [solved, setSolved] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleVerify = () => {
+    if (Number(answer) !== a + b) {
+      setError('Not quite. Try this one instead.');
+      setPuzzle(newPuzzle());
+      setAnswer('');
+      return;
+    }
+    setSolved(true);
+    onSolved(issueChallengeToken());
+  };
+
+  if (solved) {
+    return <p className="text-sm text-green-400">Thanks, you're verified.</p>;
+  }
+
+  return (
+    <div className="p-4 bg-gray-900 border border-gray-700 rounded-lg">
+      <div className="flex items-center mb-2 text-sm text-gray-300">
+        <ShieldQuestion className="w-4 h-4 mr-2 text-blue-400" />
+        Quick check (development stand-in)
+      </div>
+      <div className="flex items-center gap-2">
+        <label htmlFor="mock-challenge" className="text-white text-sm">
+          What is {a} + {b}?
+        </label>
+        <input
+          id="mock-challenge"
+          type="text"
+          inputMode="numeric"
+          value={answer}
+          onChange={(e) => {
+            setAnswer(e.target.value);
+            setError('');
+          }}
+          className="w-16 px-2 py-1 bg-gray-800 text-white rounded border border-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="button"
+          onClick={handleVerify}
+          className="py-1 px-3 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded transition-colors"
+        >
+          Verify
+        </button>
+      </div>
+      {error && <p className="mt-1 text-sm text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default MockChallenge;
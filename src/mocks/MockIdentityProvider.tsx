@@ -0,0 +1,92 @@
+import React from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { OAuthProfile } from '../api/types';
+import { isOAuthProvider, oauthProviders } from '../oauth/providers';
+import { seedOAuthIdentities } from './fixtures';
+import { issueAuthorizationCode } from './identityProvider';
+
+/**
+ * Stand-in for the Google and LinkedIn consent screens, served at the
+ * providers' authorize URLs when the mock backend is on. It honours the same
+ * query parameters a real provider does and redirects back the same way.
+ */
+const MockIdentityProvider: React.FC = () => {
+  const { provider } = useParams();
+  const [searchParams] = useSearchParams();
+  const redirectUri = searchParams.get('redirect_uri');
+  const state = searchParams.get('state') ?? '';
+  const codeChallenge = searchParams.get('code_challenge');
+
+  const isValidRequest =
+    isOAuthProvider(provider) &&
+    searchParams.get('response_type') === 'code' &&
+    searchParams.get('code_challenge_method') === 'S256' &&
+    !!redirectUri &&
+    !!codeChallenge;
+
+  if (!isValidRequest) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center px-8 text-center">
+        <p className="text-red-400">Invalid authorization request: a PKCE challenge and redirect URI are required.</p>
+      </div>
+    );
+  }
+
+  const redirectBack = (params: Record<string, string>) => {
+    const url = new URL(redirectUri);
+    url.search = new URLSearchParams({ ...params, state }).toString();
+    window.location.assign(url.toString());
+  };
+
+  const handleChoose = (profile: OAuthProfile) => {
+    redirectBack({ code: issueAuthorizationCode({ provider, profile, codeChallenge, redirectUri }) });
+  };
+
+  const handleDeny = () => {
+    redirectBack({ error: 'access_denied' });
+  };
+
+  const { label } = oauthProviders[provider];
+
+  return (
+    <div className="min-h-screen bg-black flex items-center justify-center px-8 py-12">
+      <div className="w-full max-w-md bg-gray-900 border border-gray-800 rounded-xl p-8">
+        <p className="text-xs uppercase tracking-wide text-yellow-400 mb-2">Local stand-in identity provider</p>
+        <h1 className="text-2xl font-bold text-white mb-6">Sign in with {label}</h1>
+        <div className="space-y-3 mb-6">
+          {seedOAuthIdentities[provider].map((profile) => (
+            <button
+              key={profile.sub}
+              type="button"
+              onClick={() => handleChoose(profile)}
+              className="w-full flex items-center gap-3 p-3 bg-gray-800 hover:bg-gray-700 rounded-lg text-left transition-colors"
+            >
+              <div className="w-10 h-10 rounded-full bg-blue-600 flex items-center justify-center text-white font-semibold overflow-hidden">
+                {profile.picture ? (
+                  <img src={profile.picture} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  (profile.given_name || profile.email)[0].toUpperCase()
+                )}
+              </div>
+              <div>
+                <p className="text-white font-medium">
+                  {profile.name || [profile.given_name, profile.family_name].filter(Boolean).join(' ')}
+                </p>
+                <p className="text-gray-400 text-sm">{profile.email}</p>
+              </div>
+            </button>
+          ))}
+        </div>
+        <button
+          type="button"
+          onClick={handleDeny}
+          className="w-full py-3 border border-gray-600 text-white rounded-lg font-medium hover:border-gray-500 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default MockIdentityProvider;
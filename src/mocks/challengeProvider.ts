@@ -0,0 +1,24 @@
+import { getDb, saveDb } from './db';
+
+const CHALLENGE_TOKEN_TTL_MS = 2 * 60 * 1000;
+
+/**
+ * What the stand-in challenge does once it is solved: records a short-lived,
+ * single-use token for POST /auth/login to check, the way a real provider's
+ * siteverify call would.
+ */
+export const issueChallengeToken = () => {
+  const token = `human-${Math.random().toString(36).substr(2, 12)}`;
+  getDb().challengeTokens.push({ token, expiresAt: Date.now() + CHALLENGE_TOKEN_TTL_MS });
+  saveDb();
+  return token;
+};
+
+// Uses the token up whether or not it is still valid.
+export const redeemChallengeToken = (token: unknown) => {
+  const db = getDb();
+  const found = db.challengeTokens.find(candidate => candidate.token === token);
+  db.challengeTokens = db.challengeTokens.filter(candidate => candidate !== found);
+  saveDb();
+  return !!found && found.expiresAt > Date.now();
+};
@@ -0,0 +1,238 @@
+import {
+  Accreditation,
+  AssessmentSubmission,
+  BasicInfo,
+  ConnectedIdentity,
+  InvestmentFocus,
+  InvestorDetails,
+  JobApplicant,
+  Match,
+  Notification,
+  OnboardingDraft,
+  OAuthProfile,
+  OAuthProvider,
+  PortfolioCompany,
+  StartupProfile,
+  Task,
+  TeamMember,
+  UploadedDocument,
+  UserResponse,
+  UserRole,
+} from '../api/types';
+import { OnboardingStep } from '../routes/onboarding';
+import { createSeedDb } from './fixtures';
+
+export interface MockIdentity extends ConnectedIdentity {
+  // The provider's stable user ID; emails can change.
+  sub: string;
+}
+
+export interface MockTwoFactor {
+  // Base32 TOTP secret shared with the authenticator app.
+  secret: string;
+  // Unset while enrollment waits for the first code.
+  enabledAt?: string;
+  // Unused one-time backup codes.
+  backupCodes: string[];
+}
+
+// Notifications, tasks and matches belong to one of the user's workspaces and
+// are only served while it is the active one.
+export interface MockNotification extends Notification {
+  workspace: UserRole;
+}
+
+export interface MockTask extends Task {
+  workspace: UserRole;
+}
+
+export interface MockMatch extends Match {
+  workspace: UserRole;
+}
+
+export interface MockUser extends UserResponse {
+  notifications: MockNotification[];
+  // Missing for accounts that only ever signed in with Google or LinkedIn.
+  password?: string;
+  identities: MockIdentity[];
+  twoFactor?: MockTwoFactor;
+  basicInfo?: BasicInfo;
+  startupProfile?: StartupProfile;
+  investorDetails?: InvestorDetails;
+  investmentFocus?: InvestmentFocus;
+  portfolioCompanies?: PortfolioCompany[];
+  accreditation?: Accreditation & { declaredAt: string };
+  teamMembers: TeamMember[];
+  assessment?: AssessmentSubmission;
+  drafts?: Partial<Record<OnboardingStep, OnboardingDraft>>;
+}
+
+export interface MockDocument extends UploadedDocument {
+  ownerId: string;
+  // A logo's bytes as a data URL, since the mock has nowhere else to serve them from.
+  content?: string;
+}
+
+export interface MockSession {
+  userId: string;
+  accessToken: string;
+  refreshToken: string;
+  // Epoch milliseconds.
+  accessExpiresAt: number;
+  refreshExpiresAt: number;
+}
+
+// An authorization code the stand-in identity provider handed out and the
+// backend has yet to redeem.
+export interface MockOAuthCode {
+  code: string;
+  provider: OAuthProvider;
+  profile: OAuthProfile;
+  codeChallenge: string;
+  redirectUri: string;
+  expiresAt: number;
+}
+
+// A social sign-in waiting for the account owner's password before it is linked.
+export interface MockOAuthLink {
+  token: string;
+  userId: string;
+  provider: OAuthProvider;
+  profile: OAuthProfile;
+  expiresAt: number;
+  // Wrong passwords so far; the request is dropped after a few.
+  failures?: number;
+}
+
+// A sign-in that passed the password (or social) step and waits for a second factor.
+export interface MockTwoFactorChallenge {
+  token: string;
+  userId: string;
+  expiresAt: number;
+  // Wrong codes so far; the challenge is dropped after a few.
+  failures?: number;
+}
+
+// A browser the user chose to trust, so sign-ins from it skip the second factor.
+export interface MockTrustedDevice {
+  token: string;
+  userId: string;
+  expiresAt: number;
+}
+
+// A password reset link. Used links are kept so the page can say so.
+export interface MockPasswordReset {
+  token: string;
+  userId: string;
+  expiresAt: number;
+  usedAt?: string;
+}
+
+// An email verification link. Kept after use so a second click can say so.
+export interface MockEmailVerification {
+  token: string;
+  userId: string;
+  sentAt: number;
+  expiresAt: number;
+  usedAt?: string;
+}
+
+// Failed password logins for one email address, for throttling.
+export interface MockLoginAttempts {
+  email: string;
+  failures: number;
+  lockedUntil?: number;
+}
+
+// A solved stand-in challenge (see challengeProvider.ts).
+export interface MockChallengeToken {
+  token: string;
+  expiresAt: number;
+}
+
+// An email the mock backend "sent" (see mailer.ts).
+export interface MockEmail {
+  to: string;
+  subject: string;
+  link: string;
+  sentAt: string;
+}
+
+export interface MockDb {
+  users: MockUser[];
+  sessions: MockSession[];
+  oauthCodes: MockOAuthCode[];
+  oauthLinks: MockOAuthLink[];
+  twoFactorChallenges: MockTwoFactorChallenge[];
+  trustedDevices: MockTrustedDevice[];
+  passwordResets: MockPasswordReset[];
+  emailVerifications: MockEmailVerification[];
+  loginAttempts: MockLoginAttempts[];
+  challengeTokens: MockChallengeToken[];
+  outbox: MockEmail[];
+  documents: MockDocument[];
+  tasks: MockTask[];
+  matches: MockMatch[];
+  applicants: JobApplicant[];
+}
+
+const STORAGE_KEY = 'powernest:mock-db';
+
+// Bump whenever MockDb or the fixtures change shape. A copy saved by another
+// version is dropped and the fixtures are seeded again, rather than handing the
+// handlers records they no longer understand.
+const SCHEMA_VERSION = 2;
+
+interface SavedDb {
+  version: number;
+  db: MockDb;
+}
+
+const storage = (): Storage | null => {
+  try {
+    return typeof window !== 'undefined' ? window.localStorage : null;
+  } catch {
+    return null;
+  }
+};
+
+let db: MockDb | null = null;
+
+// The saved database, or null when there is none this version can use.
+const loadDb = (): MockDb | null => {
+  const saved = storage()?.getItem(STORAGE_KEY);
+  if (!saved) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(saved) as Partial<SavedDb>;
+    return parsed.version === SCHEMA_VERSION && parsed.db ? parsed.db : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Returns the mock database, loading it from localStorage the first time so
+ * demo data survives page reloads.
+ */
+export const getDb = (): MockDb => {
+  if (!db) {
+    db = loadDb() ?? createSeedDb();
+  }
+  return db;
+};
+
+export const saveDb = () => {
+  const saved: SavedDb = { version: SCHEMA_VERSION, db: getDb() };
+  storage()?.setItem(STORAGE_KEY, JSON.stringify(saved));
+};
+
+/**
+ * Throws away every change and goes back to the seeded fixtures. Tests call
+ * this before each case so they never depend on one another.
+ */
+export const resetDb = () => {
+  db = createSeedDb();
+  saveDb();
+};
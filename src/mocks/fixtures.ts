@@ -0,0 +1,248 @@
+import { JobApplicant, OAuthProfile, OAuthProvider, SiteMetadata } from '../api/types';
+import { completedOnboarding } from '../routes/onboarding';
+import { MockDb, MockMatch, MockTask, MockUser } from './db';
+
+// Seeded accounts for demos and tests. Every password is "Password1". Alex
+// both founds and angel invests, so has a workspace for each role.
+export const seedUsers: MockUser[] = [
+  {
+    id: 'user-alex',
+    name: 'Alex Johnson',
+    email: 'alex@powernest.dev',
+    password: 'Password1',
+    role: 'founder',
+    roles: ['founder', 'investor'],
+    profiles: {
+      founder: { displayName: 'Alex Johnson', headline: 'Co-founder & CEO at Lumen Health' },
+      investor: { displayName: 'Alex Johnson', headline: 'Angel investor in early-stage health tech' },
+    },
+    lastLogin: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(), // 2 days ago
+    notifications: [
+      { id: 1, type: 'message', content: '3 new investor inquiries', time: '2 hours ago', workspace: 'founder' },
+      { id: 2, type: 'update', content: 'Platform update: New analytics dashboard', time: '1 day ago', workspace: 'founder' },
+      { id: 3, type: 'achievement', content: 'Your pitch deck was viewed 15 times', time: '2 days ago', workspace: 'founder' },
+      { id: 4, type: 'message', content: '2 founders shared their decks with you', time: '4 hours ago', workspace: 'investor' },
+    ],
+    quickActions: [
+      { id: 1, title: 'View Dashboard', icon: 'BarChart3', description: 'Check your latest metrics' },
+      { id: 2, title: 'Investor Network', icon: 'Users', description: 'Connect with investors' },
+      { id: 3, title: 'Pitch Deck', icon: 'FileText', description: 'Update your presentation' },
+      { id: 4, title: 'Messages', icon: 'MessageSquare', description: '5 unread messages' },
+    ],
+    onboarding: completedOnboarding,
+    emailVerified: true,
+    teamMembers: [],
+    identities: [],
+  },
+  {
+    id: 'user-priya',
+    name: 'Priya Shah',
+    email: 'priya@powernest.dev',
+    password: 'Password1',
+    role: 'founder',
+    roles: ['founder'],
+    profiles: {
+      founder: { displayName: 'Priya Shah', headline: 'Founder' },
+    },
+    lastLogin: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString(), // 5 hours ago
+    notifications: [],
+    quickActions: [],
+    onboarding: { basicInfo: true },
+    emailVerified: true,
+    teamMembers: [],
+    identities: [],
+  },
+  {
+    id: 'user-sam',
+    name: 'Sam Okafor',
+    email: 'sam@powernest.dev',
+    password: 'Password1',
+    role: 'investor',
+    roles: ['investor'],
+    profiles: {
+      investor: { displayName: 'Sam Okafor', headline: 'Partner at Northbank Ventures' },
+    },
+    lastLogin: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(), // 3 days ago
+    notifications: [],
+    quickActions: [],
+    onboarding: completedOnboarding,
+    emailVerified: true,
+    teamMembers: [],
+    identities: [],
+  },
+];
+
+// People the stand-in identity provider can sign in as. Two share an email
+// with a seeded account; the others are new to PowerNest.
+export const seedOAuthIdentities: Record<OAuthProvider, OAuthProfile[]> = {
+  google: [
+    {
+      sub: 'google-1001',
+      email: 'alex@powernest.dev',
+      email_verified: true,
+      name: 'Alex Johnson',
+      given_name: 'Alex',
+      family_name: 'Johnson',
+      picture: 'https://randomuser.me/api/portraits/men/32.jpg',
+    },
+    {
+      sub: 'google-1002',
+      email: 'sam.rivera@gmail.com',
+      email_verified: true,
+      name: 'Sam Rivera',
+      given_name: 'Sam',
+      family_name: 'Rivera',
+      picture: 'https://randomuser.me/api/portraits/women/68.jpg',
+    },
+  ],
+  linkedin: [
+    {
+      sub: 'li-2001',
+      email: 'priya@powernest.dev',
+      email_verified: true,
+      given_name: 'Priya',
+      family_name: 'Shah',
+    },
+    {
+      sub: 'li-2002',
+      email: 'jordan.lee@example.com',
+      email_verified: true,
+      given_name: 'Jordan',
+      family_name: 'Lee',
+      picture: 'https://randomuser.me/api/portraits/men/45.jpg',
+    },
+  ],
+};
+
+export const seedTasks: MockTask[] = [
+  { id: 1, date: '2025-03-15', description: 'Review Q1 Investor Report', workspace: 'founder' },
+  { id: 2, date: '2025-03-16', description: 'Advisor Meeting', workspace: 'founder' },
+  { id: 3, date: '2025-03-17', description: 'Job Interview - Candidate A', workspace: 'founder' },
+  { id: 4, date: '2025-03-24', description: 'Team Standup', workspace: 'founder' },
+  { id: 5, date: '2025-03-08', description: 'Prepare Marketing Plan', workspace: 'founder' },
+  { id: 6, date: '2025-03-18', description: 'Project Deadline', workspace: 'founder' },
+  { id: 7, date: '2025-03-19', description: 'Client Call', workspace: 'founder' },
+  { id: 8, date: '2025-03-12', description: 'Pitch from Orbital Labs', workspace: 'investor' },
+  { id: 9, date: '2025-03-20', description: 'Portfolio review', workspace: 'investor' },
+];
+
+export const seedMatches: MockMatch[] = [
+  { id: 1, name: 'Investor A', status: 'viewed', matchPercent: '82%', workspace: 'founder' },
+  { id: 2, name: 'Investor B', status: 'viewed', matchPercent: '76%', workspace: 'founder' },
+  { id: 3, name: 'Investor C', status: 'viewed', matchPercent: '64%', workspace: 'founder' },
+  { id: 4, name: 'Orbital Labs', status: 'viewed', matchPercent: '88%', workspace: 'investor' },
+  { id: 5, name: 'Greenline Energy', status: 'viewed', matchPercent: '71%', workspace: 'investor' },
+];
+
+export const seedApplicants: JobApplicant[] = [
+  {
+    id: 1,
+    name: 'Alex Morgan',
+    role: 'UI/UX Designer',
+    date: '02 Jan 2025',
+    avatar: 'https://randomuser.me/api/portraits/men/32.jpg',
+  },
+  {
+    id: 2,
+    name: 'Jordan Lee',
+    role: 'Web Developer',
+    date: '02 Jan 2025',
+    avatar: 'https://randomuser.me/api/portraits/men/47.jpg',
+  },
+  {
+    id: 3,
+    name: 'Tim Smith',
+    role: 'JavaScript Engineer',
+    date: '02 Jan 2025',
+    avatar: 'https://randomuser.me/api/portraits/men/75.jpg',
+  },
+  {
+    id: 4,
+    name: 'Casey Jordan',
+    role: 'React Developer',
+    date: '02 Jan 2025',
+    avatar: 'https://randomuser.me/api/portraits/women/68.jpg',
+  },
+  {
+    id: 5,
+    name: 'Samantha Grey',
+    role: 'Product Manager',
+    date: '05 Jan 2025',
+    avatar: 'https://randomuser.me/api/portraits/women/55.jpg',
+  },
+];
+
+// 64x64 icons, inlined the way the enrichment proxy returns images.
+const greenlineIcon =
+  'data:image/png;base64,' +
+  'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAYAAACqaXHeAAAAvUlEQVR42u3bwQ3DMAwDQE+RobpmB01XcFtbkawjkG8A3iuI' +
+  '6TFERIJyvV/3zNOu8FEgq0qXw9hdPDVEdPk0CE8VTwGRpfwjCNnKhyJkLR+CkL38VoQq5bcgVCu/HKE1QNXySxCql/8boTXA' +
+  'KeV/RgDQGeC08l8jAADQGODU8tMIACZeUjkAAAAAAACA7wCfwgAAAPBLDAAAByMAHI46HgdgImMkZSZnKGkqayxtLu/ChCsz' +
+  'Lk1lARkiIkH5AEmc7tY+2mt+AAAAAElFTkSuQmCC';
+
+const medibridgeIcon =
+  'data:image/png;base64,' +
+  'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAYAAACqaXHeAAAAcklEQVR42u3aQQkAMAwDwJqpssmfiFbEKGPsAjFwz5DItevn' +
+  'BgAAAAAAAAAAAIChngYAAAAAAAAAAAAAAAAAANwEeC0AAAAAAAAAAAAAAAAAAAAAAIMIAAAAAAAAAAAAAAAAAABwlgYAAAAA' +
+  'AAAAAABQDdR6D7OaBilFAAAAAElFTkSuQmCC';
+
+const ledgerlyIcon =
+  'data:image/png;base64,' +
+  'iVBORw0KGgoAAAANSUhEUgAAAEAAAABACAYAAACqaXHeAAAAc0lEQVR42u3asQ0AEBRFUSsoJDaw/x4m0jCARPU1nJu8BU79' +
+  'UpIkaSvXNl8aAAAAAAAAACAeYPRyHAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAP4AuD0AAAAAAAAAgJMUAAAAAAAA' +
+  'ACAOQJL0QQsDL7gBpQ22bgAAAABJRU5ErkJggg==';
+
+// Home pages the enrichment stand-in can read, by host. Any other site is not found.
+export const seedSites: Record<string, SiteMetadata> = {
+  'greenline.energy': {
+    url: 'https://greenline.energy/',
+    title: 'Greenline | Grid batteries for solar farms',
+    description: 'Greenline builds battery storage that lets solar and wind farms sell renewable energy after dark.',
+    siteName: 'Greenline',
+    keywords: ['battery storage', 'renewables', 'grid'],
+    faviconUrl: greenlineIcon,
+    imageUrl: null,
+    socialLinks: {
+      linkedin: 'https://www.linkedin.com/company/greenline-energy',
+      x: 'https://x.com/greenline',
+    },
+  },
+  'medibridge.health': {
+    url: 'https://medibridge.health/',
+    title: 'MediBridge – Referrals between clinics, without the fax',
+    description: 'Secure patient referrals and records exchange for independent clinics.',
+    siteName: '',
+    keywords: ['healthcare', 'clinics', 'patients'],
+    faviconUrl: medibridgeIcon,
+    imageUrl: null,
+    socialLinks: { linkedin: 'https://www.linkedin.com/company/medibridge' },
+  },
+  'ledgerly.io': {
+    url: 'https://www.ledgerly.io/',
+    title: 'Ledgerly: accounting software for freelancers',
+    description: 'Send invoices, take payments and keep your books in one SaaS platform.',
+    siteName: 'Ledgerly',
+    keywords: [],
+    faviconUrl: null,
+    imageUrl: ledgerlyIcon,
+    socialLinks: { github: 'https://github.com/ledgerly', linkedin: 'https://www.linkedin.com/in/ledgerly-founder' },
+  },
+};
+
+export const createSeedDb = (): MockDb => ({
+  users: seedUsers.map(user => ({ ...user, identities: [...user.identities] })),
+  sessions: [],
+  oauthCodes: [],
+  oauthLinks: [],
+  twoFactorChallenges: [],
+  trustedDevices: [],
+  passwordResets: [],
+  emailVerifications: [],
+  loginAttempts: [],
+  challengeTokens: [],
+  outbox: [],
+  documents: [],
+  tasks: [...seedTasks],
+  matches: [...seedMatches],
+  applicants: [...seedApplicants],
+});
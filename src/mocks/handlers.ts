@@ -0,0 +1,1222 @@
+import {
+  AccreditationBasis,
+  AssessmentAnswers,
+  BasicInfo,
+  ConnectedAccounts,
+  DocumentKind,
+  FounderProfile,
+  FounderReview,
+  FundingRound,
+  InvestmentFocus,
+  InvestorDetails,
+  LogoRendition,
+  PublicLogo,
+  OAuthProfile,
+  OAuthProvider,
+  PortfolioCompany,
+  StartupLogo,
+  StartupProfile,
+  TeamMember,
+  UserResponse,
+  UserRole,
+  WorkspaceProfile,
+} from '../api/types';
+import { createCodeChallenge } from '../oauth/pkce';
+import { isMoney } from '../money/money';
+import { siteHost, siteUrl } from '../onboarding/enrichment';
+import { instrumentLabels, sortRounds } from '../onboarding/fundingRounds';
+import { accreditationBases, investorTypes, stages } from '../onboarding/options';
+import { findReviewProblems } from '../onboarding/review';
+import { isOnboardingStep, OnboardingStep } from '../routes/onboarding';
+import { resetPasswordPath, verifyEmailPath } from '../routes/paths';
+import { isUserRole } from '../session/permissions';
+import { checkNewPassword } from '../validation/password';
+import { isValidE164 } from '../validation/phone';
+import { getDb, MockDocument, MockSession, MockUser, saveDb } from './db';
+import { MockHandler, MockRequest, MockResponse, MockRoute, fail, fieldsOf, isFields, ok, tooManyRequests } from './http';
+import { redeemChallengeToken } from './challengeProvider';
+import { seedSites } from './fixtures';
+import { sendMockEmail } from './mailer';
+import { buildOtpauthUrl, generateTotpSecret, verifyTotp } from './totp';
+
+// The items that belong to the user's active workspace, without the tag.
+const inWorkspace = <T extends { workspace: UserRole }>(user: Pick<MockUser, 'role'>, items: T[]) =>
+  items.filter(item => item.workspace === user.role).map(({ workspace, ...item }) => item);
+
+const generateId = (prefix: string) => `${prefix}-${Math.random().toString(36).substr(2, 9)}`;
+
+const toUserResponse = ({
+  password,
+  identities,
+  twoFactor,
+  basicInfo,
+  startupProfile,
+  investorDetails,
+  investmentFocus,
+  portfolioCompanies,
+  accreditation,
+  teamMembers,
+  assessment,
+  drafts,
+  notifications,
+  ...user
+}: MockUser): UserResponse => ({
+  ...user,
+  notifications: inWorkspace(user, notifications),
+});
+
+// The sizes whose files are still there, each served from its content.
+const toPublicLogo = ({ aspect, transparentBackground, renditions }: StartupLogo): PublicLogo | null => {
+  const documents = getDb().documents;
+  const served = renditions.flatMap(({ documentId, width, height }) => {
+    const url = documents.find(document => document.id === documentId)?.content;
+    return url ? [{ url, width, height }] : [];
+  });
+  return served.length > 0 ? { aspect, transparentBackground, renditions: served } : null;
+};
+
+// Only what a founder shares publicly: no contact details or documents other than the logo.
+const toFounderProfile = (user: MockUser, startupProfile: StartupProfile): FounderProfile => ({
+  id: user.id,
+  name: user.basicInfo?.fullName || user.name,
+  startupName: user.basicInfo?.startupName ?? '',
+  sector: startupProfile.sector,
+  stage: startupProfile.stage,
+  country: user.basicInfo?.country ?? '',
+  website: user.basicInfo?.website ?? '',
+  fundingRounds: sortRounds(startupProfile.fundingRounds),
+  currentFundingNeeds: startupProfile.currentFundingNeeds ?? null,
+  logo: startupProfile.logo ? toPublicLogo(startupProfile.logo) : null,
+});
+
+const isFundingRound = (round: unknown): round is FundingRound => {
+  const candidate = round as Partial<FundingRound> | null;
+  return (
+    !!candidate &&
+    stages.includes(candidate.stage ?? '') &&
+    /^\d{4}-\d{2}-\d{2}$/.test(candidate.date ?? '') &&
+    isMoney(candidate.amount) &&
+    candidate.amount.amountMinor > 0 &&
+    !!candidate.instrument &&
+    Object.prototype.hasOwnProperty.call(instrumentLabels, candidate.instrument)
+  );
+};
+
+// Whether each of `names` is a string; the forms send an empty one for a field left blank.
+const hasText = (fields: Record<string, unknown>, names: string[]) =>
+  names.every(name => typeof fields[name] === 'string');
+
+const isBasicInfo = (body: unknown): body is BasicInfo =>
+  hasText(fieldsOf(body), ['fullName', 'startupName', 'phoneNumber', 'phoneCountry', 'country', 'website', 'linkedin']);
+
+const isLogoRendition = (rendition: unknown): rendition is LogoRendition => {
+  const fields = fieldsOf(rendition);
+  return hasText(fields, ['documentId', 'type']) && typeof fields.width === 'number' && typeof fields.height === 'number';
+};
+
+const isStartupLogo = (logo: unknown): logo is StartupLogo => {
+  const { aspect, transparentBackground, renditions } = fieldsOf(logo);
+  return (
+    (aspect === 'square' || aspect === 'wide') &&
+    typeof transparentBackground === 'boolean' &&
+    Array.isArray(renditions) &&
+    renditions.every(isLogoRendition)
+  );
+};
+
+const isStartupProfile = (body: unknown): body is StartupProfile => {
+  const fields = fieldsOf(body);
+  return (
+    hasText(fields, ['sector', 'stage', 'legalEntityType', 'incorporationDate']) &&
+    isMoney(fields.currentFundingNeeds) &&
+    Array.isArray(fields.fundingRounds) &&
+    fields.fundingRounds.every(isFundingRound) &&
+    (fields.logo === undefined || isStartupLogo(fields.logo))
+  );
+};
+
+const isTeamMember = (member: unknown): member is TeamMember =>
+  hasText(fieldsOf(member), ['id', 'name', 'role', 'linkedin']);
+
+const isInvestorDetails = (body: unknown): body is InvestorDetails => {
+  const fields = fieldsOf(body);
+  return (
+    investorTypes.some(({ value }) => value === fields.investorType) &&
+    hasText(fields, ['fullName', 'firmName', 'title', 'location', 'website', 'linkedin'])
+  );
+};
+
+const isTextList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const isInvestmentFocus = (body: unknown): body is InvestmentFocus => {
+  const fields = fieldsOf(body);
+  return (
+    typeof fields.thesis === 'string' &&
+    isTextList(fields.sectors) &&
+    isTextList(fields.stages) &&
+    isMoney(fields.chequeSizeMin) &&
+    isMoney(fields.chequeSizeMax)
+  );
+};
+
+const isPortfolioCompany = (company: unknown): company is PortfolioCompany =>
+  hasText(fieldsOf(company), ['id', 'name', 'website', 'yearInvested']);
+
+const isAccreditationBasis = (basis: unknown): basis is AccreditationBasis =>
+  accreditationBases.some(({ value }) => value === basis);
+
+// Each question id mapped to the index of the option picked.
+const isAssessmentAnswers = (answers: unknown): answers is AssessmentAnswers =>
+  isFields(answers) &&
+  Object.entries(answers).every(([id, option]) => /^\d+$/.test(id) && Number.isInteger(option));
+
+const unauthorized = () => fail(401, 'unauthorized', 'Please sign in to continue.');
+
+// Short enough that the client's refresh path gets exercised in a demo session.
+const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const issueTokens = (session: MockSession) => {
+  const now = Date.now();
+  session.accessToken = generateId('access');
+  session.refreshToken = generateId('refresh');
+  session.accessExpiresAt = now + ACCESS_TOKEN_TTL_MS;
+  session.refreshExpiresAt = now + REFRESH_TOKEN_TTL_MS;
+  return {
+    accessToken: session.accessToken,
+    refreshToken: session.refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_MS / 1000,
+  };
+};
+
+const startSession = (user: MockUser) => {
+  const session: MockSession = { userId: user.id, accessToken: '', refreshToken: '', accessExpiresAt: 0, refreshExpiresAt: 0 };
+  const tokens = issueTokens(session);
+  getDb().sessions.push(session);
+  saveDb();
+  return tokens;
+};
+
+/**
+ * Runs `handler` with the user the Bearer token belongs to, or answers 401
+ * when the token is missing, unknown or expired.
+ */
+const withUser = (
+  handler: (user: MockUser, request: MockRequest) => MockResponse | Promise<MockResponse>
+): MockHandler => (request) => {
+  const db = getDb();
+  const token = String(request.headers.get('Authorization') ?? '').replace(/^Bearer /, '');
+  const session = db.sessions.find(candidate => candidate.accessToken === token);
+  if (session && session.accessExpiresAt <= Date.now()) {
+    return fail(401, 'token_expired', 'Your session has expired. Please sign in again.');
+  }
+  const user = session && db.users.find(candidate => candidate.id === session.userId);
+  return user ? handler(user, request) : unauthorized();
+};
+
+// Failed logins for one email before a challenge is required, and before the
+// email is locked out altogether.
+const CHALLENGE_AFTER_FAILURES = 3;
+const LOCKOUT_AFTER_FAILURES = 8;
+const LOCKOUT_MS = 15 * 60 * 1000;
+
+const loginAttemptsFor = (email: string) => {
+  const db = getDb();
+  const key = email.toLowerCase();
+  let attempts = db.loginAttempts.find(candidate => candidate.email === key);
+  if (!attempts) {
+    attempts = { email: key, failures: 0 };
+    db.loginAttempts.push(attempts);
+  }
+  return attempts;
+};
+
+const lockedOut = (lockedUntil: number) =>
+  tooManyRequests(
+    'account_locked',
+    'Too many failed attempts. Please wait before trying again, or reset your password.',
+    lockedUntil - Date.now()
+  );
+
+/**
+ * Checks a password for `email` under the login throttle, wherever it is
+ * typed: a locked email is refused, past a few failures a solved challenge is
+ * required, and each wrong password counts towards the lock. Returns the
+ * failure to send back, or null once the password is right.
+ */
+const checkThrottledPassword = (
+  email: string,
+  user: MockUser | undefined,
+  password: unknown,
+  challengeToken: unknown
+): MockResponse | null => {
+  const attempts = loginAttemptsFor(email);
+  if (attempts.lockedUntil && attempts.lockedUntil > Date.now()) {
+    return lockedOut(attempts.lockedUntil);
+  }
+  if (attempts.failures >= CHALLENGE_AFTER_FAILURES && !redeemChallengeToken(challengeToken)) {
+    saveDb();
+    return fail(403, 'challenge_required', 'Please complete the verification check to continue.');
+  }
+
+  if (!user?.password || user.password !== password) {
+    attempts.failures += 1;
+    if (attempts.failures >= LOCKOUT_AFTER_FAILURES) {
+      // Keep asking for a challenge once the lock ends.
+      attempts.failures = CHALLENGE_AFTER_FAILURES;
+      attempts.lockedUntil = Date.now() + LOCKOUT_MS;
+      saveDb();
+      return lockedOut(attempts.lockedUntil);
+    }
+    saveDb();
+    return fail(401, 'invalid_credentials', 'Invalid email or password. Please try again.');
+  }
+
+  getDb().loginAttempts = getDb().loginAttempts.filter(candidate => candidate !== attempts);
+  return null;
+};
+
+// Wrong passwords a link request survives before the sign-in has to start over.
+const LINK_MAX_FAILURES = 5;
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+// Wrong codes a sign-in survives before it has to start over from the password.
+const TWO_FACTOR_MAX_FAILURES = 5;
+const TRUSTED_DEVICE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const BACKUP_CODE_COUNT = 10;
+
+const isTwoFactorEnabled = (user: MockUser) => !!user.twoFactor?.enabledAt;
+
+const isTrustedDevice = (user: MockUser, token: unknown) =>
+  getDb().trustedDevices.some(
+    device => device.token === token && device.userId === user.id && device.expiresAt > Date.now()
+  );
+
+const toSignedIn = (user: MockUser, extra: object = {}) => {
+  // Answer with the previous login time so the welcome page can show it.
+  const response = toUserResponse(user);
+  user.lastLogin = new Date().toISOString();
+  return ok({ user: response, tokens: startSession(user), ...extra });
+};
+
+/**
+ * Finishes a sign-in whose first factor checked out. Accounts with two-factor
+ * authentication get a short-lived challenge instead of tokens, unless the
+ * request comes from a device the user trusted.
+ */
+const completeSignIn = (user: MockUser, trustedDeviceToken: unknown, extra: object = {}) => {
+  if (isTwoFactorEnabled(user) && !isTrustedDevice(user, trustedDeviceToken)) {
+    const challengeToken = generateId('challenge');
+    getDb().twoFactorChallenges.push({ token: challengeToken, userId: user.id, expiresAt: Date.now() + CHALLENGE_TTL_MS });
+    saveDb();
+    return ok({ twoFactorRequired: true, challengeToken });
+  }
+  return toSignedIn(user, extra);
+};
+
+const generateBackupCodes = () =>
+  Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const digits = Math.random().toString(36).substr(2, 8).padEnd(8, '0');
+    return `${digits.slice(0, 4)}-${digits.slice(4)}`;
+  });
+
+// Checks a code from the authenticator app, or uses up one backup code.
+const checkSecondFactor = async (user: MockUser, code: unknown) => {
+  const twoFactor = user.twoFactor;
+  const value = String(code ?? '').trim().toLowerCase();
+  if (!twoFactor || !value) {
+    return false;
+  }
+  if (/^\d{6}$/.test(value)) {
+    return verifyTotp(twoFactor.secret, value);
+  }
+  if (twoFactor.backupCodes.includes(value)) {
+    twoFactor.backupCodes = twoFactor.backupCodes.filter(backupCode => backupCode !== value);
+    saveDb();
+    return true;
+  }
+  return false;
+};
+
+const invalidCode = () =>
+  fail(422, 'invalid_code', 'That code is not valid. Please try again.', { code: 'That code is not valid' });
+
+const toTwoFactorStatus = (user: MockUser) => ({
+  enabled: isTwoFactorEnabled(user),
+  backupCodesRemaining: isTwoFactorEnabled(user) ? user.twoFactor!.backupCodes.length : 0,
+});
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000;
+
+// Looks up a reset link, or returns the error response explaining why it no longer works.
+const findPasswordReset = (token: unknown) => {
+  const db = getDb();
+  const reset = db.passwordResets.find(candidate => candidate.token === token);
+  const user = reset && db.users.find(candidate => candidate.id === reset.userId);
+  if (!reset || !user) {
+    return fail(404, 'invalid_reset_token', 'This password reset link is not valid. Request a new one.');
+  }
+  if (reset.usedAt) {
+    return fail(410, 'reset_token_used', 'This password reset link has already been used. Request a new one.');
+  }
+  if (reset.expiresAt <= Date.now()) {
+    return fail(410, 'reset_token_expired', 'This password reset link has expired. Request a new one.');
+  }
+  return { reset, user };
+};
+
+const completeStep = (user: MockUser, step: OnboardingStep) => {
+  user.onboarding = { ...user.onboarding, [step]: true };
+  saveDb();
+  return ok({ onboarding: user.onboarding });
+};
+
+// The founder's own documents, without the owner tag.
+const documentsOf = (user: MockUser) =>
+  getDb()
+    .documents.filter(document => document.ownerId === user.id)
+    .map(({ ownerId, content, ...document }) => document);
+
+const readDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+const toFounderReview = (user: MockUser): FounderReview => ({
+  basicInfo: user.basicInfo ?? null,
+  startupProfile: user.startupProfile ?? null,
+  documents: documentsOf(user),
+  teamMembers: user.teamMembers,
+});
+
+const isEmail = (value: unknown): value is string =>
+  typeof value === 'string' && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+
+const LINK_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+const findUserByIdentity = (provider: OAuthProvider, sub: string) =>
+  getDb().users.find(candidate =>
+    candidate.identities.some(identity => identity.provider === provider && identity.sub === sub)
+  );
+
+const linkIdentity = (user: MockUser, provider: OAuthProvider, profile: OAuthProfile) => {
+  user.identities.push({ provider, sub: profile.sub, email: profile.email, connectedAt: new Date().toISOString() });
+  saveDb();
+};
+
+const toConnectedAccounts = (user: MockUser): ConnectedAccounts => ({
+  hasPassword: !!user.password,
+  identities: user.identities.map(({ sub, ...identity }) => identity),
+});
+
+/**
+ * Checks an authorization code the way a backend would before trusting it:
+ * issued for this provider and redirect URI, unexpired, unused, and matching
+ * the PKCE challenge. Returns the grant, or the error response to send.
+ */
+const redeemAuthorizationCode = async (provider: string, body: unknown) => {
+  const { code, redirectUri, codeVerifier } = fieldsOf(body);
+  const db = getDb();
+  const grant = db.oauthCodes.find(candidate => candidate.code === code);
+  // Codes are single use, whether or not this exchange succeeds.
+  db.oauthCodes = db.oauthCodes.filter(candidate => candidate !== grant);
+  saveDb();
+
+  if (!grant || grant.provider !== provider || grant.redirectUri !== redirectUri || grant.expiresAt <= Date.now()) {
+    return fail(400, 'invalid_grant', 'This sign-in attempt has expired. Please try again.');
+  }
+  if ((await createCodeChallenge(String(codeVerifier))) !== grant.codeChallenge) {
+    return fail(400, 'invalid_grant', 'We could not verify this sign-in attempt. Please try again.');
+  }
+  return grant;
+};
+
+const signInWithProvider = (user: MockUser, profile: OAuthProfile, isNewUser: boolean, trustedDeviceToken?: unknown) =>
+  completeSignIn(user, trustedDeviceToken, { profile, isNewUser });
+
+// Gives the user a workspace for `role`, keeping any profile already there.
+const addWorkspace = (user: MockUser, role: UserRole, profile: WorkspaceProfile) => {
+  if (!user.roles.includes(role)) {
+    user.roles = [...user.roles, role];
+  }
+  user.profiles = { [role]: profile, ...user.profiles };
+};
+
+const findUserByEmail = (email: string) =>
+  getDb().users.find(candidate => candidate.email.toLowerCase() === email.toLowerCase());
+
+// Addresses from Google/LinkedIn arrive already verified by the provider.
+const createUser = (email: string, password?: string, emailVerified = false) => {
+  const user: MockUser = {
+    id: generateId('user'),
+    name: '',
+    email,
+    password,
+    role: null,
+    roles: [],
+    profiles: {},
+    lastLogin: new Date().toISOString(),
+    notifications: [],
+    quickActions: [],
+    onboarding: {},
+    emailVerified,
+    teamMembers: [],
+    identities: [],
+  };
+  getDb().users.push(user);
+  return user;
+};
+
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const VERIFICATION_RESEND_COOLDOWN_MS = 60 * 1000;
+
+const sendVerificationEmail = (user: MockUser) => {
+  const now = Date.now();
+  const token = generateId('verify');
+  getDb().emailVerifications.push({ token, userId: user.id, sentAt: now, expiresAt: now + VERIFICATION_TOKEN_TTL_MS });
+  sendMockEmail(user.email, 'Verify your Power Nest email', `${window.location.origin}${verifyEmailPath(token)}`);
+};
+
+export const handlers: MockRoute[] = [
+  {
+    method: 'POST',
+    path: '/auth/login',
+    // Throttled per email, whether or not an account exists, so the answers
+    // never reveal which emails are registered.
+    handler: ({ body }) => {
+      const { email, password, challengeToken, trustedDeviceToken } = fieldsOf(body);
+      const user = findUserByEmail(String(email));
+      const rejected = checkThrottledPassword(String(email), user, password, challengeToken);
+      return rejected ?? completeSignIn(user!, trustedDeviceToken);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/2fa/verify',
+    handler: async ({ body }) => {
+      const { challengeToken, code, trustDevice } = fieldsOf(body);
+      const db = getDb();
+      const challenge = db.twoFactorChallenges.find(candidate => candidate.token === challengeToken);
+      const user = challenge && db.users.find(candidate => candidate.id === challenge.userId);
+      if (!challenge || !user || challenge.expiresAt <= Date.now()) {
+        return fail(400, 'challenge_expired', 'This sign-in attempt has expired. Please sign in again.');
+      }
+      if (!(await checkSecondFactor(user, code))) {
+        challenge.failures = (challenge.failures ?? 0) + 1;
+        if (challenge.failures >= TWO_FACTOR_MAX_FAILURES) {
+          db.twoFactorChallenges = db.twoFactorChallenges.filter(candidate => candidate !== challenge);
+          saveDb();
+          return fail(400, 'challenge_expired', 'Too many incorrect codes. Please sign in again.');
+        }
+        saveDb();
+        return fail(401, 'invalid_code', 'That code is not valid. Please try again.');
+      }
+
+      db.twoFactorChallenges = db.twoFactorChallenges.filter(candidate => candidate !== challenge);
+      let trustedDeviceToken: string | undefined;
+      if (trustDevice) {
+        trustedDeviceToken = generateId('device');
+        db.trustedDevices.push({ token: trustedDeviceToken, userId: user.id, expiresAt: Date.now() + TRUSTED_DEVICE_TTL_MS });
+      }
+      return toSignedIn(user, { trustedDeviceToken });
+    },
+  },
+  {
+    method: 'GET',
+    path: '/auth/2fa',
+    handler: withUser(user => ok(toTwoFactorStatus(user))),
+  },
+  {
+    method: 'POST',
+    path: '/auth/2fa/setup',
+    handler: withUser(user => {
+      if (isTwoFactorEnabled(user)) {
+        return fail(409, 'already_enabled', 'Two-factor authentication is already on.');
+      }
+      const secret = generateTotpSecret();
+      user.twoFactor = { secret, backupCodes: [] };
+      saveDb();
+      return ok({ secret, otpauthUrl: buildOtpauthUrl(secret, user.email, 'Power Nest') });
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/auth/2fa/enable',
+    handler: withUser(async (user, { body }) => {
+      if (!user.twoFactor || isTwoFactorEnabled(user)) {
+        return fail(409, 'setup_required', 'Start two-factor setup again.');
+      }
+      if (!(await verifyTotp(user.twoFactor.secret, String(fieldsOf(body).code ?? '')))) {
+        return invalidCode();
+      }
+      user.twoFactor.enabledAt = new Date().toISOString();
+      user.twoFactor.backupCodes = generateBackupCodes();
+      saveDb();
+      return ok({ backupCodes: user.twoFactor.backupCodes });
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/auth/2fa/disable',
+    handler: withUser(async (user, { body }) => {
+      if (!isTwoFactorEnabled(user)) {
+        return ok(toTwoFactorStatus(user));
+      }
+      if (!(await checkSecondFactor(user, fieldsOf(body).code))) {
+        return invalidCode();
+      }
+      const db = getDb();
+      user.twoFactor = undefined;
+      db.trustedDevices = db.trustedDevices.filter(device => device.userId !== user.id);
+      saveDb();
+      return ok(toTwoFactorStatus(user));
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/auth/2fa/backup-codes',
+    handler: withUser(async (user, { body }) => {
+      if (!isTwoFactorEnabled(user)) {
+        return fail(409, 'not_enabled', 'Turn on two-factor authentication first.');
+      }
+      // Only the authenticator app can replace the codes, not a leftover backup code.
+      if (!(await verifyTotp(user.twoFactor!.secret, String(fieldsOf(body).code ?? '')))) {
+        return invalidCode();
+      }
+      user.twoFactor!.backupCodes = generateBackupCodes();
+      saveDb();
+      return ok({ backupCodes: user.twoFactor!.backupCodes });
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/auth/signup',
+    handler: async ({ body }) => {
+      const { email, password } = fieldsOf(body);
+      if (!isEmail(email)) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.', {
+          email: 'Please enter a valid email address',
+        });
+      }
+      const passwordError = await checkNewPassword(String(password ?? ''), { email });
+      if (passwordError) {
+        return fail(422, 'validation_failed', passwordError, { password: passwordError });
+      }
+      if (findUserByEmail(email)) {
+        return fail(409, 'email_taken', 'An account with this email already exists.', {
+          email: 'An account with this email already exists',
+        });
+      }
+
+      const user = createUser(email, String(password));
+      sendVerificationEmail(user);
+      return ok({ user: toUserResponse(user), tokens: startSession(user) });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/oauth/link',
+    // Listed before /auth/oauth/:provider, which would otherwise match it.
+    handler: ({ body }) => {
+      const { linkToken, password, challengeToken, trustedDeviceToken } = fieldsOf(body);
+      const db = getDb();
+      const link = db.oauthLinks.find(candidate => candidate.token === linkToken);
+      const user = link && db.users.find(candidate => candidate.id === link.userId);
+      if (!link || !user || link.expiresAt <= Date.now()) {
+        return fail(400, 'invalid_link', 'This link request has expired. Please sign in again.');
+      }
+      // The same throttle as the login form, so the link form is no way around it.
+      const rejected = checkThrottledPassword(user.email, user, password, challengeToken);
+      if (rejected) {
+        link.failures = (link.failures ?? 0) + 1;
+        if (link.failures >= LINK_MAX_FAILURES) {
+          db.oauthLinks = db.oauthLinks.filter(candidate => candidate !== link);
+        }
+        saveDb();
+        return rejected;
+      }
+
+      db.oauthLinks = db.oauthLinks.filter(candidate => candidate !== link);
+      linkIdentity(user, link.provider, link.profile);
+      return signInWithProvider(user, link.profile, false, trustedDeviceToken);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/oauth/:provider',
+    handler: async ({ params, body }) => {
+      const redeemed = await redeemAuthorizationCode(params.provider, body);
+      if ('status' in redeemed) {
+        return redeemed;
+      }
+
+      const { provider, profile } = redeemed;
+      const linked = findUserByIdentity(provider, profile.sub);
+      if (linked) {
+        return signInWithProvider(linked, profile, false, fieldsOf(body).trustedDeviceToken);
+      }
+
+      const existing = findUserByEmail(profile.email);
+      if (existing?.password) {
+        // Owning the email at Google/LinkedIn doesn't prove owning this account;
+        // the password does.
+        const linkToken = generateId('link');
+        getDb().oauthLinks.push({
+          token: linkToken,
+          userId: existing.id,
+          provider,
+          profile,
+          expiresAt: Date.now() + LINK_TOKEN_TTL_MS,
+        });
+        saveDb();
+        return ok({ linkRequired: true, linkToken, email: existing.email });
+      }
+      if (existing) {
+        return fail(
+          409,
+          'account_exists',
+          'An account with this email already exists. Sign in the way you did before and connect this account from Settings.'
+        );
+      }
+
+      const user = createUser(profile.email, undefined, profile.email_verified !== false);
+      linkIdentity(user, provider, profile);
+      return signInWithProvider(user, profile, true);
+    },
+  },
+  {
+    method: 'GET',
+    path: '/auth/identities',
+    handler: withUser(user => ok(toConnectedAccounts(user))),
+  },
+  {
+    method: 'POST',
+    path: '/auth/identities/:provider',
+    handler: withUser(async (user, { params, body }) => {
+      const redeemed = await redeemAuthorizationCode(params.provider, body);
+      if ('status' in redeemed) {
+        return redeemed;
+      }
+
+      const { provider, profile } = redeemed;
+      const owner = findUserByIdentity(provider, profile.sub);
+      if (owner && owner.id !== user.id) {
+        return fail(409, 'identity_in_use', 'That account is already connected to a different Power Nest account.');
+      }
+      if (!owner) {
+        user.identities = user.identities.filter(identity => identity.provider !== provider);
+        linkIdentity(user, provider, profile);
+      }
+      return ok(toConnectedAccounts(user));
+    }),
+  },
+  {
+    method: 'DELETE',
+    path: '/auth/identities/:provider',
+    handler: withUser((user, { params }) => {
+      if (!user.identities.some(identity => identity.provider === params.provider)) {
+        return fail(404, 'not_found', 'That account is not connected.');
+      }
+      if (!user.password && user.identities.length === 1) {
+        return fail(422, 'last_sign_in_method', 'You need at least one way to sign in. Set a password first.');
+      }
+      user.identities = user.identities.filter(identity => identity.provider !== params.provider);
+      saveDb();
+      return ok(toConnectedAccounts(user));
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/auth/refresh',
+    // Refresh tokens are single use: every refresh rotates both tokens.
+    handler: ({ body }) => {
+      const session = getDb().sessions.find(candidate => candidate.refreshToken === fieldsOf(body).refreshToken);
+      if (!session || session.refreshExpiresAt <= Date.now()) {
+        return fail(401, 'invalid_refresh_token', 'Your session has expired. Please sign in again.');
+      }
+      const tokens = issueTokens(session);
+      saveDb();
+      return ok(tokens);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/logout',
+    handler: ({ body }) => {
+      const db = getDb();
+      db.sessions = db.sessions.filter(session => session.refreshToken !== fieldsOf(body).refreshToken);
+      saveDb();
+      return ok();
+    },
+  },
+  {
+    method: 'GET',
+    path: '/auth/me',
+    handler: withUser(user => ok(toUserResponse(user))),
+  },
+  {
+    method: 'POST',
+    path: '/auth/password/forgot',
+    // Always succeeds so the response never reveals which emails have accounts.
+    handler: ({ body }) => {
+      const { email } = fieldsOf(body);
+      if (!isEmail(email)) {
+        return fail(422, 'validation_failed', 'Please enter a valid email address', {
+          email: 'Please enter a valid email address',
+        });
+      }
+
+      const user = findUserByEmail(email);
+      if (user) {
+        const db = getDb();
+        // Only the newest link works.
+        db.passwordResets = db.passwordResets.filter(reset => reset.userId !== user.id || !!reset.usedAt);
+        const token = generateId('reset');
+        db.passwordResets.push({ token, userId: user.id, expiresAt: Date.now() + RESET_TOKEN_TTL_MS });
+        sendMockEmail(user.email, 'Reset your Power Nest password', `${window.location.origin}${resetPasswordPath(token)}`);
+      }
+      return ok();
+    },
+  },
+  {
+    method: 'GET',
+    path: '/auth/password/reset/:token',
+    handler: ({ params }) => {
+      const found = findPasswordReset(params.token);
+      return 'status' in found ? found : ok({ email: found.user.email });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/password/reset',
+    handler: async ({ body }) => {
+      const { token, password, trustedDeviceToken } = fieldsOf(body);
+      const found = findPasswordReset(token);
+      if ('status' in found) {
+        return found;
+      }
+      const passwordError = await checkNewPassword(String(password ?? ''), { email: found.user.email });
+      if (passwordError) {
+        return fail(422, 'validation_failed', passwordError, { password: passwordError });
+      }
+
+      const { reset, user } = found;
+      const db = getDb();
+      user.password = String(password);
+      reset.usedAt = new Date().toISOString();
+      // Whoever knew the old password is signed out everywhere.
+      db.sessions = db.sessions.filter(session => session.userId !== user.id);
+      saveDb();
+      return completeSignIn(user, trustedDeviceToken);
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/email/verify',
+    // Works signed out too: the link may be opened on another device.
+    handler: ({ body }) => {
+      const db = getDb();
+      const verification = db.emailVerifications.find(candidate => candidate.token === fieldsOf(body).token);
+      const user = verification && db.users.find(candidate => candidate.id === verification.userId);
+      if (!verification || !user) {
+        return fail(404, 'invalid_verification_token', 'This verification link is not valid.');
+      }
+      if (verification.usedAt || user.emailVerified) {
+        return fail(410, 'verification_token_used', 'Your email address is already verified.');
+      }
+      if (verification.expiresAt <= Date.now()) {
+        return fail(410, 'verification_token_expired', 'This verification link has expired. Send yourself a new one.');
+      }
+
+      verification.usedAt = new Date().toISOString();
+      user.emailVerified = true;
+      saveDb();
+      return ok({ email: user.email });
+    },
+  },
+  {
+    method: 'POST',
+    path: '/auth/email/resend',
+    handler: withUser(user => {
+      if (user.emailVerified) {
+        return fail(409, 'already_verified', 'Your email address is already verified.');
+      }
+      const lastSentAt = Math.max(
+        0,
+        ...getDb().emailVerifications.filter(verification => verification.userId === user.id).map(({ sentAt }) => sentAt)
+      );
+      const waitMs = lastSentAt + VERIFICATION_RESEND_COOLDOWN_MS - Date.now();
+      if (waitMs > 0) {
+        return tooManyRequests('rate_limited', 'Please wait before sending another email.', waitMs);
+      }
+      sendVerificationEmail(user);
+      return ok();
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/onboarding/role',
+    handler: withUser((user, { body }) => {
+      const { role } = fieldsOf(body);
+      if (!isUserRole(role)) {
+        return fail(422, 'validation_failed', 'Please choose a role', { role: 'Please choose a role' });
+      }
+      if (Object.values(user.onboarding).some(Boolean)) {
+        if (!user.roles.includes(role)) {
+          return fail(409, 'onboarding_started', 'Add another workspace from Settings instead.');
+        }
+      } else {
+        // Going back to pick again swaps the role; a second one is only added from Settings.
+        user.roles = [role];
+        user.profiles = { [role]: user.profiles[role] ?? { displayName: user.name, headline: '' } };
+      }
+      user.role = role;
+      saveDb();
+      return ok({ role: user.role, roles: user.roles });
+    }),
+  },
+  {
+    method: 'GET',
+    path: '/onboarding/drafts/:step',
+    handler: withUser((user, { params }) => {
+      if (!isOnboardingStep(params.step)) {
+        return fail(404, 'not_found', 'There is no such onboarding step.');
+      }
+      return ok(user.drafts?.[params.step] ?? null);
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/onboarding/drafts/:step',
+    handler: withUser((user, { params, body }) => {
+      if (!isOnboardingStep(params.step)) {
+        return fail(404, 'not_found', 'There is no such onboarding step.');
+      }
+      const draft = { step: params.step, data: fieldsOf(body).data ?? null, savedAt: new Date().toISOString() };
+      user.drafts = { ...user.drafts, [params.step]: draft };
+      saveDb();
+      return ok(draft);
+    }),
+  },
+  {
+    method: 'DELETE',
+    path: '/onboarding/drafts/:step',
+    handler: withUser((user, { params }) => {
+      if (!isOnboardingStep(params.step)) {
+        return fail(404, 'not_found', 'There is no such onboarding step.');
+      }
+      if (user.drafts) {
+        delete user.drafts[params.step];
+      }
+      saveDb();
+      return ok();
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/onboarding/basic-info',
+    handler: withUser((user, { body }) => {
+      if (!isBasicInfo(body)) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.');
+      }
+      if (!isValidE164(body.phoneNumber, body.phoneCountry)) {
+        return fail(422, 'validation_failed', 'Please enter a valid phone number', {
+          phoneNumber: 'Please enter a valid phone number',
+        });
+      }
+      user.basicInfo = body;
+      user.name = body.fullName || user.name;
+      return completeStep(user, 'basicInfo');
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/onboarding/startup-profile',
+    handler: withUser((user, { body }) => {
+      const { currentFundingNeeds, fundingRounds } = fieldsOf(body);
+      if (!isMoney(currentFundingNeeds)) {
+        return fail(422, 'validation_failed', 'Please enter a valid amount', {
+          currentFundingNeeds: 'Please enter a valid amount',
+        });
+      }
+      if (!Array.isArray(fundingRounds) || !fundingRounds.every(isFundingRound)) {
+        return fail(422, 'validation_failed', 'Please check your funding rounds', {
+          fundingRounds: 'Each round needs a stage, a closing date, an amount and an instrument',
+        });
+      }
+      if (!isStartupProfile(body)) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.');
+      }
+      const logoIds = (body.logo?.renditions ?? []).map(rendition => rendition.documentId);
+      const db = getDb();
+      const isOwnLogo = (document: MockDocument) => document.ownerId === user.id && document.kind === 'logo';
+      if (body.logo && (logoIds.length === 0 || !logoIds.every(id => db.documents.some(d => isOwnLogo(d) && d.id === id)))) {
+        return fail(422, 'validation_failed', 'Please upload your logo again', { logo: 'Please upload your logo again' });
+      }
+      if (body.logo) {
+        // A new logo replaces every size of the previous one.
+        db.documents = db.documents.filter(document => !isOwnLogo(document) || logoIds.includes(document.id));
+      }
+      // The form cannot get a saved logo's files back, so saving without one keeps it.
+      user.startupProfile = { ...body, logo: body.logo ?? user.startupProfile?.logo };
+      return completeStep(user, 'startupProfile');
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/onboarding/documents',
+    handler: withUser(user => {
+      const hasPitchDeck = getDb().documents.some(
+        document => document.ownerId === user.id && document.kind === 'pitchDeck'
+      );
+      if (!hasPitchDeck) {
+        return fail(422, 'validation_failed', 'Pitch deck is required', { pitchDeck: 'Pitch deck is required' });
+      }
+      return completeStep(user, 'documentUpload');
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/onboarding/team',
+    handler: withUser((user, { body }) => {
+      const { teamMembers = [] } = fieldsOf(body);
+      if (!Array.isArray(teamMembers) || !teamMembers.every(isTeamMember)) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.');
+      }
+      user.teamMembers = teamMembers;
+      return completeStep(user, 'addTeam');
+    }),
+  },
+  {
+    method: 'GET',
+    path: '/onboarding/review',
+    handler: withUser(user => ok(toFounderReview(user))),
+  },
+  {
+    method: 'PUT',
+    path: '/onboarding/review',
+    handler: withUser(user => {
+      const problems = findReviewProblems(toFounderReview(user));
+      if (Object.keys(problems).length > 0) {
+        return fail(422, 'validation_failed', 'Some steps still need your attention.', problems as Record<string, string>);
+      }
+      return completeStep(user, 'review');
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/onboarding/investor/details',
+    handler: withUser((user, { body }) => {
+      if (!isInvestorDetails(body)) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.');
+      }
+      if (body.investorType === 'firm' && !body.firmName) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.', {
+          firmName: 'Firm name is required',
+        });
+      }
+      user.investorDetails = body;
+      user.name = body.fullName || user.name;
+      user.profiles = {
+        ...user.profiles,
+        investor: {
+          displayName: user.name,
+          headline: body.investorType === 'firm' ? `${body.title || 'Investor'} at ${body.firmName}` : 'Angel investor',
+        },
+      };
+      return completeStep(user, 'investorDetails');
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/onboarding/investor/focus',
+    handler: withUser((user, { body }) => {
+      const { chequeSizeMin, chequeSizeMax } = fieldsOf(body);
+      if (!isMoney(chequeSizeMin) || chequeSizeMin.amountMinor <= 0) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.', {
+          chequeSizeMin: 'Enter the smallest cheque you write',
+        });
+      }
+      if (!isMoney(chequeSizeMax) || chequeSizeMax.currency !== chequeSizeMin.currency) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.', {
+          chequeSizeMax: 'Enter the largest cheque in the same currency as the smallest',
+        });
+      }
+      if (chequeSizeMax.amountMinor < chequeSizeMin.amountMinor) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.', {
+          chequeSizeMax: 'The largest cheque must be at least the smallest',
+        });
+      }
+      if (!isInvestmentFocus(body)) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.');
+      }
+      user.investmentFocus = body;
+      return completeStep(user, 'investmentFocus');
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/onboarding/investor/portfolio',
+    handler: withUser((user, { body }) => {
+      const { companies = [] } = fieldsOf(body);
+      if (!Array.isArray(companies) || !companies.every(isPortfolioCompany)) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.');
+      }
+      user.portfolioCompanies = companies;
+      return completeStep(user, 'portfolio');
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/onboarding/investor/accreditation',
+    handler: withUser((user, { body }) => {
+      const { declared, basis } = fieldsOf(body);
+      if (!declared || !isAccreditationBasis(basis)) {
+        return fail(422, 'validation_failed', 'Please confirm the declaration to continue.', {
+          declared: 'Please confirm the declaration to continue',
+        });
+      }
+      user.accreditation = { basis, declared: true, declaredAt: new Date().toISOString() };
+      return completeStep(user, 'accreditation');
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/assessment',
+    handler: withUser((user, { body }) => {
+      const { answers, skipped } = fieldsOf(body);
+      if (answers !== undefined && !isAssessmentAnswers(answers)) {
+        return fail(422, 'validation_failed', 'Please answer each question with one of its options.');
+      }
+      user.assessment = { answers, skipped: !!skipped };
+      return completeStep(user, 'assessment');
+    }),
+  },
+  {
+    method: 'GET',
+    path: '/documents',
+    handler: withUser(user => ok(documentsOf(user))),
+  },
+  {
+    method: 'POST',
+    path: '/documents',
+    handler: withUser(async (user, { body }) => {
+      const file = body instanceof FormData ? body.get('file') : null;
+      const kind = (body instanceof FormData ? body.get('kind') : null) as DocumentKind | null;
+      if (!(file instanceof File) || !kind) {
+        return fail(422, 'validation_failed', 'A file and document kind are required.');
+      }
+      // Logos are shown on the public profile; other documents are only listed.
+      const content = kind === 'logo' ? await readDataUrl(file) : undefined;
+
+      const db = getDb();
+      // Only one pitch deck is kept per user. A logo comes in several sizes, so
+      // the old one is only dropped once the startup profile names the new one.
+      if (kind === 'pitchDeck') {
+        db.documents = db.documents.filter(document => !(document.ownerId === user.id && document.kind === kind));
+      }
+      const document = {
+        id: generateId('doc'),
+        kind,
+        name: file.name,
+        size: file.size,
+        type: file.type,
+        uploadedAt: new Date().toISOString(),
+      };
+      db.documents.push({ ...document, ownerId: user.id, content });
+      saveDb();
+      return ok(document);
+    }),
+  },
+  {
+    method: 'DELETE',
+    path: '/documents/:id',
+    handler: withUser((user, { params }) => {
+      const db = getDb();
+      db.documents = db.documents.filter(document => !(document.ownerId === user.id && document.id === params.id));
+      saveDb();
+      return ok();
+    }),
+  },
+  {
+    method: 'PUT',
+    path: '/workspaces/:role',
+    // Creates the workspace when the user does not hold the role yet.
+    handler: withUser((user, { params, body }) => {
+      const role = params.role;
+      if (!isUserRole(role)) {
+        return fail(404, 'not_found', 'There is no such workspace.');
+      }
+      const fields = fieldsOf(body);
+      const displayName = String(fields.displayName ?? '').trim();
+      if (!displayName) {
+        return fail(422, 'validation_failed', 'Please check the highlighted fields.', {
+          displayName: 'Display name is required',
+        });
+      }
+      const profile = { displayName, headline: String(fields.headline ?? '').trim() };
+      addWorkspace(user, role, profile);
+      user.profiles = { ...user.profiles, [role]: profile };
+      user.role = user.role ?? role;
+      saveDb();
+      return ok(toUserResponse(user));
+    }),
+  },
+  {
+    method: 'POST',
+    path: '/workspaces/active',
+    handler: withUser((user, { body }) => {
+      const { role } = fieldsOf(body);
+      if (!isUserRole(role) || !user.roles.includes(role)) {
+        return fail(403, 'workspace_not_held', 'You do not have a workspace for that role yet.');
+      }
+      user.role = role;
+      saveDb();
+      return ok(toUserResponse(user));
+    }),
+  },
+  {
+    method: 'GET',
+    path: '/founders/:id',
+    // Any signed-in user may view a founder's public profile.
+    handler: withUser((_, { params }) => {
+      const founder = getDb().users.find(candidate => candidate.id === params.id);
+      if (!founder?.startupProfile) {
+        return fail(404, 'not_found', 'There is no such founder.');
+      }
+      return ok(toFounderProfile(founder, founder.startupProfile));
+    }),
+  },
+  {
+    method: 'GET',
+    path: '/enrichment/site',
+    // Stands in for the proxy that fetches a home page and reads its metadata.
+    handler: withUser((_, { query }) => {
+      const url = siteUrl(query.get('url') ?? '');
+      if (!url) {
+        return fail(422, 'validation_failed', 'Please enter a valid website URL', { url: 'Please enter a valid website URL' });
+      }
+      const site = seedSites[siteHost(url)];
+      return site ? ok(site) : fail(404, 'site_not_found', 'We could not read that website.');
+    }),
+  },
+  {
+    method: 'GET',
+    path: '/tasks',
+    handler: withUser(user => ok(inWorkspace(user, getDb().tasks))),
+  },
+  {
+    method: 'GET',
+    path: '/matches',
+    handler: withUser(user => ok(inWorkspace(user, getDb().matches))),
+  },
+  {
+    method: 'GET',
+    path: '/jobs/applicants',
+    handler: withUser(() => ok(getDb().applicants)),
+  },
+];
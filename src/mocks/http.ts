@@ -0,0 +1,41 @@
+import { AxiosHeaders } from 'axios';
+
+export interface MockRequest {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: unknown;
+  headers: AxiosHeaders;
+}
+
+export interface MockResponse {
+  status: number;
+  data?: unknown;
+}
+
+export type MockHandler = (request: MockRequest) => MockResponse | Promise<MockResponse>;
+
+export interface MockRoute {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: string;
+  handler: MockHandler;
+}
+
+export const ok = (data?: unknown): MockResponse => ({ status: data === undefined ? 204 : 200, data });
+
+// Failures use the same error envelope as the real backend (see api/client.ts).
+export const fail = (status: number, code: string, message: string, fields?: Record<string, string>): MockResponse => ({
+  status,
+  data: { error: { code, message, fields } },
+});
+
+export const tooManyRequests = (code: string, message: string, retryAfterMs: number): MockResponse => ({
+  status: 429,
+  data: { error: { code, message, retryAfter: Math.ceil(retryAfterMs / 1000) } },
+});
+
+// Whether a JSON value is an object with named fields, rather than an array or a plain value.
+export const isFields = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The fields of a JSON body, or none when it is not an object. Handlers still check each value they read.
+export const fieldsOf = (body: unknown): Record<string, unknown> => (isFields(body) ? body : {});
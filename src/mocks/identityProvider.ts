@@ -0,0 +1,33 @@
+import { OAuthProfile, OAuthProvider } from '../api/types';
+import { getDb, saveDb } from './db';
+
+const CODE_TTL_MS = 60 * 1000;
+
+/**
+ * What the stand-in identity provider does once a person picks an account:
+ * records a short-lived code bound to the PKCE challenge and redirect URI,
+ * for POST /auth/oauth/:provider to redeem.
+ */
+export const issueAuthorizationCode = ({
+  provider,
+  profile,
+  codeChallenge,
+  redirectUri,
+}: {
+  provider: OAuthProvider;
+  profile: OAuthProfile;
+  codeChallenge: string;
+  redirectUri: string;
+}) => {
+  const code = `code-${Math.random().toString(36).substr(2, 12)}`;
+  getDb().oauthCodes.push({
+    code,
+    provider,
+    profile,
+    codeChallenge,
+    redirectUri,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+  saveDb();
+  return code;
+};
@@ -0,0 +1,14 @@
+import { getDb, saveDb } from './db';
+
+/**
+ * Stands in for the backend's transactional email. Messages land in the mock
+ * database's outbox, where tests can read them, and the link is logged so a
+ * demo can follow it from the console.
+ */
+export const sendMockEmail = (to: string, subject: string, link: string) => {
+  getDb().outbox.push({ to, subject, link, sentAt: new Date().toISOString() });
+  saveDb();
+  if (process.env.NODE_ENV !== 'test') {
+    console.info(`[mock email] ${subject} → ${to}: ${link}`);
+  }
+};
@@ -0,0 +1,471 @@
+import { authApi, isTwoFactorChallenge } from '../api/auth';
+import { ApiError } from '../api/client';
+import { documentsApi } from '../api/documents';
+import { enrichmentApi } from '../api/enrichment';
+import { foundersApi } from '../api/founders';
+import { jobsApi } from '../api/jobs';
+import { matchesApi } from '../api/matches';
+import { onboardingApi } from '../api/onboarding';
+import { tasksApi } from '../api/tasks';
+import { twoFactorApi } from '../api/twoFactor';
+import { LoginRequest } from '../api/types';
+import { workspacesApi } from '../api/workspaces';
+import { clearSessionTokens, storeSessionTokens } from '../session/tokens';
+import { getDb, resetDb } from './db';
+import { seedApplicants } from './fixtures';
+import { issueChallengeToken } from './challengeProvider';
+import { enableMockApi } from './server';
+import { generateTotp } from './totp';
+
+const credentials: LoginRequest = { email: 'alex@powernest.dev', password: 'Password1', rememberMe: false };
+// For new accounts, which have to pass the password rules and breach check.
+const newPassword = 'Solar-Panel-42';
+
+const login = async (request = credentials) => {
+  const result = await authApi.login(request);
+  if (isTwoFactorChallenge(result)) throw new Error('Expected a session');
+  return result;
+};
+
+const loginChallenge = async () => {
+  const result = await authApi.login(credentials);
+  if (!isTwoFactorChallenge(result)) throw new Error('Expected a two-factor challenge');
+  return result;
+};
+
+beforeAll(() => {
+  enableMockApi({ delay: 0 });
+});
+
+beforeEach(() => {
+  resetDb();
+  clearSessionTokens();
+});
+
+test('logs in a seeded account and serves its data', async () => {
+  const { user, tokens } = await login();
+  storeSessionTokens(tokens, false);
+
+  expect(user.name).toBe('Alex Johnson');
+  expect(user.lastLogin).toBeInstanceOf(Date);
+  await expect(jobsApi.listApplicants()).resolves.toEqual(seedApplicants);
+});
+
+test('rejects bad credentials with the error envelope', async () => {
+  const error = await authApi
+    .login({ email: 'alex@powernest.dev', password: 'wrong', rememberMe: false })
+    .catch((e) => e);
+
+  expect(error).toBeInstanceOf(ApiError);
+  expect(error).toMatchObject({ status: 401, code: 'invalid_credentials' });
+});
+
+test('asks for a challenge after repeated failures, then locks the email out', async () => {
+  const wrong = { ...credentials, password: 'wrong' };
+  for (let i = 0; i < 3; i++) {
+    await expect(authApi.login(wrong)).rejects.toMatchObject({ code: 'invalid_credentials' });
+  }
+  await expect(login()).rejects.toMatchObject({ status: 403, code: 'challenge_required' });
+
+  for (let i = 0; i < 4; i++) {
+    await expect(authApi.login({ ...wrong, challengeToken: issueChallengeToken() })).rejects.toMatchObject({
+      code: 'invalid_credentials',
+    });
+  }
+  await expect(authApi.login({ ...wrong, challengeToken: issueChallengeToken() })).rejects.toMatchObject({
+    status: 429,
+    code: 'account_locked',
+    retryAfter: 15 * 60,
+  });
+  // Even the right password waits out the lock.
+  await expect(login({ ...credentials, challengeToken: issueChallengeToken() })).rejects.toMatchObject({
+    code: 'account_locked',
+  });
+});
+
+test('requires a session for protected endpoints', async () => {
+  await expect(jobsApi.listApplicants()).rejects.toMatchObject({ status: 401 });
+});
+
+test('records onboarding progress for a new account', async () => {
+  const { tokens } = await authApi.signUp({ email: 'new@founder.dev', password: newPassword, agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+
+  await expect(onboardingApi.completeDocuments()).rejects.toMatchObject({
+    fields: { pitchDeck: 'Pitch deck is required' },
+  });
+
+  await documentsApi.upload(new File(['deck'], 'deck.pdf', { type: 'application/pdf' }), 'pitchDeck');
+  const { onboarding } = await onboardingApi.completeDocuments();
+
+  expect(onboarding).toEqual({ documentUpload: true });
+  expect(getDb().documents).toHaveLength(1);
+});
+
+test('turns down onboarding steps sent in a shape the forms never send', async () => {
+  const { tokens } = await authApi.signUp({ email: 'new@founder.dev', password: newPassword, agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+
+  await expect(onboardingApi.saveTeam([{ name: 'Sam Rivera' }] as any)).rejects.toMatchObject({
+    status: 422,
+    code: 'validation_failed',
+  });
+  await expect(onboardingApi.saveBasicInfo({ phoneNumber: '+919876543210', phoneCountry: 'IN' } as any)).rejects.toMatchObject({
+    status: 422,
+  });
+  expect((await onboardingApi.getFounderReview()).basicInfo).toBeNull();
+});
+
+test('keeps an onboarding draft per step without completing it', async () => {
+  const { tokens } = await authApi.signUp({ email: 'new@founder.dev', password: newPassword, agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+
+  await expect(onboardingApi.getDraft('startupProfile')).resolves.toBeNull();
+  await onboardingApi.saveDraft('startupProfile', { sector: 'Energy', fundingRaised: '1.5' });
+
+  await expect(onboardingApi.getDraft('startupProfile')).resolves.toMatchObject({
+    step: 'startupProfile',
+    data: { sector: 'Energy', fundingRaised: '1.5' },
+  });
+  await expect(onboardingApi.getDraft('documentUpload')).resolves.toBeNull();
+  await expect(onboardingApi.saveDraft('nope' as any, {})).rejects.toMatchObject({ status: 404 });
+  await expect(authApi.me()).resolves.toMatchObject({ onboarding: {} });
+
+  await onboardingApi.deleteDraft('startupProfile');
+  await expect(onboardingApi.getDraft('startupProfile')).resolves.toBeNull();
+});
+
+test('checks every founder step together before the profile is submitted', async () => {
+  const { tokens } = await authApi.signUp({ email: 'new@founder.dev', password: newPassword, agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+  const basicInfo = {
+    fullName: 'Sam Rivera',
+    startupName: 'Greenline',
+    phoneNumber: '+919876543210',
+    phoneCountry: 'IN',
+    country: 'IN',
+    website: '',
+    linkedin: '',
+  };
+  await expect(onboardingApi.saveBasicInfo({ ...basicInfo, phoneNumber: '+91987654' })).rejects.toMatchObject({
+    fields: { phoneNumber: expect.any(String) },
+  });
+  await onboardingApi.saveBasicInfo(basicInfo);
+
+  await expect(onboardingApi.getFounderReview()).resolves.toMatchObject({
+    basicInfo: { startupName: 'Greenline' },
+    startupProfile: null,
+    documents: [],
+    teamMembers: [],
+  });
+  await expect(onboardingApi.submitFounderReview()).rejects.toMatchObject({
+    status: 422,
+    fields: { startupProfile: 'Startup profile is missing', documentUpload: 'Pitch deck is required' },
+  });
+
+  await onboardingApi.saveStartupProfile({
+    sector: 'Energy',
+    stage: 'Seed',
+    fundingRounds: [
+      {
+        id: 'round-1',
+        stage: 'Seed',
+        date: '2024-03-01',
+        amount: { amountMinor: 12_500_000_000, currency: 'INR' },
+        leadInvestor: '',
+        instrument: 'safe',
+      },
+    ],
+    currentFundingNeeds: { amountMinor: 40_000_000_000, currency: 'INR' },
+    legalEntityType: 'Private limited company',
+    incorporationDate: '2022-03-01',
+  });
+  await documentsApi.upload(new File(['deck'], 'deck.pdf', { type: 'application/pdf' }), 'pitchDeck');
+  const { onboarding } = await onboardingApi.submitFounderReview();
+
+  expect(onboarding).toMatchObject({ review: true });
+});
+
+test('shows a founder\'s funding rounds oldest first on their public profile', async () => {
+  const { user, tokens } = await authApi.signUp({ email: 'new@founder.dev', password: newPassword, agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+  await expect(foundersApi.getProfile(user.id)).rejects.toMatchObject({ status: 404 });
+
+  const round = {
+    id: 'round-2',
+    stage: 'Series A',
+    date: '2025-06-01',
+    amount: { amountMinor: 800_000_000, currency: 'EUR' },
+    leadInvestor: 'Harbor Capital',
+    instrument: 'equity' as const,
+  };
+  const profile = {
+    sector: 'Energy',
+    stage: 'Series A',
+    fundingRounds: [round, { ...round, id: 'round-1', stage: 'Seed', date: '2023-01-15', instrument: 'safe' as const }],
+    currentFundingNeeds: { amountMinor: 2_000_000_000, currency: 'EUR' },
+    legalEntityType: 'Private limited company',
+    incorporationDate: '2022-03-01',
+  };
+  await expect(
+    onboardingApi.saveStartupProfile({ ...profile, fundingRounds: [{ ...round, instrument: 'grant' as any }] } as any)
+  ).rejects.toMatchObject({ status: 422, fields: { fundingRounds: expect.any(String) } });
+  await expect(
+    onboardingApi.saveStartupProfile({ ...profile, fundingRounds: [{ ...round, instrument: 'toString' as any }] } as any)
+  ).rejects.toMatchObject({ status: 422, fields: { fundingRounds: expect.any(String) } });
+  await onboardingApi.saveStartupProfile(profile);
+
+  const founder = await foundersApi.getProfile(user.id);
+  expect(founder).toMatchObject({ id: user.id, sector: 'Energy', stage: 'Series A' });
+  expect(founder.fundingRounds.map(({ id }) => id)).toEqual(['round-1', 'round-2']);
+});
+
+test('keeps every size of the latest logo and drops the previous one', async () => {
+  const { user, tokens } = await authApi.signUp({ email: 'new@founder.dev', password: newPassword, agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+  const uploadLogo = async (width: number) => {
+    const file = new File(['logo'], `logo-${width}x${width}.webp`, { type: 'image/webp' });
+    const { id } = await documentsApi.upload(file, 'logo');
+    return { documentId: id, width, height: width, type: 'image/webp' };
+  };
+  const profile = {
+    sector: 'Energy',
+    stage: 'Seed',
+    fundingRounds: [],
+    currentFundingNeeds: { amountMinor: 2_000_000_000, currency: 'EUR' },
+    legalEntityType: '',
+    incorporationDate: '',
+  };
+  const saveLogo = (renditions: Awaited<ReturnType<typeof uploadLogo>>[]) =>
+    onboardingApi.saveStartupProfile({ ...profile, logo: { aspect: 'square', transparentBackground: false, renditions } });
+
+  await saveLogo([await uploadLogo(512), await uploadLogo(256)]);
+  const latest = [await uploadLogo(128), await uploadLogo(64)];
+  await expect(saveLogo([{ ...latest[0], documentId: 'doc-missing' }])).rejects.toMatchObject({
+    status: 422,
+    fields: { logo: expect.any(String) },
+  });
+  await saveLogo(latest);
+  await onboardingApi.saveStartupProfile(profile);
+
+  expect(getDb().documents.map(({ id }) => id)).toEqual(latest.map(({ documentId }) => documentId));
+  await expect(onboardingApi.getFounderReview()).resolves.toMatchObject({
+    startupProfile: { logo: { renditions: latest } },
+  });
+  await expect(foundersApi.getProfile(user.id)).resolves.toMatchObject({
+    logo: {
+      aspect: 'square',
+      renditions: [
+        { url: expect.stringMatching(/^data:image\/webp;base64,/), width: 128 },
+        { url: expect.stringMatching(/^data:image\/webp;base64,/), width: 64 },
+      ],
+    },
+  });
+  await expect(documentsApi.list()).resolves.not.toContainEqual(expect.objectContaining({ content: expect.anything() }));
+});
+
+test('reads known websites from fixtures for enrichment', async () => {
+  await expect(enrichmentApi.lookupSite('https://greenline.energy')).rejects.toMatchObject({ status: 401 });
+  const { tokens } = await authApi.signUp({ email: 'new@founder.dev', password: newPassword, agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+
+  await expect(enrichmentApi.lookupSite('https://www.greenline.energy/about')).resolves.toMatchObject({
+    siteName: 'Greenline',
+    socialLinks: { linkedin: expect.stringContaining('linkedin.com/company/') },
+    faviconUrl: expect.stringMatching(/^data:image\/png;base64,/),
+  });
+  await expect(enrichmentApi.lookupSite('https://unknown.example')).rejects.toMatchObject({
+    status: 404,
+    code: 'site_not_found',
+  });
+  await expect(enrichmentApi.lookupSite('not a url')).rejects.toMatchObject({ status: 422 });
+});
+
+test('turns down sign-ups with a weak or breached password', async () => {
+  await expect(authApi.signUp({ email: 'new@founder.dev', password: 'short', agreeToTerms: true })).rejects.toMatchObject({
+    status: 422,
+    fields: { password: expect.any(String) },
+  });
+  await expect(
+    authApi.signUp({ email: 'new@founder.dev', password: 'Password1', agreeToTerms: true })
+  ).rejects.toMatchObject({
+    status: 422,
+    fields: { password: 'This password has appeared in a data breach. Please choose a different one' },
+  });
+});
+
+test('saves the role chosen after sign-up', async () => {
+  const { user, tokens } = await authApi.signUp({ email: 'new@investor.dev', password: newPassword, agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+  expect(user.role).toBeNull();
+
+  await expect(onboardingApi.saveRole('admin' as any)).rejects.toMatchObject({ fields: { role: 'Please choose a role' } });
+  await expect(onboardingApi.saveRole('investor')).resolves.toEqual({ role: 'investor', roles: ['investor'] });
+  await expect(authApi.me()).resolves.toMatchObject({ role: 'investor' });
+});
+
+test('swaps the role picked again before onboarding starts instead of adding one', async () => {
+  const { tokens } = await authApi.signUp({ email: 'new@founder.dev', password: newPassword, agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+
+  await onboardingApi.saveRole('founder');
+  await expect(onboardingApi.saveRole('investor')).resolves.toEqual({ role: 'investor', roles: ['investor'] });
+  await expect(authApi.me()).resolves.toMatchObject({ roles: ['investor'], profiles: { investor: expect.any(Object) } });
+  expect((await authApi.me()).profiles.founder).toBeUndefined();
+
+  await onboardingApi.saveInvestorDetails({
+    investorType: 'angel',
+    fullName: 'Dana Cole',
+    firmName: '',
+    title: '',
+    location: 'London',
+    website: '',
+    linkedin: '',
+  });
+  await expect(onboardingApi.saveRole('founder')).rejects.toMatchObject({ status: 409, code: 'onboarding_started' });
+  await expect(onboardingApi.saveRole('investor')).resolves.toEqual({ role: 'investor', roles: ['investor'] });
+});
+
+test('records investor onboarding separately from the founder steps', async () => {
+  const { tokens } = await authApi.signUp({ email: 'new@investor.dev', password: newPassword, agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+  await onboardingApi.saveRole('investor');
+
+  await onboardingApi.saveInvestorDetails({
+    investorType: 'firm',
+    fullName: 'Dana Cole',
+    firmName: 'Harbor Capital',
+    title: 'Partner',
+    location: 'London',
+    website: '',
+    linkedin: '',
+  });
+  await expect(
+    onboardingApi.saveInvestmentFocus({
+      thesis: 'Climate software for heavy industry',
+      sectors: ['Energy'],
+      stages: ['Seed'],
+      chequeSizeMin: { amountMinor: 25_000_000, currency: 'GBP' },
+      chequeSizeMax: { amountMinor: 10_000_000, currency: 'GBP' },
+    })
+  ).rejects.toMatchObject({ fields: { chequeSizeMax: expect.any(String) } });
+  await expect(onboardingApi.saveAccreditation({ basis: 'income', declared: false })).rejects.toMatchObject({
+    fields: { declared: expect.any(String) },
+  });
+
+  const { onboarding } = await onboardingApi.saveAccreditation({ basis: 'income', declared: true });
+  expect(onboarding).toEqual({ investorDetails: true, accreditation: true });
+  await expect(authApi.me()).resolves.toMatchObject({
+    name: 'Dana Cole',
+    profiles: { investor: { displayName: 'Dana Cole', headline: 'Partner at Harbor Capital' } },
+  });
+});
+
+test('scopes matches, tasks and notifications to the active workspace', async () => {
+  const { user, tokens } = await login();
+  storeSessionTokens(tokens, false);
+  expect(user.roles).toEqual(['founder', 'investor']);
+  expect(user.notifications).toHaveLength(3);
+  expect((await matchesApi.list()).map(match => match.name)).toContain('Investor A');
+
+  const investor = await workspacesApi.switchTo('investor');
+  expect(investor.role).toBe('investor');
+  expect(investor.notifications.map(notification => notification.content)).toEqual([
+    '2 founders shared their decks with you',
+  ]);
+  expect((await matchesApi.list()).map(match => match.name)).toEqual(['Orbital Labs', 'Greenline Energy']);
+  expect(await tasksApi.list()).toHaveLength(2);
+  await expect(authApi.me()).resolves.toMatchObject({ role: 'investor' });
+});
+
+test('adds a second workspace with its own profile before switching to it', async () => {
+  storeSessionTokens((await login({ ...credentials, email: 'priya@powernest.dev' })).tokens, false);
+  await expect(workspacesApi.switchTo('investor')).rejects.toMatchObject({ status: 403, code: 'workspace_not_held' });
+  await expect(workspacesApi.saveProfile('investor', { displayName: ' ', headline: '' })).rejects.toMatchObject({
+    fields: { displayName: 'Display name is required' },
+  });
+
+  const user = await workspacesApi.saveProfile('investor', { displayName: 'Priya Shah', headline: 'Angel investor' });
+  expect(user).toMatchObject({ role: 'founder', roles: ['founder', 'investor'] });
+  expect(user.profiles.investor).toEqual({ displayName: 'Priya Shah', headline: 'Angel investor' });
+  await expect(workspacesApi.switchTo('investor')).resolves.toMatchObject({ role: 'investor' });
+});
+
+test('asks for a second factor once two-factor authentication is on', async () => {
+  storeSessionTokens((await login()).tokens, false);
+
+  const { secret } = await twoFactorApi.setup();
+  await expect(twoFactorApi.enable('000000')).rejects.toMatchObject({ code: 'invalid_code' });
+  const { backupCodes } = await twoFactorApi.enable(await generateTotp(secret));
+  expect(backupCodes).toHaveLength(10);
+
+  const challenge = await loginChallenge();
+  const { trustedDeviceToken } = await authApi.verifyTwoFactor({
+    challengeToken: challenge.challengeToken,
+    code: await generateTotp(secret),
+    trustDevice: true,
+  });
+
+  // The trusted device skips the second step; elsewhere a backup code works, once.
+  await login({ ...credentials, trustedDeviceToken });
+  const verifyWithBackupCode = async () =>
+    authApi.verifyTwoFactor({ challengeToken: (await loginChallenge()).challengeToken, code: backupCodes[0], trustDevice: false });
+  await expect(verifyWithBackupCode()).resolves.toMatchObject({ user: { email: 'alex@powernest.dev' } });
+  await expect(verifyWithBackupCode()).rejects.toMatchObject({ status: 401, code: 'invalid_code' });
+});
+
+test('drops a second-factor challenge after repeated wrong codes', async () => {
+  storeSessionTokens((await login()).tokens, false);
+  const { secret } = await twoFactorApi.setup();
+  await twoFactorApi.enable(await generateTotp(secret));
+
+  const { challengeToken } = await loginChallenge();
+  for (let attempt = 1; attempt < 5; attempt++) {
+    await expect(authApi.verifyTwoFactor({ challengeToken, code: '000000', trustDevice: false })).rejects.toMatchObject({
+      code: 'invalid_code',
+    });
+  }
+  await expect(authApi.verifyTwoFactor({ challengeToken, code: '000000', trustDevice: false })).rejects.toMatchObject({
+    code: 'challenge_expired',
+  });
+  // Even the right code no longer works; the sign-in has to start over.
+  await expect(
+    authApi.verifyTwoFactor({ challengeToken, code: await generateTotp(secret), trustDevice: false })
+  ).rejects.toMatchObject({ code: 'challenge_expired' });
+});
+
+test('resets a password from the emailed link, once', async () => {
+  await authApi.requestPasswordReset('alex@powernest.dev');
+  const [email] = getDb().outbox;
+  const token = email.link.split('/').pop()!;
+  expect(email.to).toBe('alex@powernest.dev');
+  await expect(authApi.checkPasswordResetToken(token)).resolves.toEqual({ email: 'alex@powernest.dev' });
+
+  await expect(authApi.resetPassword({ token, password: 'short' })).rejects.toMatchObject({
+    fields: { password: expect.any(String) },
+  });
+  await authApi.resetPassword({ token, password: 'NewPassword1' });
+
+  await expect(authApi.checkPasswordResetToken(token)).rejects.toMatchObject({ code: 'reset_token_used' });
+  await expect(login()).rejects.toMatchObject({ code: 'invalid_credentials' });
+  await login({ ...credentials, password: 'NewPassword1' });
+});
+
+test('verifies a new account from the emailed link and rate limits resends', async () => {
+  const { user, tokens } = await authApi.signUp({ email: 'new@founder.dev', password: newPassword, agreeToTerms: true });
+  storeSessionTokens(tokens, false);
+  expect(user.emailVerified).toBe(false);
+
+  await expect(authApi.resendVerificationEmail()).rejects.toMatchObject({
+    status: 429,
+    code: 'rate_limited',
+    retryAfter: expect.any(Number),
+  });
+
+  const [email] = getDb().outbox;
+  expect(email.to).toBe('new@founder.dev');
+  await authApi.verifyEmail(email.link.split('/').pop()!);
+
+  await expect(authApi.me()).resolves.toMatchObject({ emailVerified: true });
+  await expect(authApi.resendVerificationEmail()).rejects.toMatchObject({ code: 'already_verified' });
+});
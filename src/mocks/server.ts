@@ -0,0 +1,115 @@
+import { AxiosAdapter, AxiosError, AxiosHeaders, AxiosResponse, CanceledError, InternalAxiosRequestConfig } from 'axios';
+import { apiClient } from '../api/client';
+import { handlers } from './handlers';
+import { MockResponse, fail } from './http';
+
+const matchPath = (pattern: string, path: string): Record<string, string> | null => {
+  const patternParts = pattern.split('/').filter(Boolean);
+  const pathParts = path.split('/').filter(Boolean);
+  if (patternParts.length !== pathParts.length) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternParts.length; i++) {
+    if (patternParts[i].startsWith(':')) {
+      params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+    } else if (patternParts[i] !== pathParts[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+const parseBody = (data: unknown) => {
+  if (typeof data === 'string' && data) {
+    try {
+      return JSON.parse(data);
+    } catch {
+      return data;
+    }
+  }
+  return data;
+};
+
+/**
+ * Runs a request against the mock routes and returns what the backend would
+ * have answered. Exposed so tests can hit endpoints without going through axios.
+ */
+export const handleMockRequest = async (
+  method: string,
+  url: string,
+  body?: unknown,
+  headers: AxiosHeaders = new AxiosHeaders()
+): Promise<MockResponse> => {
+  const [path, search = ''] = url.split('?');
+
+  for (const route of handlers) {
+    if (route.method !== method.toUpperCase()) {
+      continue;
+    }
+    const params = matchPath(route.path, path);
+    if (params) {
+      return route.handler({ params, query: new URLSearchParams(search), body: parseBody(body), headers });
+    }
+  }
+
+  return fail(404, 'not_found', `No mock endpoint for ${method.toUpperCase()} ${path}`);
+};
+
+let latency = 300;
+
+export const setMockLatency = (ms: number) => {
+  latency = ms;
+};
+
+const wait = (ms: number, signal?: InternalAxiosRequestConfig['signal']) =>
+  new Promise<void>((resolve, reject) => {
+    if (ms <= 0) {
+      resolve();
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener?.('abort', () => {
+      clearTimeout(timer);
+      reject(new CanceledError());
+    });
+  });
+
+export const mockAdapter: AxiosAdapter = async (config) => {
+  if (config.signal?.aborted) {
+    throw new CanceledError(undefined, undefined, config);
+  }
+
+  await wait(latency, config.signal);
+
+  const query = new URLSearchParams(config.params).toString();
+  const { status, data } = await handleMockRequest(
+    config.method || 'get',
+    query ? `${config.url}?${query}` : config.url || '/',
+    config.data,
+    AxiosHeaders.from(config.headers)
+  );
+
+  const response: AxiosResponse = {
+    status,
+    statusText: String(status),
+    data,
+    headers: {},
+    config,
+  };
+
+  if (status >= 400) {
+    throw new AxiosError(`Request failed with status code ${status}`, AxiosError.ERR_BAD_REQUEST, config, null, response);
+  }
+  return response;
+};
+
+/**
+ * Points the shared API client at the in-memory backend. Used by the app when
+ * REACT_APP_USE_MOCK_API is "true" and by tests that render API-backed screens.
+ */
+export const enableMockApi = ({ delay = latency }: { delay?: number } = {}) => {
+  setMockLatency(delay);
+  apiClient.defaults.adapter = mockAdapter;
+};
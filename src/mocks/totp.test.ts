@@ -0,0 +1,19 @@
+import { generateTotp, verifyTotp } from './totp';
+
+// RFC 6238 appendix B uses the ASCII key "12345678901234567890".
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+test('matches the RFC 6238 SHA-1 test vectors', async () => {
+  await expect(generateTotp(RFC_SECRET, 59 * 1000)).resolves.toBe('287082');
+  await expect(generateTotp(RFC_SECRET, 1111111109 * 1000)).resolves.toBe('081804');
+  await expect(generateTotp(RFC_SECRET, 2000000000 * 1000)).resolves.toBe('279037');
+});
+
+test('accepts codes from the neighbouring time steps only', async () => {
+  const now = 1111111109 * 1000;
+  const previous = await generateTotp(RFC_SECRET, now - 30 * 1000);
+  const stale = await generateTotp(RFC_SECRET, now - 90 * 1000);
+
+  await expect(verifyTotp(RFC_SECRET, previous, 1, now)).resolves.toBe(true);
+  await expect(verifyTotp(RFC_SECRET, stale, 1, now)).resolves.toBe(false);
+});
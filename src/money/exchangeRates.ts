@@ -0,0 +1,56 @@
+// Reference rates for turning funding amounts into the reporting currency:
+// how many units of each currency one US dollar bought on `asOf`. Edit the
+// table to refresh them; a currency missing here is shown without conversion.
+export interface ExchangeRates {
+  base: string;
+  // yyyy-mm-dd
+  asOf: string;
+  rates: Record<string, number>;
+}
+
+export const defaultExchangeRates: ExchangeRates = {
+  base: 'USD',
+  asOf: '2025-09-01',
+  rates: {
+    USD: 1,
+    AED: 3.6725,
+    AUD: 1.53,
+    BDT: 121.6,
+    BRL: 5.43,
+    CAD: 1.38,
+    CHF: 0.8,
+    CLP: 965,
+    CNY: 7.13,
+    COP: 4010,
+    CZK: 20.9,
+    DKK: 6.39,
+    EGP: 48.6,
+    EUR: 0.856,
+    GBP: 0.74,
+    HKD: 7.8,
+    HUF: 337,
+    IDR: 16450,
+    ILS: 3.36,
+    INR: 88.1,
+    JPY: 147.2,
+    KES: 129.2,
+    KRW: 1391,
+    MXN: 18.66,
+    MYR: 4.22,
+    NGN: 1532,
+    NOK: 10.05,
+    NZD: 1.7,
+    PHP: 57.1,
+    PKR: 281.6,
+    PLN: 3.65,
+    QAR: 3.64,
+    SAR: 3.75,
+    SEK: 9.42,
+    SGD: 1.285,
+    THB: 32.4,
+    TRY: 41.2,
+    TWD: 30.6,
+    VND: 26350,
+    ZAR: 17.66,
+  },
+};
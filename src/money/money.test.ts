@@ -0,0 +1,32 @@
+import { convertMoney, describeMoney, formatMoney, isMoney, setExchangeRates, splitMoney, toMoney } from './money';
+import { defaultExchangeRates } from './exchangeRates';
+
+afterEach(() => {
+  setExchangeRates(defaultExchangeRates);
+});
+
+test('stores amounts in the minor units of their currency', () => {
+  expect(toMoney('1.15', 'million', 'USD')).toEqual({ amountMinor: 115_000_000, currency: 'USD' });
+  expect(toMoney('250', 'thousand', 'JPY')).toEqual({ amountMinor: 250_000, currency: 'JPY' });
+  expect(toMoney('2', 'thousand', 'KWD')).toEqual({ amountMinor: 2_000_000, currency: 'KWD' });
+  expect(splitMoney({ amountMinor: 115_000_000, currency: 'USD' })).toEqual({ amount: '1.15', unit: 'million' });
+  expect(isMoney({ amountMinor: 1.5, currency: 'USD' })).toBe(false);
+  expect(isMoney({ amountMinor: 100, currency: 'XYZ' })).toBe(false);
+});
+
+test('formats for the locale', () => {
+  const money = toMoney('1.5', 'million', 'EUR');
+  expect(formatMoney(money, { locale: 'en-US' })).toBe('€1,500,000');
+  expect(formatMoney(money, { locale: 'de-DE' })).toBe('1.500.000\u00a0€');
+  expect(formatMoney(money, { locale: 'en-US', compact: true })).toBe('€1.5M');
+  expect(formatMoney({ amountMinor: 123_456, currency: 'USD' }, { locale: 'en-US' })).toBe('$1,234.56');
+});
+
+test('converts through the configured rates', () => {
+  setExchangeRates({ base: 'USD', asOf: '2025-01-01', rates: { USD: 1, INR: 80, GBP: 0.8 } });
+
+  expect(convertMoney(toMoney('8', 'million', 'INR'), 'USD')).toEqual({ amountMinor: 10_000_000, currency: 'USD' });
+  expect(convertMoney(toMoney('8', 'million', 'INR'), 'GBP')).toEqual({ amountMinor: 8_000_000, currency: 'GBP' });
+  expect(convertMoney(toMoney('1', 'million', 'EUR'), 'USD')).toBeUndefined();
+  expect(describeMoney(toMoney('8', 'million', 'INR'), { locale: 'en-US' })).toBe('₹8,000,000 (≈ $100K)');
+});
@@ -0,0 +1,105 @@
+import { FundingUnit, Money } from '../api/types';
+import { currencies } from './currencies';
+import { ExchangeRates, defaultExchangeRates } from './exchangeRates';
+
+// Money as the API carries it (an integer count of minor units and an ISO 4217
+// code), with the conversions and formatting around it.
+
+const byCode = new Map(currencies.map(currency => [currency.code, currency]));
+
+export const findCurrency = (code: string) => byCode.get(code);
+
+// The currency amounts are compared in, whatever each startup reported in.
+export const REPORTING_CURRENCY = process.env.REACT_APP_REPORTING_CURRENCY || 'USD';
+
+const minorUnitFactor = (currency: string) => 10 ** (findCurrency(currency)?.minorUnits ?? 2);
+
+export const fundingUnitFactors: Record<FundingUnit, number> = {
+  thousand: 1e3,
+  million: 1e6,
+  billion: 1e9,
+};
+
+// An amount as entered, e.g. "1.5" million US dollars, as 150000000 cents.
+export const toMoney = (amount: string, unit: FundingUnit, currency: string): Money => ({
+  amountMinor: Math.round(Number(amount) * fundingUnitFactors[unit] * minorUnitFactor(currency)),
+  currency,
+});
+
+export const toMajorUnits = ({ amountMinor, currency }: Money) => amountMinor / minorUnitFactor(currency);
+
+// Back to an amount and unit for editing, in the largest unit the amount reaches (thousands at least).
+export const splitMoney = (money: Money): { amount: string; unit: FundingUnit } => {
+  const major = toMajorUnits(money);
+  const unit: FundingUnit = major >= 1e9 ? 'billion' : major >= 1e6 ? 'million' : 'thousand';
+  return { amount: String(Number((major / fundingUnitFactors[unit]).toFixed(6))), unit };
+};
+
+export const isMoney = (value: unknown): value is Money => {
+  const money = value as Money | null | undefined;
+  return (
+    !!money &&
+    Number.isSafeInteger(money.amountMinor) &&
+    money.amountMinor >= 0 &&
+    typeof money.currency === 'string' &&
+    byCode.has(money.currency)
+  );
+};
+
+let exchangeRates = defaultExchangeRates;
+
+/**
+ * Swaps the bundled rates table for another, e.g. one loaded from the backend
+ * or refreshed by an admin.
+ */
+export const setExchangeRates = (rates: ExchangeRates) => {
+  exchangeRates = rates;
+};
+
+export const getExchangeRates = () => exchangeRates;
+
+// `money` in `currency` at the configured rates, or undefined when either rate is missing.
+export const convertMoney = (money: Money, currency: string): Money | undefined => {
+  if (money.currency === currency) {
+    return money;
+  }
+  const from = exchangeRates.rates[money.currency];
+  const to = exchangeRates.rates[currency];
+  if (!from || !to) {
+    return undefined;
+  }
+  return { amountMinor: Math.round((toMajorUnits(money) / from) * to * minorUnitFactor(currency)), currency };
+};
+
+// The sum of amounts in any currencies, in `currency`; undefined when one of them cannot be converted.
+export const sumMoney = (amounts: Money[], currency: string): Money | undefined => {
+  const converted = amounts.map(money => convertMoney(money, currency));
+  return converted.every(Boolean)
+    ? { amountMinor: converted.reduce((sum, money) => sum + money!.amountMinor, 0), currency }
+    : undefined;
+};
+
+interface FormatMoneyOptions {
+  // Defaults to the browser's locale.
+  locale?: string;
+  // "$1.5M" rather than "$1,500,000".
+  compact?: boolean;
+}
+
+export const formatMoney = (money: Money, { locale, compact = false }: FormatMoneyOptions = {}) => {
+  const isWhole = money.amountMinor % minorUnitFactor(money.currency) === 0;
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: money.currency,
+    ...(compact
+      ? { notation: 'compact', minimumFractionDigits: 0, maximumFractionDigits: 1 }
+      : isWhole && { minimumFractionDigits: 0, maximumFractionDigits: 0 }),
+  }).format(toMajorUnits(money));
+};
+
+// The amount as reported and, in another currency, roughly what it comes to in the reporting one.
+export const describeMoney = (money: Money, options: FormatMoneyOptions = {}) => {
+  const formatted = formatMoney(money, options);
+  const converted = money.currency === REPORTING_CURRENCY ? undefined : convertMoney(money, REPORTING_CURRENCY);
+  return converted ? `${formatted} (≈ ${formatMoney(converted, { ...options, compact: true })})` : formatted;
+};
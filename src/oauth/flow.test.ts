@@ -0,0 +1,125 @@
+import { authApi } from '../api/auth';
+import { identitiesApi } from '../api/identities';
+import { OAuthProvider } from '../api/types';
+import { resetDb } from '../mocks/db';
+import { seedOAuthIdentities } from '../mocks/fixtures';
+import { issueAuthorizationCode } from '../mocks/identityProvider';
+import { enableMockApi } from '../mocks/server';
+import { clearSessionTokens, storeSessionTokens } from '../session/tokens';
+import { beginOAuth, completeOAuth } from './flow';
+
+beforeAll(() => {
+  enableMockApi({ delay: 0 });
+});
+
+beforeEach(() => {
+  resetDb();
+  sessionStorage.clear();
+  clearSessionTokens();
+});
+
+// Plays the identity provider: approves the request as `profile` and returns
+// the query string it would redirect back with.
+const approve = (authorizeUrl: string, profile = seedOAuthIdentities.google[0], provider: OAuthProvider = 'google') => {
+  const request = new URL(authorizeUrl).searchParams;
+  const code = issueAuthorizationCode({
+    provider,
+    profile,
+    codeChallenge: request.get('code_challenge')!,
+    redirectUri: request.get('redirect_uri')!,
+  });
+  return new URLSearchParams({ code, state: request.get('state')! });
+};
+
+test('sends a PKCE authorization request to the provider', async () => {
+  const request = new URL(await beginOAuth('google', { intent: 'login' })).searchParams;
+
+  expect(request.get('response_type')).toBe('code');
+  expect(request.get('code_challenge_method')).toBe('S256');
+  expect(request.get('code_challenge')).toMatch(/^[\w-]{43}$/);
+  expect(request.get('redirect_uri')).toBe('http://localhost/oauth/callback/google');
+});
+
+test('asks for the password before linking an existing account, then signs straight in', async () => {
+  const first = await completeOAuth('google', approve(await beginOAuth('google', { intent: 'login', rememberMe: true })));
+  expect(first).toMatchObject({ type: 'linkRequired', email: 'alex@powernest.dev', rememberMe: true });
+  if (first.type !== 'linkRequired') return;
+
+  await expect(authApi.confirmOAuthLink({ linkToken: first.linkToken, password: 'wrong' })).rejects.toMatchObject({
+    code: 'invalid_credentials',
+  });
+  await expect(authApi.confirmOAuthLink({ linkToken: first.linkToken, password: 'Password1' })).resolves.toMatchObject({
+    user: { email: 'alex@powernest.dev' },
+  });
+
+  const second = await completeOAuth('google', approve(await beginOAuth('google', { intent: 'login' })));
+  expect(second).toMatchObject({ type: 'session', isNewUser: false });
+  if (second.type !== 'session') return;
+  expect(second.session.user.avatarUrl).toBe(seedOAuthIdentities.google[0].picture);
+});
+
+test('throttles link passwords like logins and drops the request after repeated failures', async () => {
+  const result = await completeOAuth('google', approve(await beginOAuth('google', { intent: 'login' })));
+  if (result.type !== 'linkRequired') throw new Error('Expected a link request');
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    await expect(authApi.confirmOAuthLink({ linkToken: result.linkToken, password: 'wrong' })).rejects.toBeDefined();
+  }
+
+  await expect(authApi.confirmOAuthLink({ linkToken: result.linkToken, password: 'Password1' })).rejects.toMatchObject({
+    code: 'invalid_link',
+  });
+  // The failures count against the email on the login form too.
+  await expect(
+    authApi.login({ email: 'alex@powernest.dev', password: 'Password1', rememberMe: false })
+  ).rejects.toMatchObject({ code: 'challenge_required' });
+});
+
+test('creates an account named from the provider profile', async () => {
+  const callback = approve(await beginOAuth('google', { intent: 'signup' }), seedOAuthIdentities.google[1]);
+
+  const result = await completeOAuth('google', callback);
+
+  expect(result).toMatchObject({ type: 'session', isNewUser: true });
+  if (result.type !== 'session') return;
+  expect(result.session.user.name).toBe('Sam Rivera');
+});
+
+test('links and unlinks identities from settings, keeping one way to sign in', async () => {
+  const signUp = await completeOAuth(
+    'google',
+    approve(await beginOAuth('google', { intent: 'signup' }), seedOAuthIdentities.google[1])
+  );
+  if (signUp.type !== 'session') throw new Error('expected a session');
+  storeSessionTokens(signUp.session.tokens, false);
+
+  await expect(identitiesApi.unlink('google')).rejects.toMatchObject({ code: 'last_sign_in_method' });
+
+  const linkedIn = seedOAuthIdentities.linkedin[1];
+  const linked = await completeOAuth(
+    'linkedin',
+    approve(await beginOAuth('linkedin', { intent: 'link' }), linkedIn, 'linkedin')
+  );
+  expect(linked).toEqual({ type: 'linked', provider: 'linkedin' });
+
+  const { identities } = await identitiesApi.unlink('google');
+  expect(identities).toEqual([expect.objectContaining({ provider: 'linkedin', email: linkedIn.email })]);
+});
+
+test('rejects a callback whose state was not issued by this browser', async () => {
+  const callback = approve(await beginOAuth('google', { intent: 'signup' }));
+  callback.set('state', 'forged');
+
+  await expect(completeOAuth('google', callback)).rejects.toMatchObject({
+    name: 'OAuthError',
+    intent: 'signup',
+  });
+});
+
+test('reports a cancelled sign-in', async () => {
+  const request = new URL(await beginOAuth('google', { intent: 'login' })).searchParams;
+
+  await expect(
+    completeOAuth('google', new URLSearchParams({ error: 'access_denied', state: request.get('state')! }))
+  ).rejects.toThrow('Google sign-in was cancelled.');
+});
@@ -0,0 +1,149 @@
+import { authApi, isTwoFactorChallenge } from '../api/auth';
+import { identitiesApi } from '../api/identities';
+import { getErrorMessage } from '../api/client';
+import { AuthSession, OAuthProvider } from '../api/types';
+import { oauthCallbackPath } from '../routes/paths';
+import { getTrustedDeviceToken } from '../session/trustedDevice';
+import { createCodeChallenge, createCodeVerifier, randomUrlSafeString } from './pkce';
+import { applyOAuthProfile } from './profile';
+import { oauthProviders } from './providers';
+
+// Which screen started the flow, so errors are shown where the user came from.
+// "link" connects the identity to the account that is already signed in.
+export type OAuthIntent = 'login' | 'signup' | 'link';
+
+interface PendingAuthorization {
+  provider: OAuthProvider;
+  state: string;
+  codeVerifier: string;
+  redirectUri: string;
+  intent: OAuthIntent;
+  rememberMe: boolean;
+}
+
+export type OAuthResult =
+  | { type: 'session'; session: AuthSession; isNewUser: boolean; rememberMe: boolean }
+  | { type: 'linkRequired'; provider: OAuthProvider; linkToken: string; email: string; rememberMe: boolean }
+  | { type: 'twoFactorRequired'; challengeToken: string; rememberMe: boolean }
+  | { type: 'linked'; provider: OAuthProvider };
+
+const PENDING_KEY = 'powernest:oauth-pending';
+
+export class OAuthError extends Error {
+  intent: OAuthIntent;
+
+  constructor(message: string, intent: OAuthIntent = 'login') {
+    super(message);
+    this.name = 'OAuthError';
+    this.intent = intent;
+  }
+}
+
+/**
+ * Prepares an authorization-code + PKCE request and returns the provider URL
+ * to send the browser to. The state and verifier wait in sessionStorage until
+ * the provider redirects back to the callback route.
+ */
+export const beginOAuth = async (
+  provider: OAuthProvider,
+  { intent, rememberMe = false }: { intent: OAuthIntent; rememberMe?: boolean }
+) => {
+  const config = oauthProviders[provider];
+  const pending: PendingAuthorization = {
+    provider,
+    state: randomUrlSafeString(16),
+    codeVerifier: createCodeVerifier(),
+    redirectUri: `${window.location.origin}${oauthCallbackPath(provider)}`,
+    intent,
+    rememberMe,
+  };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+
+  const url = new URL(config.authorizeUrl, window.location.origin);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: pending.redirectUri,
+    scope: config.scope,
+    state: pending.state,
+    code_challenge: await createCodeChallenge(pending.codeVerifier),
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+};
+
+const takePending = (): PendingAuthorization | null => {
+  const saved = sessionStorage.getItem(PENDING_KEY);
+  sessionStorage.removeItem(PENDING_KEY);
+  try {
+    return saved ? (JSON.parse(saved) as PendingAuthorization) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Finishes the flow on the callback route: checks the state, then exchanges
+ * the code and verifier for a session (or links the identity, for the "link"
+ * intent). Every failure is an OAuthError with a message fit for the screen
+ * the flow started from.
+ */
+export const completeOAuth = async (provider: OAuthProvider, params: URLSearchParams): Promise<OAuthResult> => {
+  const pending = takePending();
+  const { label } = oauthProviders[provider];
+
+  // A state that doesn't match ours means the callback wasn't started by this
+  // browser (or is a replay), so nothing in it can be trusted.
+  if (!pending || pending.provider !== provider || pending.state !== params.get('state')) {
+    throw new OAuthError(`Your ${label} sign-in expired. Please try again.`, pending?.intent);
+  }
+
+  const error = params.get('error');
+  const code = params.get('code');
+  if (error || !code) {
+    throw new OAuthError(
+      error === 'access_denied'
+        ? `${label} sign-in was cancelled.`
+        : `We could not sign you in with ${label}. Please try again.`,
+      pending.intent
+    );
+  }
+
+  const exchange = { code, codeVerifier: pending.codeVerifier, redirectUri: pending.redirectUri };
+  try {
+    if (pending.intent === 'link') {
+      await identitiesApi.link(provider, exchange);
+      return { type: 'linked', provider };
+    }
+
+    const response = await authApi.exchangeOAuthCode(provider, {
+      ...exchange,
+      trustedDeviceToken: getTrustedDeviceToken(),
+    });
+    if (isTwoFactorChallenge(response)) {
+      return { type: 'twoFactorRequired', challengeToken: response.challengeToken, rememberMe: pending.rememberMe };
+    }
+    if ('linkRequired' in response) {
+      return {
+        type: 'linkRequired',
+        provider,
+        linkToken: response.linkToken,
+        email: response.email,
+        rememberMe: pending.rememberMe,
+      };
+    }
+
+    const { user, tokens, profile, isNewUser } = response;
+    return {
+      type: 'session',
+      session: { user: applyOAuthProfile(user, profile), tokens },
+      isNewUser,
+      rememberMe: pending.rememberMe,
+    };
+  } catch (exchangeError) {
+    throw new OAuthError(
+      getErrorMessage(exchangeError, `We could not sign you in with ${label}. Please try again.`),
+      pending.intent
+    );
+  }
+};
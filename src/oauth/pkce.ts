@@ -0,0 +1,22 @@
+// PKCE (RFC 7636) helpers. The verifier stays in this browser; only its
+// SHA-256 challenge goes to the identity provider with the authorization request.
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+
+export const randomUrlSafeString = (byteLength = 32) => {
+  const bytes = new Uint8Array(byteLength);
+  crypto.getRandomValues(bytes);
+  return toBase64Url(bytes);
+};
+
+// 32 random bytes encode to 43 characters, the minimum verifier length.
+export const createCodeVerifier = () => randomUrlSafeString(32);
+
+export const createCodeChallenge = async (verifier: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier));
+  return toBase64Url(new Uint8Array(digest));
+};
@@ -0,0 +1,28 @@
+import { OAuthProfile, User } from '../api/types';
+
+/**
+ * Turns the identity provider's profile into the parts of our user model it
+ * can fill in. Google and LinkedIn both speak OpenID Connect, so one mapping
+ * covers them.
+ */
+export const mapOAuthProfile = (profile: OAuthProfile): Partial<User> => {
+  const name = profile.name || [profile.given_name, profile.family_name].filter(Boolean).join(' ');
+  return {
+    email: profile.email,
+    ...(name ? { name } : {}),
+    ...(profile.picture ? { avatarUrl: profile.picture } : {}),
+  };
+};
+
+/**
+ * Fills gaps in the account with what the provider knows. Details the user
+ * already gave us always win over the provider's.
+ */
+export const applyOAuthProfile = (user: User, profile: OAuthProfile): User => {
+  const mapped = mapOAuthProfile(profile);
+  return {
+    ...user,
+    name: user.name || mapped.name || '',
+    avatarUrl: user.avatarUrl ?? mapped.avatarUrl,
+  };
+};
@@ -0,0 +1,37 @@
+import { OAuthProvider } from '../api/types';
+import { paths } from '../routes/paths';
+
+export interface OAuthProviderConfig {
+  label: string;
+  authorizeUrl: string;
+  clientId: string;
+  scope: string;
+}
+
+// With the mock backend on, sign-in goes to the stand-in identity provider so
+// the whole flow runs without real Google or LinkedIn credentials.
+const useStandIn = process.env.REACT_APP_USE_MOCK_API === 'true';
+
+const standInUrl = (provider: OAuthProvider) => paths.mockIdentityProvider.replace(':provider', provider);
+
+export const oauthProviders: Record<OAuthProvider, OAuthProviderConfig> = {
+  google: {
+    label: 'Google',
+    authorizeUrl:
+      process.env.REACT_APP_GOOGLE_AUTHORIZE_URL ||
+      (useStandIn ? standInUrl('google') : 'https://accounts.google.com/o/oauth2/v2/auth'),
+    clientId: process.env.REACT_APP_GOOGLE_CLIENT_ID || 'powernest-local',
+    scope: 'openid email profile',
+  },
+  linkedin: {
+    label: 'LinkedIn',
+    authorizeUrl:
+      process.env.REACT_APP_LINKEDIN_AUTHORIZE_URL ||
+      (useStandIn ? standInUrl('linkedin') : 'https://www.linkedin.com/oauth/v2/authorization'),
+    clientId: process.env.REACT_APP_LINKEDIN_CLIENT_ID || 'powernest-local',
+    scope: 'openid profile email',
+  },
+};
+
+export const isOAuthProvider = (value: string | undefined): value is OAuthProvider =>
+  !!value && Object.prototype.hasOwnProperty.call(oauthProviders, value);
@@ -0,0 +1,66 @@
+import {
+  clearLocalDraft,
+  clearLocalDrafts,
+  describeSavedAt,
+  fillEmpty,
+  readLocalDraft,
+  suggestForStep,
+  takeSuggestions,
+  writeLocalDraft,
+} from './drafts';
+
+beforeEach(() => {
+  window.localStorage.clear();
+  window.sessionStorage.clear();
+});
+
+test('keeps local drafts apart per user and step', () => {
+  writeLocalDraft('user-1', 'startupProfile', { data: { sector: 'Energy' }, savedAt: 1000, synced: false });
+
+  expect(readLocalDraft('user-1', 'startupProfile')).toEqual({ data: { sector: 'Energy' }, savedAt: 1000, synced: false });
+  expect(readLocalDraft('user-2', 'startupProfile')).toBeNull();
+  expect(readLocalDraft('user-1', 'documentUpload')).toBeNull();
+});
+
+test('clears one step or every draft in the browser', () => {
+  writeLocalDraft('user-1', 'startupProfile', { data: {}, savedAt: 1000, synced: true });
+  writeLocalDraft('user-1', 'addTeam', { data: [], savedAt: 1000, synced: true });
+  writeLocalDraft('user-2', 'portfolio', { data: [], savedAt: 1000, synced: true });
+  window.localStorage.setItem('powernest:theme', 'dark');
+
+  clearLocalDraft('user-1', 'startupProfile');
+  expect(readLocalDraft('user-1', 'startupProfile')).toBeNull();
+  expect(readLocalDraft('user-1', 'addTeam')).not.toBeNull();
+
+  clearLocalDrafts();
+  expect(readLocalDraft('user-1', 'addTeam')).toBeNull();
+  expect(readLocalDraft('user-2', 'portfolio')).toBeNull();
+  expect(window.localStorage.getItem('powernest:theme')).toBe('dark');
+});
+
+test('keeps suggestions for a step until it takes them', () => {
+  suggestForStep('user-1', 'startupProfile', { sector: 'Energy', stage: undefined });
+  suggestForStep('user-1', 'startupProfile', { suggestedLogo: 'data:image/png;base64,' });
+
+  expect(readLocalDraft('user-1', 'startupProfile')).toBeNull();
+  expect(takeSuggestions('user-2', 'startupProfile')).toEqual({});
+  expect(takeSuggestions('user-1', 'startupProfile')).toEqual({ sector: 'Energy', suggestedLogo: 'data:image/png;base64,' });
+  expect(takeSuggestions('user-1', 'startupProfile')).toEqual({});
+});
+
+test('fills only what the answers leave empty', () => {
+  expect(fillEmpty({ sector: 'Energy', stage: '' }, { sector: 'Finance', stage: 'Seed' })).toEqual({
+    sector: 'Energy',
+    stage: 'Seed',
+  });
+});
+
+test('describes how long ago a draft was saved', () => {
+  const now = Date.UTC(2025, 0, 10, 12);
+
+  expect(describeSavedAt(now - 20 * 1000, now)).toBe('just now');
+  expect(describeSavedAt(now - 60 * 1000, now)).toBe('1 minute ago');
+  expect(describeSavedAt(now - 45 * 60 * 1000, now)).toBe('45 minutes ago');
+  expect(describeSavedAt(now - 3 * 60 * 60 * 1000, now)).toBe('3 hours ago');
+  expect(describeSavedAt(now - 3 * 24 * 60 * 60 * 1000, now)).toMatch(/^on /);
+});
@@ -0,0 +1,119 @@
+import { OnboardingStep } from '../routes/onboarding';
+
+// The copy of an onboarding draft kept in this browser. It is written on every
+// change, before the debounced API save, so closing the tab loses nothing.
+export interface LocalDraft<T = unknown> {
+  data: T;
+  // Epoch milliseconds.
+  savedAt: number;
+  // Whether the API has the same copy; an unsynced draft is sent up on return.
+  synced: boolean;
+}
+
+const STORAGE_PREFIX = 'powernest:onboarding-draft:';
+
+// Keyed by user as well as step, so people sharing a browser never see each other's answers.
+const storageKey = (userId: string, step: OnboardingStep) => `${STORAGE_PREFIX}${userId}:${step}`;
+
+export const readLocalDraft = <T>(userId: string, step: OnboardingStep): LocalDraft<T> | null => {
+  try {
+    const stored = window.localStorage.getItem(storageKey(userId, step));
+    return stored ? (JSON.parse(stored) as LocalDraft<T>) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const writeLocalDraft = <T>(userId: string, step: OnboardingStep, draft: LocalDraft<T>) => {
+  try {
+    window.localStorage.setItem(storageKey(userId, step), JSON.stringify(draft));
+  } catch {
+    // Without storage the API copy is all there is.
+  }
+};
+
+export const clearLocalDraft = (userId: string, step: OnboardingStep) => {
+  try {
+    window.localStorage.removeItem(storageKey(userId, step));
+  } catch {
+    // Nothing was stored.
+  }
+};
+
+// Every user's drafts in this browser, for when the session ends: a shared
+// browser should not keep anyone's answers around.
+export const clearLocalDrafts = () => {
+  try {
+    Object.keys(window.localStorage)
+      .filter(key => key.startsWith(STORAGE_PREFIX))
+      .forEach(key => window.localStorage.removeItem(key));
+  } catch {
+    // Nothing was stored.
+  }
+};
+
+const suggestionsKey = (userId: string, step: OnboardingStep) => `powernest:onboarding-suggestions:${userId}:${step}`;
+
+/**
+ * Keeps answers found before a step is opened, e.g. on the startup's website,
+ * for this tab. They stay out of the step's draft, whose API copy may hold more
+ * than this browser knows; the step fills them in once its draft is restored.
+ */
+export const suggestForStep = <T extends object>(userId: string, step: OnboardingStep, values: Partial<T>) => {
+  const found = Object.entries(values).filter(([, value]) => value !== undefined);
+  if (found.length === 0) {
+    return;
+  }
+  try {
+    const key = suggestionsKey(userId, step);
+    const waiting = JSON.parse(window.sessionStorage.getItem(key) ?? '{}') as Partial<T>;
+    window.sessionStorage.setItem(key, JSON.stringify({ ...waiting, ...Object.fromEntries(found) }));
+  } catch {
+    // Without storage the step simply opens without them.
+  }
+};
+
+// The answers waiting for a step, handed over once.
+export const takeSuggestions = <T extends object>(userId: string, step: OnboardingStep): Partial<T> => {
+  try {
+    const key = suggestionsKey(userId, step);
+    const waiting = window.sessionStorage.getItem(key);
+    window.sessionStorage.removeItem(key);
+    return waiting ? (JSON.parse(waiting) as Partial<T>) : {};
+  } catch {
+    return {};
+  }
+};
+
+// `values` with what they leave empty taken from `suggested`.
+export const fillEmpty = <T extends object>(values: T, suggested: Partial<T>): T => ({
+  ...values,
+  ...Object.fromEntries(
+    (Object.keys(suggested) as (keyof T)[])
+      .filter(name => suggested[name] !== undefined && !values[name])
+      .map(name => [name, suggested[name]])
+  ),
+});
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * How long ago a draft was saved, for the step header: "just now", "5 minutes
+ * ago", "2 hours ago", or the date for anything older than a day.
+ */
+export const describeSavedAt = (savedAt: number, now = Date.now()) => {
+  const elapsed = Math.max(0, now - savedAt);
+  if (elapsed < MINUTE_MS) {
+    return 'just now';
+  }
+  if (elapsed < HOUR_MS) {
+    const minutes = Math.floor(elapsed / MINUTE_MS);
+    return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  }
+  if (elapsed < 24 * HOUR_MS) {
+    const hours = Math.floor(elapsed / HOUR_MS);
+    return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+  }
+  return `on ${new Date(savedAt).toLocaleDateString()}`;
+};
@@ -0,0 +1,73 @@
+import { SiteMetadata } from '../api/types';
+import {
+  enrichWebsite,
+  setSiteMetadataLookup,
+  siteUrl,
+  suggestSector,
+  suggestStartupName,
+  suggestionsFrom,
+} from './enrichment';
+
+const site = (metadata: Partial<SiteMetadata>): SiteMetadata => ({
+  url: 'https://www.example.com/',
+  title: '',
+  description: '',
+  siteName: '',
+  keywords: [],
+  faviconUrl: null,
+  imageUrl: null,
+  socialLinks: {},
+  ...metadata,
+});
+
+test('only looks up whole http(s) addresses', () => {
+  expect(siteUrl(' https://greenline.energy ')).toBe('https://greenline.energy/');
+  expect(siteUrl('https://greenline')).toBeUndefined();
+  expect(siteUrl('greenline.energy')).toBeUndefined();
+  expect(siteUrl('ftp://greenline.energy')).toBeUndefined();
+});
+
+test('takes the startup name from the site name or the start of the title', () => {
+  expect(suggestStartupName(site({ siteName: 'Greenline', title: 'Home' }))).toBe('Greenline');
+  expect(suggestStartupName(site({ title: 'MediBridge – Referrals between clinics' }))).toBe('MediBridge');
+  expect(suggestStartupName(site({ title: 'Ledgerly: accounting software' }))).toBe('Ledgerly');
+  expect(suggestStartupName(site({}))).toBeUndefined();
+});
+
+test('picks the sector whose words the page uses most', () => {
+  expect(suggestSector(site({ description: 'Battery storage for solar farms', keywords: ['grid'] }))).toBe('Energy');
+  expect(suggestSector(site({ title: 'Payments and invoices for clinics' }))).toBe('Finance');
+  // "aid" is not "ai".
+  expect(suggestSector(site({ title: 'First aid kits' }))).toBeUndefined();
+});
+
+test('offers a company LinkedIn page and the site icon as the logo', () => {
+  const metadata = site({
+    siteName: 'Greenline',
+    faviconUrl: 'data:image/png;base64,icon',
+    imageUrl: 'data:image/png;base64,banner',
+    socialLinks: { linkedin: 'https://www.linkedin.com/company/greenline-energy' },
+  });
+
+  expect(suggestionsFrom(metadata)).toEqual({
+    source: 'example.com',
+    startupName: 'Greenline',
+    sector: undefined,
+    linkedin: 'https://www.linkedin.com/company/greenline-energy',
+    logo: 'data:image/png;base64,icon',
+  });
+  expect(
+    suggestionsFrom({ ...metadata, socialLinks: { linkedin: 'https://www.linkedin.com/in/someone' } }).linkedin
+  ).toBeUndefined();
+});
+
+test('reads sites through the configured lookup', async () => {
+  const lookup = jest.fn(async (url: string) => site({ url, siteName: 'Orbital Labs' }));
+  setSiteMetadataLookup(lookup);
+
+  await expect(enrichWebsite('https://orbital.dev/')).resolves.toMatchObject({
+    source: 'orbital.dev',
+    startupName: 'Orbital Labs',
+  });
+  expect(lookup).toHaveBeenCalledWith('https://orbital.dev/', undefined);
+});
@@ -0,0 +1,93 @@
+import { RequestOptions } from '../api/client';
+import { enrichmentApi } from '../api/enrichment';
+import { SiteMetadata } from '../api/types';
+
+// What a startup's website says about it, turned into answers the founder can
+// accept instead of typing them.
+
+/**
+ * Reads a website's metadata: the backend proxy by default, which the mock
+ * backend serves from fixtures. Swappable, e.g. for a third-party enrichment
+ * provider.
+ */
+export type SiteMetadataLookup = (url: string, options?: RequestOptions) => Promise<SiteMetadata>;
+
+let lookupSiteMetadata: SiteMetadataLookup = enrichmentApi.lookupSite;
+
+export const setSiteMetadataLookup = (lookup: SiteMetadataLookup) => {
+  lookupSiteMetadata = lookup;
+};
+
+export interface WebsiteSuggestions {
+  // The site they came from, e.g. "greenline.energy".
+  source: string;
+  startupName?: string;
+  sector?: string;
+  linkedin?: string;
+  // A data URL, for the logo editor on the startup profile step.
+  logo?: string;
+}
+
+// The address to look up, or undefined while `input` is not a whole http(s) URL yet.
+export const siteUrl = (input: string) => {
+  try {
+    const url = new URL(input.trim());
+    return /^https?:$/.test(url.protocol) && url.hostname.includes('.') ? url.href : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const siteHost = (url: string) => new URL(url).hostname.replace(/^www\./, '');
+
+// The name usually leads the title: "Greenline | Grid batteries for ..." gives "Greenline".
+export const suggestStartupName = ({ siteName, title }: SiteMetadata) =>
+  siteName.trim() || title.split(/\s+[|·–—-]\s+|:\s+/)[0].trim() || undefined;
+
+// Words that point at each of the sectors the profile offers.
+const sectorKeywords: Record<string, string[]> = {
+  Technology: ['software', 'saas', 'ai', 'platform', 'developers', 'cloud', 'api'],
+  Healthcare: ['health', 'healthcare', 'medical', 'clinic', 'clinics', 'patients', 'biotech', 'pharma'],
+  Finance: ['finance', 'fintech', 'payments', 'banking', 'lending', 'accounting', 'invoices', 'insurance'],
+  'E-commerce': ['e-commerce', 'ecommerce', 'online store', 'marketplace', 'checkout'],
+  Education: ['education', 'learning', 'edtech', 'students', 'courses', 'teachers'],
+  'Real Estate': ['real estate', 'property', 'proptech', 'housing', 'rentals', 'tenants'],
+  Manufacturing: ['manufacturing', 'factory', 'factories', 'industrial', 'machining'],
+  'Food & Beverage': ['food', 'beverage', 'beverages', 'restaurants', 'drinks', 'coffee'],
+  Transportation: ['transport', 'logistics', 'mobility', 'fleet', 'fleets', 'shipping', 'freight'],
+  Energy: ['energy', 'solar', 'battery', 'batteries', 'grid', 'renewable', 'renewables', 'wind'],
+  Entertainment: ['entertainment', 'music', 'gaming', 'games', 'film', 'streaming'],
+  Agriculture: ['agriculture', 'farm', 'farms', 'farmers', 'agritech', 'crops'],
+  Retail: ['retail', 'retailers', 'stores', 'consumer brands'],
+  Consulting: ['consulting', 'advisory', 'consultancy'],
+};
+
+/**
+ * The sector whose words the page uses most, counting each word once. Ties go
+ * to the sector listed first; undefined when none of them appear.
+ */
+export const suggestSector = ({ title, description, keywords }: SiteMetadata) => {
+  const text = [title, description, ...keywords].join(' ').toLowerCase();
+  let best: { sector: string; score: number } | undefined;
+  for (const [sector, words] of Object.entries(sectorKeywords)) {
+    const score = words.filter(word => new RegExp(`\\b${word}\\b`).test(text)).length;
+    if (score > (best?.score ?? 0)) {
+      best = { sector, score };
+    }
+  }
+  return best?.sector;
+};
+
+export const suggestionsFrom = (metadata: SiteMetadata): WebsiteSuggestions => ({
+  source: siteHost(metadata.url),
+  startupName: suggestStartupName(metadata),
+  sector: suggestSector(metadata),
+  linkedin: /^https:\/\/(www\.)?linkedin\.com\/company\//.test(metadata.socialLinks.linkedin ?? '')
+    ? metadata.socialLinks.linkedin
+    : undefined,
+  // The icon is the brand mark; og:image is more often a banner.
+  logo: metadata.faviconUrl ?? metadata.imageUrl ?? undefined,
+});
+
+export const enrichWebsite = async (url: string, options?: RequestOptions) =>
+  suggestionsFrom(await lookupSiteMetadata(url, options));
@@ -0,0 +1,39 @@
+import { FundingRound } from '../api/types';
+import { defaultExchangeRates } from '../money/exchangeRates';
+import { setExchangeRates, toMoney } from '../money/money';
+import { describeRound, sortRounds, totalRaised } from './fundingRounds';
+
+const round = (id: string, date: string, amount: FundingRound['amount']): FundingRound => ({
+  id,
+  stage: 'Seed',
+  date,
+  amount,
+  leadInvestor: '',
+  instrument: 'safe',
+});
+
+afterEach(() => {
+  setExchangeRates(defaultExchangeRates);
+});
+
+test('totals rounds raised in different currencies', () => {
+  setExchangeRates({ base: 'USD', asOf: '2025-01-01', rates: { USD: 1, INR: 80, GBP: 0.8 } });
+  const rounds = [
+    round('a', '2023-01-01', toMoney('8', 'million', 'INR')),
+    round('b', '2024-01-01', toMoney('400', 'thousand', 'GBP')),
+  ];
+
+  expect(totalRaised(rounds)).toEqual({ amountMinor: 60_000_000, currency: 'USD' });
+  expect(totalRaised(rounds, 'GBP')).toEqual({ amountMinor: 48_000_000, currency: 'GBP' });
+  expect(totalRaised([...rounds, round('c', '2025-01-01', toMoney('1', 'million', 'EUR'))])).toBeUndefined();
+  expect(totalRaised([])).toEqual({ amountMinor: 0, currency: 'USD' });
+});
+
+test('orders rounds oldest first and describes them', () => {
+  const later = { ...round('b', '2024-03-15', toMoney('1', 'million', 'USD')), instrument: 'equity' as const };
+  const earlier = round('a', '2023-06-01', toMoney('250', 'thousand', 'USD'));
+
+  expect(sortRounds([later, earlier]).map(({ id }) => id)).toEqual(['a', 'b']);
+  expect(describeRound({ ...later, leadInvestor: 'Harbor Capital' })).toMatch(/2024 · Equity · Led by Harbor Capital$/);
+  expect(describeRound(earlier)).toMatch(/2023 · SAFE$/);
+});
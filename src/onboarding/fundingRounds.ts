@@ -0,0 +1,29 @@
+import { FundingInstrument, FundingRound } from '../api/types';
+import { REPORTING_CURRENCY, sumMoney } from '../money/money';
+
+export const instrumentLabels: Record<FundingInstrument, string> = {
+  safe: 'SAFE',
+  equity: 'Equity',
+  'convertible-note': 'Convertible note',
+};
+
+// Oldest first, the way a timeline reads.
+export const sortRounds = (rounds: FundingRound[]) => [...rounds].sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Everything raised across the rounds, converted to `currency` (the reporting
+ * currency by default). Undefined when a round is in a currency without a rate,
+ * since a partial total would understate it.
+ */
+export const totalRaised = (rounds: FundingRound[], currency = REPORTING_CURRENCY) =>
+  sumMoney(rounds.map(round => round.amount), currency);
+
+// A closing date as month and year, e.g. "Mar 2024", in the user's locale.
+export const formatRoundDate = (date: string, locale?: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(locale, { month: 'short', year: 'numeric' });
+
+// E.g. "Mar 2024 · SAFE · Led by Harbor Capital".
+export const describeRound = (round: FundingRound) =>
+  [formatRoundDate(round.date), instrumentLabels[round.instrument], round.leadInvestor && `Led by ${round.leadInvestor}`]
+    .filter(Boolean)
+    .join(' · ');
@@ -0,0 +1,85 @@
+import { currencies } from '../money/currencies';
+import { instrumentLabels } from './fundingRounds';
+import { countryFlag } from '../validation/phone';
+import { phoneCountries } from '../validation/phoneCountries';
+
+// Choice lists shared by the founder and investor onboarding, so a startup's
+// sector and stage can be matched against what investors look for.
+
+export const sectors = [
+  'Technology',
+  'Healthcare',
+  'Finance',
+  'E-commerce',
+  'Education',
+  'Real Estate',
+  'Manufacturing',
+  'Food & Beverage',
+  'Transportation',
+  'Energy',
+  'Entertainment',
+  'Agriculture',
+  'Retail',
+  'Consulting',
+  'Other',
+];
+
+export const stages = [
+  'Idea Stage',
+  'Pre-Seed',
+  'Seed',
+  'Series A',
+  'Series B',
+  'Series C',
+  'Series D+',
+  'IPO Ready',
+  'Public Company',
+];
+
+export const investorTypes = [
+  { value: 'angel', label: 'Angel investor', description: 'Investing your own money' },
+  { value: 'firm', label: 'Investment firm', description: 'VC, family office, syndicate or fund' },
+];
+
+export const accreditationBases = [
+  { value: 'income', label: "My income meets my country's threshold for accredited or sophisticated investors" },
+  { value: 'net-worth', label: "My net worth meets my country's threshold for accredited or sophisticated investors" },
+  { value: 'professional', label: 'I hold a professional qualification or licence that makes me an accredited investor' },
+  { value: 'institution', label: 'I am investing on behalf of a regulated fund or institution' },
+];
+
+// Shown instead of an entity type until the startup has been registered.
+export const NOT_INCORPORATED = 'Not incorporated yet';
+
+export const legalEntityTypes = [
+  'Private limited company',
+  'Public limited company',
+  'C corporation',
+  'S corporation',
+  'Limited liability company (LLC)',
+  'Limited liability partnership (LLP)',
+  'Partnership',
+  'Sole proprietorship',
+  NOT_INCORPORATED,
+];
+
+// Both lists are valued by ISO 3166-1 alpha-2 code, so picking a country can pick its calling code too.
+export const countries = phoneCountries.map(({ code, name }) => ({ value: code, label: `${countryFlag(code)} ${name}` }));
+
+export const dialCodes = phoneCountries.map(({ code, dialCode }) => ({
+  value: code,
+  label: `${countryFlag(code)} +${dialCode}`,
+}));
+
+export const fundingCurrencies = currencies.map(({ code, name }) => ({ value: code, label: `${code} - ${name}` }));
+
+// Codes alone, for a select beside an amount.
+export const currencyCodes = currencies.map(({ code }) => code);
+
+export const fundingInstruments = Object.entries(instrumentLabels).map(([value, label]) => ({ value, label }));
+
+export const fundingUnits = [
+  { value: 'thousand', label: 'Thousand' },
+  { value: 'million', label: 'Million' },
+  { value: 'billion', label: 'Billion' },
+];
@@ -0,0 +1,44 @@
+import { FounderReview } from '../api/types';
+import { FormSchema, isFieldVisible, validateForm } from '../forms/schema';
+import { FounderOnboardingStep } from '../routes/onboarding';
+import { basicInfoFormData, basicInfoSchema, startupProfileFormData, startupProfileSchema } from './schemas';
+
+export type ReviewProblems = Partial<Record<FounderOnboardingStep, string>>;
+
+const firstError = (errors: object) => Object.values(errors).find(Boolean) as string | undefined;
+
+/**
+ * Checks the founder steps together before the final submission, with the same
+ * schemas the forms use, and returns the first problem with each step. Shared
+ * with the backend stand-in, which runs the same check on submit.
+ */
+export const findReviewProblems = ({ basicInfo, startupProfile, documents }: FounderReview): ReviewProblems => {
+  const problems: ReviewProblems = {};
+
+  const basicInfoProblem = basicInfo
+    ? firstError(validateForm(basicInfoSchema, basicInfoFormData(basicInfo)))
+    : 'Basic info is missing';
+  if (basicInfoProblem) {
+    problems.basicInfo = basicInfoProblem;
+  }
+  const startupProfileProblem = startupProfile
+    ? firstError(validateForm(startupProfileSchema, startupProfileFormData(startupProfile)))
+    : 'Startup profile is missing';
+  if (startupProfileProblem) {
+    problems.startupProfile = startupProfileProblem;
+  }
+  if (!documents.some(document => document.kind === 'pitchDeck')) {
+    problems.documentUpload = 'Pitch deck is required';
+  }
+  return problems;
+};
+
+// Labels of the optional fields left empty, for the review to point out.
+export const missingOptionalFields = <T>(schema: FormSchema<T>, values: T) =>
+  schema
+    .filter(field => !field.required && isFieldVisible(field, values))
+    .filter(field => {
+      const value = values[field.name];
+      return typeof value !== 'string' || !value.trim();
+    })
+    .map(field => field.label);
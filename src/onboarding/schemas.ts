@@ -0,0 +1,621 @@
+import {
+  Accreditation,
+  AccreditationBasis,
+  BasicInfo,
+  FundingInstrument,
+  FundingRound,
+  FundingUnit,
+  InvestmentFocus,
+  InvestorDetails,
+  PortfolioCompany,
+  StartupProfile,
+} from '../api/types';
+import { FieldChange, FieldRule, FormSchema } from '../forms/schema';
+import { ProcessedLogo } from '../images/logo';
+import { REPORTING_CURRENCY, convertMoney, describeMoney, formatMoney, splitMoney, toMoney } from '../money/money';
+import {
+  findPhoneCountry,
+  formatNationalNumber,
+  formatPhoneNumber,
+  isPossiblePhoneNumber,
+  isValidPhoneNumber,
+  parseInternationalNumber,
+  phoneLengthMessage,
+  toE164,
+} from '../validation/phone';
+import {
+  NOT_INCORPORATED,
+  accreditationBases,
+  countries,
+  currencyCodes,
+  dialCodes,
+  fundingCurrencies,
+  fundingInstruments,
+  fundingUnits,
+  investorTypes,
+  legalEntityTypes,
+  sectors,
+  stages,
+} from './options';
+
+// The onboarding steps that are plain forms, as schemas. Adding a field to a
+// step means adding it here and to the step's data type; the form picks it up.
+
+const amountRule: FieldRule<unknown> = {
+  test: value => !isNaN(Number(value)) && Number(value) >= 0,
+  message: 'Please enter a valid amount',
+};
+
+const websiteRule: FieldRule<unknown> = { test: /^https?:\/\/.+\..+/, message: 'Please enter a valid website URL' };
+
+const linkedinRule: FieldRule<unknown> = {
+  test: /^https?:\/\/(www\.)?linkedin\.com\//,
+  message: 'Please enter a valid LinkedIn profile URL',
+};
+
+const AMOUNT_HINT =
+  'Please enter numerical values and select the appropriate unit of measurement from the dropdown menu.';
+
+// BasicInfo as the form holds it: the phone number is national and laid out as
+// typed, and only becomes E.164 on the way out.
+export type BasicInfoFormData = BasicInfo;
+
+export const initialBasicInfo: BasicInfoFormData = {
+  fullName: '',
+  startupName: '',
+  phoneNumber: '',
+  phoneCountry: 'IN',
+  country: '',
+  website: '',
+  linkedin: '',
+};
+
+export const toBasicInfo = (values: BasicInfoFormData): BasicInfo => ({
+  ...values,
+  phoneNumber: toE164(values.phoneNumber, values.phoneCountry),
+});
+
+export const basicInfoFormData = (basicInfo: BasicInfo): BasicInfoFormData => ({
+  ...basicInfo,
+  phoneNumber: formatNationalNumber(basicInfo.phoneNumber, basicInfo.phoneCountry),
+});
+
+// A number typed or pasted with its calling code ("+44 7911 ...") moves the
+// dialling code to that country; anything else is laid out for the current one.
+const changePhoneNumber: FieldChange<BasicInfoFormData> = (value, { phoneCountry }) => {
+  if (value.trim().startsWith('+')) {
+    const parsed = parseInternationalNumber(value, phoneCountry);
+    return parsed
+      ? { phoneCountry: parsed.countryCode, phoneNumber: formatPhoneNumber(parsed.nationalNumber, parsed.countryCode) }
+      : { phoneNumber: value.replace(/[^\d+]/g, '') };
+  }
+  return { phoneNumber: formatPhoneNumber(value, phoneCountry) };
+};
+
+const changePhoneCountry: FieldChange<BasicInfoFormData> = (phoneCountry, { phoneNumber }) => ({
+  phoneCountry,
+  phoneNumber: formatPhoneNumber(phoneNumber, phoneCountry),
+});
+
+// The dialling code follows the country until the founder picks a different one.
+const changeCountry: FieldChange<BasicInfoFormData> = (country, values) => {
+  const followsCountry = !values.phoneNumber || !values.country || values.phoneCountry === values.country;
+  return country && followsCountry ? { country, ...changePhoneCountry(country, values) } : { country };
+};
+
+export const basicInfoSchema: FormSchema<BasicInfoFormData> = [
+  { name: 'fullName', type: 'text', label: 'Full Name', placeholder: 'Enter your Full Name', required: 'Full name is required' },
+  {
+    name: 'startupName',
+    type: 'text',
+    label: 'Startup Name',
+    placeholder: 'Enter your Startup Name',
+    required: 'Startup name is required',
+  },
+  {
+    name: 'phoneNumber',
+    type: 'tel',
+    label: 'Phone Number',
+    placeholder: 'Enter your Phone Number',
+    required: 'Phone number is required',
+    rules: [
+      {
+        test: (value, { phoneCountry }) => isPossiblePhoneNumber(value, phoneCountry),
+        message: ({ phoneCountry }) => phoneLengthMessage(phoneCountry),
+      },
+      {
+        test: (value, { phoneCountry }) => isValidPhoneNumber(value, phoneCountry),
+        message: ({ phoneCountry }) => `Please enter a valid ${findPhoneCountry(phoneCountry)?.name} phone number`,
+      },
+    ],
+    change: changePhoneNumber,
+    prefix: { name: 'phoneCountry', options: dialCodes, label: 'Country code', change: changePhoneCountry },
+  },
+  {
+    name: 'country',
+    type: 'select',
+    label: 'Country',
+    placeholder: 'Select your Country',
+    options: countries,
+    required: 'Country is required',
+    change: changeCountry,
+  },
+  {
+    name: 'website',
+    type: 'url',
+    label: 'Website',
+    placeholder: 'Enter your Website',
+    rules: [websiteRule],
+  },
+  {
+    name: 'linkedin',
+    type: 'url',
+    label: 'LinkedIn',
+    placeholder: 'Enter your LinkedIn profile link',
+    rules: [linkedinRule],
+  },
+];
+
+// Where an amount, its unit and its currency sit in a form's values.
+interface MoneyFields<T> {
+  amount: keyof T;
+  unit: keyof T;
+  currency: keyof T;
+}
+
+const moneyOf = <T>(values: T, { amount, unit, currency }: MoneyFields<T>) =>
+  toMoney(String(values[amount]), values[unit] as unknown as FundingUnit, String(values[currency]));
+
+// Under an amount in another currency: what investors comparing startups will see it as.
+const amountHint =
+  <T>(fields: MoneyFields<T>) =>
+  (values: T) => {
+    const amount = String(values[fields.amount]);
+    const converted =
+      amount && !isNaN(Number(amount)) && values[fields.currency] !== REPORTING_CURRENCY
+        ? convertMoney(moneyOf(values, fields), REPORTING_CURRENCY)
+        : undefined;
+    return converted ? `Investors will see this as about ${formatMoney(converted, { compact: true })}.` : AMOUNT_HINT;
+  };
+
+const amountDisplay =
+  <T>(fields: MoneyFields<T>) =>
+  (values: T) =>
+    describeMoney(moneyOf(values, fields));
+
+// The logo is cropped and resized here but uploaded separately, so the form
+// holds the files. The funding need is entered as text and a unit and becomes
+// Money on the way out; funding rounds are added one at a time with fundingRoundSchema.
+export type StartupProfileFormData = Omit<StartupProfile, 'logo' | 'currentFundingNeeds'> & {
+  logo: ProcessedLogo | null;
+  fundingCurrency: string;
+  currentFundingNeeds: string;
+  currentFundingNeedsUnit: FundingUnit;
+};
+
+// What is autosaved of the step: everything but the logo's files, plus a logo
+// found on the startup's website until it is used or dismissed.
+export type StartupProfileDraft = Omit<StartupProfileFormData, 'logo'> & { suggestedLogo?: string };
+
+export const initialStartupProfile: StartupProfileFormData = {
+  logo: null,
+  sector: '',
+  stage: '',
+  fundingRounds: [],
+  fundingCurrency: REPORTING_CURRENCY,
+  currentFundingNeeds: '',
+  currentFundingNeedsUnit: 'million',
+  legalEntityType: '',
+  incorporationDate: '',
+};
+
+// Everything but the logo, which is uploaded on its own.
+export const toStartupProfile = ({
+  logo,
+  fundingCurrency,
+  currentFundingNeeds,
+  currentFundingNeedsUnit,
+  ...profile
+}: StartupProfileFormData): StartupProfile => ({
+  ...profile,
+  currentFundingNeeds: toMoney(currentFundingNeeds, currentFundingNeedsUnit, fundingCurrency),
+});
+
+export const startupProfileFormData = ({
+  logo,
+  currentFundingNeeds,
+  ...profile
+}: StartupProfile): StartupProfileFormData => {
+  const needs = splitMoney(currentFundingNeeds);
+  return {
+    ...initialStartupProfile,
+    ...profile,
+    fundingCurrency: currentFundingNeeds.currency,
+    currentFundingNeeds: needs.amount,
+    currentFundingNeedsUnit: needs.unit,
+  };
+};
+
+const isIncorporated = ({ legalEntityType }: StartupProfileFormData) =>
+  !!legalEntityType && legalEntityType !== NOT_INCORPORATED;
+
+const notInFuture = (message: string): FieldRule<unknown> => ({
+  test: value => value <= new Date().toISOString().slice(0, 10),
+  message,
+});
+
+const currentFundingNeedsFields: MoneyFields<StartupProfileFormData> = {
+  amount: 'currentFundingNeeds',
+  unit: 'currentFundingNeedsUnit',
+  currency: 'fundingCurrency',
+};
+
+export const startupProfileSchema: FormSchema<StartupProfileFormData> = [
+  {
+    name: 'sector',
+    type: 'select',
+    label: 'Sector',
+    placeholder: 'Select your sector',
+    options: sectors,
+    required: 'Sector is required',
+  },
+  {
+    name: 'stage',
+    type: 'select',
+    label: 'Stage',
+    placeholder: 'Select your Stage',
+    options: stages,
+    required: 'Stage is required',
+  },
+  {
+    name: 'legalEntityType',
+    type: 'select',
+    label: 'Legal Entity Type',
+    placeholder: 'Select your legal entity type',
+    options: legalEntityTypes,
+    required: 'Legal entity type is required',
+  },
+  {
+    name: 'incorporationDate',
+    type: 'date',
+    label: 'Incorporation Date',
+    required: 'Incorporation date is required',
+    rules: [notInFuture('Incorporation date cannot be in the future')],
+    visibleWhen: isIncorporated,
+  },
+  {
+    name: 'fundingCurrency',
+    type: 'select',
+    label: 'Funding Currency',
+    placeholder: 'Select your currency',
+    options: fundingCurrencies,
+    required: 'Currency is required',
+    hint: 'Your current funding needs are in this currency, and new funding rounds start in it.',
+  },
+  {
+    name: 'currentFundingNeeds',
+    type: 'text',
+    label: 'Current Funding Needs',
+    placeholder: 'Enter amount',
+    required: 'Current funding needs is required',
+    rules: [amountRule],
+    strip: /[^0-9.]/g,
+    suffix: { name: 'currentFundingNeedsUnit', options: fundingUnits, label: 'Current funding needs unit' },
+    hint: amountHint(currentFundingNeedsFields),
+    display: amountDisplay(currentFundingNeedsFields),
+  },
+];
+
+// A funding round as its editor holds it, before it joins the profile's list.
+export interface FundingRoundFormData {
+  stage: string;
+  date: string;
+  amount: string;
+  amountUnit: FundingUnit;
+  currency: string;
+  leadInvestor: string;
+  instrument: FundingInstrument | '';
+}
+
+export const initialFundingRound = (currency: string): FundingRoundFormData => ({
+  stage: '',
+  date: '',
+  amount: '',
+  amountUnit: 'million',
+  currency,
+  leadInvestor: '',
+  instrument: '',
+});
+
+export const toFundingRound = (
+  { amount, amountUnit, currency, instrument, ...round }: FundingRoundFormData,
+  id: string
+): FundingRound => ({
+  ...round,
+  id,
+  amount: toMoney(amount, amountUnit, currency),
+  instrument: instrument as FundingInstrument,
+});
+
+const roundAmountFields: MoneyFields<FundingRoundFormData> = {
+  amount: 'amount',
+  unit: 'amountUnit',
+  currency: 'currency',
+};
+
+export const fundingRoundSchema: FormSchema<FundingRoundFormData> = [
+  {
+    name: 'stage',
+    type: 'select',
+    label: 'Round',
+    placeholder: 'Select the stage',
+    options: stages,
+    required: 'Stage is required',
+  },
+  {
+    name: 'date',
+    type: 'date',
+    label: 'Closing Date',
+    required: 'Closing date is required',
+    rules: [notInFuture('Only add rounds that have closed')],
+  },
+  {
+    name: 'amount',
+    type: 'text',
+    label: 'Amount Raised',
+    placeholder: 'Enter amount',
+    required: 'Amount is required',
+    rules: [amountRule, { test: value => Number(value) > 0, message: 'Amount must be more than zero' }],
+    strip: /[^0-9.]/g,
+    prefix: { name: 'currency', options: currencyCodes, label: 'Round currency' },
+    suffix: { name: 'amountUnit', options: fundingUnits, label: 'Round amount unit' },
+    hint: amountHint(roundAmountFields),
+  },
+  {
+    name: 'instrument',
+    type: 'select',
+    label: 'Instrument',
+    placeholder: 'Select the instrument',
+    options: fundingInstruments,
+    required: 'Instrument is required',
+  },
+  { name: 'leadInvestor', type: 'text', label: 'Lead Investor', placeholder: 'Who led the round?' },
+];
+
+export const initialInvestorDetails: InvestorDetails = {
+  investorType: 'angel',
+  fullName: '',
+  firmName: '',
+  title: '',
+  location: '',
+  website: '',
+  linkedin: '',
+};
+
+const isFirm = ({ investorType }: InvestorDetails) => investorType === 'firm';
+
+// An angel has no firm: its fields are hidden, so switching back clears them on submit.
+export const investorDetailsSchema: FormSchema<InvestorDetails> = [
+  {
+    name: 'investorType',
+    type: 'radio',
+    label: 'I invest as',
+    options: investorTypes,
+    required: 'Please choose how you invest',
+  },
+  { name: 'fullName', type: 'text', label: 'Full Name', placeholder: 'Enter your full name', required: 'Full name is required' },
+  {
+    name: 'firmName',
+    type: 'text',
+    label: 'Firm Name',
+    placeholder: 'Enter your firm name',
+    required: 'Firm name is required',
+    visibleWhen: isFirm,
+  },
+  { name: 'title', type: 'text', label: 'Title', placeholder: 'e.g. Partner, Principal', visibleWhen: isFirm },
+  { name: 'location', type: 'text', label: 'Location', placeholder: 'City, country' },
+  {
+    name: 'website',
+    type: 'url',
+    label: 'Website',
+    placeholder: 'https://',
+    hint: values => (isFirm(values) ? "Your firm's website." : ''),
+    rules: [websiteRule],
+  },
+  { name: 'linkedin', type: 'url', label: 'LinkedIn', placeholder: 'https://linkedin.com/in/...', rules: [linkedinRule] },
+];
+
+const THESIS_MIN_LENGTH = 20;
+
+// Cheque sizes are entered like the funding amounts, as text and a unit in one
+// currency, and become Money on the way out.
+export interface InvestmentFocusFormData {
+  thesis: string;
+  sectors: string[];
+  stages: string[];
+  chequeCurrency: string;
+  chequeSizeMin: string;
+  chequeSizeMinUnit: FundingUnit;
+  chequeSizeMax: string;
+  chequeSizeMaxUnit: FundingUnit;
+}
+
+export const initialInvestmentFocus: InvestmentFocusFormData = {
+  thesis: '',
+  sectors: [],
+  stages: [],
+  chequeCurrency: REPORTING_CURRENCY,
+  chequeSizeMin: '',
+  chequeSizeMinUnit: 'thousand',
+  chequeSizeMax: '',
+  chequeSizeMaxUnit: 'thousand',
+};
+
+export const toInvestmentFocus = ({
+  thesis,
+  chequeCurrency,
+  chequeSizeMin,
+  chequeSizeMinUnit,
+  chequeSizeMax,
+  chequeSizeMaxUnit,
+  ...focus
+}: InvestmentFocusFormData): InvestmentFocus => ({
+  ...focus,
+  thesis: thesis.trim(),
+  chequeSizeMin: toMoney(chequeSizeMin, chequeSizeMinUnit, chequeCurrency),
+  chequeSizeMax: toMoney(chequeSizeMax, chequeSizeMaxUnit, chequeCurrency),
+});
+
+export const investmentFocusFormData = ({
+  chequeSizeMin,
+  chequeSizeMax,
+  ...focus
+}: InvestmentFocus): InvestmentFocusFormData => {
+  const min = splitMoney(chequeSizeMin);
+  const max = splitMoney(chequeSizeMax);
+  return {
+    ...focus,
+    chequeCurrency: chequeSizeMin.currency,
+    chequeSizeMin: min.amount,
+    chequeSizeMinUnit: min.unit,
+    chequeSizeMax: max.amount,
+    chequeSizeMaxUnit: max.unit,
+  };
+};
+
+const chequeSizeMinFields: MoneyFields<InvestmentFocusFormData> = {
+  amount: 'chequeSizeMin',
+  unit: 'chequeSizeMinUnit',
+  currency: 'chequeCurrency',
+};
+
+const chequeSizeMaxFields: MoneyFields<InvestmentFocusFormData> = {
+  amount: 'chequeSizeMax',
+  unit: 'chequeSizeMaxUnit',
+  currency: 'chequeCurrency',
+};
+
+const positiveAmountRule: FieldRule<unknown> = { test: value => Number(value) > 0, message: 'Amount must be more than zero' };
+
+export const investmentFocusSchema: FormSchema<InvestmentFocusFormData> = [
+  {
+    name: 'thesis',
+    type: 'textarea',
+    label: 'Investment Thesis',
+    placeholder: 'e.g. Software that gives small clinics the tools big hospitals have',
+    required: 'Investment thesis is required',
+    rules: [
+      {
+        test: value => value.trim().length >= THESIS_MIN_LENGTH,
+        message: `Describe your thesis in at least ${THESIS_MIN_LENGTH} characters`,
+      },
+    ],
+  },
+  { name: 'sectors', type: 'chips', label: 'Preferred Sectors', options: sectors, required: 'Pick at least one sector' },
+  { name: 'stages', type: 'chips', label: 'Preferred Stages', options: stages, required: 'Pick at least one stage' },
+  {
+    name: 'chequeCurrency',
+    type: 'select',
+    label: 'Cheque Currency',
+    placeholder: 'Select your currency',
+    options: fundingCurrencies,
+    required: 'Currency is required',
+  },
+  {
+    name: 'chequeSizeMin',
+    type: 'text',
+    label: 'Smallest Cheque',
+    placeholder: 'Enter amount',
+    required: 'Smallest cheque is required',
+    rules: [amountRule, positiveAmountRule],
+    strip: /[^0-9.]/g,
+    suffix: { name: 'chequeSizeMinUnit', options: fundingUnits, label: 'Smallest cheque unit' },
+    hint: amountHint(chequeSizeMinFields),
+    display: amountDisplay(chequeSizeMinFields),
+  },
+  {
+    name: 'chequeSizeMax',
+    type: 'text',
+    label: 'Largest Cheque',
+    placeholder: 'Enter amount',
+    required: 'Largest cheque is required',
+    rules: [
+      amountRule,
+      positiveAmountRule,
+      {
+        test: (_, values) =>
+          isNaN(Number(values.chequeSizeMin)) ||
+          moneyOf(values, chequeSizeMaxFields).amountMinor >= moneyOf(values, chequeSizeMinFields).amountMinor,
+        message: 'The largest cheque must be at least the smallest',
+      },
+    ],
+    strip: /[^0-9.]/g,
+    suffix: { name: 'chequeSizeMaxUnit', options: fundingUnits, label: 'Largest cheque unit' },
+    hint: amountHint(chequeSizeMaxFields),
+    display: amountDisplay(chequeSizeMaxFields),
+  },
+];
+
+// A portfolio company as its editor holds it, before it joins the list.
+export type PortfolioCompanyFormData = Omit<PortfolioCompany, 'id'>;
+
+export const initialPortfolioCompany: PortfolioCompanyFormData = { name: '', website: '', yearInvested: '' };
+
+export const toPortfolioCompany = ({ name, ...company }: PortfolioCompanyFormData, id: string): PortfolioCompany => ({
+  ...company,
+  id,
+  name: name.trim(),
+});
+
+const EARLIEST_INVESTMENT_YEAR = 1950;
+
+export const portfolioCompanySchema: FormSchema<PortfolioCompanyFormData> = [
+  { name: 'name', type: 'text', label: 'Company Name', placeholder: 'Enter company name', required: 'Company name is required' },
+  { name: 'website', type: 'url', label: 'Website', placeholder: 'https://', rules: [websiteRule] },
+  {
+    name: 'yearInvested',
+    type: 'text',
+    label: 'Year Invested',
+    placeholder: 'e.g. 2022',
+    strip: /\D/g,
+    rules: [
+      {
+        test: value =>
+          /^\d{4}$/.test(value) &&
+          Number(value) >= EARLIEST_INVESTMENT_YEAR &&
+          Number(value) <= new Date().getFullYear(),
+        message: () => `Please enter a year between ${EARLIEST_INVESTMENT_YEAR} and ${new Date().getFullYear()}`,
+      },
+    ],
+  },
+];
+
+// Self-declaration only: nothing is verified until a deal is made.
+export interface AccreditationFormData {
+  basis: AccreditationBasis | '';
+  declared: boolean;
+}
+
+export const initialAccreditation: AccreditationFormData = { basis: '', declared: false };
+
+export const toAccreditation = ({ basis, declared }: AccreditationFormData): Accreditation => ({
+  basis: basis as AccreditationBasis,
+  declared,
+});
+
+export const accreditationSchema: FormSchema<AccreditationFormData> = [
+  {
+    name: 'basis',
+    type: 'radio',
+    label: 'I am an accredited investor because',
+    options: accreditationBases,
+    required: 'Please choose the statement that applies to you',
+  },
+  {
+    name: 'declared',
+    type: 'checkbox',
+    label:
+      'I declare that the statement above is true, and understand that startups may ask me to prove it before accepting an investment.',
+    required: 'Please confirm the declaration to continue',
+  },
+];
@@ -0,0 +1,145 @@
+import { useEffect, useRef, useState } from 'react';
+import { isCancelledRequest } from '../api/client';
+import { onboardingApi } from '../api/onboarding';
+import { OnboardingStep } from '../routes/onboarding';
+import { useSession } from '../session/useSession';
+import { clearLocalDraft, readLocalDraft, writeLocalDraft } from './drafts';
+
+// How long typing has to pause before the draft goes to the API.
+export const DRAFT_SAVE_DELAY_MS = 1000;
+
+export type DraftStatus =
+  | { state: 'idle' }
+  | { state: 'saving' }
+  // `deviceOnly` when the API save failed and only this browser has the draft.
+  | { state: 'saved'; savedAt: number; deviceOnly: boolean };
+
+// Sends a draft to the API and marks the local copy as synced, unless a newer one replaced it meanwhile.
+const pushDraft = async <T>(userId: string, step: OnboardingStep, data: T, savedAt: number) => {
+  await onboardingApi.saveDraft(step, data);
+  if (readLocalDraft(userId, step)?.savedAt === savedAt) {
+    writeLocalDraft(userId, step, { data, savedAt, synced: true });
+  }
+};
+
+/**
+ * Drops both copies of a step's draft once the step itself is saved. The server
+ * copy going astray only means a stale draft is offered later, so failures are
+ * logged and otherwise ignored.
+ */
+export const discardDraft = (userId: string, step: OnboardingStep) => {
+  clearLocalDraft(userId, step);
+  onboardingApi.deleteDraft(step).catch(error => console.error('Draft discard error:', error));
+};
+
+/**
+ * Autosaves what has been entered on an onboarding step and puts it back when
+ * the user returns. Every change is written to localStorage straight away and
+ * to the API once typing pauses, so the draft also follows the user to another
+ * device. On mount the newer of the two copies is handed to `restore`; nothing
+ * is saved until then, and a server copy that arrives after the user started
+ * typing is ignored. Without a local copy, `saved` (what the step last saved,
+ * if it is being edited) is restored first; a draft is always newer, since
+ * saving the step discards it.
+ *
+ * `values` must be JSON-serialisable; leave out anything like a File.
+ */
+export const useOnboardingDraft = <T>(
+  step: OnboardingStep,
+  values: T,
+  restore: (draft: T) => void,
+  saved?: T
+) => {
+  const { user } = useSession();
+  const userId = user?.id ?? 'anonymous';
+  const [status, setStatus] = useState<DraftStatus>({ state: 'idle' });
+  const [isRestored, setIsRestored] = useState(false);
+  const serialized = JSON.stringify(values);
+  // What is already saved, so restoring a draft does not save it straight back.
+  const lastSaved = useRef(serialized);
+  const current = useRef(serialized);
+  current.current = serialized;
+  const restoreRef = useRef(restore);
+  restoreRef.current = restore;
+  const savedRef = useRef(saved);
+  // The draft waiting out the debounce, sent anyway if the step unmounts first.
+  const pending = useRef<{ data: T; savedAt: number } | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const local = readLocalDraft<T>(userId, step);
+
+    const apply = (data: T, savedAt: number) => {
+      lastSaved.current = JSON.stringify(data);
+      restoreRef.current(data);
+      setStatus({ state: 'saved', savedAt, deviceOnly: false });
+    };
+
+    if (local) {
+      apply(local.data, local.savedAt);
+    } else if (savedRef.current) {
+      lastSaved.current = JSON.stringify(savedRef.current);
+      restoreRef.current(savedRef.current);
+    }
+    const untouched = lastSaved.current;
+
+    onboardingApi
+      .getDraft<T>(step, { signal: controller.signal })
+      .then(remote => {
+        const remoteSavedAt = remote ? Date.parse(remote.savedAt) : 0;
+        if (remote && (!local || remoteSavedAt > local.savedAt)) {
+          if (current.current === untouched) {
+            apply(remote.data, remoteSavedAt);
+            writeLocalDraft(userId, step, { data: remote.data, savedAt: remoteSavedAt, synced: true });
+          }
+        } else if (local && !local.synced) {
+          pushDraft(userId, step, local.data, local.savedAt).catch(() => {});
+        }
+      })
+      .catch(error => {
+        if (isCancelledRequest(error)) return;
+        console.error('Draft restore error:', error);
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsRestored(true);
+      });
+
+    return () => controller.abort();
+  }, [step, userId]);
+
+  useEffect(() => {
+    if (!isRestored || serialized === lastSaved.current) {
+      return;
+    }
+    const draft = { data: JSON.parse(serialized) as T, savedAt: Date.now() };
+    writeLocalDraft(userId, step, { ...draft, synced: false });
+    lastSaved.current = serialized;
+    pending.current = draft;
+    setStatus({ state: 'saving' });
+
+    const timer = setTimeout(() => {
+      pending.current = null;
+      pushDraft(userId, step, draft.data, draft.savedAt)
+        .then(() => setStatus({ state: 'saved', savedAt: draft.savedAt, deviceOnly: false }))
+        .catch(error => {
+          console.error('Draft save error:', error);
+          setStatus({ state: 'saved', savedAt: draft.savedAt, deviceOnly: true });
+        });
+    }, DRAFT_SAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [serialized, isRestored, step, userId]);
+
+  useEffect(
+    () => () => {
+      const draft = pending.current;
+      // A draft discarded meanwhile belongs to a step that was saved.
+      if (draft && readLocalDraft(userId, step)?.savedAt === draft.savedAt) {
+        pending.current = null;
+        pushDraft(userId, step, draft.data, draft.savedAt).catch(() => {});
+      }
+    },
+    [step, userId]
+  );
+
+  return { status, isRestored };
+};
@@ -0,0 +1,44 @@
+import { useEffect, useState } from 'react';
+import { ApiError, isCancelledRequest } from '../api/client';
+import { WebsiteSuggestions, enrichWebsite, siteUrl } from './enrichment';
+
+// How long typing has to pause before the website is looked up.
+export const ENRICHMENT_DELAY_MS = 800;
+
+/**
+ * Looks up `website` once it is a whole URL and typing pauses, and returns what
+ * it suggests. A site that cannot be read simply suggests nothing.
+ */
+export const useWebsiteSuggestions = (website: string) => {
+  const [suggestions, setSuggestions] = useState<WebsiteSuggestions | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const url = siteUrl(website);
+
+  useEffect(() => {
+    setSuggestions(null);
+    setIsLoading(false);
+    if (!url) {
+      return;
+    }
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      setIsLoading(true);
+      enrichWebsite(url, { signal: controller.signal })
+        .then(setSuggestions)
+        .catch(error => {
+          // A site the lookup cannot read is expected, not an error.
+          if (isCancelledRequest(error) || (error instanceof ApiError && error.code === 'site_not_found')) return;
+          console.error('Website enrichment error:', error);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) setIsLoading(false);
+        });
+    }, ENRICHMENT_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [url]);
+
+  return { suggestions, isLoading };
+};
@@ -0,0 +1,60 @@
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { RequireOnboarded, RequireOnboardingStep } from './guards';
+import { UserRole } from '../api/types';
+import { OnboardingProgress, completedOnboarding } from './onboarding';
+import { paths } from './paths';
+
+const renderGuarded = (path: string, progress: OnboardingProgress, role: UserRole | null = 'founder') =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <Routes>
+        <Route path={paths.roleSelection} element={<p>role selection</p>} />
+        <Route path={paths.basicInfo} element={<p>basic info</p>} />
+        <Route path={paths.startupProfile} element={<p>startup profile</p>} />
+        <Route path={paths.investorDetails} element={<p>investor details</p>} />
+        <Route path={paths.investmentFocus} element={<p>investment focus</p>} />
+        <Route element={<RequireOnboardingStep step="documentUpload" role={role} progress={progress} />}>
+          <Route path={paths.documentUpload} element={<p>documents</p>} />
+        </Route>
+        <Route element={<RequireOnboarded role={role} progress={progress} />}>
+          <Route path={paths.dashboard} element={<p>dashboard</p>} />
+        </Route>
+      </Routes>
+    </MemoryRouter>
+  );
+
+test('redirects a skipped-ahead founder to the first incomplete step', () => {
+  renderGuarded(paths.documentUpload, { basicInfo: true });
+  expect(screen.getByText('startup profile')).toBeInTheDocument();
+});
+
+test('opens a step once every earlier step is complete', () => {
+  renderGuarded(paths.documentUpload, { basicInfo: true, startupProfile: true });
+  expect(screen.getByText('documents')).toBeInTheDocument();
+});
+
+test('keeps half-onboarded founders out of the dashboard', () => {
+  renderGuarded(paths.dashboard, {});
+  expect(screen.getByText('basic info')).toBeInTheDocument();
+});
+
+test('lets fully onboarded users reach the dashboard', () => {
+  renderGuarded(paths.dashboard, completedOnboarding);
+  expect(screen.getByText('dashboard')).toBeInTheDocument();
+});
+
+test('walks investors through their own steps instead of the founder ones', () => {
+  renderGuarded(paths.documentUpload, { basicInfo: true, startupProfile: true }, 'investor');
+  expect(screen.getByText('investor details')).toBeInTheDocument();
+});
+
+test('keeps investors out of the dashboard until their own flow is done', () => {
+  renderGuarded(paths.dashboard, { investorDetails: true }, 'investor');
+  expect(screen.getByText('investment focus')).toBeInTheDocument();
+});
+
+test('asks for a role before any onboarding', () => {
+  renderGuarded(paths.dashboard, completedOnboarding, null);
+  expect(screen.getByText('role selection')).toBeInTheDocument();
+});
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Navigate, Outlet, useLocation } from 'react-router-dom';
+import { User, UserRole } from '../api/types';
+import { paths } from './paths';
+import {
+  OnboardingProgress,
+  OnboardingStep,
+  canOpenStep,
+  firstIncompleteStep,
+  onboardingSteps,
+} from './onboarding';
+
+interface RequireAuthProps {
+  user: User | null;
+}
+
+/**
+ * Renders the nested routes only for a logged-in user, otherwise sends them to
+ * the login screen and remembers where they were heading.
+ */
+export const RequireAuth: React.FC<RequireAuthProps> = ({ user }) => {
+  const location = useLocation();
+
+  if (!user) {
+    return <Navigate to={paths.login} replace state={{ from: location }} />;
+  }
+
+  return <Outlet />;
+};
+
+interface RequireOnboardingStepProps {
+  step: OnboardingStep;
+  // The active workspace's role, which picks the onboarding flow.
+  role: UserRole | null;
+  progress?: OnboardingProgress;
+}
+
+/**
+ * Keeps users from skipping ahead: a step opens only when all earlier steps of
+ * their role's flow are complete, otherwise they land on the first incomplete
+ * one. Without a role there is no flow yet, so they pick one first.
+ */
+export const RequireOnboardingStep: React.FC<RequireOnboardingStepProps> = ({ step, role, progress }) => {
+  if (!role) {
+    return <Navigate to={paths.roleSelection} replace />;
+  }
+
+  if (!canOpenStep(role, step, progress)) {
+    const nextStep = firstIncompleteStep(role, progress);
+    return <Navigate to={nextStep ? onboardingSteps[nextStep].path : paths.dashboard} replace />;
+  }
+
+  return <Outlet />;
+};
+
+interface RequireOnboardedProps {
+  role: UserRole | null;
+  progress?: OnboardingProgress;
+}
+
+/**
+ * Only users who finished onboarding for their active role get past this
+ * guard; anyone else resumes onboarding where they left off.
+ */
+export const RequireOnboarded: React.FC<RequireOnboardedProps> = ({ role, progress }) => {
+  if (!role) {
+    return <Navigate to={paths.roleSelection} replace />;
+  }
+
+  const nextStep = firstIncompleteStep(role, progress);
+
+  if (nextStep) {
+    return <Navigate to={onboardingSteps[nextStep].path} replace />;
+  }
+
+  return <Outlet />;
+};
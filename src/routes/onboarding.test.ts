@@ -0,0 +1,25 @@
+import { nextStepPath, previousStepPath, wizardSteps } from './onboarding';
+import { paths } from './paths';
+
+test('moves through the flow of the role being onboarded', () => {
+  expect(nextStepPath('founder', 'basicInfo')).toBe(paths.startupProfile);
+  expect(nextStepPath('investor', 'accreditation')).toBe(paths.assessmentIntro);
+  expect(nextStepPath('founder', 'assessment')).toBe(paths.complete);
+
+  expect(previousStepPath('founder', 'documentUpload')).toBe(paths.startupProfile);
+  expect(previousStepPath('investor', 'investorDetails')).toBe(paths.roleSelection);
+});
+
+test('lets the stepper jump back to completed steps but not ahead', () => {
+  const steps = wizardSteps('founder', 'basicInfo', { basicInfo: true, startupProfile: true });
+
+  expect(steps.map(({ step, state }) => [step, state])).toEqual([
+    ['basicInfo', 'active'],
+    ['startupProfile', 'completed'],
+    ['documentUpload', 'open'],
+    ['addTeam', 'locked'],
+    ['review', 'locked'],
+    ['assessment', 'locked'],
+  ]);
+  expect(steps[1]).toMatchObject({ title: 'Startup Profile', path: paths.startupProfile });
+});
@@ -0,0 +1,108 @@
+import { UserRole } from '../api/types';
+import { paths } from './paths';
+
+export type FounderOnboardingStep = 'basicInfo' | 'startupProfile' | 'documentUpload' | 'addTeam' | 'review';
+export type InvestorOnboardingStep = 'investorDetails' | 'investmentFocus' | 'portfolio' | 'accreditation';
+
+// Both flows end in the same assessment, so a user holding both roles takes it once.
+export type OnboardingStep = FounderOnboardingStep | InvestorOnboardingStep | 'assessment';
+
+export type OnboardingProgress = Partial<Record<OnboardingStep, boolean>>;
+
+export interface OnboardingStepDefinition {
+  // Shown in the stepper sidebar.
+  title: string;
+  // Where the step starts; the assessment continues past its intro page.
+  path: string;
+}
+
+// The step registry. Everything that walks a user through onboarding (the
+// guards, the stepper sidebar, Next and Back) reads the steps from here and
+// from onboardingFlows, so adding or reordering a step is a change to these
+// two tables plus a route for its screen.
+export const onboardingSteps: Record<OnboardingStep, OnboardingStepDefinition> = {
+  basicInfo: { title: 'Basic Info', path: paths.basicInfo },
+  startupProfile: { title: 'Startup Profile', path: paths.startupProfile },
+  documentUpload: { title: 'Upload Documents', path: paths.documentUpload },
+  addTeam: { title: 'Add your Team', path: paths.addTeam },
+  review: { title: 'Review & Submit', path: paths.review },
+  investorDetails: { title: 'Investor Details', path: paths.investorDetails },
+  investmentFocus: { title: 'Investment Focus', path: paths.investmentFocus },
+  portfolio: { title: 'Portfolio', path: paths.portfolio },
+  accreditation: { title: 'Accreditation', path: paths.accreditation },
+  assessment: { title: 'Psychological Assessment', path: paths.assessmentIntro },
+};
+
+// Each role's onboarding, in the order the steps must be completed.
+export const onboardingFlows: Record<UserRole, OnboardingStep[]> = {
+  founder: ['basicInfo', 'startupProfile', 'documentUpload', 'addTeam', 'review', 'assessment'],
+  investor: ['investorDetails', 'investmentFocus', 'portfolio', 'accreditation', 'assessment'],
+};
+
+export const isOnboardingStep = (value: unknown): value is OnboardingStep =>
+  typeof value === 'string' && value in onboardingSteps;
+
+// Every step of both flows, as seeded for fully onboarded demo accounts.
+export const completedOnboarding: OnboardingProgress = {
+  basicInfo: true,
+  startupProfile: true,
+  documentUpload: true,
+  addTeam: true,
+  review: true,
+  investorDetails: true,
+  investmentFocus: true,
+  portfolio: true,
+  accreditation: true,
+  assessment: true,
+};
+
+export const firstIncompleteStep = (role: UserRole, progress: OnboardingProgress = {}): OnboardingStep | null =>
+  onboardingFlows[role].find(step => !progress[step]) ?? null;
+
+export const isOnboarded = (role: UserRole, progress?: OnboardingProgress) => firstIncompleteStep(role, progress) === null;
+
+// A step can be opened once every step before it in the role's flow is done;
+// completed steps stay reachable. Steps from the other role's flow never open.
+export const canOpenStep = (role: UserRole, step: OnboardingStep, progress: OnboardingProgress = {}) => {
+  const flow = onboardingFlows[role];
+  return flow.includes(step) && flow.slice(0, flow.indexOf(step)).every(previous => progress[previous]);
+};
+
+// Where Next leads from `step`: the following step, or the completion page after the last.
+export const nextStepPath = (role: UserRole, step: OnboardingStep) => {
+  const flow = onboardingFlows[role];
+  const next = flow[flow.indexOf(step) + 1];
+  return next ? onboardingSteps[next].path : paths.complete;
+};
+
+// Where Back leads from `step`: the previous step, or role selection from the first.
+export const previousStepPath = (role: UserRole, step: OnboardingStep) => {
+  const flow = onboardingFlows[role];
+  const previous = flow[flow.indexOf(step) - 1];
+  return previous ? onboardingSteps[previous].path : paths.roleSelection;
+};
+
+export type WizardStepState = 'active' | 'completed' | 'open' | 'locked';
+
+export interface WizardStep extends OnboardingStepDefinition {
+  step: OnboardingStep;
+  state: WizardStepState;
+}
+
+/**
+ * The role's flow as the stepper shows it while `current` is open: completed
+ * steps and the next one due can be jumped to, later ones stay locked.
+ */
+export const wizardSteps = (role: UserRole, current: OnboardingStep, progress: OnboardingProgress = {}): WizardStep[] =>
+  onboardingFlows[role].map(step => ({
+    step,
+    ...onboardingSteps[step],
+    state:
+      step === current
+        ? 'active'
+        : progress[step]
+        ? 'completed'
+        : canOpenStep(role, step, progress)
+        ? 'open'
+        : 'locked',
+  }));
@@ -0,0 +1,57 @@
+// Every screen of the app lives at one of these URLs. Components should build
+// links from here instead of hard-coding strings so routes can move freely.
+export const paths = {
+  login: '/login',
+  twoFactor: '/login/two-factor',
+  signup: '/signup',
+  forgotPassword: '/forgot-password',
+  resetPassword: '/reset-password/:token',
+  verifyEmail: '/verify-email/:token',
+  checkInbox: '/verify-email',
+  oauthCallback: '/oauth/callback/:provider',
+  linkAccount: '/link-account',
+  // Stand-in identity provider served by the mock backend (see src/mocks).
+  mockIdentityProvider: '/mock-idp/:provider/authorize',
+  welcomeBack: '/welcome-back',
+  roleSelection: '/onboarding/role',
+  basicInfo: '/onboarding/basic-info',
+  startupProfile: '/onboarding/startup-profile',
+  documentUpload: '/onboarding/documents',
+  addTeam: '/onboarding/team',
+  review: '/onboarding/review',
+  investorDetails: '/onboarding/investor/details',
+  investmentFocus: '/onboarding/investor/focus',
+  portfolio: '/onboarding/investor/portfolio',
+  accreditation: '/onboarding/investor/accreditation',
+  assessmentIntro: '/assessment/intro',
+  assessment: '/assessment',
+  complete: '/onboarding/complete',
+  founderProfile: '/founders/:founderId',
+  dashboard: '/dashboard',
+  settings: '/dashboard/settings',
+  twoFactorSetup: '/dashboard/settings/two-factor',
+};
+
+export type DashboardSection =
+  | 'ai-agent'
+  | 'my-matches'
+  | 'manage-deck'
+  | 'schedule-meeting'
+  | 'job-hiring'
+  | 'analytics'
+  | 'my-investments'
+  | 'portfolio'
+  | 'upcoming-meetings'
+  | 'market-insights';
+
+export const dashboardSectionPath = (section?: DashboardSection) =>
+  section ? `${paths.dashboard}/${section}` : paths.dashboard;
+
+export const resetPasswordPath = (token: string) => paths.resetPassword.replace(':token', encodeURIComponent(token));
+
+export const verifyEmailPath = (token: string) => paths.verifyEmail.replace(':token', encodeURIComponent(token));
+
+export const oauthCallbackPath = (provider: string) => paths.oauthCallback.replace(':provider', provider);
+
+export const founderProfilePath = (founderId: string) =>
+  paths.founderProfile.replace(':founderId', encodeURIComponent(founderId));
@@ -0,0 +1,16 @@
+import { createContext } from 'react';
+import { AuthSession, User } from '../api/types';
+
+// "loading" covers restoring a saved session on page load, before we know
+// whether anyone is signed in.
+export type SessionStatus = 'loading' | 'authenticated' | 'anonymous';
+
+export interface SessionContextValue {
+  user: User | null;
+  status: SessionStatus;
+  signIn: (session: AuthSession, rememberMe: boolean) => void;
+  signOut: () => Promise<void>;
+  updateUser: (changes: Partial<User>) => void;
+}
+
+export const SessionContext = createContext<SessionContextValue | null>(null);
@@ -0,0 +1,102 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { authApi } from '../api/auth';
+import { isCancelledRequest } from '../api/client';
+import { AuthSession, User } from '../api/types';
+import { SessionContext, SessionStatus } from './SessionContext';
+import { onSessionMessage } from './sync';
+import {
+  beginSession,
+  clearSessionTokens,
+  endSession,
+  getRefreshToken,
+  hasSessionTokens,
+  onSessionExpired,
+} from './tokens';
+
+const SessionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [user, setUser] = useState<User | null>(null);
+  const [status, setStatus] = useState<SessionStatus>(hasSessionTokens() ? 'loading' : 'anonymous');
+
+  // Restore the user behind tokens saved by an earlier visit.
+  useEffect(() => {
+    if (!hasSessionTokens()) {
+      return;
+    }
+
+    const controller = new AbortController();
+    authApi
+      .me({ signal: controller.signal })
+      .then((restored) => {
+        setUser(restored);
+        setStatus('authenticated');
+      })
+      .catch((err) => {
+        if (isCancelledRequest(err)) return;
+        clearSessionTokens();
+        setStatus('anonymous');
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  useEffect(
+    () =>
+      onSessionExpired(() => {
+        setUser(null);
+        setStatus('anonymous');
+      }),
+    []
+  );
+
+  // Follow logins and logouts made in other tabs. The tokens themselves have
+  // already been adopted by the token store by the time this runs.
+  useEffect(
+    () =>
+      onSessionMessage((message) => {
+        if (message.type === 'logout') {
+          setUser(null);
+          setStatus('anonymous');
+        } else if (message.type === 'login') {
+          authApi
+            .me()
+            .then((signedIn) => {
+              setUser(signedIn);
+              setStatus('authenticated');
+            })
+            .catch(error => console.error('Session sync error:', error));
+        }
+      }),
+    []
+  );
+
+  const signIn = useCallback((session: AuthSession, rememberMe: boolean) => {
+    beginSession(session.tokens, rememberMe);
+    setUser(session.user);
+    setStatus('authenticated');
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      await authApi.logout(getRefreshToken());
+    } catch (error) {
+      // The tokens are dropped locally either way; the server lets them expire.
+      console.error('Logout error:', error);
+    }
+    endSession();
+    setUser(null);
+    setStatus('anonymous');
+  }, []);
+
+  const updateUser = useCallback((changes: Partial<User>) => {
+    setUser(prev => (prev ? { ...prev, ...changes } : prev));
+  }, []);
+
+  const value = useMemo(
+    () => ({ user, status, signIn, signOut, updateUser }),
+    [user, status, signIn, signOut, updateUser]
+  );
+
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+};
+
+export default SessionProvider;
@@ -0,0 +1,14 @@
+import { hasPermission, permissionsFor } from './permissions';
+
+test('derives permissions from the role', () => {
+  expect(hasPermission({ role: 'founder' }, 'deck:share')).toBe(true);
+  expect(hasPermission({ role: 'founder' }, 'portfolio:view')).toBe(false);
+  expect(hasPermission({ role: 'investor' }, 'portfolio:view')).toBe(true);
+  expect(hasPermission({ role: 'investor' }, 'job:post')).toBe(false);
+  expect(hasPermission({ role: 'investor' }, 'deck:view')).toBe(true);
+});
+
+test('grants nothing until a role is chosen', () => {
+  expect(permissionsFor({ role: null })).toEqual([]);
+  expect(permissionsFor(null)).toEqual([]);
+});
@@ -0,0 +1,50 @@
+import { User, UserRole } from '../api/types';
+import { DashboardSection } from '../routes/paths';
+
+/**
+ * What a signed-in user may do, as "resource:action". Screens ask for a
+ * permission rather than a role, so a role can gain or lose abilities here
+ * without touching them.
+ */
+export type Permission =
+  | 'deck:view'
+  | 'deck:share'
+  | 'job:post'
+  | 'portfolio:view'
+  | 'startup:manage'
+  | 'intro:request'
+  | 'insights:view';
+
+export const rolePermissions: Record<UserRole, Permission[]> = {
+  founder: ['deck:view', 'deck:share', 'job:post', 'startup:manage', 'intro:request'],
+  investor: ['deck:view', 'portfolio:view', 'insights:view'],
+};
+
+export const roleLabels: Record<UserRole, string> = {
+  founder: 'Founder',
+  investor: 'Investor',
+};
+
+export const isUserRole = (value: unknown): value is UserRole =>
+  typeof value === 'string' && value in rolePermissions;
+
+// A user who has not picked a role yet can do none of the role-specific things.
+export const permissionsFor = (user: Pick<User, 'role'> | null): Permission[] =>
+  user?.role ? rolePermissions[user.role] : [];
+
+export const hasPermission = (user: Pick<User, 'role'> | null, permission: Permission) =>
+  permissionsFor(user).includes(permission);
+
+// Needed to open each dashboard section, both from the sidebar and by URL.
+export const sectionPermissions: Record<DashboardSection, Permission> = {
+  'ai-agent': 'startup:manage',
+  'my-matches': 'intro:request',
+  'manage-deck': 'deck:share',
+  'schedule-meeting': 'startup:manage',
+  'job-hiring': 'job:post',
+  'analytics': 'startup:manage',
+  'my-investments': 'portfolio:view',
+  'portfolio': 'portfolio:view',
+  'upcoming-meetings': 'portfolio:view',
+  'market-insights': 'insights:view',
+};
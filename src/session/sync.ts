@@ -0,0 +1,62 @@
+import { StoredTokens } from './tokens';
+
+/**
+ * What one tab tells the others about the shared session. Tokens travel with
+ * login and refresh because a tab that was not "remembered" keeps them in its
+ * own sessionStorage, which other tabs cannot read.
+ */
+export type SessionMessage =
+  | { type: 'login'; tokens: StoredTokens; rememberMe: boolean }
+  | { type: 'refresh'; tokens: StoredTokens; rememberMe: boolean }
+  | { type: 'logout' }
+  | { type: 'activity' };
+
+const CHANNEL_NAME = 'powernest:session';
+// Used when BroadcastChannel is missing: writing a key fires a storage event in
+// every other tab of the same origin.
+const STORAGE_EVENT_KEY = 'powernest:session-event';
+
+const listeners = new Set<(message: SessionMessage) => void>();
+
+const deliver = (message: SessionMessage) => {
+  listeners.forEach(listener => listener(message));
+};
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+if (channel) {
+  channel.onmessage = (event: MessageEvent<SessionMessage>) => deliver(event.data);
+} else if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === STORAGE_EVENT_KEY && event.newValue) {
+      deliver(JSON.parse(event.newValue).message);
+    }
+  });
+}
+
+/**
+ * Sends `message` to every other open tab. The sending tab does not receive it.
+ */
+export const broadcastSession = (message: SessionMessage) => {
+  if (channel) {
+    channel.postMessage(message);
+    return;
+  }
+  try {
+    // The timestamp makes repeated messages distinct so each one fires an event.
+    window.localStorage.setItem(STORAGE_EVENT_KEY, JSON.stringify({ message, sentAt: Date.now() }));
+    window.localStorage.removeItem(STORAGE_EVENT_KEY);
+  } catch {
+    // Storage is unavailable (e.g. private mode); other tabs simply aren't told.
+  }
+};
+
+/**
+ * Subscribes to messages from other tabs. Returns the unsubscribe function.
+ */
+export const onSessionMessage = (listener: (message: SessionMessage) => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,100 @@
+import { authApi, isTwoFactorChallenge } from '../api/auth';
+import { ApiError } from '../api/client';
+import { jobsApi } from '../api/jobs';
+import { resetDb } from '../mocks/db';
+import { seedApplicants } from '../mocks/fixtures';
+import { enableMockApi } from '../mocks/server';
+import { clearSessionTokens, getAccessToken, hasSessionTokens, storeSessionTokens } from './tokens';
+
+const login = async () => {
+  const result = await authApi.login({ email: 'alex@powernest.dev', password: 'Password1', rememberMe: false });
+  if (isTwoFactorChallenge(result)) throw new Error('Expected a session');
+  return result;
+};
+
+beforeAll(() => {
+  enableMockApi({ delay: 0 });
+});
+
+beforeEach(() => {
+  resetDb();
+  clearSessionTokens();
+  localStorage.removeItem('powernest:session');
+  sessionStorage.removeItem('powernest:session');
+});
+
+test('keeps remembered sessions in localStorage and others in sessionStorage', async () => {
+  const { tokens } = await login();
+
+  storeSessionTokens(tokens, true);
+  expect(localStorage.getItem('powernest:session')).not.toBeNull();
+  expect(sessionStorage.getItem('powernest:session')).toBeNull();
+
+  storeSessionTokens(tokens, false);
+  expect(localStorage.getItem('powernest:session')).toBeNull();
+  expect(sessionStorage.getItem('powernest:session')).not.toBeNull();
+});
+
+test('refreshes an access token that is about to expire before sending the request', async () => {
+  const { tokens } = await login();
+  storeSessionTokens({ ...tokens, expiresIn: 30 }, false);
+
+  await expect(jobsApi.listApplicants()).resolves.toEqual(seedApplicants);
+  expect(await getAccessToken()).not.toBe(tokens.accessToken);
+});
+
+test('drops the session when the refresh token is rejected', async () => {
+  const { tokens } = await login();
+  storeSessionTokens({ ...tokens, refreshToken: 'revoked', expiresIn: 0 }, false);
+
+  expect(await getAccessToken()).toBeNull();
+  expect(hasSessionTokens()).toBe(false);
+});
+
+test('keeps the session when the refresh fails for another reason', async () => {
+  const { tokens } = await login();
+  storeSessionTokens({ ...tokens, expiresIn: 30 }, false);
+  const refresh = jest.spyOn(authApi, 'refresh').mockRejectedValueOnce(new ApiError('Network error', 0, 'network_error'));
+
+  expect(await getAccessToken()).toBe(tokens.accessToken);
+  expect(hasSessionTokens()).toBe(true);
+
+  refresh.mockRestore();
+  expect(await getAccessToken()).not.toBe(tokens.accessToken);
+});
+
+test('uses the pair another tab already rotated instead of spending the old refresh token', async () => {
+  const { tokens } = await login();
+  storeSessionTokens({ ...tokens, expiresIn: 30 }, true);
+  const rotated = await authApi.refresh(tokens.refreshToken);
+  // What the other tab saved after refreshing.
+  localStorage.setItem(
+    'powernest:session',
+    JSON.stringify({
+      accessToken: rotated.accessToken,
+      refreshToken: rotated.refreshToken,
+      expiresAt: Date.now() + rotated.expiresIn * 1000,
+    })
+  );
+  const refresh = jest.spyOn(authApi, 'refresh');
+
+  expect(await getAccessToken()).toBe(rotated.accessToken);
+  expect(refresh).not.toHaveBeenCalled();
+  refresh.mockRestore();
+});
+
+test('follows a logout made in another tab', async () => {
+  const { tokens } = await login();
+  storeSessionTokens(tokens, true);
+
+  // What another tab's broadcast looks like when BroadcastChannel is unavailable.
+  window.dispatchEvent(
+    new StorageEvent('storage', {
+      key: 'powernest:session-event',
+      newValue: JSON.stringify({ message: { type: 'logout' }, sentAt: Date.now() }),
+    })
+  );
+
+  expect(hasSessionTokens()).toBe(false);
+  expect(localStorage.getItem('powernest:session')).toBeNull();
+});
@@ -0,0 +1,182 @@
+import { authApi } from '../api/auth';
+import { ApiError, setAccessTokenProvider } from '../api/client';
+import { SessionTokens } from '../api/types';
+import { clearLocalDrafts } from '../onboarding/drafts';
+import { broadcastSession, onSessionMessage } from './sync';
+
+export interface StoredTokens {
+  accessToken: string;
+  refreshToken: string;
+  // Epoch milliseconds after which the access token is no longer accepted.
+  expiresAt: number;
+}
+
+const STORAGE_KEY = 'powernest:session';
+
+// Refresh a little early so a request never leaves with a token that expires in flight.
+const REFRESH_MARGIN_MS = 60 * 1000;
+
+// Held by the one tab that is refreshing, so two tabs never spend the same
+// single-use refresh token.
+const REFRESH_LOCK = 'powernest:token-refresh';
+
+const storageFor = (rememberMe: boolean): Storage | null => {
+  try {
+    return rememberMe ? window.localStorage : window.sessionStorage;
+  } catch {
+    return null;
+  }
+};
+
+const readStored = (): { tokens: StoredTokens; rememberMe: boolean } | null => {
+  for (const rememberMe of [true, false]) {
+    const saved = storageFor(rememberMe)?.getItem(STORAGE_KEY);
+    if (saved) {
+      try {
+        return { tokens: JSON.parse(saved) as StoredTokens, rememberMe };
+      } catch {
+        storageFor(rememberMe)?.removeItem(STORAGE_KEY);
+      }
+    }
+  }
+  return null;
+};
+
+const stored = readStored();
+let current: StoredTokens | null = stored?.tokens ?? null;
+// "Remember me" keeps tokens in localStorage so they outlive the browser
+// session; otherwise they live in sessionStorage and go away with the tab.
+let remembered = stored?.rememberMe ?? false;
+let refreshing: Promise<void> | null = null;
+
+const clearedListeners = new Set<() => void>();
+
+export const hasSessionTokens = () => current !== null;
+
+export const getRefreshToken = () => current?.refreshToken ?? null;
+
+const saveTokens = (tokens: StoredTokens, rememberMe: boolean) => {
+  current = tokens;
+  remembered = rememberMe;
+  storageFor(!rememberMe)?.removeItem(STORAGE_KEY);
+  storageFor(rememberMe)?.setItem(STORAGE_KEY, JSON.stringify(current));
+};
+
+const toStoredTokens = (tokens: SessionTokens): StoredTokens => ({
+  accessToken: tokens.accessToken,
+  refreshToken: tokens.refreshToken,
+  expiresAt: Date.now() + tokens.expiresIn * 1000,
+});
+
+/**
+ * Saves tokens in this tab only. Use beginSession() for a fresh login so other
+ * tabs pick it up too.
+ */
+export const storeSessionTokens = (tokens: SessionTokens, rememberMe = remembered) => {
+  saveTokens(toStoredTokens(tokens), rememberMe);
+};
+
+export const clearSessionTokens = () => {
+  current = null;
+  storageFor(true)?.removeItem(STORAGE_KEY);
+  storageFor(false)?.removeItem(STORAGE_KEY);
+};
+
+export const beginSession = (tokens: SessionTokens, rememberMe: boolean) => {
+  const stored = toStoredTokens(tokens);
+  saveTokens(stored, rememberMe);
+  broadcastSession({ type: 'login', tokens: stored, rememberMe });
+};
+
+export const endSession = () => {
+  clearSessionTokens();
+  clearLocalDrafts();
+  broadcastSession({ type: 'logout' });
+};
+
+/**
+ * Subscribes to the session ending underneath the app, i.e. the refresh token
+ * being rejected. Returns the unsubscribe function.
+ */
+export const onSessionExpired = (listener: () => void) => {
+  clearedListeners.add(listener);
+  return () => {
+    clearedListeners.delete(listener);
+  };
+};
+
+const needsRefresh = (tokens: StoredTokens) => tokens.expiresAt - Date.now() < REFRESH_MARGIN_MS;
+
+// Runs `task` while holding the refresh lock across tabs. Browsers without the
+// Web Locks API only coordinate through the broadcasts and storage.
+const withRefreshLock = async (task: () => Promise<void>) => {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    await navigator.locks.request(REFRESH_LOCK, task);
+  } else {
+    await task();
+  }
+};
+
+/**
+ * Takes the pair another tab saved while this one waited, if it rotated ours.
+ * Returns whether there was one.
+ */
+const adoptRotatedTokens = (spent: string) => {
+  const saved = readStored();
+  if (saved && saved.tokens.refreshToken !== spent && !needsRefresh(saved.tokens)) {
+    current = saved.tokens;
+    remembered = saved.rememberMe;
+  }
+  return current?.refreshToken !== spent;
+};
+
+const refreshTokens = () =>
+  withRefreshLock(async () => {
+    const refreshToken = current?.refreshToken;
+    if (!refreshToken || adoptRotatedTokens(refreshToken)) {
+      return;
+    }
+    try {
+      const stored = toStoredTokens(await authApi.refresh(refreshToken));
+      saveTokens(stored, remembered);
+      // Refresh tokens are single use, so the other tabs must switch to the new pair.
+      broadcastSession({ type: 'refresh', tokens: stored, rememberMe: remembered });
+    } catch (error) {
+      // Only a rejected refresh token ends the session, and not when another
+      // tab's new pair arrived in the meantime. Anything else, e.g. being
+      // offline, keeps the tokens so the next request tries again.
+      if (
+        error instanceof ApiError &&
+        error.status === 401 &&
+        error.code === 'invalid_refresh_token' &&
+        !adoptRotatedTokens(refreshToken)
+      ) {
+        endSession();
+        clearedListeners.forEach(listener => listener());
+      }
+    }
+  });
+
+/**
+ * Returns an access token that is good for at least another minute, refreshing
+ * it first when needed. Concurrent callers share a single refresh request.
+ */
+export const getAccessToken = async (): Promise<string | null> => {
+  if (current && needsRefresh(current)) {
+    refreshing = refreshing ?? refreshTokens().finally(() => {
+      refreshing = null;
+    });
+    await refreshing;
+  }
+  return current?.accessToken ?? null;
+};
+
+setAccessTokenProvider(getAccessToken);
+
+onSessionMessage((message) => {
+  if (message.type === 'login' || message.type === 'refresh') {
+    saveTokens(message.tokens, message.rememberMe);
+  } else if (message.type === 'logout') {
+    clearSessionTokens();
+  }
+});
@@ -0,0 +1,20 @@
+// Token the backend hands out when a user ticks "Trust this device for 30
+// days" on the two-factor step. It is kept in localStorage, outside the
+// session, so it survives logging out; the backend decides when it expires.
+const STORAGE_KEY = 'powernest:trusted-device';
+
+export const getTrustedDeviceToken = (): string | undefined => {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const saveTrustedDeviceToken = (token: string) => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, token);
+  } catch {
+    // Without storage the device simply isn't remembered.
+  }
+};
@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+
+const secondsUntil = (time: number) => Math.max(0, Math.ceil((time - Date.now()) / 1000));
+
+/**
+ * Whole seconds left until `deadline` (epoch milliseconds), ticking down to
+ * zero. Compares against the clock so a throttled background tab still shows
+ * the right number when it wakes up.
+ */
+export const useCountdown = (deadline: number) => {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(deadline));
+
+  useEffect(() => {
+    const tick = () => setSecondsLeft(secondsUntil(deadline));
+    tick();
+    if (deadline <= Date.now()) {
+      return;
+    }
+    const timer = setInterval(() => {
+      tick();
+      if (deadline <= Date.now()) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  return secondsLeft;
+};
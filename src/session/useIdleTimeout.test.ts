@@ -0,0 +1,59 @@
+import { act, renderHook } from '@testing-library/react';
+import { useIdleTimeout } from './useIdleTimeout';
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+const renderIdle = (onTimeout: () => void) =>
+  renderHook(() => useIdleTimeout({ enabled: true, timeoutMs: 10_000, warningMs: 3_000, onTimeout }));
+
+test('counts down during the warning window and then times out', () => {
+  const onTimeout = jest.fn();
+  const { result } = renderIdle(onTimeout);
+
+  act(() => {
+    jest.advanceTimersByTime(6_000);
+  });
+  expect(result.current.remainingMs).toBeNull();
+
+  act(() => {
+    jest.advanceTimersByTime(2_000);
+  });
+  expect(result.current.remainingMs).toBe(2_000);
+
+  // Moving the mouse does not dismiss the warning.
+  act(() => {
+    window.dispatchEvent(new Event('mousemove'));
+    jest.advanceTimersByTime(2_000);
+  });
+  expect(onTimeout).toHaveBeenCalledTimes(1);
+});
+
+test('restarts the clock on activity and on "stay signed in"', () => {
+  const onTimeout = jest.fn();
+  const { result } = renderIdle(onTimeout);
+
+  act(() => {
+    jest.advanceTimersByTime(5_000);
+    window.dispatchEvent(new Event('keydown'));
+    jest.advanceTimersByTime(5_000);
+  });
+  expect(result.current.remainingMs).toBeNull();
+
+  act(() => {
+    jest.advanceTimersByTime(3_000);
+  });
+  expect(result.current.remainingMs).not.toBeNull();
+
+  act(() => {
+    result.current.stayActive();
+    jest.advanceTimersByTime(5_000);
+  });
+  expect(result.current.remainingMs).toBeNull();
+  expect(onTimeout).not.toHaveBeenCalled();
+});
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { broadcastSession, onSessionMessage } from './sync';
+
+const minutes = (value: string | undefined, fallback: number) => (Number(value) || fallback) * 60 * 1000;
+const seconds = (value: string | undefined, fallback: number) => (Number(value) || fallback) * 1000;
+
+export const idleTimeoutConfig = {
+  timeoutMs: minutes(process.env.REACT_APP_IDLE_TIMEOUT_MINUTES, 30),
+  warningMs: seconds(process.env.REACT_APP_IDLE_WARNING_SECONDS, 60),
+};
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'scroll', 'touchstart'] as const;
+
+// Tell the other tabs about activity at most this often; the idle clock only
+// needs rough precision and mousemove fires constantly.
+const ACTIVITY_BROADCAST_INTERVAL_MS = 5 * 1000;
+
+interface IdleTimeoutOptions {
+  enabled: boolean;
+  timeoutMs?: number;
+  warningMs?: number;
+  onTimeout: () => void;
+}
+
+/**
+ * Tracks how long the user has been idle across every open tab. Returns the
+ * milliseconds left before `onTimeout` fires once the warning window starts
+ * (null before that), and `stayActive` to restart the clock.
+ *
+ * Passive activity like mouse movement stops counting once the warning is up,
+ * so a deliberate "stay signed in" is needed to dismiss it.
+ */
+export const useIdleTimeout = ({
+  enabled,
+  timeoutMs = idleTimeoutConfig.timeoutMs,
+  warningMs = idleTimeoutConfig.warningMs,
+  onTimeout,
+}: IdleTimeoutOptions) => {
+  const [remainingMs, setRemainingMs] = useState<number | null>(null);
+  const lastActivity = useRef(Date.now());
+  const lastBroadcast = useRef(0);
+  const warning = useRef(false);
+  const onTimeoutRef = useRef(onTimeout);
+  onTimeoutRef.current = onTimeout;
+
+  const stayActive = useCallback(() => {
+    lastActivity.current = Date.now();
+    lastBroadcast.current = lastActivity.current;
+    warning.current = false;
+    setRemainingMs(null);
+    broadcastSession({ type: 'activity' });
+  }, []);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+
+    lastActivity.current = Date.now();
+    warning.current = false;
+    setRemainingMs(null);
+
+    const handleActivity = () => {
+      if (warning.current) return;
+      lastActivity.current = Date.now();
+      if (lastActivity.current - lastBroadcast.current >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+        lastBroadcast.current = lastActivity.current;
+        broadcastSession({ type: 'activity' });
+      }
+    };
+
+    const unsubscribe = onSessionMessage((message) => {
+      if (message.type === 'activity') {
+        lastActivity.current = Date.now();
+        warning.current = false;
+        setRemainingMs(null);
+      }
+    });
+
+    // Compare against the clock rather than counting ticks: background tabs
+    // throttle timers, and the deadline must still hold when they wake up.
+    const timer = setInterval(() => {
+      const remaining = timeoutMs - (Date.now() - lastActivity.current);
+      if (remaining <= 0) {
+        clearInterval(timer);
+        setRemainingMs(null);
+        onTimeoutRef.current();
+      } else if (remaining <= warningMs) {
+        warning.current = true;
+        setRemainingMs(remaining);
+      }
+    }, 1000);
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+
+    return () => {
+      clearInterval(timer);
+      unsubscribe();
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [enabled, timeoutMs, warningMs]);
+
+  return { remainingMs, stayActive };
+};
@@ -0,0 +1,61 @@
+import { useCallback, useState } from 'react';
+import { useCountdown } from './useCountdown';
+
+// Kept in step with the backend, which starts asking for a challenge token at
+// the same count; the server's challenge_required answer is the authority.
+export const CHALLENGE_AFTER_FAILURES = 3;
+
+const MAX_DELAY_MS = 30 * 1000;
+
+// No wait after the first miss (typos happen), then 1s, 2s, 4s, ... up to 30s.
+const delayAfter = (failures: number) =>
+  failures < 2 ? 0 : Math.min(1000 * 2 ** (failures - 2), MAX_DELAY_MS);
+
+// E.g. "45s" or "14:30".
+export const formatWait = (seconds: number) =>
+  seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+/**
+ * Slows down repeated failed logins on this form: a growing delay between
+ * attempts, a challenge after a few failures, and the server's lockout time
+ * when it locks the account.
+ */
+export const useLoginThrottle = () => {
+  const [failures, setFailures] = useState(0);
+  const [blockedUntil, setBlockedUntil] = useState(0);
+  const [isLockout, setIsLockout] = useState(false);
+  const [challengeDemanded, setChallengeDemanded] = useState(false);
+  const secondsLeft = useCountdown(blockedUntil);
+
+  const recordFailure = useCallback(() => {
+    setFailures(failures + 1);
+    setBlockedUntil(Date.now() + delayAfter(failures + 1));
+    setIsLockout(false);
+  }, [failures]);
+
+  const lockOut = useCallback((retryAfterSeconds: number) => {
+    setBlockedUntil(Date.now() + retryAfterSeconds * 1000);
+    setIsLockout(true);
+  }, []);
+
+  const requireChallenge = useCallback(() => {
+    setChallengeDemanded(true);
+  }, []);
+
+  const reset = useCallback(() => {
+    setFailures(0);
+    setBlockedUntil(0);
+    setIsLockout(false);
+    setChallengeDemanded(false);
+  }, []);
+
+  return {
+    secondsLeft,
+    isLockedOut: isLockout && secondsLeft > 0,
+    needsChallenge: challengeDemanded || failures >= CHALLENGE_AFTER_FAILURES,
+    recordFailure,
+    lockOut,
+    requireChallenge,
+    reset,
+  };
+};
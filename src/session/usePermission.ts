@@ -0,0 +1,8 @@
+import { hasPermission, Permission } from './permissions';
+import { useSession } from './useSession';
+
+// Whether the signed-in user may do `permission`; false when nobody is signed in.
+export const usePermission = (permission: Permission) => {
+  const { user } = useSession();
+  return hasPermission(user, permission);
+};
@@ -0,0 +1,39 @@
+import { useCallback, useState } from 'react';
+import { authApi } from '../api/auth';
+import { ApiError, getErrorMessage } from '../api/client';
+import { useCountdown } from './useCountdown';
+
+// Matches the backend's limit, so the button rarely runs into a 429.
+export const RESEND_COOLDOWN_MS = 60 * 1000;
+
+/**
+ * Sends the verification email again, then holds the button back for the
+ * cooldown. `secondsLeft` counts down to zero; a rate-limit answer from the
+ * server restarts the countdown with the wait it asks for.
+ */
+export const useResendVerification = ({ justSent = false }: { justSent?: boolean } = {}) => {
+  const [availableAt, setAvailableAt] = useState(() => (justSent ? Date.now() + RESEND_COOLDOWN_MS : 0));
+  const secondsLeft = useCountdown(availableAt);
+  const [isSending, setIsSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resend = useCallback(async () => {
+    setIsSending(true);
+    setError(null);
+    try {
+      await authApi.resendVerificationEmail();
+      setSent(true);
+      setAvailableAt(Date.now() + RESEND_COOLDOWN_MS);
+    } catch (err) {
+      if (err instanceof ApiError && err.retryAfter) {
+        setAvailableAt(Date.now() + err.retryAfter * 1000);
+      }
+      setError(getErrorMessage(err, 'We could not send the email. Please try again.'));
+    } finally {
+      setIsSending(false);
+    }
+  }, []);
+
+  return { resend, secondsLeft, isSending, sent, error, canResend: !isSending && secondsLeft === 0 };
+};
@@ -0,0 +1,14 @@
+import { useContext } from 'react';
+import { SessionContext } from './SessionContext';
+
+/**
+ * The signed-in user and the actions that start or end their session. Must be
+ * used under a SessionProvider.
+ */
+export const useSession = () => {
+  const session = useContext(SessionContext);
+  if (!session) {
+    throw new Error('useSession must be used within a SessionProvider');
+  }
+  return session;
+};
@@ -0,0 +1,56 @@
+import { useCallback, useState } from 'react';
+import { getErrorMessage } from '../api/client';
+import { User, UserRole, WorkspaceProfile } from '../api/types';
+import { workspacesApi } from '../api/workspaces';
+import { useSession } from './useSession';
+
+// The parts of the user that depend on the workspace; the rest (lastLogin in
+// particular) is left as it was at sign-in.
+const workspaceFields = ({ role, roles, profiles, notifications }: User) => ({ role, roles, profiles, notifications });
+
+/**
+ * The signed-in user's workspaces, one per role they hold, and the actions to
+ * switch between them or add one. Screens scoped to a workspace follow
+ * `active`, which is also the role permissions are derived from.
+ */
+export const useWorkspace = () => {
+  const { user, updateUser } = useSession();
+  const [isSwitching, setIsSwitching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Resolves to whether the switch went through.
+  const switchTo = useCallback(
+    async (role: UserRole) => {
+      setIsSwitching(true);
+      setError(null);
+      try {
+        updateUser(workspaceFields(await workspacesApi.switchTo(role)));
+        return true;
+      } catch (err) {
+        setError(getErrorMessage(err, 'We could not switch workspace. Please try again.'));
+        return false;
+      } finally {
+        setIsSwitching(false);
+      }
+    },
+    [updateUser]
+  );
+
+  // Rejects with the API error so forms can show field messages.
+  const saveProfile = useCallback(
+    async (role: UserRole, profile: WorkspaceProfile) => {
+      updateUser(workspaceFields(await workspacesApi.saveProfile(role, profile)));
+    },
+    [updateUser]
+  );
+
+  return {
+    active: user?.role ?? null,
+    roles: user?.roles ?? [],
+    profiles: user?.profiles ?? {},
+    switchTo,
+    saveProfile,
+    isSwitching,
+    error,
+  };
+};
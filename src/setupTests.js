@@ -3,3 +3,14 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// react-router v7 expects TextEncoder, which jsdom does not provide.
+import { TextEncoder, TextDecoder } from 'util';
+
+global.TextEncoder = TextEncoder;
+global.TextDecoder = TextDecoder;
+
+// PKCE hashes with Web Crypto; jsdom has getRandomValues but no crypto.subtle.
+import { webcrypto } from 'crypto';
+
+Object.defineProperty(global, 'crypto', { value: webcrypto });
@@ -0,0 +1,154 @@
+// SHA-1 hashes of the most common passwords from public breach corpora, plus
+// the usual "meets the rules" variants (Password1, Summer2024, ...). Stored the
+// way a k-anonymity range API serves them: the first five hex characters of the
+// hash pick a range, which lists the remaining 35. No plaintext is bundled.
+export const breachedPasswordRanges: Record<string, string[]> = {
+  '00683': ['9D264A38B7F58E5C8130447528BF4B7AEE1'],
+  '01B30': ['7ACBA4F54F55AAFC33BB06BBBF6CA803E9A'],
+  '02726': ['D40F378E716981C4321D60BA3A325ED6A4C'],
+  '02E0A': ['999C50B1F88DF7A8F5A04E1B76B35EA6A88'],
+  '0405F': ['09E8CCD8CE4236BDB6B167E4426BFC41848'],
+  '0CFCE': ['03424AA2AB72AB4999E35C870904534335B'],
+  '0F125': ['41AFCCE175FB34BB05A79C95B76E765488B'],
+  '12E92': ['93EC6B30C7FA8A0926AF42807E929C1684F'],
+  '14116': ['78A0B9E25EE2F7C8B2F7AC92B6A74B3F9C5'],
+  '15614': ['82C1292222496D39BB43EB61619184A51C9'],
+  '1798A': ['15D09FD38EAAA10AF3E06CD39C98C484501'],
+  '17B9E': ['1C64588C7FA6419B4D29DC1F4426279BA01'],
+  '18C28': ['604DD31094A8D69DAE60F1BCD347F1AFC5A'],
+  '1999E': ['4893F732BA38B948DBE8D34ED48CD54F058'],
+  '19B05': ['6140116019A2AD0526359222B3202AFE9A0'],
+  '1F3C5': ['3AE14626035383B39C207564D32D083E8FD'],
+  '20EAB': ['E5D64B0E216796E834F52D61FD0B70332FC'],
+  '21BD1': ['2DC183F740EE76F27B78EB39C8AD972A757'],
+  '22255': ['DB5E42EE69FCDA1019D3CEBB95E64B62F76'],
+  '232BA': ['BB0952422462C6AE902BA4E7A7FD1B35CC7'],
+  '233B5': ['6C9F7691CE54718EB4847D28139E1832445'],
+  '2736F': ['AB291F04E69B62D490C3C09361F5B82461A'],
+  '2B12E': ['1A2252D642C09F640B63ED35DCC5690464A'],
+  '2C490': ['B8E68B92E79CE344C25F3D87FC297D12346'],
+  '2D27B': ['62C597EC858F6E7B54E7E58525E6A95E6D8'],
+  '32715': ['6AB287C6AA52C8670E13163FC1BF660ADD4'],
+  '32CA9': ['FC1A0F5B6330E3F4C8C1BBECDE9BEDB9573'],
+  '36621': ['88D503AF0CB9E352C202C4E7A1CF53005C8'],
+  '3A960': ['464D36C1B8BAD183ED57EE79C0E39953CCE'],
+  '3D0F3': ['B9DDCACEC30C4008C5E030E6C13A478CB4F'],
+  '3D4F2': ['BF07DC1BE38B20CD6E46949A1071F9D0E3D'],
+  '3FCFC': ['1F7F34E78A937E81171BA51DC39538DB993'],
+  '40123': ['E9C6273385EA69892C48C80AA6CB25B9113'],
+  '40D19': ['D8DAB1B8412E014D182B812C78C1725AE86'],
+  '4451A': ['E61C3AB2352FD7C2C4E5B7DDE09FAC93FFF'],
+  '47456': ['CC868F5920BB1E358C1D5C14C320C529ACF'],
+  '48058': ['E0C99BF7D689CE71C360699A14CE2F99774'],
+  '48EFC': ['4851E15940AF5D477D3C0CE99211A70A3BE'],
+  '4BFE0': ['29D971DDB359DABED0D0AB968A329ED0AB0'],
+  '4D0FB': ['475B242228032CBDF6D53924D2538DF037B'],
+  '4D901': ['2B4A77A9524D675DAD27C3276AB5705E5E8'],
+  '4EAAF': ['0993F35C7E5BC20CE93E6EC27065CD8E6A6'],
+  '4F26A': ['EAFDB2367620A393C973EDDBE8F8B846EBD'],
+  '59033': ['478180D07080D5E4F3BAA0099996C364162'],
+  '5A46B': ['8253D07320A14CACE9B4DCBF80F93DCEF04'],
+  '5BAA6': ['1E4C9B93F3F0682250B6CF8331B7EE68FD8'],
+  '5C17F': ['A03E6D5FC247565E1CD8FFA70E1BFE5B8D9'],
+  '5C6D9': ['EDC3A951CDA763F650235CFC41A3FC23FE8'],
+  '5CA16': ['8E44EA0F056FA0C42850FA54767E0C1F997'],
+  '5CEC1': ['75B165E3D5E62C9E13CE848EF6FEAC81BFF'],
+  '5F50A': ['84C1FA3BCFF146405017F36AEC1A10A9E38'],
+  '5F802': ['11CCB43CD491C4E2FFBBDA4C7F6BA0FF604'],
+  '5FA33': ['9BBBB1EEACED3B52E54F44576AAF0D77D96'],
+  '601F1': ['889667EFAEBB33B8C12572835DA3F027F78'],
+  '6367C': ['48DD193D56EA7B0BAAD25B19455E529F5EE'],
+  '6420E': ['D4D831B436D1E92D25605D18297296374E3'],
+  '64356': ['BCFAE350C970263C1CE575185B289F7B836'],
+  '67A25': ['8218F68F6B5F7142593CF4B1F7D87622DD8'],
+  '689CD': ['1CD19BFC2EAA606599AA8A2606A0EA3DF25'],
+  '6A0FB': ['500E116F40F9BDE39724526A40AC4B8A143'],
+  '6AEAB': ['6E5D37CC0937ACEC6D223A1DE24FE6469AA'],
+  '6C616': ['F7C2D2FDE9018A09F06EAEFCFC7582BC7BA'],
+  '6E2F9': ['E6111E77EDD0C446EA7A84E25323D137A61'],
+  '6EA16': ['4759ADCCDF0B63C3E6A8A52792691F4C37B'],
+  '6EB00': ['3E8B46F82FA3E229DC93FBD90C853D41A0A'],
+  '6F433': ['E5D53AD6DBD22659E9B94B211C0FF82627A'],
+  '70CCD': ['9007338D6D81DD3B6271621B9CF9A97EA00'],
+  '7110E': ['DA4D09E062AA5E4A390B0A572AC0D2C0220'],
+  '7212A': ['9E01329EA93A57F574BD9BF77695D5FDCA4'],
+  '74A87': ['1ACBF060DDA5FC7260D05A5924A34E4C0E7'],
+  '75973': ['0A97E4373F3A0EE12805DB065E3A4A649A5'],
+  '775BB': ['961B81DA1CA49217A48E533C832C337154A'],
+  '782F9': ['B10621E362D5BD0DEF3A279B5E0908C9EBB'],
+  '78C87': ['B0ED4DE64F81776A289F8CCEFE1D477EE01'],
+  '7AF2D': ['10B73AB7CD8F603937F7697CB5FE432C7FF'],
+  '7C222': ['FB2927D828AF22F592134E8932480637C0D'],
+  '7C4A8': ['D09CA3762AF61E59520943DC26494F8941B'],
+  '7C6A6': ['1C68EF8B9B6B061B28C348BC1ED7921CB53'],
+  '7ECFD': ['8F97B4729C6FF0799B0B4D40F870083B461'],
+  '83086': ['51804FACB7B9AF8FFC53A33A22D6A1C8AC2'],
+  '836BA': ['BDDC66080E01D52B8272AA9461C69EE0496'],
+  '875D1': ['0FA6AE9879FC6D3F7A951C712B5019CEF0A'],
+  '88C50': ['A7286A6F3A20BD6085CC79A8E7175825F03'],
+  '8CB22': ['37D0679CA88DB6464EAC60DA96345513964'],
+  '8D6E3': ['4F987851AA599257D3831A1AF040886842F'],
+  '8E244': ['4901CEE442ACA9531FF10BFE92D58220945'],
+  '91E09': ['D0708EC4EF6ED88032ED825E9522792792F'],
+  '99996': ['B911567C83CCE17CDF194F314975C57DDF1'],
+  '9BDA6': ['E04F0BACB2E4A26166847185B7A541CEA91'],
+  '9D4E1': ['E23BD5B727046A9E3B4B7DB57BD8D6EE684'],
+  'A2C90': ['1C8C6DEA98958C219F6F2D038C44DC5D362'],
+  'A57AE': ['0FE47084BC8A05F69F3F8083896F8B437B0'],
+  'AA1C7': ['D931CF140BB35A5A16ADEB83A551649C3B9'],
+  'AAF4C': ['61DDCC5E8A2DABEDE0F3B482CD9AEA9434D'],
+  'AB87D': ['24BDC7452E55738DEB5F868E1F16DEA5ACE'],
+  'AC9A2': ['CD0A01D65C21A3393E1373A6CEE8348D14A'],
+  'AF897': ['8B1797B72ACFFF9595A5A2A373EC3D9106D'],
+  'B0399': ['D2029F64D445BD131FFAA399A42D2F8E7DC'],
+  'B1B37': ['73A05C0ED0176787A4F1574FF0075F7521E'],
+  'B1F45': ['ED147D6803AC1A2A91BDEA1FAB603F910A5'],
+  'B2E98': ['AD6F6EB8508DD6A14CFA704BAD7F05F6FB1'],
+  'B3932': ['535E8072DA5632841244F7FE1EF9B1C604C'],
+  'B44DD': ['A1DADD351948FCACE1856ED97366E679239'],
+  'B7A87': ['5FC1EA228B9061041B7CEC4BD3C52AB3CE3'],
+  'B7C40': ['B9C66BC88D38A59E554C639D743E77F1B65'],
+  'BA036': ['D99C58A0BD2EBBC14D62E12ABBABCCA3143'],
+  'BA9AD': ['B7296FDC28911356E3875BF4129AACBC36D'],
+  'BCEF7': ['A046258082993759BADE995B3AE8BEE26C7'],
+  'C0B13': ['7FE2D792459F26FF763CCE44574A5B5AB03'],
+  'C4FD0': ['E4ABA8C507185B559B4583B727DF0455514'],
+  'C6026': ['6A8ADAD2F8EE67D793B4FD3FD0FFD73CC61'],
+  'C6922': ['B6BA9E0939583F973BC1682493351AD4FE8'],
+  'C984A': ['ED014AEC7623A54F0591DA07A85FD4B762D'],
+  'CAD1E': ['50462AA441A3BC3F4A13FCCCD209DCCFBD7'],
+  'CB45C': ['671CBC500627EA424EEA5F91996221B5935'],
+  'CC9F8': ['16A42431CF852CDC7A3FAD42A6F65FFCE24'],
+  'CD9D6': ['B7ECC9BC605FC688342F2A8B2B179B4881B'],
+  'CDF54': ['7ED4C64E6994AF35CFCD69C4204C9227A97'],
+  'CE71D': ['F295CE7ACBA647AED4368015ACE34BF2676'],
+  'CEDF4': ['1FCCB586DC39E1CE34BB482F0AFE557B49F'],
+  'D033E': ['22AE348AEB5660FC2140AEC35850C4DA997'],
+  'D318F': ['44739DCED66793B1A603028133A76AE680E'],
+  'D869D': ['B7FE62FB07C25A0403ECAEA55031744B5FB'],
+  'D87B8': ['54F0D9E4D34BB58A478EA07F9DFA64EEC35'],
+  'D8CD1': ['0B920DCBDB5163CA0185E402357BC27C265'],
+  'DAD1E': ['5F4B84D0ADA3F2AB71A4E434EFE0EF04020'],
+  'DCA0A': ['5AFD0B457EE36F8862369C7FDA58C162B25'],
+  'DD5FE': ['F9C1C1DA1394D6D34B248C51BE2AD740840'],
+  'DDDD5': ['D7B474D2C78EBBB833789C4BFD721EDF4BF'],
+  'DE61F': ['824AB25050E5870F29E6E064B4B702BA1E4'],
+  'DECA8': ['4CA93E6BC33DFEAA0C877473001DF29E5D8'],
+  'E38AD': ['214943DAAD1D64C102FAEC29DE4AFE9DA3D'],
+  'E3CD9': ['F6469FC3E1ACFB9F2BDBFC5A3D2BBB8E2AD'],
+  'E3FD0': ['62AEFA7C4990C5973E2AC96DEB50C33CDA4'],
+  'E4D0C': ['C7056A6DE06CACA658C483985D102151EF5'],
+  'E5E9F': ['A1BA31ECD1AE84F75CAAA474F3A663F05F4'],
+  'E68E1': ['1BE8B70E435C65AEF8BA9798FF7775C361E'],
+  'E8126': ['C64C3486E84081FFFAD6A0AB22D4267BB41'],
+  'EC408': ['3CA341DA86269204F1FDEBBA909F0F5699E'],
+  'ED1B1': ['BB9F421F924E86607A9ECAF35DF4CD9C63F'],
+  'ED9D3': ['D832AF899035363A69FD53CD3BE8F71501C'],
+  'EE8D8': ['728F435FD550F83852AABAB5234CE1DA528'],
+  'F2847': ['B1BD9624F927E979C1846D9FE17DD65F518'],
+  'F3215': ['7A45887E4FE5ADC0B5198F7EC4920A526D7'],
+  'F3D11': ['F4AD2A240E00B463518A8F136AC2D607047'],
+  'F7C3B': ['C1D808E04732ADF679965CCC34CA7AE3441'],
+  'F872D': ['FF066FDAED1B9002EEC00980AACBA4DE4B7'],
+  'F8A48': ['E5BA1072379DAFE561AC15D1A90C0690985'],
+};
@@ -0,0 +1,29 @@
+import { checkNewPassword, isBreachedPassword, measurePasswordStrength, validatePassword } from './password';
+
+test('scores longer, more varied passwords higher', () => {
+  const weak = measurePasswordStrength('abcdefgh');
+  const strong = measurePasswordStrength('t7#Kq!vR2m@Lx9');
+
+  expect(weak.score).toBeLessThan(2);
+  expect(weak.hints).toContain('Mix in uppercase letters');
+  expect(strong.score).toBe(4);
+});
+
+test('discounts runs and sequences', () => {
+  expect(measurePasswordStrength('Aaaaaaaaaa1').entropyBits).toBeLessThan(
+    measurePasswordStrength('Akq7rmwxbz1').entropyBits
+  );
+  expect(validatePassword('Abcdefgh12')).toMatch(/too easy to guess/);
+});
+
+test('rejects passwords built from the email address', () => {
+  expect(validatePassword('Jordan.Lee2024', { email: 'jordan.lee@example.com' })).toMatch(/email address/);
+  expect(validatePassword('Brightlee2024x', { email: 'lee@example.com' })).toMatch(/email address/);
+  expect(validatePassword('Tq8vRm2wXk', { email: 'jordan.lee@example.com' })).toBeUndefined();
+});
+
+test('flags passwords from the bundled breach list', async () => {
+  await expect(isBreachedPassword('Password1')).resolves.toBe(true);
+  await expect(checkNewPassword('Summer2024')).resolves.toMatch(/data breach/);
+  await expect(checkNewPassword('Tq8vRm2wXk')).resolves.toBeUndefined();
+});
@@ -0,0 +1,172 @@
+import { breachedPasswordRanges } from './breachedPasswords';
+
+// Password rules shared by sign-up and password reset, so a new password is
+// held to the same bar wherever it is chosen.
+
+export const PASSWORD_MIN_LENGTH = 8;
+
+export type PasswordScore = 0 | 1 | 2 | 3 | 4;
+
+export const passwordScoreLabels: Record<PasswordScore, string> = {
+  0: 'Very weak',
+  1: 'Weak',
+  2: 'Fair',
+  3: 'Strong',
+  4: 'Very strong',
+};
+
+// Anything scoring below this is rejected, even when it passes the other rules.
+const MIN_ACCEPTED_SCORE: PasswordScore = 2;
+
+// Upper bounds, in bits, of scores 0 to 3.
+const SCORE_THRESHOLDS = [28, 36, 60, 80];
+
+export interface PasswordStrength {
+  score: PasswordScore;
+  entropyBits: number;
+  // What would make the password stronger, most useful first.
+  hints: string[];
+}
+
+interface PasswordContext {
+  email?: string;
+}
+
+const characterClasses = [
+  { pattern: /[a-z]/, size: 26, hint: 'Add lowercase letters' },
+  { pattern: /[A-Z]/, size: 26, hint: 'Mix in uppercase letters' },
+  { pattern: /\d/, size: 10, hint: 'Add a number' },
+  { pattern: /[^a-zA-Z\d\s]/, size: 33, hint: 'Add a symbol such as ! or #' },
+];
+
+/**
+ * Parts of the email address a password should not contain: the local part
+ * (without any +tag) and its longer pieces, e.g. "alex.johnson" and "johnson".
+ */
+const emailTerms = (email?: string) => {
+  const local = email?.split('@')[0].split('+')[0].toLowerCase() ?? '';
+  const terms = [local, ...local.split(/[._-]/).filter(piece => piece.length >= 4)];
+  return terms.filter(term => term.length >= 3);
+};
+
+export const containsEmail = (password: string, email?: string) => {
+  const lower = password.toLowerCase();
+  return emailTerms(email).some(term => lower.includes(term));
+};
+
+/**
+ * Counts characters that continue a run ("aaa") or a sequence ("abc", "321").
+ * They add next to nothing for an attacker who tries patterns first.
+ */
+const countPredictable = (password: string) => {
+  let predictable = 0;
+  for (let i = 2; i < password.length; i++) {
+    const step = password.charCodeAt(i) - password.charCodeAt(i - 1);
+    const previousStep = password.charCodeAt(i - 1) - password.charCodeAt(i - 2);
+    if (step === previousStep && Math.abs(step) <= 1) {
+      predictable++;
+    }
+  }
+  return predictable;
+};
+
+/**
+ * Estimates how guessable a password is from its length and the character
+ * classes it draws on, discounting runs and sequences. A rough guide for the
+ * meter rather than a guarantee; the breached-password check catches the
+ * common passwords that score well on paper.
+ */
+export const measurePasswordStrength = (password: string, { email }: PasswordContext = {}): PasswordStrength => {
+  const usedClasses = characterClasses.filter(({ pattern }) => pattern.test(password));
+  const poolSize = usedClasses.reduce((sum, { size }) => sum + size, 0) || 1;
+  const predictable = countPredictable(password);
+  // Predictable characters count as a single bit each.
+  const entropyBits = Math.round((password.length - predictable) * Math.log2(poolSize) + predictable);
+
+  const usesEmail = containsEmail(password, email);
+  let score = SCORE_THRESHOLDS.findIndex(threshold => entropyBits < threshold);
+  if (score === -1) score = 4;
+  if (usesEmail) score = 0;
+
+  const hints: string[] = [];
+  if (usesEmail) {
+    hints.push('Leave out your email address');
+  }
+  if (password.length < 12) {
+    hints.push('Use 12 or more characters');
+  }
+  characterClasses.forEach(({ pattern, hint }) => {
+    if (!pattern.test(password)) hints.push(hint);
+  });
+  if (predictable > 0) {
+    hints.push('Avoid runs and sequences like "aaa" or "123"');
+  }
+
+  return { score: score as PasswordScore, entropyBits, hints };
+};
+
+/**
+ * Returns what is wrong with `password`, or undefined when it meets the rules.
+ * Pass the account's email so passwords built from it are turned down.
+ */
+export const validatePassword = (password: string, { email }: PasswordContext = {}): string | undefined => {
+  if (!password) {
+    return 'Password is required';
+  }
+  if (password.length < PASSWORD_MIN_LENGTH) {
+    return `Password must be at least ${PASSWORD_MIN_LENGTH} characters long`;
+  }
+  if (!/(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/.test(password)) {
+    return 'Password must contain at least one uppercase letter, one lowercase letter, and one number';
+  }
+  if (containsEmail(password, email)) {
+    return 'Password must not contain your email address';
+  }
+  if (measurePasswordStrength(password).score < MIN_ACCEPTED_SCORE) {
+    return 'Password is too easy to guess. Make it longer or less predictable';
+  }
+  return undefined;
+};
+
+/**
+ * Fetches the hash suffixes in one k-anonymity range: every breached password
+ * whose SHA-1 starts with `prefix` (five hex characters). Only the prefix
+ * leaves the caller, never the password or its full hash.
+ */
+export type BreachedRangeLookup = (prefix: string) => Promise<string[]>;
+
+let lookupBreachedRange: BreachedRangeLookup = async prefix => breachedPasswordRanges[prefix] ?? [];
+
+/**
+ * Swaps the bundled list for another range source, e.g. a backend proxy to a
+ * breach corpus.
+ */
+export const setBreachedRangeLookup = (lookup: BreachedRangeLookup) => {
+  lookupBreachedRange = lookup;
+};
+
+const sha1Hex = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+export const isBreachedPassword = async (password: string) => {
+  const hash = await sha1Hex(password);
+  const suffixes = await lookupBreachedRange(hash.slice(0, 5));
+  return suffixes.includes(hash.slice(5));
+};
+
+/**
+ * validatePassword() plus the breached-password check, for forms to run on
+ * submit. Resolves to the problem to show, or undefined.
+ */
+export const checkNewPassword = async (password: string, context: PasswordContext = {}) => {
+  const problem = validatePassword(password, context);
+  if (problem) {
+    return problem;
+  }
+  if (await isBreachedPassword(password)) {
+    return 'This password has appeared in a data breach. Please choose a different one';
+  }
+  return undefined;
+};
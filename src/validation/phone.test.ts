@@ -0,0 +1,47 @@
+import {
+  formatNationalNumber,
+  formatPhoneNumber,
+  isValidE164,
+  isValidPhoneNumber,
+  parseInternationalNumber,
+  phoneLengthMessage,
+  toE164,
+} from './phone';
+
+test('lays out numbers for their country as they are typed', () => {
+  expect(formatPhoneNumber('415', 'US')).toBe('(415');
+  expect(formatPhoneNumber('4155550132', 'US')).toBe('(415) 555-0132');
+  expect(formatPhoneNumber('98765432', 'IN')).toBe('98765 432');
+  // The trunk prefix dialled at home is dropped, except where numbers may start with it.
+  expect(formatPhoneNumber('07911 123456', 'GB')).toBe('7911 123456');
+  expect(formatPhoneNumber('0612345678', 'IT')).toBe('061 234 5678');
+});
+
+test('checks numbers against the country plan', () => {
+  expect(isValidPhoneNumber('98765 43210', 'IN')).toBe(true);
+  expect(isValidPhoneNumber('98765 4321', 'IN')).toBe(false);
+  expect(isValidPhoneNumber('(415) 155-0132', 'US')).toBe(false);
+  // Territories sharing a calling code need their own leading digits.
+  expect(isValidPhoneNumber('416 555 0132', 'CA')).toBe(true);
+  expect(isValidPhoneNumber('415 555 0132', 'CA')).toBe(false);
+  expect(phoneLengthMessage('IN')).toBe('Phone numbers in India have 10 digits');
+  expect(phoneLengthMessage('GB')).toBe('Phone numbers in United Kingdom have 9 or 10 digits');
+  expect(phoneLengthMessage('DE')).toBe('Phone numbers in Germany have 6 to 13 digits');
+});
+
+test('converts to and from E.164', () => {
+  expect(toE164('07911 123456', 'GB')).toBe('+447911123456');
+  expect(formatNationalNumber('+447911123456', 'GB')).toBe('7911 123456');
+  expect(isValidE164('+447911123456', 'GB')).toBe(true);
+  expect(isValidE164('+4407911123456', 'GB')).toBe(false);
+  expect(isValidE164('+447911123456', 'IN')).toBe(false);
+});
+
+test('finds the country of an international number', () => {
+  expect(parseInternationalNumber('+4')).toBeUndefined();
+  expect(parseInternationalNumber('+44 20 7946 0958')).toEqual({ countryCode: 'GB', nationalNumber: '2079460958' });
+  expect(parseInternationalNumber('+44 7911 123456')).toMatchObject({ countryCode: 'GG' });
+  expect(parseInternationalNumber('+1 416 555 0132', 'US')).toMatchObject({ countryCode: 'CA' });
+  expect(parseInternationalNumber('+1 202 555 0132', 'CA')).toMatchObject({ countryCode: 'US' });
+  expect(parseInternationalNumber('+1', 'CA')).toMatchObject({ countryCode: 'CA' });
+});
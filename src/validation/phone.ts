@@ -0,0 +1,143 @@
+import { PhoneCountry, phoneCountries } from './phoneCountries';
+
+// Phone numbers by country: formatting as they are typed, checks against each
+// numbering plan, and the E.164 form ("+919876543210") that is stored.
+
+export type { PhoneCountry };
+
+const byCode = new Map(phoneCountries.map(country => [country.code, country]));
+
+export const findPhoneCountry = (code: string) => byCode.get(code);
+
+// The flag emoji for an ISO 3166-1 alpha-2 code, from its two regional indicator letters.
+export const countryFlag = (code: string) =>
+  String.fromCodePoint(...Array.from(code.toUpperCase(), letter => 0x1f1e6 + letter.charCodeAt(0) - 65));
+
+// The digit dialled before a national number inside the country, which E.164 leaves out.
+const trunkPrefix = ({ dialCode }: PhoneCountry) => (dialCode === '1' ? '1' : dialCode === '7' ? '8' : '0');
+
+// Plans whose numbers can themselves begin with the trunk digit; there it only
+// counts as the prefix when the number is too long with it.
+const numbersMayStartWithTrunkDigit = new Set(['CG', 'CI', 'GA', 'IT', 'KZ', 'RU', 'SM', 'VA']);
+
+const digitsOf = (input: string) => input.replace(/\D/g, '');
+
+// The national significant number in `input`: its digits without a trunk prefix.
+export const nationalNumber = (input: string, country: PhoneCountry) => {
+  const digits = digitsOf(input);
+  if (!digits.startsWith(trunkPrefix(country))) {
+    return digits;
+  }
+  const isPrefix =
+    !numbersMayStartWithTrunkDigit.has(country.code) || digits.length > Math.max(...country.lengths);
+  return isPrefix ? digits.slice(1) : digits;
+};
+
+// Plans without a layout of their own are grouped 3-3-4, with any extra digits after.
+const DEFAULT_FORMAT = '### ### ####';
+
+/**
+ * Lays out a national number for `countryCode` as far as it has been typed,
+ * e.g. "(415) 555-01" for the United States. Separators are only added once a
+ * digit follows them, so deleting back through the number works as expected.
+ */
+export const formatPhoneNumber = (input: string, countryCode: string) => {
+  const country = findPhoneCountry(countryCode);
+  if (!country) {
+    return digitsOf(input);
+  }
+  const digits = nationalNumber(input, country);
+  let formatted = '';
+  let next = 0;
+  for (const char of country.format ?? DEFAULT_FORMAT) {
+    if (next >= digits.length) {
+      break;
+    }
+    formatted += char === '#' ? digits[next++] : char;
+  }
+  return formatted + digits.slice(next);
+};
+
+const matchesStart = (pattern: string, digits: string) => new RegExp(`^(?:${pattern})`).test(digits);
+
+export const isPossiblePhoneNumber = (input: string, countryCode: string) => {
+  const country = findPhoneCountry(countryCode);
+  return !!country && country.lengths.includes(nationalNumber(input, country).length);
+};
+
+// Whether `input` is a complete number in the country's plan: the right length
+// and, where the dataset knows them, the right pattern and leading digits.
+export const isValidPhoneNumber = (input: string, countryCode: string) => {
+  const country = findPhoneCountry(countryCode);
+  if (!country || !isPossiblePhoneNumber(input, countryCode)) {
+    return false;
+  }
+  const digits = nationalNumber(input, country);
+  return (
+    (!country.pattern || new RegExp(`^(?:${country.pattern})$`).test(digits)) &&
+    (!country.leadingDigits || matchesStart(country.leadingDigits, digits))
+  );
+};
+
+const describeLengths = (lengths: number[]) => {
+  const min = Math.min(...lengths);
+  const max = Math.max(...lengths);
+  if (min === max) return `${min}`;
+  if (lengths.length === max - min + 1 && lengths.length > 2) return `${min} to ${max}`;
+  return `${lengths.slice(0, -1).join(', ')} or ${max}`;
+};
+
+// E.g. "Phone numbers in India have 10 digits".
+export const phoneLengthMessage = (countryCode: string) => {
+  const country = findPhoneCountry(countryCode);
+  return country
+    ? `Phone numbers in ${country.name} have ${describeLengths(country.lengths)} digits`
+    : 'Please choose the country of your phone number';
+};
+
+export const toE164 = (input: string, countryCode: string) => {
+  const country = findPhoneCountry(countryCode);
+  return country ? `+${country.dialCode}${nationalNumber(input, country)}` : '';
+};
+
+// A stored E.164 number as its national number, laid out for display.
+export const formatNationalNumber = (e164: string, countryCode: string) => {
+  const prefix = `+${findPhoneCountry(countryCode)?.dialCode}`;
+  return formatPhoneNumber(e164.startsWith(prefix) ? e164.slice(prefix.length) : e164, countryCode);
+};
+
+/**
+ * Splits an international number ("+44 7911 123456") into its country and
+ * national number. Calling codes are prefix-free, so the first one matched is
+ * the answer; where several countries share it, their leading digits decide,
+ * then `preferredCountry` when it is one of them, then the main country.
+ * Returns undefined until a whole calling code has been typed.
+ */
+export const parseInternationalNumber = (input: string, preferredCountry?: string) => {
+  const digits = digitsOf(input);
+  for (let length = 1; length <= 3; length++) {
+    const dialCode = digits.slice(0, length);
+    const sharing = phoneCountries.filter(country => country.dialCode === dialCode);
+    if (sharing.length === 0) {
+      continue;
+    }
+    const national = digits.slice(length);
+    const country =
+      sharing.find(({ leadingDigits }) => leadingDigits && national && matchesStart(leadingDigits, national)) ??
+      sharing.find(({ code, leadingDigits }) => code === preferredCountry && (!leadingDigits || !national)) ??
+      sharing.find(({ leadingDigits }) => !leadingDigits) ??
+      sharing[0];
+    return { countryCode: country.code, nationalNumber: national };
+  }
+  return undefined;
+};
+
+// Whether `e164` is a valid number of `countryCode`, for checking stored numbers.
+export const isValidE164 = (e164: string, countryCode: string) => {
+  const country = findPhoneCountry(countryCode);
+  if (!country || !/^\+\d+$/.test(e164) || !e164.startsWith(`+${country.dialCode}`)) {
+    return false;
+  }
+  const national = e164.slice(country.dialCode.length + 1);
+  return nationalNumber(national, country) === national && isValidPhoneNumber(national, countryCode);
+};
@@ -0,0 +1,377 @@
+// Countries and territories with their ITU-T E.164 calling codes, after the
+// ITU list of assigned codes and the national numbering plans it links to.
+// Lengths count the national significant number: what follows the calling code,
+// without a trunk prefix such as the 0 dialled inside the country.
+
+export interface PhoneCountry {
+  // ISO 3166-1 alpha-2 (XK for Kosovo).
+  code: string;
+  name: string;
+  // The calling code, without the +.
+  dialCode: string;
+  lengths: number[];
+  // As-you-type layout of the national number, one # per digit.
+  format?: string;
+  // What a complete national number must match, where the plan is strict enough to check.
+  pattern?: string;
+  // Where several countries share a calling code: the leading digits that pick
+  // this one. The country without them is the one the code normally means.
+  leadingDigits?: string;
+}
+
+const range = (min: number, max: number) => Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+// The North American Numbering Plan: a three-digit area code and a seven-digit
+// number, neither starting with 0 or 1.
+const NANP = '[2-9]\\d{2}[2-9]\\d{6}';
+
+const nanp = (code: string, name: string, areaCodes: string): PhoneCountry => ({
+  code,
+  name,
+  dialCode: '1',
+  lengths: [10],
+  format: '(###) ###-####',
+  pattern: NANP,
+  leadingDigits: areaCodes,
+});
+
+const CANADIAN_AREA_CODES =
+  '204|226|236|249|250|257|263|289|306|343|354|365|367|368|382|403|416|418|428|431|437|438|450|460|468|474|506|' +
+  '514|519|548|579|581|584|587|604|613|639|647|672|683|705|709|742|753|778|780|782|807|819|825|867|873|879|902|905';
+
+export const phoneCountries: PhoneCountry[] = [
+  { code: 'AF', name: 'Afghanistan', dialCode: '93', lengths: [9], format: '## ### ####' },
+  { code: 'AX', name: 'Åland Islands', dialCode: '358', lengths: range(5, 12), leadingDigits: '18' },
+  { code: 'AL', name: 'Albania', dialCode: '355', lengths: range(6, 9) },
+  { code: 'DZ', name: 'Algeria', dialCode: '213', lengths: [8, 9] },
+  nanp('AS', 'American Samoa', '684'),
+  { code: 'AD', name: 'Andorra', dialCode: '376', lengths: [6, 8, 9] },
+  { code: 'AO', name: 'Angola', dialCode: '244', lengths: [9], format: '### ### ###' },
+  nanp('AI', 'Anguilla', '264'),
+  nanp('AG', 'Antigua & Barbuda', '268'),
+  { code: 'AR', name: 'Argentina', dialCode: '54', lengths: [10, 11] },
+  { code: 'AM', name: 'Armenia', dialCode: '374', lengths: [8], format: '## ######' },
+  { code: 'AW', name: 'Aruba', dialCode: '297', lengths: [7], format: '### ####' },
+  {
+    code: 'AU',
+    name: 'Australia',
+    dialCode: '61',
+    lengths: [9],
+    format: '### ### ###',
+    pattern: '[2-478]\\d{8}',
+  },
+  { code: 'AT', name: 'Austria', dialCode: '43', lengths: range(4, 13) },
+  { code: 'AZ', name: 'Azerbaijan', dialCode: '994', lengths: [9], format: '## ### ## ##' },
+  nanp('BS', 'Bahamas', '242'),
+  { code: 'BH', name: 'Bahrain', dialCode: '973', lengths: [8], format: '#### ####' },
+  { code: 'BD', name: 'Bangladesh', dialCode: '880', lengths: range(6, 10) },
+  nanp('BB', 'Barbados', '246'),
+  { code: 'BY', name: 'Belarus', dialCode: '375', lengths: [9, 10] },
+  { code: 'BE', name: 'Belgium', dialCode: '32', lengths: [8, 9], format: '### ## ## ##' },
+  { code: 'BZ', name: 'Belize', dialCode: '501', lengths: [7], format: '###-####' },
+  { code: 'BJ', name: 'Benin', dialCode: '229', lengths: [8, 10] },
+  nanp('BM', 'Bermuda', '441'),
+  { code: 'BT', name: 'Bhutan', dialCode: '975', lengths: [7, 8] },
+  { code: 'BO', name: 'Bolivia', dialCode: '591', lengths: [8] },
+  { code: 'BA', name: 'Bosnia & Herzegovina', dialCode: '387', lengths: [8, 9] },
+  { code: 'BW', name: 'Botswana', dialCode: '267', lengths: [7, 8] },
+  {
+    code: 'BR',
+    name: 'Brazil',
+    dialCode: '55',
+    lengths: [10, 11],
+    format: '## #####-####',
+    pattern: '[1-9]{2}\\d{8,9}',
+  },
+  { code: 'IO', name: 'British Indian Ocean Territory', dialCode: '246', lengths: [7] },
+  nanp('VG', 'British Virgin Islands', '284'),
+  { code: 'BN', name: 'Brunei', dialCode: '673', lengths: [7], format: '### ####' },
+  { code: 'BG', name: 'Bulgaria', dialCode: '359', lengths: range(6, 9) },
+  { code: 'BF', name: 'Burkina Faso', dialCode: '226', lengths: [8], format: '## ## ## ##' },
+  { code: 'BI', name: 'Burundi', dialCode: '257', lengths: [8], format: '## ## ## ##' },
+  { code: 'KH', name: 'Cambodia', dialCode: '855', lengths: [8, 9] },
+  { code: 'CM', name: 'Cameroon', dialCode: '237', lengths: [9] },
+  nanp('CA', 'Canada', CANADIAN_AREA_CODES),
+  { code: 'CV', name: 'Cape Verde', dialCode: '238', lengths: [7], format: '### ## ##' },
+  { code: 'BQ', name: 'Caribbean Netherlands', dialCode: '599', lengths: [7], leadingDigits: '[347]' },
+  nanp('KY', 'Cayman Islands', '345'),
+  { code: 'CF', name: 'Central African Republic', dialCode: '236', lengths: [8], format: '## ## ## ##' },
+  { code: 'TD', name: 'Chad', dialCode: '235', lengths: [8], format: '## ## ## ##' },
+  { code: 'CL', name: 'Chile', dialCode: '56', lengths: [9], format: '# #### ####' },
+  { code: 'CN', name: 'China', dialCode: '86', lengths: range(7, 12) },
+  { code: 'CX', name: 'Christmas Island', dialCode: '61', lengths: [9], leadingDigits: '89164' },
+  { code: 'CC', name: 'Cocos (Keeling) Islands', dialCode: '61', lengths: [9], leadingDigits: '89162' },
+  { code: 'CO', name: 'Colombia', dialCode: '57', lengths: [10], format: '### #######' },
+  { code: 'KM', name: 'Comoros', dialCode: '269', lengths: [7], format: '### ## ##' },
+  { code: 'CG', name: 'Congo - Brazzaville', dialCode: '242', lengths: [9] },
+  { code: 'CD', name: 'Congo - Kinshasa', dialCode: '243', lengths: range(7, 9) },
+  { code: 'CK', name: 'Cook Islands', dialCode: '682', lengths: [5] },
+  { code: 'CR', name: 'Costa Rica', dialCode: '506', lengths: [8], format: '####-####' },
+  { code: 'CI', name: 'Côte d’Ivoire', dialCode: '225', lengths: [10], format: '## ## ## ####' },
+  { code: 'HR', name: 'Croatia', dialCode: '385', lengths: range(6, 9) },
+  { code: 'CU', name: 'Cuba', dialCode: '53', lengths: range(6, 8) },
+  { code: 'CW', name: 'Curaçao', dialCode: '599', lengths: [7, 8] },
+  { code: 'CY', name: 'Cyprus', dialCode: '357', lengths: [8], format: '## ######' },
+  { code: 'CZ', name: 'Czechia', dialCode: '420', lengths: [9], format: '### ### ###' },
+  { code: 'DK', name: 'Denmark', dialCode: '45', lengths: [8], format: '## ## ## ##' },
+  { code: 'DJ', name: 'Djibouti', dialCode: '253', lengths: [8], format: '## ## ## ##' },
+  nanp('DM', 'Dominica', '767'),
+  nanp('DO', 'Dominican Republic', '809|829|849'),
+  { code: 'EC', name: 'Ecuador', dialCode: '593', lengths: [8, 9] },
+  { code: 'EG', name: 'Egypt', dialCode: '20', lengths: range(8, 10) },
+  { code: 'SV', name: 'El Salvador', dialCode: '503', lengths: [7, 8, 11] },
+  { code: 'GQ', name: 'Equatorial Guinea', dialCode: '240', lengths: [9], format: '### ### ###' },
+  { code: 'ER', name: 'Eritrea', dialCode: '291', lengths: [7], format: '# ### ###' },
+  { code: 'EE', name: 'Estonia', dialCode: '372', lengths: [7, 8] },
+  { code: 'SZ', name: 'Eswatini', dialCode: '268', lengths: [8], format: '#### ####' },
+  { code: 'ET', name: 'Ethiopia', dialCode: '251', lengths: [9], format: '## ### ####' },
+  { code: 'FK', name: 'Falkland Islands', dialCode: '500', lengths: [5] },
+  { code: 'FO', name: 'Faroe Islands', dialCode: '298', lengths: [6], format: '######' },
+  { code: 'FJ', name: 'Fiji', dialCode: '679', lengths: [7], format: '### ####' },
+  { code: 'FI', name: 'Finland', dialCode: '358', lengths: range(5, 12) },
+  {
+    code: 'FR',
+    name: 'France',
+    dialCode: '33',
+    lengths: [9],
+    format: '# ## ## ## ##',
+    pattern: '[1-9]\\d{8}',
+  },
+  { code: 'GF', name: 'French Guiana', dialCode: '594', lengths: [9], format: '### ## ## ##' },
+  { code: 'PF', name: 'French Polynesia', dialCode: '689', lengths: [8], format: '## ## ## ##' },
+  { code: 'GA', name: 'Gabon', dialCode: '241', lengths: [7, 8] },
+  { code: 'GM', name: 'Gambia', dialCode: '220', lengths: [7], format: '### ####' },
+  { code: 'GE', name: 'Georgia', dialCode: '995', lengths: [9], format: '### ### ###' },
+  { code: 'DE', name: 'Germany', dialCode: '49', lengths: range(6, 13) },
+  { code: 'GH', name: 'Ghana', dialCode: '233', lengths: [9], format: '## ### ####' },
+  { code: 'GI', name: 'Gibraltar', dialCode: '350', lengths: [8], format: '### #####' },
+  { code: 'GR', name: 'Greece', dialCode: '30', lengths: [10], format: '### ### ####' },
+  { code: 'GL', name: 'Greenland', dialCode: '299', lengths: [6], format: '## ## ##' },
+  nanp('GD', 'Grenada', '473'),
+  { code: 'GP', name: 'Guadeloupe', dialCode: '590', lengths: [9], format: '### ## ## ##' },
+  nanp('GU', 'Guam', '671'),
+  { code: 'GT', name: 'Guatemala', dialCode: '502', lengths: [8], format: '#### ####' },
+  { code: 'GG', name: 'Guernsey', dialCode: '44', lengths: [10], leadingDigits: '1481|7781|7839|7911' },
+  { code: 'GN', name: 'Guinea', dialCode: '224', lengths: [8, 9] },
+  { code: 'GW', name: 'Guinea-Bissau', dialCode: '245', lengths: [7, 9] },
+  { code: 'GY', name: 'Guyana', dialCode: '592', lengths: [7], format: '### ####' },
+  { code: 'HT', name: 'Haiti', dialCode: '509', lengths: [8], format: '## ## ####' },
+  { code: 'HN', name: 'Honduras', dialCode: '504', lengths: [8], format: '####-####' },
+  { code: 'HK', name: 'Hong Kong', dialCode: '852', lengths: [8], format: '#### ####' },
+  { code: 'HU', name: 'Hungary', dialCode: '36', lengths: [8, 9] },
+  { code: 'IS', name: 'Iceland', dialCode: '354', lengths: [7, 9] },
+  {
+    code: 'IN',
+    name: 'India',
+    dialCode: '91',
+    lengths: [10],
+    format: '##### #####',
+    pattern: '[1-9]\\d{9}',
+  },
+  { code: 'ID', name: 'Indonesia', dialCode: '62', lengths: range(7, 12) },
+  { code: 'IR', name: 'Iran', dialCode: '98', lengths: [10], format: '### ### ####' },
+  { code: 'IQ', name: 'Iraq', dialCode: '964', lengths: range(8, 10) },
+  { code: 'IE', name: 'Ireland', dialCode: '353', lengths: range(7, 10) },
+  { code: 'IM', name: 'Isle of Man', dialCode: '44', lengths: [10], leadingDigits: '1624|7524|7624|7924' },
+  { code: 'IL', name: 'Israel', dialCode: '972', lengths: [8, 9] },
+  { code: 'IT', name: 'Italy', dialCode: '39', lengths: range(6, 11) },
+  nanp('JM', 'Jamaica', '658|876'),
+  {
+    code: 'JP',
+    name: 'Japan',
+    dialCode: '81',
+    lengths: [9, 10],
+    format: '##-####-####',
+    pattern: '[1-9]\\d{8,9}',
+  },
+  { code: 'JE', name: 'Jersey', dialCode: '44', lengths: [10], leadingDigits: '1534|7509|7700|7797|7829|7937' },
+  { code: 'JO', name: 'Jordan', dialCode: '962', lengths: [8, 9] },
+  {
+    code: 'KZ',
+    name: 'Kazakhstan',
+    dialCode: '7',
+    lengths: [10],
+    format: '### ###-##-##',
+    leadingDigits: '33|7',
+  },
+  { code: 'KE', name: 'Kenya', dialCode: '254', lengths: [9], format: '### ######' },
+  { code: 'KI', name: 'Kiribati', dialCode: '686', lengths: [5, 8] },
+  { code: 'XK', name: 'Kosovo', dialCode: '383', lengths: [8, 9] },
+  { code: 'KW', name: 'Kuwait', dialCode: '965', lengths: [8], format: '#### ####' },
+  { code: 'KG', name: 'Kyrgyzstan', dialCode: '996', lengths: [9], format: '### ### ###' },
+  { code: 'LA', name: 'Laos', dialCode: '856', lengths: range(8, 10) },
+  { code: 'LV', name: 'Latvia', dialCode: '371', lengths: [8], format: '## ### ###' },
+  { code: 'LB', name: 'Lebanon', dialCode: '961', lengths: [7, 8] },
+  { code: 'LS', name: 'Lesotho', dialCode: '266', lengths: [8], format: '#### ####' },
+  { code: 'LR', name: 'Liberia', dialCode: '231', lengths: range(7, 9) },
+  { code: 'LY', name: 'Libya', dialCode: '218', lengths: [9], format: '##-#######' },
+  { code: 'LI', name: 'Liechtenstein', dialCode: '423', lengths: [7, 9] },
+  { code: 'LT', name: 'Lithuania', dialCode: '370', lengths: [8], format: '### #####' },
+  { code: 'LU', name: 'Luxembourg', dialCode: '352', lengths: range(4, 11) },
+  { code: 'MO', name: 'Macao', dialCode: '853', lengths: [8], format: '#### ####' },
+  { code: 'MG', name: 'Madagascar', dialCode: '261', lengths: [9], format: '## ## ### ##' },
+  { code: 'MW', name: 'Malawi', dialCode: '265', lengths: [7, 9] },
+  { code: 'MY', name: 'Malaysia', dialCode: '60', lengths: range(8, 10), format: '##-### ####' },
+  { code: 'MV', name: 'Maldives', dialCode: '960', lengths: [7], format: '###-####' },
+  { code: 'ML', name: 'Mali', dialCode: '223', lengths: [8], format: '## ## ## ##' },
+  { code: 'MT', name: 'Malta', dialCode: '356', lengths: [8], format: '#### ####' },
+  { code: 'MH', name: 'Marshall Islands', dialCode: '692', lengths: [7], format: '###-####' },
+  { code: 'MQ', name: 'Martinique', dialCode: '596', lengths: [9], format: '### ## ## ##' },
+  { code: 'MR', name: 'Mauritania', dialCode: '222', lengths: [8], format: '## ## ## ##' },
+  { code: 'MU', name: 'Mauritius', dialCode: '230', lengths: [7, 8] },
+  {
+    code: 'YT',
+    name: 'Mayotte',
+    dialCode: '262',
+    lengths: [9],
+    format: '### ## ## ##',
+    leadingDigits: '269|639',
+  },
+  { code: 'MX', name: 'Mexico', dialCode: '52', lengths: [10], format: '## #### ####' },
+  { code: 'FM', name: 'Micronesia', dialCode: '691', lengths: [7], format: '### ####' },
+  { code: 'MD', name: 'Moldova', dialCode: '373', lengths: [8], format: '### ## ###' },
+  { code: 'MC', name: 'Monaco', dialCode: '377', lengths: [8, 9] },
+  { code: 'MN', name: 'Mongolia', dialCode: '976', lengths: [8], format: '#### ####' },
+  { code: 'ME', name: 'Montenegro', dialCode: '382', lengths: [8], format: '## ### ###' },
+  nanp('MS', 'Montserrat', '664'),
+  { code: 'MA', name: 'Morocco', dialCode: '212', lengths: [9], format: '###-######' },
+  { code: 'MZ', name: 'Mozambique', dialCode: '258', lengths: [8, 9] },
+  { code: 'MM', name: 'Myanmar', dialCode: '95', lengths: range(7, 10) },
+  { code: 'NA', name: 'Namibia', dialCode: '264', lengths: [8, 9] },
+  { code: 'NR', name: 'Nauru', dialCode: '674', lengths: [7], format: '### ####' },
+  { code: 'NP', name: 'Nepal', dialCode: '977', lengths: [8, 10] },
+  { code: 'NL', name: 'Netherlands', dialCode: '31', lengths: [9], pattern: '[1-9]\\d{8}' },
+  { code: 'NC', name: 'New Caledonia', dialCode: '687', lengths: [6], format: '##.##.##' },
+  { code: 'NZ', name: 'New Zealand', dialCode: '64', lengths: range(8, 10) },
+  { code: 'NI', name: 'Nicaragua', dialCode: '505', lengths: [8], format: '#### ####' },
+  { code: 'NE', name: 'Niger', dialCode: '227', lengths: [8], format: '## ## ## ##' },
+  { code: 'NG', name: 'Nigeria', dialCode: '234', lengths: range(8, 10) },
+  { code: 'NU', name: 'Niue', dialCode: '683', lengths: [4, 7] },
+  { code: 'NF', name: 'Norfolk Island', dialCode: '672', lengths: [6] },
+  { code: 'KP', name: 'North Korea', dialCode: '850', lengths: [8, 10] },
+  { code: 'MK', name: 'North Macedonia', dialCode: '389', lengths: [8], format: '## ### ###' },
+  nanp('MP', 'Northern Mariana Islands', '670'),
+  { code: 'NO', name: 'Norway', dialCode: '47', lengths: [8], format: '### ## ###' },
+  { code: 'OM', name: 'Oman', dialCode: '968', lengths: [8], format: '#### ####' },
+  { code: 'PK', name: 'Pakistan', dialCode: '92', lengths: [9, 10], format: '### #######' },
+  { code: 'PW', name: 'Palau', dialCode: '680', lengths: [7], format: '### ####' },
+  { code: 'PS', name: 'Palestinian Territories', dialCode: '970', lengths: [8, 9] },
+  { code: 'PA', name: 'Panama', dialCode: '507', lengths: [7, 8] },
+  { code: 'PG', name: 'Papua New Guinea', dialCode: '675', lengths: [7, 8] },
+  { code: 'PY', name: 'Paraguay', dialCode: '595', lengths: range(6, 9) },
+  { code: 'PE', name: 'Peru', dialCode: '51', lengths: [8, 9] },
+  { code: 'PH', name: 'Philippines', dialCode: '63', lengths: range(8, 10), format: '### ### ####' },
+  { code: 'PL', name: 'Poland', dialCode: '48', lengths: [9], format: '### ### ###' },
+  { code: 'PT', name: 'Portugal', dialCode: '351', lengths: [9], format: '### ### ###' },
+  nanp('PR', 'Puerto Rico', '787|939'),
+  { code: 'QA', name: 'Qatar', dialCode: '974', lengths: [8], format: '#### ####' },
+  { code: 'RE', name: 'Réunion', dialCode: '262', lengths: [9], format: '### ## ## ##' },
+  { code: 'RO', name: 'Romania', dialCode: '40', lengths: [9], format: '### ### ###' },
+  {
+    code: 'RU',
+    name: 'Russia',
+    dialCode: '7',
+    lengths: [10],
+    format: '### ###-##-##',
+    pattern: '[3489]\\d{9}',
+  },
+  { code: 'RW', name: 'Rwanda', dialCode: '250', lengths: [9], format: '### ### ###' },
+  { code: 'WS', name: 'Samoa', dialCode: '685', lengths: range(5, 7) },
+  { code: 'SM', name: 'San Marino', dialCode: '378', lengths: range(6, 10) },
+  { code: 'ST', name: 'São Tomé & Príncipe', dialCode: '239', lengths: [7], format: '### ####' },
+  { code: 'SA', name: 'Saudi Arabia', dialCode: '966', lengths: [9], format: '## ### ####' },
+  { code: 'SN', name: 'Senegal', dialCode: '221', lengths: [9], format: '## ### ## ##' },
+  { code: 'RS', name: 'Serbia', dialCode: '381', lengths: range(6, 10) },
+  { code: 'SC', name: 'Seychelles', dialCode: '248', lengths: [7], format: '# ### ###' },
+  { code: 'SL', name: 'Sierra Leone', dialCode: '232', lengths: [8], format: '## ######' },
+  {
+    code: 'SG',
+    name: 'Singapore',
+    dialCode: '65',
+    lengths: [8],
+    format: '#### ####',
+    pattern: '[3689]\\d{7}',
+  },
+  nanp('SX', 'Sint Maarten', '721'),
+  { code: 'SK', name: 'Slovakia', dialCode: '421', lengths: [9], format: '### ### ###' },
+  { code: 'SI', name: 'Slovenia', dialCode: '386', lengths: [8], format: '## ### ###' },
+  { code: 'SB', name: 'Solomon Islands', dialCode: '677', lengths: [5, 7] },
+  { code: 'SO', name: 'Somalia', dialCode: '252', lengths: range(6, 9) },
+  { code: 'ZA', name: 'South Africa', dialCode: '27', lengths: [9], format: '## ### ####' },
+  {
+    code: 'KR',
+    name: 'South Korea',
+    dialCode: '82',
+    lengths: range(8, 10),
+    format: '##-####-####',
+    pattern: '[1-9]\\d{7,9}',
+  },
+  { code: 'SS', name: 'South Sudan', dialCode: '211', lengths: [9], format: '### ### ###' },
+  {
+    code: 'ES',
+    name: 'Spain',
+    dialCode: '34',
+    lengths: [9],
+    format: '### ## ## ##',
+    pattern: '[5-9]\\d{8}',
+  },
+  { code: 'LK', name: 'Sri Lanka', dialCode: '94', lengths: [9], format: '## ### ####' },
+  { code: 'BL', name: 'St. Barthélemy', dialCode: '590', lengths: [9], format: '### ## ## ##' },
+  { code: 'SH', name: 'St. Helena', dialCode: '290', lengths: [4, 5] },
+  nanp('KN', 'St. Kitts & Nevis', '869'),
+  nanp('LC', 'St. Lucia', '758'),
+  { code: 'MF', name: 'St. Martin', dialCode: '590', lengths: [9], format: '### ## ## ##' },
+  { code: 'PM', name: 'St. Pierre & Miquelon', dialCode: '508', lengths: [6], format: '## ## ##' },
+  nanp('VC', 'St. Vincent & Grenadines', '784'),
+  { code: 'SD', name: 'Sudan', dialCode: '249', lengths: [9], format: '## ### ####' },
+  { code: 'SR', name: 'Suriname', dialCode: '597', lengths: [6, 7] },
+  { code: 'SJ', name: 'Svalbard & Jan Mayen', dialCode: '47', lengths: [8], leadingDigits: '79' },
+  { code: 'SE', name: 'Sweden', dialCode: '46', lengths: range(7, 10) },
+  {
+    code: 'CH',
+    name: 'Switzerland',
+    dialCode: '41',
+    lengths: [9],
+    format: '## ### ## ##',
+    pattern: '[2-9]\\d{8}',
+  },
+  { code: 'SY', name: 'Syria', dialCode: '963', lengths: [8, 9] },
+  { code: 'TW', name: 'Taiwan', dialCode: '886', lengths: [8, 9] },
+  { code: 'TJ', name: 'Tajikistan', dialCode: '992', lengths: [9], format: '### ## ####' },
+  { code: 'TZ', name: 'Tanzania', dialCode: '255', lengths: [9], format: '### ### ###' },
+  { code: 'TH', name: 'Thailand', dialCode: '66', lengths: [8, 9] },
+  { code: 'TL', name: 'Timor-Leste', dialCode: '670', lengths: [7, 8] },
+  { code: 'TG', name: 'Togo', dialCode: '228', lengths: [8], format: '## ## ## ##' },
+  { code: 'TK', name: 'Tokelau', dialCode: '690', lengths: range(4, 7) },
+  { code: 'TO', name: 'Tonga', dialCode: '676', lengths: [5, 7] },
+  nanp('TT', 'Trinidad & Tobago', '868'),
+  { code: 'TN', name: 'Tunisia', dialCode: '216', lengths: [8], format: '## ### ###' },
+  { code: 'TR', name: 'Türkiye', dialCode: '90', lengths: [10], format: '### ### ## ##' },
+  { code: 'TM', name: 'Turkmenistan', dialCode: '993', lengths: [8], format: '## ######' },
+  nanp('TC', 'Turks & Caicos Islands', '649'),
+  { code: 'TV', name: 'Tuvalu', dialCode: '688', lengths: range(5, 7) },
+  nanp('VI', 'U.S. Virgin Islands', '340'),
+  { code: 'UG', name: 'Uganda', dialCode: '256', lengths: [9], format: '### ######' },
+  { code: 'UA', name: 'Ukraine', dialCode: '380', lengths: [9], format: '## ### ## ##' },
+  { code: 'AE', name: 'United Arab Emirates', dialCode: '971', lengths: [8, 9], format: '## ### ####' },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    dialCode: '44',
+    lengths: [9, 10],
+    format: '#### ######',
+    pattern: '[1-9]\\d{8,9}',
+  },
+  { code: 'US', name: 'United States', dialCode: '1', lengths: [10], format: '(###) ###-####', pattern: NANP },
+  { code: 'UY', name: 'Uruguay', dialCode: '598', lengths: [8], format: '#### ####' },
+  { code: 'UZ', name: 'Uzbekistan', dialCode: '998', lengths: [9], format: '## ### ## ##' },
+  { code: 'VU', name: 'Vanuatu', dialCode: '678', lengths: [5, 7] },
+  { code: 'VA', name: 'Vatican City', dialCode: '39', lengths: range(6, 11), leadingDigits: '06698' },
+  { code: 'VE', name: 'Venezuela', dialCode: '58', lengths: [10], format: '###-#######' },
+  { code: 'VN', name: 'Vietnam', dialCode: '84', lengths: [9, 10] },
+  { code: 'WF', name: 'Wallis & Futuna', dialCode: '681', lengths: [6], format: '## ## ##' },
+  { code: 'EH', name: 'Western Sahara', dialCode: '212', lengths: [9], format: '###-######', leadingDigits: '528[89]' },
+  { code: 'YE', name: 'Yemen', dialCode: '967', lengths: range(7, 9) },
+  { code: 'ZM', name: 'Zambia', dialCode: '260', lengths: [9], format: '## #######' },
+  { code: 'ZW', name: 'Zimbabwe', dialCode: '263', lengths: range(5, 10) },
+];